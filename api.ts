@@ -3,8 +3,20 @@ import { PostgeistApp } from "./src/app";
 import { dataService } from "./src/services/data";
 import { scraperService } from "./src/services/scraper";
 import { aiService } from "./src/services/ai";
+import { ideaService, IDEA_STATUSES } from "./src/services/ideas";
+import { analysisHistoryService } from "./src/services/history";
+import { schedulerService } from "./src/services/scheduler";
+import { jobQueue } from "./src/services/queue";
+import { usageService } from "./src/services/usage";
+import { PostgeistAgent } from "./src/agent";
+import { agentSessionService } from "./src/services/agent-sessions";
+import { comparisonService, ComparisonInputError } from "./src/services/comparison";
+import { calendarService, DEFAULT_CALENDAR_DAYS } from "./src/services/calendar";
+import { CalendarUtils, MAX_CALENDAR_DAYS } from "./src/utils/calendar";
+import { TimingAnalytics } from "./src/analytics/timing";
+import { config } from "./src/config";
 import { createLogger } from "./logger";
-import type { UserData, PostIdea, Analysis, Community } from "./src/types";
+import type { UserData, PostIdea, Analysis, Community, IdeaSource, IdeaStatus, QueuedJob } from "./src/types";
 
 const logger = createLogger("PostgeistAPI");
 
@@ -31,6 +43,68 @@ function jsonResponse(data: any, status: number = 200) {
   });
 }
 
+// Helper function to hand a queued job back to the client
+function queuedResponse(job: QueuedJob) {
+  return jsonResponse({ jobId: job.id, type: job.type, username: job.username, status: job.status }, 202);
+}
+
+// Idle connections are closed by the server after 10s, so long streams need a heartbeat
+const SSE_HEARTBEAT_MS = 5000;
+
+const REPLY_MODES = ["reply", "quote", "both"];
+
+// Helper function to stream events as Server-Sent Events. Each event's type becomes
+// the SSE event name and the event itself the data. Errors end the stream with an error event.
+function sseResponse(events: AsyncIterable<Record<string, unknown> & { type: string }>) {
+  const encoder = new TextEncoder();
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let cancelled = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (!cancelled) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+
+      heartbeat = setInterval(() => write(": ping\n\n"), SSE_HEARTBEAT_MS);
+
+      try {
+        for await (const event of events) {
+          // Stops the generator too when the client has gone away
+          if (cancelled) {
+            break;
+          }
+          write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        }
+      } catch (error) {
+        logger.error("Event stream failed", error as Error);
+        const message = error instanceof Error ? error.message : String(error);
+        write(`event: error\ndata: ${JSON.stringify({ type: "error", message })}\n\n`);
+      } finally {
+        clearInterval(heartbeat);
+        if (!cancelled) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      cancelled = true;
+      clearInterval(heartbeat);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      ...corsHeaders(),
+    },
+  });
+}
+
 // Helper function to handle errors
 function errorResponse(message: string, status: number = 500) {
   logger.error(`API Error: ${message}`);
@@ -47,20 +121,7 @@ const routes = {
   // User management
   "GET /api/users": async () => {
     try {
-      const users = await dataService.listUsers();
-      const usersWithStats = await Promise.all(
-        users.map(async (username) => {
-          const userData = await dataService.getUserData(username);
-          return {
-            username,
-            postsCount: userData.posts.length,
-            hasAnalysis: !!userData.analysis,
-            lastUpdated: userData.lastUpdated,
-            customInstructions: !!userData.customInstructions,
-            communities: userData.availableCommunities?.length || 0,
-          };
-        })
-      );
+      const usersWithStats = await dataService.listUserSummaries();
       return jsonResponse(usersWithStats);
     } catch (error) {
       return errorResponse(`Failed to fetch users: ${error}`);
@@ -92,12 +153,26 @@ const routes = {
   // Twitter scraping
   "POST /api/scrape/:username": async (request: Request, params: Record<string, string>) => {
     try {
-      const posts = await scraperService.fetchPosts(params.username);
-      return jsonResponse({
-        username: params.username,
-        postsCount: posts.length,
-        posts: posts.slice(0, 10), // Return first 10 posts for preview
+      const username = params.username!;
+
+      const job = jobQueue.enqueue("scrape", username, async (report) => {
+        const userData = await dataService.getUserData(username);
+
+        // Reuse the archive when there is one, like fetchPosts
+        if (userData.posts.length === 0) {
+          await scraperService.syncPosts(username, userData, (fetched, limit) => {
+            report((fetched / limit) * 100, `Fetched ${fetched} posts`);
+          });
+        }
+
+        return {
+          username,
+          postsCount: userData.posts.length,
+          posts: userData.posts.slice(0, 10), // Return first 10 posts for preview
+        };
       });
+
+      return queuedResponse(job);
     } catch (error) {
       return errorResponse(`Failed to scrape posts: ${error}`);
     }
@@ -105,11 +180,12 @@ const routes = {
 
   "POST /api/scrape/:username/refresh": async (request: Request, params: Record<string, string>) => {
     try {
-      const posts = await scraperService.refreshPosts(params.username);
+      const result = await scraperService.syncPosts(params.username!);
       return jsonResponse({
         username: params.username,
-        postsCount: posts.length,
-        posts: posts.slice(0, 10),
+        postsCount: result.total,
+        newPosts: result.added,
+        posts: result.posts.slice(0, 10),
       });
     } catch (error) {
       return errorResponse(`Failed to refresh posts: ${error}`);
@@ -119,23 +195,34 @@ const routes = {
   // Analysis
   "POST /api/analyze/:username": async (request: Request, params: Record<string, string>) => {
     try {
-      const userData = await dataService.getUserData(params.username);
+      const username = params.username!;
 
-      // Fetch posts if not available
-      if (userData.posts.length === 0) {
-        userData.posts = await scraperService.fetchPosts(params.username);
-        await dataService.saveUserData(userData);
-      }
+      const job = jobQueue.enqueue("analyze", username, async (report) => {
+        const userData = await dataService.getUserData(username);
 
-      const analysis = await aiService.analyzeUser(params.username, userData.posts);
-      userData.analysis = analysis;
-      await dataService.saveUserData(userData);
+        // Fetch posts if not available
+        if (userData.posts.length === 0) {
+          await scraperService.syncPosts(username, userData, (fetched, limit) => {
+            report((fetched / limit) * 40, `Fetched ${fetched} posts`);
+          });
+        }
 
-      return jsonResponse({
-        username: params.username,
-        analysis,
-        postsAnalyzed: userData.posts.length,
+        report(40, `Analyzing ${Math.min(userData.posts.length, config.app.maxPostsToAnalyze)} posts`);
+        const analysis = await aiService.analyzeUser(username, userData.posts, (completed, chunks) => {
+          report(40 + (completed / chunks) * 50, `Analyzed ${completed} of ${chunks} periods`);
+        });
+
+        report(95, "Saving analysis");
+        await dataService.saveAnalysis(username, analysis);
+
+        return {
+          username,
+          analysis,
+          postsAnalyzed: userData.posts.length,
+        };
       });
+
+      return queuedResponse(job);
     } catch (error) {
       return errorResponse(`Failed to analyze user: ${error}`);
     }
@@ -157,29 +244,54 @@ const routes = {
     }
   },
 
-  // Post generation
-  "POST /api/generate/:username": async (request: Request, params: Record<string, string>) => {
+  "GET /api/analysis/:username/history": async (request: Request, params: Record<string, string>) => {
     try {
-      const body = await request.json().catch(() => ({}));
-      const count = body.count || 10;
+      const snapshots = await analysisHistoryService.list(params.username!);
+      return jsonResponse({ username: params.username, snapshots });
+    } catch (error) {
+      return errorResponse(`Failed to fetch analysis history: ${error}`);
+    }
+  },
 
-      const userData = await dataService.getUserData(params.username);
-      if (!userData.analysis) {
-        return errorResponse("No analysis found. Please analyze the user first.", 400);
+  "GET /api/analysis/:username/diff": async (request: Request, params: Record<string, string>) => {
+    try {
+      const url = new URL(request.url);
+      const history = await analysisHistoryService.list(params.username!);
+      const from = url.searchParams.get("from") || undefined;
+      const to = url.searchParams.get("to") || undefined;
+
+      for (const id of [from, to]) {
+        if (id && !history.some(snapshot => snapshot.id === id)) {
+          return errorResponse(`Analysis snapshot ${id} not found`, 404);
+        }
       }
 
-      const postIdeas = await aiService.generatePostIdeas(userData, count);
-      return jsonResponse({
-        username: params.username,
-        ideas: postIdeas,
-        count: postIdeas.length,
-      });
+      if (history.length < 2) {
+        return errorResponse("At least two analyses are needed to compare. Re-analyze the user first.", 400);
+      }
+
+      const diff = await analysisHistoryService.diff(params.username!, from, to);
+      return jsonResponse({ username: params.username, diff });
     } catch (error) {
-      return errorResponse(`Failed to generate posts: ${error}`);
+      return errorResponse(`Failed to compare analyses: ${error}`);
     }
   },
 
-  // Prompt-based generation
+  // Posting heatmap, streaks and engagement by hour, computed from the stored posts
+  "GET /api/analysis/:username/timing": async (request: Request, params: Record<string, string>) => {
+    try {
+      const userData = await dataService.getUserData(params.username!);
+      if (userData.posts.length === 0) {
+        return errorResponse("No posts found. Please scrape the user first.", 404);
+      }
+      return jsonResponse({ username: params.username, timing: TimingAnalytics.report(userData.posts) });
+    } catch (error) {
+      return errorResponse(`Failed to compute posting times: ${error}`);
+    }
+  },
+
+  // Post generation
+  // Prompt-based generation, registered before /api/generate/:username so "prompt" isn't taken as a username
   "POST /api/generate/prompt": async (request: Request) => {
     try {
       const body = await request.json();
@@ -214,11 +326,86 @@ const routes = {
     }
   },
 
+  "POST /api/generate/:username": async (request: Request, params: Record<string, string>) => {
+    try {
+      const username = params.username!;
+      const body = await request.json().catch(() => ({}));
+      const count = body.count || 10;
+
+      const userData = await dataService.getUserData(username);
+      if (!userData.analysis) {
+        return errorResponse("No analysis found. Please analyze the user first.", 400);
+      }
+
+      const job = jobQueue.enqueue("generate", username, async (report) => {
+        report(10, `Generating ${count} post ideas`);
+        const postIdeas = await aiService.generatePostIdeas(userData, count);
+
+        return {
+          username,
+          ideas: postIdeas,
+          count: postIdeas.length,
+        };
+      });
+
+      return queuedResponse(job);
+    } catch (error) {
+      return errorResponse(`Failed to generate posts: ${error}`);
+    }
+  },
+
+  "POST /api/generate/:username/thread": async (request: Request, params: Record<string, string>) => {
+    try {
+      const username = params.username!;
+      const body = await request.json().catch(() => ({}));
+      const count = body.count || 3;
+      const topic = typeof body.topic === "string" && body.topic.trim() ? body.topic.trim() : undefined;
+
+      const userData = await dataService.getUserData(username);
+      if (!userData.analysis) {
+        return errorResponse("No analysis found. Please analyze the user first.", 400);
+      }
+
+      const job = jobQueue.enqueue("thread", username, async (report) => {
+        report(10, `Generating ${count} threads`);
+        const threads = await aiService.generateThreadIdeas(userData, count, topic);
+
+        return {
+          username,
+          ideas: threads,
+          count: threads.length,
+        };
+      });
+
+      return queuedResponse(job);
+    } catch (error) {
+      return errorResponse(`Failed to generate threads: ${error}`);
+    }
+  },
+
+  // Same as above, but streams tool calls and ideas as they are written instead of queueing a job
+  "POST /api/generate/:username/stream": async (request: Request, params: Record<string, string>) => {
+    try {
+      const username = params.username!;
+      const body = await request.json().catch(() => ({}));
+      const count = body.count || 10;
+
+      const userData = await dataService.getUserData(username);
+      if (!userData.analysis) {
+        return errorResponse("No analysis found. Please analyze the user first.", 400);
+      }
+
+      return sseResponse(aiService.streamPostIdeas(userData, count));
+    } catch (error) {
+      return errorResponse(`Failed to generate posts: ${error}`);
+    }
+  },
+
   // Tweak post ideas
   "POST /api/tweak": async (request: Request) => {
     try {
       const body = await request.json();
-      const { originalText, feedback, username } = body;
+      const { originalText, feedback, username, ideaId } = body;
 
       if (!originalText || originalText.trim() === '') {
         return errorResponse("Original text is required", 400);
@@ -242,6 +429,7 @@ const routes = {
       }
 
       const originalIdea: PostIdea = {
+        id: ideaId,
         text: originalText.trim(),
         community: null,
         reasoning: 'Original idea to be tweaked'
@@ -259,6 +447,145 @@ const routes = {
     }
   },
 
+  // Reply and quote drafting; "tweet" is the tweet's text, URL or id
+  "POST /api/reply": async (request: Request) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const { username, tweet } = body;
+      const mode = body.mode || "both";
+      const count = body.count || 4;
+
+      if (!username) {
+        return errorResponse("Persona username is required", 400);
+      }
+      if (typeof tweet !== "string" || tweet.trim() === "") {
+        return errorResponse("Tweet text or URL is required", 400);
+      }
+      if (!REPLY_MODES.includes(mode)) {
+        return errorResponse(`Mode must be one of: ${REPLY_MODES.join(", ")}`, 400);
+      }
+
+      const userData = await dataService.getUserData(username);
+      if (!userData.analysis) {
+        return errorResponse(`No analysis found for @${username}. Please analyze the user first.`, 400);
+      }
+
+      const target = await scraperService.resolveTweet(tweet);
+      const drafts = await aiService.draftReplies(userData, target, count, mode);
+      return jsonResponse({ persona: username, target, mode, drafts });
+    } catch (error) {
+      return errorResponse(`Failed to draft replies: ${error}`);
+    }
+  },
+
+  // Competitor benchmarking; the first username is the account being benchmarked
+  "POST /api/compare": async (request: Request) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const usernames: string[] = Array.isArray(body.usernames)
+        ? body.usernames.filter((name: unknown) => typeof name === "string")
+        : [];
+
+      const comparison = await comparisonService.compare(usernames, { narrative: body.narrative !== false });
+      return jsonResponse({ usernames: comparison.accounts.map(account => account.username), comparison });
+    } catch (error) {
+      // The service checks the accounts; its messages are written for the caller
+      if (error instanceof ComparisonInputError) {
+        return errorResponse(error.message, error.status);
+      }
+      return errorResponse(`Failed to compare accounts: ${error}`);
+    }
+  },
+
+  // One-off agent chat without a session, streamed as text deltas plus the tools the agent calls
+  "POST /api/agent/chat/stream": async (request: Request) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const message = typeof body.message === "string" ? body.message.trim() : "";
+
+      if (!message) {
+        return errorResponse("Message is required", 400);
+      }
+
+      return sseResponse(new PostgeistAgent([], undefined, { headless: true }).chatEvents(message));
+    } catch (error) {
+      return errorResponse(`Failed to chat with the agent: ${error}`);
+    }
+  },
+
+  // Agent sessions
+  "GET /api/agent/sessions": async () => {
+    try {
+      return jsonResponse({ sessions: await agentSessionService.list() });
+    } catch (error) {
+      return errorResponse(`Failed to list agent sessions: ${error}`);
+    }
+  },
+
+  "POST /api/agent/sessions": async (request: Request) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const session = await agentSessionService.create(typeof body.title === "string" ? body.title : undefined);
+      return jsonResponse(session, 201);
+    } catch (error) {
+      return errorResponse(`Failed to create agent session: ${error}`);
+    }
+  },
+
+  "GET /api/agent/sessions/:id": async (request: Request, params: Record<string, string>) => {
+    try {
+      const session = await agentSessionService.get(params.id!);
+      if (!session) {
+        return errorResponse("Agent session not found", 404);
+      }
+      return jsonResponse(session);
+    } catch (error) {
+      return errorResponse(`Failed to load agent session: ${error}`);
+    }
+  },
+
+  "GET /api/agent/sessions/:id/memory": async (request: Request, params: Record<string, string>) => {
+    try {
+      const memory = await agentSessionService.getMemory(params.id!);
+      if (!memory) {
+        return errorResponse("Agent session not found", 404);
+      }
+      return jsonResponse(memory);
+    } catch (error) {
+      return errorResponse(`Failed to load agent memory: ${error}`);
+    }
+  },
+
+  "DELETE /api/agent/sessions/:id": async (request: Request, params: Record<string, string>) => {
+    try {
+      if (!(await agentSessionService.delete(params.id!))) {
+        return errorResponse("Agent session not found", 404);
+      }
+      return jsonResponse({ message: "Agent session deleted" });
+    } catch (error) {
+      return errorResponse(`Failed to delete agent session: ${error}`);
+    }
+  },
+
+  // Continue a session; the reply is streamed like /api/agent/chat/stream and saved when done
+  "POST /api/agent/sessions/:id/messages": async (request: Request, params: Record<string, string>) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const message = typeof body.message === "string" ? body.message.trim() : "";
+
+      if (!message) {
+        return errorResponse("Message is required", 400);
+      }
+      if (!(await agentSessionService.get(params.id!))) {
+        return errorResponse("Agent session not found", 404);
+      }
+
+      return sseResponse(agentSessionService.send(params.id!, message));
+    } catch (error) {
+      return errorResponse(`Failed to send message: ${error}`);
+    }
+  },
+
   // Settings management
   "GET /api/settings/:username": async (request: Request, params: Record<string, string>) => {
     try {
@@ -339,6 +666,234 @@ const routes = {
     }
   },
 
+  // Idea library
+  "GET /api/ideas/:username": async (request: Request, params: Record<string, string>) => {
+    try {
+      const url = new URL(request.url);
+      const limit = url.searchParams.get("limit");
+
+      const ideas = await ideaService.list(params.username!, {
+        status: (url.searchParams.get("status") as IdeaStatus | null) || undefined,
+        source: (url.searchParams.get("source") as IdeaSource | null) || undefined,
+        search: url.searchParams.get("q") || undefined,
+        limit: limit ? parseInt(limit) : undefined,
+      });
+      const counts = await ideaService.getStatusCounts(params.username!);
+
+      return jsonResponse({ username: params.username, ideas, counts });
+    } catch (error) {
+      return errorResponse(`Failed to fetch ideas: ${error}`);
+    }
+  },
+
+  "PUT /api/ideas/:username/:id": async (request: Request, params: Record<string, string>) => {
+    try {
+      const body = await request.json();
+
+      if (!IDEA_STATUSES.includes(body.status)) {
+        return errorResponse(`Status must be one of: ${IDEA_STATUSES.join(", ")}`, 400);
+      }
+
+      const existing = await ideaService.get(params.username!, params.id!);
+      if (!existing) {
+        return errorResponse("Idea not found", 404);
+      }
+
+      const idea = await ideaService.updateStatus(params.username!, params.id!, body.status);
+      return jsonResponse(idea);
+    } catch (error) {
+      return errorResponse(`Failed to update idea: ${error}`);
+    }
+  },
+
+  "DELETE /api/ideas/:username/:id": async (request: Request, params: Record<string, string>) => {
+    try {
+      const deleted = await ideaService.delete(params.username!, params.id!);
+      if (!deleted) {
+        return errorResponse("Idea not found", 404);
+      }
+      return jsonResponse({ message: "Idea deleted successfully" });
+    } catch (error) {
+      return errorResponse(`Failed to delete idea: ${error}`);
+    }
+  },
+
+  // Content calendar
+  "GET /api/calendar/:username": async (request: Request, params: Record<string, string>) => {
+    try {
+      const url = new URL(request.url);
+      const from = url.searchParams.get("from") || undefined;
+      const days = parseInt(url.searchParams.get("days") || `${DEFAULT_CALENDAR_DAYS}`);
+
+      if (from) {
+        try {
+          CalendarUtils.validateSlot({ date: from, time: "00:00" });
+        } catch (error) {
+          return errorResponse((error as Error).message, 400);
+        }
+      }
+      if (isNaN(days) || days < 1 || days > MAX_CALENDAR_DAYS) {
+        return errorResponse(`Days must be between 1 and ${MAX_CALENDAR_DAYS}`, 400);
+      }
+
+      return jsonResponse(await calendarService.get(params.username!, from, days));
+    } catch (error) {
+      return errorResponse(`Failed to fetch calendar: ${error}`);
+    }
+  },
+
+  // Every scheduled idea as an iCalendar file, for importing into calendar apps
+  "GET /api/calendar/:username/ics": async (request: Request, params: Record<string, string>) => {
+    try {
+      const ics = await calendarService.exportICS(params.username!);
+      return new Response(ics, {
+        headers: {
+          "Content-Type": "text/calendar; charset=utf-8",
+          "Content-Disposition": `attachment; filename="postgeist-${params.username}.ics"`,
+          ...corsHeaders(),
+        },
+      });
+    } catch (error) {
+      return errorResponse(`Failed to export calendar: ${error}`);
+    }
+  },
+
+  // Body: { date: "YYYY-MM-DD", time: "HH:MM" }; moving an idea is scheduling it again
+  "PUT /api/calendar/:username/:ideaId": async (request: Request, params: Record<string, string>) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+
+      try {
+        CalendarUtils.validateSlot(body);
+      } catch (error) {
+        return errorResponse((error as Error).message, 400);
+      }
+
+      const existing = await ideaService.get(params.username!, params.ideaId!);
+      if (!existing) {
+        return errorResponse("Idea not found", 404);
+      }
+      if (existing.status === "rejected" || existing.status === "used") {
+        return errorResponse(`Idea is ${existing.status} and can't be scheduled`, 400);
+      }
+
+      const idea = await calendarService.schedule(params.username!, params.ideaId!, body);
+      return jsonResponse(idea);
+    } catch (error) {
+      return errorResponse(`Failed to schedule idea: ${error}`);
+    }
+  },
+
+  "DELETE /api/calendar/:username/:ideaId": async (request: Request, params: Record<string, string>) => {
+    try {
+      const existing = await ideaService.get(params.username!, params.ideaId!);
+      if (!existing) {
+        return errorResponse("Idea not found", 404);
+      }
+
+      const idea = await calendarService.unschedule(params.username!, params.ideaId!);
+      return jsonResponse(idea);
+    } catch (error) {
+      return errorResponse(`Failed to unschedule idea: ${error}`);
+    }
+  },
+
+  // Scheduled jobs
+  "GET /api/jobs/schedules": async (request: Request) => {
+    try {
+      const username = new URL(request.url).searchParams.get("username") || undefined;
+      const jobs = await schedulerService.listJobs(username);
+      return jsonResponse({ jobs, schedulerEnabled: config.app.schedulerEnabled });
+    } catch (error) {
+      return errorResponse(`Failed to fetch jobs: ${error}`);
+    }
+  },
+
+  "POST /api/jobs/schedules": async (request: Request) => {
+    try {
+      const body = await request.json();
+      const { username, type, schedule, count, enabled } = body;
+
+      if (!username || !type || !schedule) {
+        return errorResponse("username, type and schedule are required", 400);
+      }
+
+      const job = await schedulerService.createJob(username, { type, schedule, count, enabled });
+      return jsonResponse(job, 201);
+    } catch (error) {
+      return errorResponse(`Failed to create job: ${(error as Error).message}`, 400);
+    }
+  },
+
+  "PUT /api/jobs/schedules/:id": async (request: Request, params: Record<string, string>) => {
+    try {
+      if (!(await schedulerService.getJob(params.id!))) {
+        return errorResponse("Job not found", 404);
+      }
+
+      const { type, schedule, count, enabled } = await request.json();
+      const job = await schedulerService.updateJob(params.id!, { type, schedule, count, enabled });
+      return jsonResponse(job);
+    } catch (error) {
+      return errorResponse(`Failed to update job: ${(error as Error).message}`, 400);
+    }
+  },
+
+  "DELETE /api/jobs/schedules/:id": async (request: Request, params: Record<string, string>) => {
+    try {
+      const deleted = await schedulerService.deleteJob(params.id!);
+      if (!deleted) {
+        return errorResponse("Job not found", 404);
+      }
+      return jsonResponse({ message: "Job deleted successfully" });
+    } catch (error) {
+      return errorResponse(`Failed to delete job: ${error}`);
+    }
+  },
+
+  "POST /api/jobs/schedules/:id/run": async (request: Request, params: Record<string, string>) => {
+    try {
+      const scheduled = await schedulerService.getJob(params.id!);
+      if (!scheduled) {
+        return errorResponse("Job not found", 404);
+      }
+
+      // Manual runs share one queue slot per user, like the other queued work
+      const job = jobQueue.enqueue("schedule", scheduled.username, () => schedulerService.runNow(scheduled.id));
+      return queuedResponse(job);
+    } catch (error) {
+      return errorResponse(`Failed to run job: ${error}`);
+    }
+  },
+
+  "GET /api/jobs/runs/:username": async (request: Request, params: Record<string, string>) => {
+    try {
+      const jobId = new URL(request.url).searchParams.get("jobId") || undefined;
+      const runs = await schedulerService.getRuns(params.username!, jobId);
+      return jsonResponse({ username: params.username, runs });
+    } catch (error) {
+      return errorResponse(`Failed to fetch job runs: ${error}`);
+    }
+  },
+
+  // Queued jobs
+  "GET /api/jobs": async (request: Request) => {
+    try {
+      const username = new URL(request.url).searchParams.get("username") || undefined;
+      return jsonResponse({ jobs: jobQueue.list(username) });
+    } catch (error) {
+      return errorResponse(`Failed to fetch jobs: ${error}`);
+    }
+  },
+
+  "GET /api/jobs/:id": async (request: Request, params: Record<string, string>) => {
+    const job = jobQueue.get(params.id!);
+    if (!job) {
+      return errorResponse("Job not found", 404);
+    }
+    return jsonResponse(job);
+  },
+
   // Data management
   "GET /api/data/stats": async () => {
     try {
@@ -349,6 +904,37 @@ const routes = {
     }
   },
 
+  // Token usage and estimated cost per account, day, operation and model; from and to are UTC days
+  "GET /api/usage": async (request: Request) => {
+    try {
+      const url = new URL(request.url);
+      const username = url.searchParams.get("username") || undefined;
+      const from = url.searchParams.get("from") || undefined;
+      const to = url.searchParams.get("to") || undefined;
+      const limit = parseInt(url.searchParams.get("limit") || "50");
+
+      for (const day of [from, to]) {
+        if (day && !/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+          return errorResponse(`Invalid day "${day}", expected YYYY-MM-DD`, 400);
+        }
+      }
+      if (isNaN(limit) || limit < 0) {
+        return errorResponse("Limit can't be negative", 400);
+      }
+
+      const filter = { username, from, to };
+      const records = await usageService.list(filter);
+      return jsonResponse({
+        report: await usageService.report(filter),
+        budget: await usageService.budgetStatus(username),
+        // Newest first
+        records: records.slice(Math.max(records.length - limit, 0)).reverse()
+      });
+    } catch (error) {
+      return errorResponse(`Failed to fetch usage: ${error}`);
+    }
+  },
+
   "POST /api/export/:username": async (request: Request, params: Record<string, string>) => {
     try {
       const body = await request.json().catch(() => ({}));
@@ -451,6 +1037,10 @@ const server = serve({
   },
 });
 
+if (config.app.schedulerEnabled) {
+  schedulerService.start();
+}
+
 logger.info(`🚀 Postgeist API server running on http://localhost:${server.port}`);
 logger.info("API endpoints:");
 logger.info("  GET  /health - Health check");
@@ -459,7 +1049,12 @@ logger.info("  GET  /api/users/:username - Get user data");
 logger.info("  POST /api/scrape/:username - Scrape user posts");
 logger.info("  POST /api/analyze/:username - Analyze user");
 logger.info("  POST /api/generate/:username - Generate post ideas");
+logger.info("  POST /api/generate/:username/stream - Stream post ideas (SSE)");
+logger.info("  POST /api/agent/chat/stream - Chat with the agent (SSE)");
+logger.info("  GET  /api/agent/sessions - List agent chat sessions");
+logger.info("  GET  /api/jobs/:id - Progress and result of a queued job");
 logger.info("  GET  /api/settings/:username - Get user settings");
+logger.info("  GET  /api/jobs/schedules - List scheduled jobs");
 logger.info("  And more...");
 
 export { server };
@@ -4,6 +4,11 @@ import Dashboard from "./pages/Dashboard";
 import UserProfile from "./pages/UserProfile";
 import Settings from "./pages/Settings";
 import DataManagement from "./pages/DataManagement";
+import IdeaLibrary from "./pages/IdeaLibrary";
+import ScheduledJobs from "./pages/ScheduledJobs";
+import AgentChat from "./pages/AgentChat";
+import CompareAccounts from "./pages/CompareAccounts";
+import ContentCalendar from "./pages/ContentCalendar";
 
 function App() {
   return (
@@ -12,6 +17,12 @@ function App() {
         <Route path="/" element={<Dashboard />} />
         <Route path="/user/:username" element={<UserProfile />} />
         <Route path="/user/:username/settings" element={<Settings />} />
+        <Route path="/user/:username/ideas" element={<IdeaLibrary />} />
+        <Route path="/user/:username/calendar" element={<ContentCalendar />} />
+        <Route path="/agent" element={<AgentChat />} />
+        <Route path="/agent/:sessionId" element={<AgentChat />} />
+        <Route path="/compare" element={<CompareAccounts />} />
+        <Route path="/jobs" element={<ScheduledJobs />} />
         <Route path="/data" element={<DataManagement />} />
       </Routes>
     </Layout>
@@ -36,16 +36,14 @@ export default function AddUserModal({ isOpen, onClose, onSuccess }: AddUserModa
       setLoading(true);
       setProgress(0);
 
-      // Step 1: Scrape posts
+      // Step 1: Scrape posts (first half of the bar)
       setStep("scraping");
-      setProgress(25);
-      await apiService.scrapePosts(cleanUsername);
+      await apiService.scrapePosts(cleanUsername, jobProgress => setProgress(Math.round(jobProgress / 2)));
       setProgress(50);
 
-      // Step 2: Analyze user
+      // Step 2: Analyze user (second half)
       setStep("analyzing");
-      setProgress(75);
-      await apiService.analyzeUser(cleanUsername);
+      await apiService.analyzeUser(cleanUsername, jobProgress => setProgress(50 + Math.round(jobProgress / 2)));
       setProgress(100);
 
       // Step 3: Complete
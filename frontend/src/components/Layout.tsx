@@ -1,6 +1,6 @@
 import { ReactNode } from "react";
 import { Link, useLocation } from "react-router-dom";
-import { Brain, Database, Sparkles, Github, Twitter } from "lucide-react";
+import { Bot, Brain, CalendarClock, Database, Scale, Sparkles, Github, Twitter } from "lucide-react";
 import { cn } from "../lib/utils";
 import { Button } from "./ui/button";
 import { Card } from "./ui/card";
@@ -17,6 +17,24 @@ const navigation = [
     icon: Brain,
     description: "Manage your Twitter analysis projects"
   },
+  {
+    name: "Agent",
+    href: "/agent",
+    icon: Bot,
+    description: "Chat with the Postgeist agent"
+  },
+  {
+    name: "Compare",
+    href: "/compare",
+    icon: Scale,
+    description: "Benchmark accounts against competitors"
+  },
+  {
+    name: "Scheduled Jobs",
+    href: "/jobs",
+    icon: CalendarClock,
+    description: "Recurring syncs, analyses and idea generation"
+  },
   {
     name: "Data Management",
     href: "/data",
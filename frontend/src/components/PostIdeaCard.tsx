@@ -1,5 +1,5 @@
-import { Copy, Hash, MessageCircle, Sparkles, Settings } from "lucide-react";
-import type { PostIdea } from "../types";
+import { AlertTriangle, Award, Copy, Crosshair, Hash, ListOrdered, MessageCircle, Sparkles, Settings } from "lucide-react";
+import type { PostIdea, ThreadTweetRole } from "../types";
 import { getCharacterCount } from "../lib/utils";
 
 interface PostIdeaCardProps {
@@ -9,22 +9,35 @@ interface PostIdeaCardProps {
   onTweak?: () => void;
 }
 
+const ROLE_STYLES: Record<ThreadTweetRole, string> = {
+  hook: "bg-purple-100 text-purple-800",
+  body: "bg-gray-100 text-gray-700",
+  cta: "bg-green-100 text-green-800"
+};
+
+function getScoreColor(score: number) {
+  if (score >= 75) {
+    return "text-green-600 bg-green-50 border-green-200";
+  }
+  return score >= 50 ? "text-yellow-600 bg-yellow-50 border-yellow-200" : "text-red-600 bg-red-50 border-red-200";
+}
+
+function getStatusColor(status: ReturnType<typeof getCharacterCount>["status"]) {
+  switch (status) {
+    case "good":
+      return "text-green-600 bg-green-50 border-green-200";
+    case "warning":
+      return "text-yellow-600 bg-yellow-50 border-yellow-200";
+    case "error":
+      return "text-red-600 bg-red-50 border-red-200";
+    default:
+      return "text-gray-600 bg-gray-50 border-gray-200";
+  }
+}
+
 export default function PostIdeaCard({ idea, index, onCopy, onTweak }: PostIdeaCardProps) {
   const { count, status } = getCharacterCount(idea.text);
 
-  const getStatusColor = () => {
-    switch (status) {
-      case "good":
-        return "text-green-600 bg-green-50 border-green-200";
-      case "warning":
-        return "text-yellow-600 bg-yellow-50 border-yellow-200";
-      case "error":
-        return "text-red-600 bg-red-50 border-red-200";
-      default:
-        return "text-gray-600 bg-gray-50 border-gray-200";
-    }
-  };
-
   const getIndexColor = () => {
     const colors = [
       "from-blue-500 to-blue-600",
@@ -63,16 +76,74 @@ export default function PostIdeaCard({ idea, index, onCopy, onTweak }: PostIdeaC
                 </span>
               )}
 
-              {/* Enhanced character count */}
-              <span
-                className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor()}`}
-              >
-                {count}/280
-              </span>
+              {/* Enhanced character count; threads are checked per tweet below */}
+              {idea.thread ? (
+                <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold border text-indigo-600 bg-indigo-50 border-indigo-200">
+                  <ListOrdered className="w-3 h-3 mr-1" />
+                  {idea.thread.length} tweets
+                </span>
+              ) : (
+                <span
+                  className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(status)}`}
+                >
+                  {count}/280
+                </span>
+              )}
+
+              {idea.quality && (
+                <span
+                  title={`Novelty ${idea.quality.novelty} · Length ${idea.quality.length}${idea.quality.style === null ? "" : ` · Style ${idea.quality.style}`}`}
+                  className={`ml-3 inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold border ${getScoreColor(idea.quality.score)}`}
+                >
+                  <Award className="w-3 h-3 mr-1" />
+                  {idea.quality.score}/100
+                </span>
+              )}
+
+              {idea.styleMatch && (
+                <span
+                  title={idea.styleMatch.deviations.join("\n") || "Matches the account's measured style"}
+                  className={`ml-3 inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold border ${getScoreColor(idea.styleMatch.score)}`}
+                >
+                  <Crosshair className="w-3 h-3 mr-1" />
+                  {idea.styleMatch.score}% style match
+                </span>
+              )}
             </div>
 
             {/* Post text with better typography */}
-            <p className="text-gray-900 mb-4 leading-relaxed text-base font-medium">{idea.text}</p>
+            {idea.thread ? (
+              <ol className="mb-4 space-y-3 border-l-2 border-indigo-200 pl-4">
+                {idea.thread.map((tweet, tweetIndex) => {
+                  const tweetCount = getCharacterCount(tweet.text);
+                  return (
+                    <li key={tweetIndex}>
+                      <p className="text-gray-900 leading-relaxed text-base font-medium whitespace-pre-wrap">{tweet.text}</p>
+                      <div className="mt-1 flex items-center gap-2 text-xs">
+                        <span className={`px-2 py-0.5 rounded-full font-medium ${ROLE_STYLES[tweet.role]}`}>{tweet.role}</span>
+                        <span className={`px-2 py-0.5 rounded-full border font-semibold ${getStatusColor(tweetCount.status)}`}>
+                          {tweetCount.count}/280
+                        </span>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            ) : (
+              <p className="text-gray-900 mb-4 leading-relaxed text-base font-medium">{idea.text}</p>
+            )}
+
+            {/* Failed quality checks */}
+            {idea.quality && idea.quality.issues.length > 0 && (
+              <ul className="mb-4 space-y-1">
+                {idea.quality.issues.map(issue => (
+                  <li key={issue} className="flex items-center text-xs text-red-700">
+                    <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+                    {issue}
+                  </li>
+                ))}
+              </ul>
+            )}
 
             {/* Enhanced reasoning section */}
             {idea.reasoning && (
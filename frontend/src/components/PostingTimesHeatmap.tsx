@@ -0,0 +1,121 @@
+import { useState, useEffect } from "react";
+import { Clock, Flame } from "lucide-react";
+import apiService from "../lib/api";
+import type { TimingReport } from "../types";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const hourLabel = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+
+interface PostingTimesHeatmapProps {
+  username: string;
+  // Refetch when the archive changes
+  postCount: number;
+}
+
+export default function PostingTimesHeatmap({ username, postCount }: PostingTimesHeatmapProps) {
+  const [timing, setTiming] = useState<TimingReport | null>(null);
+
+  useEffect(() => {
+    apiService.getPostingTimes(username)
+      .then(result => setTiming(result.timing))
+      .catch(() => setTiming(null));
+  }, [username, postCount]);
+
+  if (!timing || timing.postCount === 0) {
+    return null;
+  }
+
+  const busiest = Math.max(1, ...timing.heatmap.flat());
+  const topScore = Math.max(1, ...timing.engagementByHour.map(score => score ?? 0));
+
+  return (
+    <div className="rounded-xl bg-white border border-gray-200 shadow-lg p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <div className="p-2 bg-indigo-600 rounded-lg">
+            <Clock className="h-5 w-5 text-white" />
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900 ml-3">Posting Times</h3>
+        </div>
+        <span className="text-xs text-gray-500">{timing.postCount} posts · {timing.timezone}</span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="border-separate" style={{ borderSpacing: 2 }}>
+          <thead>
+            <tr>
+              <th></th>
+              {HOURS.map(hour => (
+                <th key={hour} className="text-[10px] font-normal text-gray-400 w-5">{hour % 3 === 0 ? hour : ""}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {timing.heatmap.map((hours, weekday) => (
+              <tr key={weekday}>
+                <td className="pr-2 text-xs text-gray-500">{WEEKDAYS[weekday]}</td>
+                {hours.map((count, hour) => (
+                  <td
+                    key={hour}
+                    title={`${WEEKDAYS[weekday]} ${hourLabel(hour)}: ${count} posts`}
+                    className="w-5 h-5 rounded-sm"
+                    style={{ backgroundColor: count === 0 ? "#f3f4f6" : `rgba(79, 70, 229, ${0.15 + 0.85 * (count / busiest)})` }}
+                  />
+                ))}
+              </tr>
+            ))}
+
+            {/* Engagement by hour: green above the account's median post, red below */}
+            <tr>
+              <td className="pr-2 pt-2 text-xs text-gray-500">Eng.</td>
+              {timing.engagementByHour.map((score, hour) => (
+                <td key={hour} className="pt-2 align-bottom h-12" title={score === null
+                  ? `${hourLabel(hour)}: no measured posts`
+                  : `${hourLabel(hour)}: ${score}x median over ${timing.samplesByHour[hour]} posts`}
+                >
+                  {score !== null && (
+                    <div
+                      className={`w-5 rounded-sm ${score >= 1 ? "bg-green-500" : "bg-red-400"}`}
+                      style={{ height: `${Math.max(4, (score / topScore) * 40)}px` }}
+                    />
+                  )}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <p className="text-gray-500">Posts per week</p>
+          <p className="font-semibold text-gray-900">{timing.postsPerWeek ?? "–"}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Longest streak</p>
+          <p className="font-semibold text-gray-900 flex items-center">
+            {timing.longestStreak ? `${timing.longestStreak.days} days` : "–"}
+            {timing.currentStreak > 1 && (
+              <span className="ml-2 inline-flex items-center text-xs text-orange-600">
+                <Flame className="w-3 h-3 mr-0.5" />
+                {timing.currentStreak} now
+              </span>
+            )}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-500">Longest break</p>
+          <p className="font-semibold text-gray-900">{timing.longestGap ? `${timing.longestGap.days} days` : "–"}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Best hours</p>
+          <p className="font-semibold text-gray-900">
+            {timing.bestHours.length > 0 ? timing.bestHours.map(hourLabel).join(", ") : "Not enough data"}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,16 +5,37 @@ import type {
   AnalysisResult,
   PostGenerationResult,
   PostGenerationRequest,
+  ThreadGenerationRequest,
   PromptGenerationRequest,
   PromptGenerationResult,
   TweakRequest,
   TweakResult,
   Community,
-  DataStats
+  DataStats,
+  IdeaFilter,
+  IdeaLibraryResult,
+  IdeaStatus,
+  StoredIdea,
+  ScheduledJob,
+  JobRun,
+  CreateJobRequest,
+  QueuedJob,
+  JobProgressHandler,
+  IdeaStreamEvent,
+  AgentStreamEvent,
+  AgentSession,
+  AgentSessionSummary,
+  AgentMemory,
+  AccountComparison,
+  CalendarSlot,
+  ContentCalendar,
+  TimingReport
 } from '../types';
 
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3002';
+
 const api = axios.create({
-  baseURL: import.meta.env.VITE_API_URL || 'http://localhost:3002',
+  baseURL: API_URL,
   timeout: 120000, // 2 minutes for long operations
 });
 
@@ -29,6 +50,74 @@ api.interceptors.response.use(
   }
 );
 
+const JOB_POLL_INTERVAL_MS = 1000;
+
+// Scrape, analyze, generate and manual job runs are queued on the server; poll until the job finishes
+async function waitForJob<T>(jobId: string, onProgress?: JobProgressHandler): Promise<T> {
+  for (;;) {
+    const response = await api.get(`/api/jobs/${jobId}`);
+    const job: QueuedJob<T> = response.data;
+
+    onProgress?.(job.progress, job.message);
+
+    if (job.status === 'completed') {
+      return job.result as T;
+    }
+    if (job.status === 'failed') {
+      throw new Error(job.error || 'Job failed');
+    }
+
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+}
+
+// POST to a Server-Sent Events route and hand every event to onEvent until the stream ends.
+// EventSource only supports GET, so the stream is read by hand.
+async function streamEvents<E extends { type: string }>(path: string, body: unknown, onEvent: (event: E) => void) {
+  const response = await fetch(`${API_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const messages = buffer.split('\n\n');
+      buffer = messages.pop() ?? '';
+
+      for (const message of messages) {
+        const data = message
+          .split('\n')
+          .filter(line => line.startsWith('data: '))
+          .map(line => line.slice(6))
+          .join('\n');
+        if (data) {
+          onEvent(JSON.parse(data));
+        }
+      }
+    }
+  } catch (error) {
+    // Stop the server side work as well
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  }
+}
+
 export const apiService = {
   // Health check
   async health() {
@@ -53,20 +142,23 @@ export const apiService = {
   },
 
   // Twitter scraping
-  async scrapePosts(username: string): Promise<{ username: string; postsCount: number; posts: any[] }> {
+  async scrapePosts(
+    username: string,
+    onProgress?: JobProgressHandler
+  ): Promise<{ username: string; postsCount: number; posts: any[] }> {
     const response = await api.post(`/api/scrape/${username}`);
-    return response.data;
+    return waitForJob(response.data.jobId, onProgress);
   },
 
-  async refreshPosts(username: string): Promise<{ username: string; postsCount: number; posts: any[] }> {
+  async refreshPosts(username: string): Promise<{ username: string; postsCount: number; newPosts: number; posts: any[] }> {
     const response = await api.post(`/api/scrape/${username}/refresh`);
     return response.data;
   },
 
   // Analysis
-  async analyzeUser(username: string): Promise<AnalysisResult> {
+  async analyzeUser(username: string, onProgress?: JobProgressHandler): Promise<AnalysisResult> {
     const response = await api.post(`/api/analyze/${username}`);
-    return response.data;
+    return waitForJob(response.data.jobId, onProgress);
   },
 
   async getAnalysis(username: string): Promise<AnalysisResult> {
@@ -74,9 +166,56 @@ export const apiService = {
     return response.data;
   },
 
+  async getPostingTimes(username: string): Promise<{ username: string; timing: TimingReport }> {
+    const response = await api.get(`/api/analysis/${username}/timing`);
+    return response.data;
+  },
+
   // Post generation
-  async generatePosts(username: string, request: PostGenerationRequest = {}): Promise<PostGenerationResult> {
+  async generatePosts(
+    username: string,
+    request: PostGenerationRequest = {},
+    onProgress?: JobProgressHandler
+  ): Promise<PostGenerationResult> {
     const response = await api.post(`/api/generate/${username}`, request);
+    return waitForJob(response.data.jobId, onProgress);
+  },
+
+  async generateThreads(
+    username: string,
+    request: ThreadGenerationRequest = {},
+    onProgress?: JobProgressHandler
+  ): Promise<PostGenerationResult> {
+    const response = await api.post(`/api/generate/${username}/thread`, request);
+    return waitForJob(response.data.jobId, onProgress);
+  },
+
+  // Streams ideas as they are written; resolves with the stored ideas once generation is done
+  async streamPosts(
+    username: string,
+    request: PostGenerationRequest = {},
+    onEvent?: (event: IdeaStreamEvent) => void
+  ): Promise<PostGenerationResult> {
+    let result: PostGenerationResult | undefined;
+
+    await streamEvents<IdeaStreamEvent>(`/api/generate/${username}/stream`, request, event => {
+      if (event.type === 'error') {
+        throw new Error(event.message);
+      }
+      if (event.type === 'done') {
+        result = { username, ideas: event.ideas, count: event.ideas.length };
+      }
+      onEvent?.(event);
+    });
+
+    if (!result) {
+      throw new Error('Generation stream ended early');
+    }
+    return result;
+  },
+
+  async getQueuedJob(jobId: string): Promise<QueuedJob> {
+    const response = await api.get(`/api/jobs/${jobId}`);
     return response.data;
   },
 
@@ -86,12 +225,137 @@ export const apiService = {
     return response.data;
   },
 
+  // Agent sessions
+  async getAgentSessions(): Promise<AgentSessionSummary[]> {
+    const response = await api.get('/api/agent/sessions');
+    return response.data.sessions;
+  },
+
+  async createAgentSession(title?: string): Promise<AgentSession> {
+    const response = await api.post('/api/agent/sessions', { title });
+    return response.data;
+  },
+
+  async getAgentSession(id: string): Promise<AgentSession> {
+    const response = await api.get(`/api/agent/sessions/${id}`);
+    return response.data;
+  },
+
+  async getAgentMemory(id: string): Promise<AgentMemory> {
+    const response = await api.get(`/api/agent/sessions/${id}/memory`);
+    return response.data;
+  },
+
+  async deleteAgentSession(id: string): Promise<{ message: string }> {
+    const response = await api.delete(`/api/agent/sessions/${id}`);
+    return response.data;
+  },
+
+  // Agent chat, in a session when one is given; resolves with the full reply
+  async streamAgentChat(
+    message: string,
+    onEvent?: (event: AgentStreamEvent) => void,
+    sessionId?: string
+  ): Promise<string> {
+    let reply: string | undefined;
+    const path = sessionId ? `/api/agent/sessions/${sessionId}/messages` : '/api/agent/chat/stream';
+
+    await streamEvents<AgentStreamEvent>(path, { message }, event => {
+      if (event.type === 'error') {
+        throw new Error(event.message);
+      }
+      if (event.type === 'done') {
+        reply = event.text;
+      }
+      onEvent?.(event);
+    });
+
+    if (reply === undefined) {
+      throw new Error('Chat stream ended early');
+    }
+    return reply;
+  },
+
   // Tweak post ideas
   async tweakPostIdea(request: TweakRequest): Promise<TweakResult> {
     const response = await api.post('/api/tweak', request);
     return response.data;
   },
 
+  // Competitor benchmarking; the first username is the account being benchmarked
+  async compareAccounts(usernames: string[]): Promise<{ usernames: string[]; comparison: AccountComparison }> {
+    const response = await api.post('/api/compare', { usernames });
+    return response.data;
+  },
+
+  // Idea library
+  async getIdeas(username: string, filter: IdeaFilter = {}): Promise<IdeaLibraryResult> {
+    const response = await api.get(`/api/ideas/${username}`, { params: filter });
+    return response.data;
+  },
+
+  async updateIdeaStatus(username: string, id: string, status: IdeaStatus): Promise<StoredIdea> {
+    const response = await api.put(`/api/ideas/${username}/${id}`, { status });
+    return response.data;
+  },
+
+  async deleteIdea(username: string, id: string): Promise<{ message: string }> {
+    const response = await api.delete(`/api/ideas/${username}/${id}`);
+    return response.data;
+  },
+
+  // Content calendar
+  async getCalendar(username: string, from?: string, days?: number): Promise<ContentCalendar> {
+    const response = await api.get(`/api/calendar/${username}`, { params: { from, days } });
+    return response.data;
+  },
+
+  async scheduleIdea(username: string, ideaId: string, slot: CalendarSlot): Promise<StoredIdea> {
+    const response = await api.put(`/api/calendar/${username}/${ideaId}`, slot);
+    return response.data;
+  },
+
+  async unscheduleIdea(username: string, ideaId: string): Promise<StoredIdea> {
+    const response = await api.delete(`/api/calendar/${username}/${ideaId}`);
+    return response.data;
+  },
+
+  // Plain link so the browser downloads the file itself
+  calendarExportUrl(username: string): string {
+    return `${API_URL}/api/calendar/${username}/ics`;
+  },
+
+  // Scheduled jobs
+  async getJobs(username?: string): Promise<{ jobs: ScheduledJob[]; schedulerEnabled: boolean }> {
+    const response = await api.get('/api/jobs/schedules', { params: { username } });
+    return response.data;
+  },
+
+  async createJob(request: CreateJobRequest): Promise<ScheduledJob> {
+    const response = await api.post('/api/jobs/schedules', request);
+    return response.data;
+  },
+
+  async updateJob(id: string, changes: Partial<Omit<CreateJobRequest, 'username'>>): Promise<ScheduledJob> {
+    const response = await api.put(`/api/jobs/schedules/${id}`, changes);
+    return response.data;
+  },
+
+  async deleteJob(id: string): Promise<{ message: string }> {
+    const response = await api.delete(`/api/jobs/schedules/${id}`);
+    return response.data;
+  },
+
+  async runJob(id: string, onProgress?: JobProgressHandler): Promise<JobRun> {
+    const response = await api.post(`/api/jobs/schedules/${id}/run`);
+    return waitForJob(response.data.jobId, onProgress);
+  },
+
+  async getJobRuns(username: string, jobId?: string): Promise<{ username: string; runs: JobRun[] }> {
+    const response = await api.get(`/api/jobs/runs/${username}`, { params: { jobId } });
+    return response.data;
+  },
+
   // Settings
   async getSettings(username: string): Promise<{ username: string; customInstructions?: string; availableCommunities: Community[] }> {
     const response = await api.get(`/api/settings/${username}`);
@@ -0,0 +1,342 @@
+import { useState, useEffect, useRef } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { Bot, Brain, Plus, Send, Trash2, User, Wrench, RefreshCw } from "lucide-react";
+import toast from "react-hot-toast";
+import apiService from "../lib/api";
+import type { AgentMemory, AgentMessage, AgentSessionSummary } from "../types";
+import { formatDate } from "../lib/utils";
+import LoadingSpinner from "../components/LoadingSpinner";
+
+const TOOL_LABELS: Record<string, string> = {
+  analyzeTwitterUser: "Analyzing user",
+  generatePostIdeas: "Generating post ideas",
+  generateThread: "Writing threads",
+  draftReplies: "Drafting replies",
+  generateFromPrompt: "Generating from prompt",
+  tweakPostIdea: "Tweaking post idea",
+  getUserInfo: "Loading user info",
+  listUsers: "Listing users",
+  getSettings: "Loading settings",
+  setCustomInstructions: "Updating custom instructions",
+  clearCustomInstructions: "Clearing custom instructions",
+  addCommunity: "Adding community",
+  removeCommunity: "Removing community",
+  listIdeas: "Browsing the idea library",
+  updateIdeaStatus: "Updating idea",
+  deleteIdea: "Deleting idea",
+  exportUserData: "Exporting data",
+  refreshPosts: "Fetching new posts",
+  deleteUser: "Deleting user",
+  rememberApprovedIdea: "Remembering approved idea",
+  pinNote: "Pinning a note",
+  web_search: "Searching the web",
+  website_visit: "Reading a website"
+};
+
+export default function AgentChat() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<AgentSessionSummary[]>([]);
+  const [messages, setMessages] = useState<AgentMessage[]>([]);
+  const [memory, setMemory] = useState<AgentMemory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [input, setInput] = useState("");
+  const [sending, setSending] = useState(false);
+  // Reply and tool activity of the turn in progress
+  const [streamingReply, setStreamingReply] = useState("");
+  const [toolActivity, setToolActivity] = useState<string[]>([]);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  useEffect(() => {
+    if (sessionId) {
+      loadSession(sessionId);
+    } else {
+      setMessages([]);
+      setMemory(null);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages, streamingReply, toolActivity]);
+
+  const loadSessions = async () => {
+    try {
+      setSessions(await apiService.getAgentSessions());
+    } catch (error) {
+      toast.error(`Failed to load sessions: ${error}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadSession = async (id: string) => {
+    try {
+      const session = await apiService.getAgentSession(id);
+      setMessages(session.messages);
+      setMemory(session.memory ?? null);
+    } catch (error) {
+      toast.error(`Failed to load session: ${error}`);
+      navigate("/agent");
+    }
+  };
+
+  const loadMemory = async (id: string) => {
+    try {
+      setMemory(await apiService.getAgentMemory(id));
+    } catch (error) {
+      toast.error(`Failed to load agent memory: ${error}`);
+    }
+  };
+
+  const handleNewSession = async () => {
+    try {
+      const session = await apiService.createAgentSession();
+      await loadSessions();
+      navigate(`/agent/${session.id}`);
+    } catch (error) {
+      toast.error(`Failed to create session: ${error}`);
+    }
+  };
+
+  const handleDelete = async (session: AgentSessionSummary) => {
+    if (!confirm(`Delete "${session.title}"?`)) {
+      return;
+    }
+
+    try {
+      await apiService.deleteAgentSession(session.id);
+      toast.success("Session deleted");
+      if (session.id === sessionId) {
+        navigate("/agent");
+      }
+      loadSessions();
+    } catch (error) {
+      toast.error(`Failed to delete session: ${error}`);
+    }
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const message = input.trim();
+    if (!message || sending) {
+      return;
+    }
+
+    let id = sessionId;
+    try {
+      setSending(true);
+      if (!id) {
+        id = (await apiService.createAgentSession()).id;
+      }
+
+      setInput("");
+      setMessages(prev => [...prev, { role: "user", content: message, createdAt: new Date().toISOString() }]);
+      setStreamingReply("");
+      setToolActivity([]);
+
+      const reply = await apiService.streamAgentChat(message, event => {
+        if (event.type === "text") {
+          setStreamingReply(prev => prev + event.delta);
+        } else if (event.type === "tool-call") {
+          setToolActivity(prev => [...prev, TOOL_LABELS[event.toolName] ?? event.toolName]);
+        }
+      }, id);
+
+      setMessages(prev => [...prev, { role: "assistant", content: reply, createdAt: new Date().toISOString() }]);
+      // The turn may have pinned facts or summarized older messages
+      loadMemory(id);
+    } catch (error) {
+      toast.error(`Agent failed: ${error}`);
+      // The server keeps failed turns out of the session, so show what was actually saved
+      if (id) {
+        loadSession(id);
+      }
+    } finally {
+      setSending(false);
+      setStreamingReply("");
+      setToolActivity([]);
+      loadSessions();
+      // Open a session started from the empty state once its first turn is saved
+      if (id && id !== sessionId) {
+        navigate(`/agent/${id}`, { replace: true });
+      }
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner message="Loading agent sessions..." />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Agent</h1>
+        <p className="mt-2 text-gray-600">Analyze accounts, generate and tweak ideas, and search the web by chatting</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="lg:col-span-1 space-y-6">
+          {/* Sessions */}
+          <div className="card">
+            <button onClick={handleNewSession} className="btn-primary w-full px-4 py-2 mb-4">
+              <Plus className="w-4 h-4 mr-2" />
+              New chat
+            </button>
+
+            {sessions.length === 0 ? (
+              <p className="text-sm text-gray-600">No conversations yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {sessions.map(session => (
+                  <div
+                    key={session.id}
+                    onClick={() => navigate(`/agent/${session.id}`)}
+                    className={`group flex items-start justify-between p-3 rounded-lg cursor-pointer ${session.id === sessionId ? "bg-blue-50" : "hover:bg-gray-50"}`}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{session.title}</p>
+                      <p className="text-xs text-gray-500">{session.messageCount} messages · {formatDate(session.updatedAt)}</p>
+                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(session);
+                      }}
+                      className="ml-2 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {memory && <MemoryPanel memory={memory} />}
+        </div>
+
+        {/* Conversation */}
+        <div className="card lg:col-span-3 flex flex-col h-[70vh]">
+          <div className="flex-1 overflow-y-auto space-y-4 pr-2">
+            {messages.length === 0 && !sending && (
+              <div className="h-full flex flex-col items-center justify-center text-center text-gray-500">
+                <Bot className="w-10 h-10 mb-3 text-gray-400" />
+                <p>Try "Analyze @username and generate 5 post ideas"</p>
+              </div>
+            )}
+
+            {messages.map((message, index) => (
+              <ChatMessage key={index} role={message.role} content={message.content} />
+            ))}
+
+            {sending && (
+              <div className="space-y-2">
+                {toolActivity.map((activity, index) => (
+                  <div key={index} className="flex items-center text-sm text-gray-500 ml-11">
+                    <Wrench className="w-4 h-4 mr-2" />
+                    {activity}
+                  </div>
+                ))}
+                {streamingReply ? (
+                  <ChatMessage role="assistant" content={streamingReply} />
+                ) : (
+                  <div className="flex items-center text-sm text-gray-500 ml-11">
+                    <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                    Thinking...
+                  </div>
+                )}
+              </div>
+            )}
+            <div ref={bottomRef} />
+          </div>
+
+          <form onSubmit={handleSend} className="flex gap-3 pt-4 border-t border-gray-200 mt-4">
+            <input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Ask the agent to analyze an account, generate ideas, search the web..."
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg"
+              disabled={sending}
+            />
+            <button type="submit" disabled={sending || !input.trim()} className="btn-primary px-4 py-2">
+              <Send className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ChatMessage({ role, content }: Pick<AgentMessage, "role" | "content">) {
+  const isUser = role === "user";
+
+  return (
+    <div className={`flex items-start gap-3 ${isUser ? "flex-row-reverse" : ""}`}>
+      <div className={`p-2 rounded-full ${isUser ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-700"}`}>
+        {isUser ? <User className="w-4 h-4" /> : <Bot className="w-4 h-4" />}
+      </div>
+      <div className={`max-w-[80%] px-4 py-2 rounded-lg whitespace-pre-wrap text-sm ${isUser ? "bg-blue-50 text-gray-900" : "bg-gray-50 text-gray-900"}`}>
+        {content}
+      </div>
+    </div>
+  );
+}
+
+function MemoryPanel({ memory }: { memory: AgentMemory }) {
+  const { targetAccount, approvedIdeas, notes } = memory.pinned;
+
+  return (
+    <div className="card space-y-4">
+      <h2 className="flex items-center text-lg font-semibold text-gray-900">
+        <Brain className="w-5 h-5 mr-2" />
+        Memory
+      </h2>
+
+      <div>
+        <p className="text-xs font-medium text-gray-500 uppercase">Target account</p>
+        <p className="text-sm text-gray-900">{targetAccount ? `@${targetAccount}` : "None yet"}</p>
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-gray-500 uppercase">Summary</p>
+        {memory.summary ? (
+          <>
+            <p className="text-sm text-gray-700 whitespace-pre-wrap">{memory.summary}</p>
+            <p className="text-xs text-gray-500 mt-1">Covers the first {memory.summarizedCount} messages</p>
+          </>
+        ) : (
+          <p className="text-sm text-gray-600">Nothing summarized yet.</p>
+        )}
+      </div>
+
+      {approvedIdeas.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase">Approved ideas</p>
+          <ul className="mt-1 space-y-1">
+            {approvedIdeas.map((idea, index) => (
+              <li key={index} className="text-sm text-gray-700">• {idea}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {notes.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-500 uppercase">Pinned notes</p>
+          <ul className="mt-1 space-y-1">
+            {notes.map((note, index) => (
+              <li key={index} className="text-sm text-gray-700">• {note}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
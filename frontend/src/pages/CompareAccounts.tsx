@@ -0,0 +1,271 @@
+import { useState, useEffect } from "react";
+import { Scale, Lightbulb, Users, Table } from "lucide-react";
+import toast from "react-hot-toast";
+import apiService from "../lib/api";
+import type { AccountComparison, AccountMetrics, UserSummary } from "../types";
+import LoadingSpinner from "../components/LoadingSpinner";
+
+// Matches MAX_COMPARED_ACCOUNTS on the server
+const MAX_ACCOUNTS = 5;
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+const METRIC_ROWS: { label: string; value: (metrics: AccountMetrics) => string }[] = [
+  { label: "Posts", value: metrics => `${metrics.posts}` },
+  { label: "Posts per week", value: metrics => metrics.postsPerWeek === null ? "–" : `${metrics.postsPerWeek}` },
+  { label: "Hours between posts", value: metrics => metrics.medianHoursBetweenPosts === null ? "–" : `${metrics.medianHoursBetweenPosts}` },
+  { label: "Average length", value: metrics => `${metrics.averageLength} chars` },
+  { label: "Replies", value: metrics => percent(metrics.formatMix.replies) },
+  { label: "Quotes", value: metrics => percent(metrics.formatMix.quotes) },
+  { label: "Threads", value: metrics => percent(metrics.formatMix.threads) },
+  { label: "With media", value: metrics => percent(metrics.formatMix.media) },
+  { label: "With links", value: metrics => percent(metrics.formatMix.links) },
+  { label: "Questions", value: metrics => percent(metrics.formatMix.questions) },
+  {
+    label: "Median engagement",
+    value: metrics => metrics.medianEngagement === null
+      ? "–"
+      : `${metrics.medianEngagement}${metrics.engagementPerView ? " per view" : ""}`
+  },
+  { label: "Top hashtags", value: metrics => metrics.topHashtags.join(" ") || "–" }
+];
+
+export default function CompareAccounts() {
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [primary, setPrimary] = useState("");
+  const [competitors, setCompetitors] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+  const [comparison, setComparison] = useState<AccountComparison | null>(null);
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    try {
+      const analyzed = (await apiService.getUsers()).filter(user => user.hasAnalysis);
+      setUsers(analyzed);
+      setPrimary(analyzed[0]?.username ?? "");
+    } catch (error) {
+      toast.error(`Failed to load users: ${error}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleCompetitor = (username: string) => {
+    setCompetitors(current => current.includes(username)
+      ? current.filter(name => name !== username)
+      : [...current, username].slice(0, MAX_ACCOUNTS - 1));
+  };
+
+  const handleCompare = async () => {
+    const usernames = [primary, ...competitors.filter(name => name !== primary)];
+    if (usernames.length < 2) {
+      toast.error("Pick at least one account to compare with");
+      return;
+    }
+
+    setComparing(true);
+    try {
+      const result = await apiService.compareAccounts(usernames);
+      setComparison(result.comparison);
+      toast.success("Comparison ready!");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to compare accounts: ${error}`);
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner message="Loading accounts..." />;
+  }
+
+  const narrative = comparison?.narrative;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Compare Accounts</h1>
+        <p className="mt-2 text-gray-600">Benchmark an account against its competitors side by side</p>
+      </div>
+
+      {/* Account picker */}
+      <div className="card">
+        <div className="flex items-center mb-4">
+          <Users className="h-5 w-5 text-blue-600 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Accounts</h3>
+        </div>
+
+        {users.length < 2 ? (
+          <p className="text-sm text-gray-600">Comparing needs at least two analyzed accounts. Analyze another profile first.</p>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Benchmark</label>
+              <select
+                value={primary}
+                onChange={(e) => setPrimary(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                {users.map(user => (
+                  <option key={user.username} value={user.username}>@{user.username}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Compare with (up to {MAX_ACCOUNTS - 1})
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {users.filter(user => user.username !== primary).map(user => (
+                  <label
+                    key={user.username}
+                    className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={competitors.includes(user.username)}
+                      onChange={() => toggleCompetitor(user.username)}
+                      className="mr-2"
+                    />
+                    @{user.username}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <button onClick={handleCompare} disabled={comparing} className="btn-primary px-4 py-2">
+              <Scale className="w-4 h-4 mr-2" />
+              {comparing ? "Comparing..." : "Compare"}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {comparison && (
+        <>
+          {narrative && (
+            <div className="card bg-blue-50 border-blue-200">
+              <h3 className="text-lg font-medium text-blue-900 mb-2">Overview</h3>
+              <p className="text-sm text-blue-800">{narrative.overview}</p>
+            </div>
+          )}
+
+          {/* Metrics side by side */}
+          <div className="card overflow-x-auto">
+            <div className="flex items-center mb-4">
+              <Table className="h-5 w-5 text-gray-600 mr-2" />
+              <h3 className="text-lg font-medium text-gray-900">Cadence and Formats</h3>
+            </div>
+
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="py-2 pr-4 text-left font-medium text-gray-500"></th>
+                  {comparison.accounts.map(account => (
+                    <th key={account.username} className="py-2 pr-4 text-left font-medium text-gray-900">@{account.username}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {METRIC_ROWS.map(row => (
+                  <tr key={row.label} className="border-b border-gray-100">
+                    <td className="py-2 pr-4 text-gray-500">{row.label}</td>
+                    {comparison.accounts.map(account => (
+                      <td key={account.username} className="py-2 pr-4 text-gray-900">{row.value(account.metrics)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Themes, tone and topic coverage per account */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {comparison.accounts.map((account, index) => {
+              const written = narrative?.accounts[index];
+              const exclusive = written?.exclusiveTopics ?? account.exclusiveThemes;
+
+              return (
+                <div key={account.username} className="card space-y-3">
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900">
+                      @{account.username}
+                      {index === 0 && <span className="ml-2 text-xs text-gray-500">benchmarked</span>}
+                    </h3>
+                    {written && <p className="text-sm text-gray-700 mt-1">{written.positioning}</p>}
+                  </div>
+
+                  <p className="text-sm text-gray-600"><span className="font-medium text-gray-900">Tone:</span> {account.tone}</p>
+
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-900 mb-1">Themes</h4>
+                    <div className="flex flex-wrap gap-1">
+                      {account.themes.map(theme => (
+                        <span key={theme} className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded">{theme}</span>
+                      ))}
+                    </div>
+                  </div>
+
+                  {account.engagementMechanics.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-900 mb-1">Engagement mechanics</h4>
+                      <ul className="text-sm text-gray-600 space-y-1">
+                        {account.engagementMechanics.map(item => <li key={item}>• {item}</li>)}
+                      </ul>
+                    </div>
+                  )}
+
+                  {exclusive.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium text-green-800 mb-1">Only this account covers</h4>
+                      <ul className="text-sm text-green-700 space-y-1">
+                        {exclusive.map(topic => <li key={topic}>+ {topic}</li>)}
+                      </ul>
+                    </div>
+                  )}
+
+                  {written && written.gaps.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium text-red-800 mb-1">Covered by others, missing here</h4>
+                      <ul className="text-sm text-red-700 space-y-1">
+                        {written.gaps.map(topic => <li key={topic}>- {topic}</li>)}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Shared ground and recommendations */}
+          <div className="card">
+            <div className="flex items-center mb-4">
+              <Lightbulb className="h-5 w-5 text-yellow-600 mr-2" />
+              <h3 className="text-lg font-medium text-gray-900">Takeaways</h3>
+            </div>
+
+            <p className="text-sm text-gray-600 mb-3">
+              <span className="font-medium text-gray-900">Shared:</span>{" "}
+              {(narrative?.sharedTopics ?? comparison.sharedThemes).join(", ") || "nothing in common"}
+            </p>
+
+            {narrative && narrative.recommendations.length > 0 && (
+              <>
+                <h4 className="text-sm font-medium text-gray-900 mb-1">Recommendations for @{comparison.accounts[0]!.username}</h4>
+                <ul className="text-sm text-gray-700 space-y-1">
+                  {narrative.recommendations.map(item => <li key={item}>• {item}</li>)}
+                </ul>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
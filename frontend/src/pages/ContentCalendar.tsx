@@ -0,0 +1,279 @@
+import { useState, useEffect } from "react";
+import { useParams, Link } from "react-router-dom";
+import { ArrowLeft, CalendarDays, ChevronLeft, ChevronRight, Download, Star, X } from "lucide-react";
+import toast from "react-hot-toast";
+import apiService from "../lib/api";
+import type { ContentCalendar as Calendar, StoredIdea } from "../types";
+import LoadingSpinner from "../components/LoadingSpinner";
+
+const DAYS_SHOWN = 14;
+
+function toDateString(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return toDateString(new Date(year!, month! - 1, day! + days));
+}
+
+function describeDate(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year!, month! - 1, day!).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+}
+
+function preview(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > 90 ? `${flat.slice(0, 87)}...` : flat;
+}
+
+export default function ContentCalendar() {
+  const { username } = useParams<{ username: string }>();
+  const [from, setFrom] = useState(() => toDateString(new Date()));
+  const [calendar, setCalendar] = useState<Calendar | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (username) {
+      loadCalendar();
+    }
+  }, [username, from]);
+
+  const loadCalendar = async () => {
+    if (!username) {
+      return;
+    }
+
+    try {
+      setCalendar(await apiService.getCalendar(username, from, DAYS_SHOWN));
+    } catch (error) {
+      toast.error(`Failed to load calendar: ${error}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const schedule = async (ideaId: string, date: string, time: string) => {
+    if (!username) {
+      return;
+    }
+
+    try {
+      await apiService.scheduleIdea(username, ideaId, { date, time });
+      toast.success(`Scheduled for ${describeDate(date)} at ${time}`);
+      loadCalendar();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to schedule idea: ${error}`);
+    }
+  };
+
+  const unschedule = async (idea: StoredIdea) => {
+    if (!username) {
+      return;
+    }
+
+    try {
+      await apiService.unscheduleIdea(username, idea.id);
+      toast.success("Taken off the calendar");
+      loadCalendar();
+    } catch (error) {
+      toast.error(`Failed to unschedule idea: ${error}`);
+    }
+  };
+
+  // Moved ideas keep their time; new ones take the day's suggested slot or the account's usual time
+  const handleDropOnDay = (e: React.DragEvent, date: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    if (!calendar) {
+      return;
+    }
+
+    const ideaId = e.dataTransfer.getData("text/plain");
+    const scheduled = calendar.entries.find(idea => idea.id === ideaId);
+    if (scheduled?.scheduledFor?.date === date) {
+      return;
+    }
+
+    const suggestion = calendar.suggestions.find(slot => slot.date === date);
+    const time = scheduled?.scheduledFor?.time ?? suggestion?.time ?? calendar.preferredTimes[0] ?? "09:00";
+    schedule(ideaId, date, time);
+  };
+
+  const handleDropOnBacklog = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDropTarget(null);
+
+    const idea = calendar?.entries.find(entry => entry.id === e.dataTransfer.getData("text/plain"));
+    if (idea) {
+      unschedule(idea);
+    }
+  };
+
+  const dragProps = (idea: StoredIdea) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.setData("text/plain", idea.id);
+      e.dataTransfer.effectAllowed = "move";
+    },
+    onDragEnd: () => setDropTarget(null)
+  });
+
+  const dropProps = (target: string, onDrop: (e: React.DragEvent) => void) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget(current => (current === target ? null : current)),
+    onDrop
+  });
+
+  if (loading) {
+    return <LoadingSpinner message="Loading content calendar..." />;
+  }
+
+  const dates = Array.from({ length: DAYS_SHOWN }, (_, offset) => shiftDate(from, offset));
+
+  return (
+    <div className="space-y-8 pb-8">
+      {/* Header */}
+      <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-sky-50 via-white to-indigo-50 border border-gray-200 shadow-xl">
+        <div className="absolute inset-0 bg-gradient-to-r from-sky-600/5 to-indigo-600/5"></div>
+        <div className="relative p-8">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <Link
+                to={`/user/${username}`}
+                className="mr-6 p-3 text-gray-600 hover:text-white hover:bg-gradient-to-r hover:from-sky-500 hover:to-indigo-600 rounded-xl transition-all duration-300 transform hover:scale-110 shadow-lg hover:shadow-xl"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+              <div>
+                <h1 className="text-4xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent">
+                  Content Calendar
+                </h1>
+                <p className="mt-2 text-lg text-gray-600">
+                  {calendar?.entries.length ?? 0} scheduled · {calendar?.gaps.length ?? 0} open days for{" "}
+                  <span className="font-semibold text-indigo-600">@{username}</span>
+                </p>
+              </div>
+            </div>
+            <a
+              href={username ? apiService.calendarExportUrl(username) : undefined}
+              className="inline-flex items-center px-4 py-2 bg-white/80 backdrop-blur-sm text-gray-700 font-medium rounded-xl border border-gray-200 hover:bg-white hover:shadow-md transition-all"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export .ics
+            </a>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Approved ideas waiting for a slot; dropping a scheduled idea here unschedules it */}
+        <div
+          {...dropProps("backlog", handleDropOnBacklog)}
+          className={`rounded-2xl bg-white border shadow-lg p-4 space-y-3 h-fit ${
+            dropTarget === "backlog" ? "border-indigo-400 ring-2 ring-indigo-200" : "border-gray-200"
+          }`}
+        >
+          <div className="flex items-center">
+            <Star className="w-4 h-4 text-yellow-500 mr-2" />
+            <h3 className="font-semibold text-gray-900">Approved ideas</h3>
+          </div>
+          {calendar?.unscheduled.length === 0 ? (
+            <p className="text-sm text-gray-500">Star ideas in the Idea Library to plan them here.</p>
+          ) : (
+            calendar?.unscheduled.map(idea => (
+              <div
+                key={idea.id}
+                {...dragProps(idea)}
+                className="p-3 text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-lg cursor-grab active:cursor-grabbing hover:shadow-sm"
+              >
+                {preview(idea.text)}
+              </div>
+            ))
+          )}
+          <p className="text-xs text-gray-400">
+            Drag onto a day to schedule. Usual posting times: {calendar?.preferredTimes.join(", ")}
+          </p>
+        </div>
+
+        {/* Days */}
+        <div className="lg:col-span-3 space-y-4">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => setFrom(shiftDate(from, -DAYS_SHOWN))}
+              className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-200 rounded-lg hover:bg-gray-50"
+            >
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Earlier
+            </button>
+            <span className="text-sm font-medium text-gray-700">
+              {describeDate(dates[0]!)} – {describeDate(dates[dates.length - 1]!)}
+            </span>
+            <button
+              onClick={() => setFrom(shiftDate(from, DAYS_SHOWN))}
+              className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-200 rounded-lg hover:bg-gray-50"
+            >
+              Later
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-7 gap-3">
+            {dates.map(date => {
+              const entries = calendar?.entries.filter(idea => idea.scheduledFor?.date === date) ?? [];
+              const suggestion = calendar?.suggestions.find(slot => slot.date === date);
+
+              return (
+                <div
+                  key={date}
+                  {...dropProps(date, e => handleDropOnDay(e, date))}
+                  className={`min-h-32 rounded-xl border p-2 space-y-2 transition-all ${
+                    dropTarget === date
+                      ? "border-indigo-400 bg-indigo-50"
+                      : entries.length === 0
+                        ? "border-dashed border-gray-300 bg-white/60"
+                        : "border-gray-200 bg-white"
+                  }`}
+                >
+                  <div className="text-xs font-semibold text-gray-600">{describeDate(date)}</div>
+
+                  {entries.map(idea => (
+                    <div key={idea.id} {...dragProps(idea)} className="p-2 text-xs bg-indigo-50 border border-indigo-100 rounded-lg cursor-grab">
+                      <div className="flex items-center justify-between mb-1">
+                        <input
+                          type="time"
+                          defaultValue={idea.scheduledFor!.time}
+                          onBlur={(e) => {
+                            if (e.target.value && e.target.value !== idea.scheduledFor!.time) {
+                              schedule(idea.id, date, e.target.value);
+                            }
+                          }}
+                          className="bg-transparent text-indigo-700 font-medium"
+                        />
+                        <button onClick={() => unschedule(idea)} className="text-gray-400 hover:text-red-600" title="Unschedule">
+                          <X className="w-3 h-3" />
+                        </button>
+                      </div>
+                      <p className="text-gray-700">{preview(idea.text)}</p>
+                    </div>
+                  ))}
+
+                  {entries.length === 0 && suggestion && (
+                    <div className="flex items-center text-xs text-gray-400" title={`Based on ${suggestion.postCount} past posts`}>
+                      <CalendarDays className="w-3 h-3 mr-1" />
+                      Gap · try {suggestion.time}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
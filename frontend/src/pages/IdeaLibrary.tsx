@@ -0,0 +1,250 @@
+import { useState, useEffect } from "react";
+import { useParams, Link } from "react-router-dom";
+import { ArrowLeft, Library, Search, Star, CheckCircle, XCircle, Trash2, RotateCcw } from "lucide-react";
+import toast from "react-hot-toast";
+import apiService from "../lib/api";
+import type { IdeaSource, IdeaStatus, StoredIdea } from "../types";
+import { formatDate } from "../lib/utils";
+import { Badge } from "../components/ui/badge";
+import LoadingSpinner from "../components/LoadingSpinner";
+import PostIdeaCard from "../components/PostIdeaCard";
+
+const STATUS_FILTERS: { value: IdeaStatus | "all"; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "new", label: "New" },
+  { value: "starred", label: "Starred" },
+  { value: "used", label: "Used" },
+  { value: "rejected", label: "Rejected" }
+];
+
+const SOURCE_LABELS: Record<IdeaSource, string> = {
+  batch: "Batch",
+  prompt: "Prompt",
+  tweak: "Tweak"
+};
+
+export default function IdeaLibrary() {
+  const { username } = useParams<{ username: string }>();
+  const [ideas, setIdeas] = useState<StoredIdea[]>([]);
+  const [counts, setCounts] = useState<Record<IdeaStatus, number>>({ new: 0, starred: 0, used: 0, rejected: 0 });
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<IdeaStatus | "all">("all");
+  const [sourceFilter, setSourceFilter] = useState<IdeaSource | "all">("all");
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    if (username) {
+      loadIdeas();
+    }
+  }, [username, statusFilter, sourceFilter]);
+
+  const loadIdeas = async () => {
+    if (!username) return;
+
+    try {
+      const result = await apiService.getIdeas(username, {
+        status: statusFilter === "all" ? undefined : statusFilter,
+        source: sourceFilter === "all" ? undefined : sourceFilter,
+        q: search.trim() || undefined
+      });
+      setIdeas(result.ideas);
+      setCounts(result.counts);
+    } catch (error) {
+      toast.error(`Failed to load ideas: ${error}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadIdeas();
+  };
+
+  const handleStatus = async (idea: StoredIdea, status: IdeaStatus) => {
+    if (!username) return;
+
+    try {
+      await apiService.updateIdeaStatus(username, idea.id, status);
+      toast.success(`Idea marked as ${status}`);
+      loadIdeas();
+    } catch (error) {
+      toast.error(`Failed to update idea: ${error}`);
+    }
+  };
+
+  const handleDelete = async (idea: StoredIdea) => {
+    if (!username) return;
+
+    if (!confirm("Delete this idea from the library?")) {
+      return;
+    }
+
+    try {
+      await apiService.deleteIdea(username, idea.id);
+      toast.success("Idea deleted");
+      loadIdeas();
+    } catch (error) {
+      toast.error(`Failed to delete idea: ${error}`);
+    }
+  };
+
+  const handleCopy = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast.success("Copied to clipboard!");
+  };
+
+  if (loading) {
+    return <LoadingSpinner message="Loading idea library..." />;
+  }
+
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+  return (
+    <div className="space-y-8 pb-8">
+      {/* Header */}
+      <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-amber-50 via-white to-orange-50 border border-gray-200 shadow-xl">
+        <div className="absolute inset-0 bg-gradient-to-r from-amber-600/5 to-orange-600/5"></div>
+        <div className="relative p-8">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <Link
+                to={`/user/${username}`}
+                className="mr-6 p-3 text-gray-600 hover:text-white hover:bg-gradient-to-r hover:from-amber-500 hover:to-orange-600 rounded-xl transition-all duration-300 transform hover:scale-110 shadow-lg hover:shadow-xl"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+              <div>
+                <h1 className="text-4xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent">
+                  Idea Library
+                </h1>
+                <p className="mt-2 text-lg text-gray-600">
+                  {total} saved ideas for <span className="font-semibold text-orange-600">@{username}</span>
+                </p>
+              </div>
+            </div>
+            <div className="hidden md:flex items-center space-x-3">
+              <div className="p-3 bg-gradient-to-br from-amber-500 to-orange-600 rounded-xl shadow-lg">
+                <Library className="h-6 w-6 text-white" />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="rounded-2xl bg-white border border-gray-200 shadow-lg p-6 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {STATUS_FILTERS.map(filter => (
+            <button
+              key={filter.value}
+              onClick={() => setStatusFilter(filter.value)}
+              className={`px-4 py-2 rounded-xl text-sm font-medium border transition-all ${
+                statusFilter === filter.value
+                  ? "bg-gradient-to-r from-amber-500 to-orange-600 text-white border-transparent shadow-md"
+                  : "bg-white text-gray-700 border-gray-200 hover:bg-gray-50"
+              }`}
+            >
+              {filter.label}
+              {filter.value !== "all" && <span className="ml-2 opacity-75">{counts[filter.value]}</span>}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <select
+            value={sourceFilter}
+            onChange={(e) => setSourceFilter(e.target.value as IdeaSource | "all")}
+            className="px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+          >
+            <option value="all">All sources</option>
+            {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <form onSubmit={handleSearch} className="flex flex-1 gap-3">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search idea text or prompts..."
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-amber-500 to-orange-600 text-white font-medium rounded-xl shadow-md hover:shadow-lg transition-all"
+            >
+              <Search className="w-4 h-4 mr-2" />
+              Search
+            </button>
+          </form>
+        </div>
+      </div>
+
+      {/* Ideas */}
+      {ideas.length === 0 ? (
+        <div className="text-center py-16 rounded-2xl bg-white border border-gray-200 shadow-lg">
+          <Library className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-4 text-lg font-semibold text-gray-900">No ideas found</h3>
+          <p className="mt-2 text-gray-600">Generated ideas are saved here automatically.</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {ideas.map((idea, index) => (
+            <div key={idea.id} className="space-y-2">
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                <Badge variant="outline">{SOURCE_LABELS[idea.source]}</Badge>
+                <Badge variant="secondary">{idea.status}</Badge>
+                <span>{formatDate(idea.createdAt)}</span>
+                <span className="text-gray-400">· {idea.model}</span>
+                {idea.prompt && <span className="italic truncate max-w-md">"{idea.prompt}"</span>}
+                {idea.scheduledFor && (
+                  <Link to={`/user/${username}/calendar`}>
+                    <Badge variant="outline">{`📅 ${idea.scheduledFor.date} ${idea.scheduledFor.time}`}</Badge>
+                  </Link>
+                )}
+              </div>
+              <PostIdeaCard idea={idea} index={index + 1} onCopy={() => handleCopy(idea.text)} />
+              <div className="flex flex-wrap gap-2">
+                {idea.status !== "starred" && (
+                  <IdeaActionButton onClick={() => handleStatus(idea, "starred")} icon={<Star className="w-4 h-4 mr-1" />} label="Star" />
+                )}
+                {idea.status !== "used" && (
+                  <IdeaActionButton onClick={() => handleStatus(idea, "used")} icon={<CheckCircle className="w-4 h-4 mr-1" />} label="Mark used" />
+                )}
+                {idea.status !== "rejected" && (
+                  <IdeaActionButton onClick={() => handleStatus(idea, "rejected")} icon={<XCircle className="w-4 h-4 mr-1" />} label="Reject" />
+                )}
+                {idea.status !== "new" && (
+                  <IdeaActionButton onClick={() => handleStatus(idea, "new")} icon={<RotateCcw className="w-4 h-4 mr-1" />} label="Reset" />
+                )}
+                <IdeaActionButton onClick={() => handleDelete(idea)} icon={<Trash2 className="w-4 h-4 mr-1" />} label="Delete" danger />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function IdeaActionButton({ onClick, icon, label, danger }: {
+  onClick: () => void;
+  icon: React.ReactNode;
+  label: string;
+  danger?: boolean;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg border transition-all ${
+        danger
+          ? "text-red-600 border-red-200 hover:bg-red-50"
+          : "text-gray-700 border-gray-200 hover:bg-gray-50"
+      }`}
+    >
+      {icon}
+      {label}
+    </button>
+  );
+}
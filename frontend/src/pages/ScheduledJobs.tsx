@@ -0,0 +1,281 @@
+import { useState, useEffect } from "react";
+import { CalendarClock, Play, Plus, Trash2, CheckCircle, XCircle, History, Pause } from "lucide-react";
+import toast from "react-hot-toast";
+import apiService from "../lib/api";
+import type { JobFrequency, JobRun, ScheduledJob, ScheduledJobType, UserSummary } from "../types";
+import { formatDate } from "../lib/utils";
+import LoadingSpinner from "../components/LoadingSpinner";
+
+const JOB_LABELS: Record<ScheduledJobType, string> = {
+  sync: "Sync posts",
+  analyze: "Re-analyze",
+  generate: "Generate ideas"
+};
+
+const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function describeSchedule(job: ScheduledJob): string {
+  const { frequency, time, dayOfWeek } = job.schedule;
+  switch (frequency) {
+    case "hourly":
+      return `Hourly at :${time.split(":")[1]}`;
+    case "daily":
+      return `Daily at ${time}`;
+    case "weekly":
+      return `${DAYS[dayOfWeek ?? 1]}s at ${time}`;
+  }
+}
+
+export default function ScheduledJobs() {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [schedulerEnabled, setSchedulerEnabled] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<{ username: string; runs: JobRun[] } | null>(null);
+
+  // New job form
+  const [username, setUsername] = useState("");
+  const [type, setType] = useState<ScheduledJobType>("sync");
+  const [frequency, setFrequency] = useState<JobFrequency>("daily");
+  const [time, setTime] = useState("06:00");
+  const [dayOfWeek, setDayOfWeek] = useState(1);
+  const [count, setCount] = useState(10);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [jobsData, usersData] = await Promise.all([apiService.getJobs(), apiService.getUsers()]);
+      setJobs(jobsData.jobs);
+      setSchedulerEnabled(jobsData.schedulerEnabled);
+      setUsers(usersData);
+      if (!username) {
+        setUsername(usersData[0]?.username ?? "");
+      }
+    } catch (error) {
+      toast.error(`Failed to load jobs: ${error}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username) {
+      toast.error("Pick a user first");
+      return;
+    }
+
+    try {
+      await apiService.createJob({
+        username,
+        type,
+        schedule: { frequency, time, dayOfWeek: frequency === "weekly" ? dayOfWeek : undefined },
+        count: type === "generate" ? count : undefined
+      });
+      toast.success("Job scheduled!");
+      loadData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to create job: ${error}`);
+    }
+  };
+
+  const handleToggle = async (job: ScheduledJob) => {
+    try {
+      await apiService.updateJob(job.id, { enabled: !job.enabled });
+      toast.success(job.enabled ? "Job paused" : "Job resumed");
+      loadData();
+    } catch (error) {
+      toast.error(`Failed to update job: ${error}`);
+    }
+  };
+
+  const handleRun = async (job: ScheduledJob) => {
+    setRunningId(job.id);
+    try {
+      const run = await apiService.runJob(job.id);
+      if (run.status === "success") {
+        toast.success(run.message || "Job finished");
+      } else {
+        toast.error(run.error || "Job failed");
+      }
+      loadData();
+    } catch (error) {
+      toast.error(`Failed to run job: ${error}`);
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const handleDelete = async (job: ScheduledJob) => {
+    if (!confirm(`Delete the ${JOB_LABELS[job.type].toLowerCase()} job for @${job.username}?`)) {
+      return;
+    }
+
+    try {
+      await apiService.deleteJob(job.id);
+      toast.success("Job deleted");
+      loadData();
+    } catch (error) {
+      toast.error(`Failed to delete job: ${error}`);
+    }
+  };
+
+  const handleShowRuns = async (job: ScheduledJob) => {
+    try {
+      setRuns(await apiService.getJobRuns(job.username));
+    } catch (error) {
+      toast.error(`Failed to load run history: ${error}`);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner message="Loading scheduled jobs..." />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Scheduled Jobs</h1>
+        <p className="mt-2 text-gray-600">Keep archives, analyses and idea libraries fresh without lifting a finger</p>
+      </div>
+
+      {!schedulerEnabled && (
+        <div className="p-4 rounded-lg bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm">
+          The scheduler is disabled on the server (SCHEDULER_ENABLED=false). Jobs only run when started by hand.
+        </div>
+      )}
+
+      {/* New job */}
+      <div className="card">
+        <div className="flex items-center mb-4">
+          <Plus className="h-5 w-5 text-blue-600 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">New Job</h3>
+        </div>
+
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <select value={username} onChange={(e) => setUsername(e.target.value)} className="px-3 py-2 border border-gray-300 rounded-lg">
+            {users.map(user => (
+              <option key={user.username} value={user.username}>@{user.username}</option>
+            ))}
+          </select>
+          <select value={type} onChange={(e) => setType(e.target.value as ScheduledJobType)} className="px-3 py-2 border border-gray-300 rounded-lg">
+            {Object.entries(JOB_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select value={frequency} onChange={(e) => setFrequency(e.target.value as JobFrequency)} className="px-3 py-2 border border-gray-300 rounded-lg">
+            <option value="hourly">Hourly</option>
+            <option value="daily">Daily</option>
+            <option value="weekly">Weekly</option>
+          </select>
+          <input type="time" value={time} onChange={(e) => setTime(e.target.value)} className="px-3 py-2 border border-gray-300 rounded-lg" required />
+          {frequency === "weekly" && (
+            <select value={dayOfWeek} onChange={(e) => setDayOfWeek(parseInt(e.target.value))} className="px-3 py-2 border border-gray-300 rounded-lg">
+              {DAYS.map((day, index) => (
+                <option key={day} value={index}>{day}</option>
+              ))}
+            </select>
+          )}
+          {type === "generate" && (
+            <input
+              type="number"
+              min={1}
+              max={50}
+              value={count}
+              onChange={(e) => setCount(parseInt(e.target.value) || 10)}
+              className="px-3 py-2 border border-gray-300 rounded-lg"
+              placeholder="Ideas per run"
+            />
+          )}
+          <button type="submit" className="btn-primary px-4 py-2 md:col-start-3">
+            <CalendarClock className="w-4 h-4 mr-2" />
+            Schedule
+          </button>
+        </form>
+      </div>
+
+      {/* Jobs */}
+      <div className="card">
+        <div className="flex items-center mb-4">
+          <CalendarClock className="h-5 w-5 text-gray-600 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Jobs</h3>
+        </div>
+
+        {jobs.length === 0 ? (
+          <p className="text-sm text-gray-600">No jobs scheduled yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {jobs.map(job => (
+              <div key={job.id} className="flex flex-col md:flex-row md:items-center justify-between p-4 bg-gray-50 rounded-lg gap-3">
+                <div>
+                  <h4 className="font-medium text-gray-900">
+                    {JOB_LABELS[job.type]}{job.count ? ` (${job.count})` : ""} · @{job.username}
+                  </h4>
+                  <p className="text-sm text-gray-600">
+                    {describeSchedule(job)} · {job.enabled ? `next run ${new Date(job.nextRunAt).toLocaleString()}` : "paused"}
+                  </p>
+                  {job.lastRunAt && (
+                    <p className={`text-sm flex items-center ${job.lastStatus === "failed" ? "text-red-600" : "text-green-600"}`}>
+                      {job.lastStatus === "failed" ? <XCircle className="w-4 h-4 mr-1" /> : <CheckCircle className="w-4 h-4 mr-1" />}
+                      Last run {formatDate(job.lastRunAt)}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={() => handleRun(job)} disabled={runningId === job.id} className="btn-primary px-3 py-1.5 text-sm">
+                    <Play className="w-4 h-4 mr-1" />
+                    {runningId === job.id ? "Running..." : "Run now"}
+                  </button>
+                  <button onClick={() => handleToggle(job)} className="px-3 py-1.5 text-sm border border-gray-200 rounded-lg hover:bg-white inline-flex items-center">
+                    {job.enabled ? <Pause className="w-4 h-4 mr-1" /> : <Play className="w-4 h-4 mr-1" />}
+                    {job.enabled ? "Pause" : "Resume"}
+                  </button>
+                  <button onClick={() => handleShowRuns(job)} className="px-3 py-1.5 text-sm border border-gray-200 rounded-lg hover:bg-white inline-flex items-center">
+                    <History className="w-4 h-4 mr-1" />
+                    History
+                  </button>
+                  <button onClick={() => handleDelete(job)} className="px-3 py-1.5 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 inline-flex items-center">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Run history */}
+      {runs && (
+        <div className="card">
+          <div className="flex items-center mb-4">
+            <History className="h-5 w-5 text-gray-600 mr-2" />
+            <h3 className="text-lg font-medium text-gray-900">Run History for @{runs.username}</h3>
+          </div>
+
+          {runs.runs.length === 0 ? (
+            <p className="text-sm text-gray-600">No runs yet.</p>
+          ) : (
+            <div className="space-y-2 text-sm">
+              {runs.runs.map(run => (
+                <div key={run.id} className="flex items-start justify-between p-3 bg-gray-50 rounded-lg">
+                  <div>
+                    <span className="font-medium text-gray-900">{JOB_LABELS[run.type]}</span>
+                    <span className={`ml-2 ${run.status === "failed" ? "text-red-600" : "text-gray-600"}`}>
+                      {run.status === "failed" ? run.error : run.message}
+                    </span>
+                  </div>
+                  <span className="text-gray-500 whitespace-nowrap ml-4">{new Date(run.startedAt).toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import {
   User,
   ArrowLeft,
   Calendar,
+  CalendarDays,
   Hash,
   TrendingUp,
   MessageSquare,
@@ -18,6 +19,8 @@ import {
   Target,
   TrendingDown,
   X,
+  Trophy,
+  Library,
   Send
 } from "lucide-react";
 import toast from "react-hot-toast";
@@ -33,6 +36,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Textarea } from "../components/ui/textarea";
 import LoadingSpinner from "../components/LoadingSpinner";
 import PostIdeaCard from "../components/PostIdeaCard";
+import PostingTimesHeatmap from "../components/PostingTimesHeatmap";
 
 export default function UserProfile() {
   const { username } = useParams<{ username: string }>();
@@ -40,7 +44,11 @@ export default function UserProfile() {
   const [loading, setLoading] = useState(true);
   const [analyzing, setAnalyzing] = useState(false);
   const [generating, setGenerating] = useState(false);
+  // Progress message of the running analyze/generate request
+  const [jobMessage, setJobMessage] = useState<string | null>(null);
   const [postCount, setPostCount] = useState(10);
+  const [format, setFormat] = useState<"posts" | "threads">("posts");
+  const [threadCount, setThreadCount] = useState(3);
   const [postIdeas, setPostIdeas] = useState<PostIdea[]>([]);
 
   // Tweak functionality state
@@ -75,13 +83,14 @@ export default function UserProfile() {
 
     try {
       setAnalyzing(true);
-      const result = await apiService.analyzeUser(username);
+      const result = await apiService.analyzeUser(username, (_, message) => setJobMessage(message ?? null));
       setUserData(prev => (prev ? { ...prev, analysis: result.analysis } : null));
       toast.success("Analysis completed successfully!");
     } catch (error) {
       toast.error(`Analysis failed: ${error}`);
     } finally {
       setAnalyzing(false);
+      setJobMessage(null);
     }
   };
 
@@ -90,13 +99,31 @@ export default function UserProfile() {
 
     try {
       setGenerating(true);
-      const result = await apiService.generatePosts(username, { count: postCount });
-      setPostIdeas(result.postIdeas);
+      setPostIdeas([]);
+
+      if (format === "threads") {
+        const result = await apiService.generateThreads(username, { count: threadCount }, (_, message) => setJobMessage(message ?? null));
+        setPostIdeas(result.ideas);
+        toast.success(`Generated ${result.count} threads!`);
+        return;
+      }
+
+      const result = await apiService.streamPosts(username, { count: postCount }, event => {
+        if (event.type === "idea") {
+          setPostIdeas(prev => [...prev.slice(0, event.index), event.idea]);
+        } else if (event.type === "progress") {
+          setJobMessage(event.message);
+        } else if (event.type === "tool-call") {
+          setJobMessage(event.toolName === "web_search" ? "Searching the web" : "Reading a website");
+        }
+      });
+      setPostIdeas(result.ideas);
       toast.success(`Generated ${result.count} post ideas!`);
     } catch (error) {
       toast.error(`Generation failed: ${error}`);
     } finally {
       setGenerating(false);
+      setJobMessage(null);
     }
   };
 
@@ -127,7 +154,8 @@ export default function UserProfile() {
       const response = await apiService.tweakPostIdea({
         originalText: tweakingPost.text,
         feedback: tweakFeedback.trim(),
-        username: username
+        username: username,
+        ideaId: tweakingPost.id
       });
 
       setTweakVariations(response.variations);
@@ -206,6 +234,20 @@ export default function UserProfile() {
               </div>
             </div>
             <div className="flex space-x-3">
+              <Link
+                to={`/user/${username}/ideas`}
+                className="inline-flex items-center px-4 py-2 bg-white/80 backdrop-blur-sm text-gray-700 font-medium rounded-xl border border-gray-200 hover:bg-white hover:shadow-md transition-all"
+              >
+                <Library className="w-4 h-4 mr-2" />
+                Idea Library
+              </Link>
+              <Link
+                to={`/user/${username}/calendar`}
+                className="inline-flex items-center px-4 py-2 bg-white/80 backdrop-blur-sm text-gray-700 font-medium rounded-xl border border-gray-200 hover:bg-white hover:shadow-md transition-all"
+              >
+                <CalendarDays className="w-4 h-4 mr-2" />
+                Calendar
+              </Link>
               <Link
                 to={`/user/${username}/settings`}
                 className="inline-flex items-center px-4 py-2 bg-white/80 backdrop-blur-sm text-gray-700 font-medium rounded-xl border border-gray-200 hover:bg-white hover:shadow-md transition-all"
@@ -219,13 +261,15 @@ export default function UserProfile() {
                 className="inline-flex items-center px-6 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white font-medium rounded-xl hover:from-blue-700 hover:to-purple-700 disabled:from-gray-400 disabled:to-gray-500 transition-all transform hover:scale-105 shadow-lg disabled:transform-none"
               >
                 {analyzing ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <Brain className="w-4 h-4 mr-2" />}
-                {userData.analysis ? "Re-analyze" : "Analyze"}
+                {analyzing && jobMessage ? jobMessage : userData.analysis ? "Re-analyze" : "Analyze"}
               </button>
             </div>
           </div>
         </div>
       </div>
 
+      {userData.posts.length > 0 && <PostingTimesHeatmap username={userData.username} postCount={userData.posts.length} />}
+
       {/* Enhanced Analysis Results */}
       {userData.analysis ? (
         <div className="space-y-6">
@@ -309,6 +353,46 @@ export default function UserProfile() {
               </div>
             </div>
 
+            {/* What Works */}
+            {userData.analysis.what_works && userData.analysis.what_works.length > 0 && (
+              <div className="lg:col-span-2 relative overflow-hidden rounded-xl bg-gradient-to-br from-emerald-50 to-emerald-100/50 border border-emerald-200 shadow-lg hover:shadow-xl transition-all">
+                <div className="absolute top-0 right-0 w-32 h-32 bg-gradient-to-br from-emerald-200/30 to-transparent rounded-bl-full"></div>
+                <div className="relative p-6">
+                  <div className="flex items-center mb-6">
+                    <div className="p-2 bg-emerald-600 rounded-lg">
+                      <Trophy className="h-5 w-5 text-white" />
+                    </div>
+                    <h3 className="text-lg font-semibold text-gray-900 ml-3">What Works</h3>
+                  </div>
+                  <div className="grid grid-cols-1 gap-4">
+                    {userData.analysis.what_works.map((insight, index) => (
+                      <div
+                        key={index}
+                        className="bg-white/70 backdrop-blur-sm p-4 rounded-lg border border-emerald-300/50 hover:bg-white hover:shadow-md transition-all"
+                      >
+                        <p className="text-sm font-medium text-gray-900 leading-relaxed">{insight.pattern}</p>
+                        {insight.evidence?.length > 0 && (
+                          <ul className="mt-2 space-y-1">
+                            {insight.evidence.slice(0, 3).map((quote, quoteIndex) => (
+                              <li key={quoteIndex} className="text-xs text-gray-600 italic border-l-2 border-emerald-300 pl-2">
+                                "{quote}"
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        {insight.contrast && (
+                          <p className="mt-2 text-xs text-gray-500">
+                            <TrendingDown className="inline h-3 w-3 mr-1" />
+                            {insight.contrast}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Enhanced Untapped Opportunities */}
             {userData.analysis.untapped_opportunities && userData.analysis.untapped_opportunities.length > 0 && (
               <div className="lg:col-span-2 relative overflow-hidden rounded-xl bg-gradient-to-br from-purple-50 to-purple-100/50 border border-purple-200 shadow-lg hover:shadow-xl transition-all">
@@ -357,7 +441,7 @@ export default function UserProfile() {
               className="inline-flex items-center px-8 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white font-medium rounded-xl hover:from-blue-700 hover:to-purple-700 disabled:from-gray-400 disabled:to-gray-500 transition-all transform hover:scale-105 shadow-lg disabled:transform-none"
             >
               {analyzing ? <RefreshCw className="w-5 h-5 mr-2 animate-spin" /> : <Brain className="w-5 h-5 mr-2" />}
-              Start Analysis
+              {analyzing && jobMessage ? jobMessage : "Start Analysis"}
             </button>
           </div>
         </div>
@@ -380,15 +464,35 @@ export default function UserProfile() {
               </div>
               <div className="flex items-center space-x-4">
                 <select
-                  value={postCount}
-                  onChange={e => setPostCount(Number(e.target.value))}
+                  value={format}
+                  onChange={e => setFormat(e.target.value as "posts" | "threads")}
                   className="px-4 py-2 bg-white/80 backdrop-blur-sm border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all"
                 >
-                  <option value={5}>5 posts</option>
-                  <option value={10}>10 posts</option>
-                  <option value={15}>15 posts</option>
-                  <option value={20}>20 posts</option>
+                  <option value="posts">Single posts</option>
+                  <option value="threads">Threads</option>
                 </select>
+                {format === "threads" ? (
+                  <select
+                    value={threadCount}
+                    onChange={e => setThreadCount(Number(e.target.value))}
+                    className="px-4 py-2 bg-white/80 backdrop-blur-sm border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all"
+                  >
+                    <option value={1}>1 thread</option>
+                    <option value={3}>3 threads</option>
+                    <option value={5}>5 threads</option>
+                  </select>
+                ) : (
+                  <select
+                    value={postCount}
+                    onChange={e => setPostCount(Number(e.target.value))}
+                    className="px-4 py-2 bg-white/80 backdrop-blur-sm border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all"
+                  >
+                    <option value={5}>5 posts</option>
+                    <option value={10}>10 posts</option>
+                    <option value={15}>15 posts</option>
+                    <option value={20}>20 posts</option>
+                  </select>
+                )}
                 <button
                   onClick={handleGenerate}
                   disabled={generating}
@@ -399,7 +503,7 @@ export default function UserProfile() {
                   ) : (
                     <Lightbulb className="w-4 h-4 mr-2" />
                   )}
-                  Generate
+                  {generating && jobMessage ? jobMessage : "Generate"}
                 </button>
               </div>
             </div>
@@ -416,7 +520,7 @@ export default function UserProfile() {
                     idea={idea}
                     index={index + 1}
                     onCopy={() => handleCopyPost(idea.text)}
-                    onTweak={() => handleTweakPost(idea)}
+                    onTweak={idea.thread ? undefined : () => handleTweakPost(idea)}
                   />
                 ))}
               </div>
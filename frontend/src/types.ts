@@ -1,5 +1,26 @@
+export interface PostMetrics {
+  likes: number;
+  retweets: number;
+  replies: number;
+  views?: number;
+  bookmarks?: number;
+}
+
 export interface TwitterPost {
+  schemaVersion?: number;
+  id?: string;
+  timestamp?: number;
+  createdAt?: string;
   text: string;
+  permanentUrl?: string;
+  metrics?: PostMetrics;
+  isReply?: boolean;
+  isRetweet?: boolean;
+  isQuote?: boolean;
+  isPin?: boolean;
+  urls?: string[];
+  hashtags?: string[];
+  mentions?: string[];
   photos?: { url: string }[];
   videos?: { url: string }[];
 }
@@ -10,9 +31,104 @@ export interface Community {
 }
 
 export interface PostIdea {
+  id?: string;
   text: string;
   community: string | null;
   reasoning?: string;
+  // Thread ideas only; `text` holds the tweets joined by blank lines
+  thread?: ThreadTweet[];
+  styleMatch?: StyleMatch;
+  quality?: IdeaQuality;
+  // Set when the idea nearly repeats an earlier post or idea
+  duplicateOf?: DuplicateMatch;
+}
+
+export interface DuplicateMatch {
+  source: 'post' | 'idea' | 'batch';
+  text: string;
+  // 0-1
+  similarity: number;
+  id?: string;
+}
+
+// Automatic checks run on every generated idea; ideas come back ranked by score
+export interface IdeaQuality {
+  score: number;
+  style: number | null;
+  novelty: number;
+  length: number;
+  issues: string[];
+}
+
+// How closely an idea follows the user's measured style
+export interface StyleMatch {
+  // 0-100
+  score: number;
+  deviations: string[];
+}
+
+export type ThreadTweetRole = "hook" | "body" | "cta";
+
+export interface ThreadTweet {
+  text: string;
+  role: ThreadTweetRole;
+}
+
+export type IdeaSource = "batch" | "prompt" | "tweak";
+
+export type IdeaStatus = "new" | "starred" | "used" | "rejected";
+
+export interface StoredIdea extends PostIdea {
+  id: string;
+  source: IdeaSource;
+  prompt?: string;
+  parentId?: string;
+  model: string;
+  status: IdeaStatus;
+  createdAt: string;
+  updatedAt?: string;
+  scheduledFor?: CalendarSlot;
+}
+
+// Server local time
+export interface CalendarSlot {
+  date: string;
+  time: string;
+}
+
+export interface SuggestedSlot extends CalendarSlot {
+  postCount: number;
+  basis: "weekday" | "overall" | "default";
+}
+
+export interface ContentCalendar {
+  username: string;
+  from: string;
+  to: string;
+  entries: StoredIdea[];
+  unscheduled: StoredIdea[];
+  gaps: string[];
+  suggestions: SuggestedSlot[];
+  preferredTimes: string[];
+}
+
+export interface IdeaFilter {
+  status?: IdeaStatus;
+  source?: IdeaSource;
+  q?: string;
+  limit?: number;
+}
+
+export interface IdeaLibraryResult {
+  username: string;
+  ideas: StoredIdea[];
+  counts: Record<IdeaStatus, number>;
+}
+
+export interface EngagementInsight {
+  pattern: string;
+  evidence: string[];
+  contrast?: string;
 }
 
 export interface Analysis {
@@ -32,6 +148,23 @@ export interface Analysis {
   content_evolution?: string[];
   untapped_opportunities?: string[];
   voice_architecture?: string;
+  what_works?: EngagementInsight[];
+  style?: StyleFingerprint;
+}
+
+// Measured on the analyzed posts; rates are shares of posts, 0-1
+export interface StyleFingerprint {
+  sampleSize: number;
+  length: { median: number; p10: number; p90: number };
+  medianWords: number;
+  emoji: { rate: number; perPost: number; favorites: string[] };
+  capitalization: { lowercaseStart: number; allCapsWords: number };
+  punctuation: { questions: number; exclamations: number; ellipses: number; endsWithPeriod: number };
+  lineBreaks: { rate: number; perPost: number };
+  hashtags: { rate: number; perPost: number };
+  mentions: { rate: number; perPost: number };
+  urlRate: number;
+  ngrams: { bigrams: string[]; trigrams: string[] };
 }
 
 export interface UserData {
@@ -40,6 +173,7 @@ export interface UserData {
   analysis?: Analysis;
   customInstructions?: string;
   availableCommunities?: Community[];
+  lastSyncedAt?: string;
   lastUpdated: string;
 }
 
@@ -63,6 +197,11 @@ export interface PostGenerationRequest {
   customInstructions?: string;
 }
 
+export interface ThreadGenerationRequest {
+  count?: number;
+  topic?: string;
+}
+
 export interface AnalysisResult {
   username: string;
   analysis: Analysis;
@@ -92,6 +231,7 @@ export interface TweakRequest {
   originalText: string;
   feedback: string;
   username?: string;
+  ideaId?: string;
 }
 
 export interface TweakResult {
@@ -106,3 +246,196 @@ export interface DataStats {
   totalDataSize: string;
   lastUpdated?: string;
 }
+
+export type ScheduledJobType = "sync" | "analyze" | "generate";
+
+export type JobFrequency = "hourly" | "daily" | "weekly";
+
+export interface JobSchedule {
+  frequency: JobFrequency;
+  time: string;
+  dayOfWeek?: number;
+}
+
+export type JobRunStatus = "success" | "failed";
+
+export interface ScheduledJob {
+  id: string;
+  username: string;
+  type: ScheduledJobType;
+  schedule: JobSchedule;
+  count?: number;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt?: string;
+  nextRunAt: string;
+  lastRunAt?: string;
+  lastStatus?: JobRunStatus;
+}
+
+export interface JobRun {
+  id: string;
+  jobId: string;
+  type: ScheduledJobType;
+  startedAt: string;
+  finishedAt: string;
+  status: JobRunStatus;
+  message?: string;
+  error?: string;
+}
+
+export interface CreateJobRequest {
+  username: string;
+  type: ScheduledJobType;
+  schedule: JobSchedule;
+  count?: number;
+  enabled?: boolean;
+}
+
+export type QueuedJobType = "scrape" | "analyze" | "generate" | "thread" | "schedule";
+
+export type QueuedJobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface QueuedJob<T = unknown> {
+  id: string;
+  type: QueuedJobType;
+  username: string;
+  status: QueuedJobStatus;
+  progress: number;
+  message?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: T;
+  error?: string;
+}
+
+export type JobProgressHandler = (progress: number, message?: string) => void;
+
+// Server-Sent Events from the streaming generate and agent chat routes
+export type ToolStreamEvent =
+  | { type: "tool-call"; toolName: string; args: unknown }
+  | { type: "tool-result"; toolName: string; result: unknown };
+
+export type IdeaStreamEvent =
+  | ToolStreamEvent
+  | { type: "progress"; message: string }
+  | { type: "idea"; index: number; idea: PostIdea }
+  | { type: "done"; ideas: PostIdea[] }
+  | { type: "error"; message: string };
+
+export type AgentStreamEvent =
+  | ToolStreamEvent
+  | { type: "text"; delta: string }
+  | { type: "done"; text: string }
+  | { type: "error"; message: string };
+
+export interface AgentMessage {
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string;
+}
+
+export interface AgentMemory {
+  summary: string;
+  summarizedCount: number;
+  pinned: {
+    targetAccount?: string;
+    approvedIdeas: string[];
+    notes: string[];
+  };
+  updatedAt?: string;
+}
+
+export interface AgentSession {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: AgentMessage[];
+  memory?: AgentMemory;
+}
+
+export interface AgentSessionSummary extends Omit<AgentSession, "messages" | "memory"> {
+  messageCount: number;
+}
+
+export interface AccountMetrics {
+  posts: number;
+  reposts: number;
+  postsPerWeek: number | null;
+  medianHoursBetweenPosts: number | null;
+  firstPostAt?: string;
+  lastPostAt?: string;
+  averageLength: number;
+  formatMix: {
+    replies: number;
+    quotes: number;
+    threads: number;
+    media: number;
+    links: number;
+    questions: number;
+  };
+  medianEngagement: number | null;
+  engagementPerView: boolean;
+  topHashtags: string[];
+}
+
+export interface AccountProfile {
+  username: string;
+  tone: string;
+  themes: string[];
+  engagementMechanics: string[];
+  exclusiveThemes: string[];
+  metrics: AccountMetrics;
+}
+
+export interface ComparisonNarrative {
+  overview: string;
+  accounts: {
+    username: string;
+    positioning: string;
+    exclusiveTopics: string[];
+    gaps: string[];
+  }[];
+  sharedTopics: string[];
+  recommendations: string[];
+}
+
+export interface AccountComparison {
+  generatedAt: string;
+  accounts: AccountProfile[];
+  sharedThemes: string[];
+  narrative?: ComparisonNarrative;
+}
+
+// Posting times
+export interface DaySpan {
+  from: string;
+  to: string;
+  days: number;
+}
+
+export interface TimingReport {
+  postCount: number;
+  timezone: string;
+  // Posts per weekday (0 = Sunday) and hour
+  heatmap: number[][];
+  byWeekday: number[];
+  byHour: number[];
+  firstPostAt?: string;
+  lastPostAt?: string;
+  postsPerWeek: number | null;
+  activeDays: number;
+  longestStreak: DaySpan | null;
+  currentStreak: number;
+  longestGap: DaySpan | null;
+  medianGapHours: number | null;
+  // 1 = the account's median post
+  engagementByHour: (number | null)[];
+  engagementByWeekday: (number | null)[];
+  samplesByHour: number[];
+  samplesByWeekday: number[];
+  bestHours: number[];
+  bestWeekdays: number[];
+}
@@ -1,18 +1,33 @@
-import { generateText, tool, streamText } from "ai";
-import { google } from "@ai-sdk/google";
+import { generateText, tool, streamText, type LanguageModel } from "ai";
 import { z } from "zod";
 import { createLogger } from "../logger";
+import { modelRegistry } from "./providers";
 import { webSearch } from "./tools/web-search";
 import { websiteVisit } from "./tools/website-visit";
 import { scraperService } from "./services/scraper";
 import { aiService } from "./services/ai";
 import { dataService } from "./services/data";
+import { ideaService } from "./services/ideas";
+import { confirmationService } from "./services/confirmations";
+import { usageService, type UsageContext } from "./services/usage";
 import { DisplayUI } from "./ui/display";
+import { AgentMemoryUtils } from "./utils/agent-memory";
+import type { AgentMemory, AgentMessage, AgentStreamEvent } from "./types";
 import chalk from "chalk";
-import ora from "ora";
+import ora, { type Options as SpinnerOptions } from "ora";
 
 const logger = createLogger("PostgeistAgent");
 
+// Once the unsummarized conversation grows past this many messages, the oldest are folded into
+// the memory summary and only the most recent ones are sent to the model verbatim
+const MAX_CONTEXT_MESSAGES = 20;
+const KEEP_RECENT_MESSAGES = 10;
+
+export interface AgentOptions {
+  // Run inside the API server: no spinners or terminal output, results only reach the client as tool events
+  headless?: boolean;
+}
+
 /**
  * Postgeist AI Agent - A standalone agent for Twitter analysis and content generation
  *
@@ -22,30 +37,43 @@ const logger = createLogger("PostgeistAgent");
  * - Search the web for current information
  * - Visit websites and extract content
  * - Run in a conversational loop
+ * - Remember long conversations through a rolling summary and pinned facts
  */
 export class PostgeistAgent {
-  private model: any;
+  private model: LanguageModel;
   private maxSteps: number = 10;
-  private messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [];
+  // Recent conversation; older turns live in the memory summary
+  private messages: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+  private memory: AgentMemory = AgentMemoryUtils.empty();
+  // Changes with every user message, so destructive tools can tell a fresh request from a confirmation
+  private turnId: string = crypto.randomUUID();
+  private headless: boolean;
 
-  constructor() {
-    this.model = google("gemini-2.5-flash");
-    this.initializeConversation();
+  /**
+   * Resume a saved session with the messages its memory doesn't cover yet
+   */
+  constructor(history: AgentMessage[] = [], memory?: AgentMemory, options: AgentOptions = {}) {
+    this.model = modelRegistry.getModel("agent");
+    this.headless = options.headless ?? false;
+    this.messages = history.map(({ role, content }) => ({ role, content }));
+    if (memory) {
+      this.memory = structuredClone(memory);
+    }
   }
 
-  private initializeConversation() {
-    this.messages = [{
-      role: 'system',
-      content: `You are Postgeist, an expert AI agent specializing in Twitter analysis and content generation.
+  private systemPrompt(): string {
+    return `You are Postgeist, an expert AI agent specializing in Twitter analysis and content generation.
 
 Your capabilities include:
 - Analyzing Twitter users' posting patterns, themes, and writing style
 - Generating authentic post ideas that match users' unique voices
+- Writing multi-tweet threads, numbered the way the user numbers their own threads
+- Drafting replies and quote tweets to other people's tweets in a user's voice
 - Generating posts from custom prompts or topics (with optional style matching)
 - Tweaking existing post ideas based on feedback to create improved variations
 - Searching the web for current information
 - Visiting websites to extract content
-- Managing user data and providing insights
+- Managing user settings, communities, the idea library and stored data
 
 Guidelines:
 - Always be helpful, professional, and detailed in your responses
@@ -56,27 +84,41 @@ Guidelines:
 - Explain what you're doing step by step
 - If errors occur, provide clear explanations and suggestions
 - Remember previous conversations and maintain context throughout the session
+- When the user approves or picks a post idea, save it with rememberApprovedIdea
+- Tools that delete or clear data return a confirmationToken instead of acting. Tell the user exactly what
+  will be removed and ask them to confirm; only call the tool again with the token after they agree
+- When the user states a lasting preference or decision, save it with pinNote
 - Analysis data is automatically saved and persisted for future use
 
 Current capabilities:
 - analyzeTwitterUser: Analyze posting patterns and style of any Twitter user
 - generatePostIdeas: Create authentic post ideas matching a user's style
+- generateThread: Write multi-tweet threads with a hook and a call to action in a user's style
+- draftReplies: Draft replies or quote tweets to a tweet (URL or text) in an analyzed user's voice
 - generateFromPrompt: Generate posts from a topic/prompt, optionally matching a user's style
 - tweakPostIdea: Take an existing post and create 3 improved variations based on feedback
 - getUserInfo: Get information about previously analyzed users
 - listUsers: Show all analyzed users
+- getSettings, setCustomInstructions, clearCustomInstructions: View and change a user's custom instructions
+- addCommunity, removeCommunity: Manage the communities post ideas are tagged with
+- listIdeas, updateIdeaStatus, deleteIdea: Browse the idea library and star, use, reject or delete ideas
+- exportUserData: Export a user's data as JSON or their posts as CSV
+- refreshPosts: Fetch new posts without re-analyzing
+- deleteUser: Delete everything stored for a user
+- rememberApprovedIdea: Pin an approved idea so it is never forgotten
+- pinNote: Pin a preference or decision so it is never forgotten
 - web_search: Search the web for current information
 - website_visit: Extract content from websites
 
-Remember: You can analyze any public Twitter user, generate content that matches their authentic voice and style, create posts from custom prompts, and improve existing ideas with feedback. All analysis data is automatically saved for future reference.`
-    }];
+Remember: You can analyze any public Twitter user, generate content that matches their authentic voice and style, create posts from custom prompts, and improve existing ideas with feedback. All analysis data is automatically saved for future reference.${AgentMemoryUtils.toPrompt(this.memory)}`;
   }
 
   /**
    * Reset conversation history (useful for testing or starting fresh)
    */
   resetConversation(): void {
-    this.initializeConversation();
+    this.messages = [];
+    this.memory = AgentMemoryUtils.empty();
     logger.info("Conversation history reset");
   }
 
@@ -87,6 +129,20 @@ Remember: You can analyze any public Twitter user, generate content that matches
     return this.messages.length;
   }
 
+  /**
+   * What the agent remembers beyond the recent messages
+   */
+  getMemory(): AgentMemory {
+    return structuredClone(this.memory);
+  }
+
+  /**
+   * Progress spinner for the terminal; silent when headless
+   */
+  private spinner(options: SpinnerOptions) {
+    return ora({ ...options, isSilent: this.headless });
+  }
+
   /**
    * Tool for analyzing Twitter users
    */
@@ -97,7 +153,8 @@ Remember: You can analyze any public Twitter user, generate content that matches
       refresh: z.boolean().optional().default(false).describe("Whether to fetch fresh posts or use cached data")
     }),
     execute: async ({ username, refresh = false }) => {
-      const spinner = ora({
+      AgentMemoryUtils.setTargetAccount(this.memory, username);
+      const spinner = this.spinner({
         text: `Analyzing @${username}...`,
         color: 'blue'
       }).start();
@@ -173,7 +230,8 @@ Remember: You can analyze any public Twitter user, generate content that matches
       customInstructions: z.string().optional().describe("Custom instructions for post generation")
     }),
     execute: async ({ username, count = 5, customInstructions }) => {
-      const spinner = ora({
+      AgentMemoryUtils.setTargetAccount(this.memory, username);
+      const spinner = this.spinner({
         text: `Generating ${count} post ideas for @${username}...`,
         color: 'green'
       }).start();
@@ -215,7 +273,9 @@ Remember: You can analyze any public Twitter user, generate content that matches
         spinner.succeed(`Generated ${postIdeas.length} post ideas for @${username}`);
 
         // Display the post ideas beautifully in the terminal
-        DisplayUI.showPostIdeas(postIdeas);
+        if (!this.headless) {
+          DisplayUI.showPostIdeas(postIdeas);
+        }
 
         return {
           success: true,
@@ -239,6 +299,107 @@ Remember: You can analyze any public Twitter user, generate content that matches
     }
   });
 
+  /**
+   * Tool for generating threads
+   */
+  private generateThread = tool({
+    description: "Generate multi-tweet threads in a user's style, with a hook, body tweets and a call to action, numbered like the user's own threads",
+    parameters: z.object({
+      username: z.string().describe("Twitter username (without @) whose analysis and style to use"),
+      topic: z.string().optional().describe("Optional: what the threads should be about"),
+      count: z.number().optional().default(1).describe("Number of threads to generate (1-5)")
+    }),
+    execute: async ({ username, topic, count = 1 }) => {
+      AgentMemoryUtils.setTargetAccount(this.memory, username);
+      const spinner = this.spinner({
+        text: `Generating ${count} threads for @${username}...`,
+        color: 'green'
+      }).start();
+
+      try {
+        const userData = await dataService.getUserData(username);
+        if (!userData.analysis) {
+          spinner.fail(`No analysis found for @${username}`);
+          return {
+            success: false,
+            error: `No analysis found for @${username}. Please analyze the user first.`
+          };
+        }
+
+        const threads = await aiService.generateThreadIdeas(userData, Math.min(Math.max(count, 1), 5), topic);
+        spinner.succeed(`Generated ${threads.length} threads for @${username}`);
+
+        if (!this.headless) {
+          DisplayUI.showPostIdeas(threads);
+        }
+
+        return {
+          success: true,
+          username,
+          topic: topic || null,
+          threads: threads.map(idea => ({
+            id: idea.id,
+            community: idea.community,
+            reasoning: idea.reasoning,
+            tweets: idea.thread?.map(tweet => ({ ...tweet, characterCount: tweet.text.length }))
+          }))
+        };
+      } catch (error) {
+        spinner.fail(`Thread generation failed for @${username}`);
+        return this.toolFailure(`generate threads for @${username}`, error);
+      }
+    }
+  });
+
+  /**
+   * Tool for drafting replies and quote tweets
+   */
+  private draftReplies = tool({
+    description: "Draft replies or quote tweets to someone's tweet in an analyzed user's voice, each with a short rationale",
+    parameters: z.object({
+      username: z.string().describe("Persona: the analyzed Twitter username (without @) to write as"),
+      tweet: z.string().describe("The target tweet's URL, id or full text"),
+      mode: z.enum(["reply", "quote", "both"]).optional().default("both").describe("Draft replies, quote tweets or a mix"),
+      count: z.number().optional().default(4).describe("Number of drafts (1-10)")
+    }),
+    execute: async ({ username, tweet, mode = "both", count = 4 }) => {
+      AgentMemoryUtils.setTargetAccount(this.memory, username);
+      const spinner = this.spinner({
+        text: `Drafting ${mode === "both" ? "replies and quotes" : `${mode} drafts`} as @${username}...`,
+        color: 'green'
+      }).start();
+
+      try {
+        const userData = await dataService.getUserData(username);
+        if (!userData.analysis) {
+          spinner.fail(`No analysis found for @${username}`);
+          return {
+            success: false,
+            error: `No analysis found for @${username}. Please analyze the user first.`
+          };
+        }
+
+        const target = await scraperService.resolveTweet(tweet);
+        const drafts = await aiService.draftReplies(userData, target, Math.min(Math.max(count, 1), 10), mode);
+        spinner.succeed(`Drafted ${drafts.length} responses as @${username}`);
+
+        if (!this.headless) {
+          DisplayUI.showReplyDrafts(target, drafts, username);
+        }
+
+        return {
+          success: true,
+          persona: username,
+          target,
+          drafts: drafts.map(draft => ({ ...draft, characterCount: draft.text.length }))
+        };
+      } catch (error) {
+        spinner.fail(`Reply drafting failed for @${username}`);
+        return this.toolFailure(`draft replies as @${username}`, error);
+      }
+    }
+  });
+
   /**
    * Tool for getting user information
    */
@@ -248,7 +409,8 @@ Remember: You can analyze any public Twitter user, generate content that matches
       username: z.string().describe("Twitter username to get info for")
     }),
     execute: async ({ username }) => {
-      const spinner = ora({
+      AgentMemoryUtils.setTargetAccount(this.memory, username);
+      const spinner = this.spinner({
         text: `Loading info for @${username}...`,
         color: 'cyan'
       }).start();
@@ -305,7 +467,7 @@ Remember: You can analyze any public Twitter user, generate content that matches
       username: z.string().optional().describe("Optional: Twitter username to match the style of")
     }),
     execute: async ({ prompt, count = 5, username }) => {
-      const spinner = ora({
+      const spinner = this.spinner({
         text: `Generating ${count} posts from prompt: "${prompt}"...`,
         color: 'green'
       }).start();
@@ -332,7 +494,9 @@ Remember: You can analyze any public Twitter user, generate content that matches
         spinner.succeed(`Generated ${postIdeas.length} posts from prompt`);
 
         // Display the post ideas beautifully in the terminal
-        DisplayUI.showPostIdeas(postIdeas);
+        if (!this.headless) {
+          DisplayUI.showPostIdeas(postIdeas);
+        }
 
         return {
           success: true,
@@ -368,7 +532,7 @@ Remember: You can analyze any public Twitter user, generate content that matches
       username: z.string().optional().describe("Optional: Twitter username to match the style of")
     }),
     execute: async ({ originalText, feedback, username }) => {
-      const spinner = ora({
+      const spinner = this.spinner({
         text: `Creating 3 tweaked variations...`,
         color: 'magenta'
       }).start();
@@ -402,7 +566,9 @@ Remember: You can analyze any public Twitter user, generate content that matches
         spinner.succeed(`Generated 3 tweaked variations`);
 
         // Display the tweaked variations beautifully in the terminal
-        DisplayUI.showPostIdeas(tweakedIdeas);
+        if (!this.headless) {
+          DisplayUI.showPostIdeas(tweakedIdeas);
+        }
 
         return {
           success: true,
@@ -435,7 +601,7 @@ Remember: You can analyze any public Twitter user, generate content that matches
     description: "List all previously analyzed Twitter users",
     parameters: z.object({}),
     execute: async () => {
-      const spinner = ora({
+      const spinner = this.spinner({
         text: 'Loading analyzed users...',
         color: 'magenta'
       }).start();
@@ -483,52 +649,382 @@ Remember: You can analyze any public Twitter user, generate content that matches
     }
   });
 
+  /**
+   * Tool for reading a user's generation settings
+   */
+  private getSettings = tool({
+    description: "Get a user's custom instructions and the communities post ideas can be tagged with",
+    parameters: z.object({
+      username: z.string().describe("Twitter username (without @)")
+    }),
+    execute: async ({ username }) => {
+      try {
+        const userData = await dataService.getUserData(username);
+        return {
+          success: true,
+          username,
+          customInstructions: userData.customInstructions || null,
+          communities: userData.availableCommunities || []
+        };
+      } catch (error) {
+        return this.toolFailure(`load settings for @${username}`, error);
+      }
+    }
+  });
+
+  /**
+   * Tool for setting custom instructions
+   */
+  private setCustomInstructions = tool({
+    description: "Set the custom instructions used whenever post ideas are generated for a user, replacing any existing ones",
+    parameters: z.object({
+      username: z.string().describe("Twitter username (without @)"),
+      instructions: z.string().describe("The complete new instructions")
+    }),
+    execute: async ({ username, instructions }) => {
+      try {
+        const userData = await dataService.getUserData(username);
+        const previous = userData.customInstructions || null;
+        userData.customInstructions = instructions.trim();
+        await dataService.saveUserData(userData);
+        return { success: true, username, customInstructions: userData.customInstructions, previous };
+      } catch (error) {
+        return this.toolFailure(`update instructions for @${username}`, error);
+      }
+    }
+  });
+
+  /**
+   * Tool for clearing custom instructions (requires confirmation)
+   */
+  private clearCustomInstructions = tool({
+    description: "Remove a user's custom instructions. Needs the user's confirmation: call without a token first.",
+    parameters: z.object({
+      username: z.string().describe("Twitter username (without @)"),
+      confirmationToken: z.string().optional().describe("Token from the previous call, once the user has confirmed")
+    }),
+    execute: async ({ username, confirmationToken }) => {
+      try {
+        const userData = await dataService.getUserData(username);
+        if (!userData.customInstructions) {
+          return { success: false, error: `@${username} has no custom instructions` };
+        }
+
+        const pending = this.requireConfirmation(
+          "clearCustomInstructions", username, `remove the custom instructions of @${username}`, confirmationToken
+        );
+        if (pending) {
+          return pending;
+        }
+
+        delete userData.customInstructions;
+        await dataService.saveUserData(userData);
+        return { success: true, message: `Cleared the custom instructions of @${username}` };
+      } catch (error) {
+        return this.toolFailure(`clear instructions for @${username}`, error);
+      }
+    }
+  });
+
+  /**
+   * Tool for adding a community
+   */
+  private addCommunity = tool({
+    description: "Add a community that a user's post ideas can be tagged with",
+    parameters: z.object({
+      username: z.string().describe("Twitter username (without @)"),
+      name: z.string().describe("Community name"),
+      description: z.string().describe("What the community is about and which posts belong in it")
+    }),
+    execute: async ({ username, name, description }) => {
+      try {
+        const userData = await dataService.getUserData(username);
+        const communities = userData.availableCommunities ?? [];
+
+        if (communities.some(community => community.name.toLowerCase() === name.trim().toLowerCase())) {
+          return { success: false, error: `@${username} already has a community named "${name}"` };
+        }
+
+        communities.push({ name: name.trim(), description: description.trim() });
+        userData.availableCommunities = communities;
+        await dataService.saveUserData(userData);
+        return { success: true, username, communities };
+      } catch (error) {
+        return this.toolFailure(`add community for @${username}`, error);
+      }
+    }
+  });
+
+  /**
+   * Tool for removing a community (requires confirmation)
+   */
+  private removeCommunity = tool({
+    description: "Remove one of a user's communities. Needs the user's confirmation: call without a token first.",
+    parameters: z.object({
+      username: z.string().describe("Twitter username (without @)"),
+      name: z.string().describe("Name of the community to remove"),
+      confirmationToken: z.string().optional().describe("Token from the previous call, once the user has confirmed")
+    }),
+    execute: async ({ username, name, confirmationToken }) => {
+      try {
+        const userData = await dataService.getUserData(username);
+        const communities = userData.availableCommunities ?? [];
+        const index = communities.findIndex(community => community.name.toLowerCase() === name.trim().toLowerCase());
+
+        if (index === -1) {
+          return {
+            success: false,
+            error: `@${username} has no community named "${name}"`,
+            communities: communities.map(community => community.name)
+          };
+        }
+
+        const community = communities[index]!;
+        const pending = this.requireConfirmation(
+          "removeCommunity", `${username}/${community.name}`, `remove the "${community.name}" community of @${username}`, confirmationToken
+        );
+        if (pending) {
+          return pending;
+        }
+
+        communities.splice(index, 1);
+        userData.availableCommunities = communities;
+        await dataService.saveUserData(userData);
+        return { success: true, message: `Removed the "${community.name}" community`, communities };
+      } catch (error) {
+        return this.toolFailure(`remove community for @${username}`, error);
+      }
+    }
+  });
+
+  /**
+   * Tool for browsing the idea library
+   */
+  private listIdeas = tool({
+    description: "List post ideas saved in a user's idea library, newest first",
+    parameters: z.object({
+      username: z.string().describe("Twitter username (without @)"),
+      status: z.enum(["new", "starred", "used", "rejected"]).optional().describe("Only ideas with this status"),
+      source: z.enum(["batch", "prompt", "tweak"]).optional().describe("Only ideas generated this way"),
+      search: z.string().optional().describe("Only ideas whose text or prompt contains this"),
+      limit: z.number().optional().default(20).describe("Maximum number of ideas to return")
+    }),
+    execute: async ({ username, status, source, search, limit = 20 }) => {
+      try {
+        const ideas = await ideaService.list(username, { status, source, search, limit });
+        const counts = await ideaService.getStatusCounts(username);
+        return {
+          success: true,
+          username,
+          counts,
+          ideas: ideas.map(idea => ({
+            id: idea.id,
+            text: idea.text,
+            community: idea.community,
+            status: idea.status,
+            source: idea.source,
+            createdAt: idea.createdAt
+          }))
+        };
+      } catch (error) {
+        return this.toolFailure(`list ideas for @${username}`, error);
+      }
+    }
+  });
+
+  /**
+   * Tool for starring, using and rejecting ideas
+   */
+  private updateIdeaStatus = tool({
+    description: "Mark an idea in the library as starred, used, rejected or new again",
+    parameters: z.object({
+      username: z.string().describe("Twitter username (without @)"),
+      ideaId: z.string().describe("Idea id from listIdeas"),
+      status: z.enum(["new", "starred", "used", "rejected"]).describe("The new status")
+    }),
+    execute: async ({ username, ideaId, status }) => {
+      try {
+        const idea = await ideaService.updateStatus(username, ideaId, status);
+        return { success: true, idea: { id: idea.id, text: idea.text, status: idea.status } };
+      } catch (error) {
+        return this.toolFailure(`update idea ${ideaId}`, error);
+      }
+    }
+  });
+
+  /**
+   * Tool for deleting an idea (requires confirmation)
+   */
+  private deleteIdea = tool({
+    description: "Delete an idea from the library for good. Needs the user's confirmation: call without a token first.",
+    parameters: z.object({
+      username: z.string().describe("Twitter username (without @)"),
+      ideaId: z.string().describe("Idea id from listIdeas"),
+      confirmationToken: z.string().optional().describe("Token from the previous call, once the user has confirmed")
+    }),
+    execute: async ({ username, ideaId, confirmationToken }) => {
+      try {
+        const idea = await ideaService.get(username, ideaId);
+        if (!idea) {
+          return { success: false, error: `Idea ${ideaId} not found for @${username}` };
+        }
+
+        const pending = this.requireConfirmation(
+          "deleteIdea", `${username}/${ideaId}`, `permanently delete the idea "${idea.text}"`, confirmationToken
+        );
+        if (pending) {
+          return pending;
+        }
+
+        await ideaService.delete(username, ideaId);
+        return { success: true, message: `Deleted idea ${ideaId}` };
+      } catch (error) {
+        return this.toolFailure(`delete idea ${ideaId}`, error);
+      }
+    }
+  });
+
+  /**
+   * Tool for exporting a user's data
+   */
+  private exportUserData = tool({
+    description: "Export a user's data to a file: everything as JSON, or the posts as CSV",
+    parameters: z.object({
+      username: z.string().describe("Twitter username (without @)"),
+      format: z.enum(["json", "csv"]).optional().default("json").describe("Export format")
+    }),
+    execute: async ({ username, format = "json" }) => {
+      const spinner = this.spinner({ text: `Exporting @${username} as ${format.toUpperCase()}...`, color: 'cyan' }).start();
+
+      try {
+        const filePath = await dataService.exportUserData(username, format);
+        spinner.succeed(`Exported @${username} to ${filePath}`);
+        return { success: true, username, format, filePath };
+      } catch (error) {
+        spinner.fail(`Export failed for @${username}`);
+        return this.toolFailure(`export @${username}`, error);
+      }
+    }
+  });
+
+  /**
+   * Tool for fetching new posts
+   */
+  private refreshPosts = tool({
+    description: "Fetch a user's posts that are newer than the stored archive, without re-analyzing",
+    parameters: z.object({
+      username: z.string().describe("Twitter username (without @)")
+    }),
+    execute: async ({ username }) => {
+      AgentMemoryUtils.setTargetAccount(this.memory, username);
+      const spinner = this.spinner({ text: `Fetching new posts for @${username}...`, color: 'blue' }).start();
+
+      try {
+        const result = await scraperService.syncPosts(username);
+        spinner.succeed(`Fetched ${result.added} new posts for @${username}`);
+        return { success: true, username, newPosts: result.added, totalPosts: result.total };
+      } catch (error) {
+        spinner.fail(`Failed to refresh posts for @${username}`);
+        return this.toolFailure(`refresh posts for @${username}`, error);
+      }
+    }
+  });
+
+  /**
+   * Tool for deleting a user (requires confirmation)
+   */
+  private deleteUser = tool({
+    description: "Delete everything stored for a user: posts, analysis, settings and ideas. Needs the user's confirmation: call without a token first.",
+    parameters: z.object({
+      username: z.string().describe("Twitter username (without @)"),
+      confirmationToken: z.string().optional().describe("Token from the previous call, once the user has confirmed")
+    }),
+    execute: async ({ username, confirmationToken }) => {
+      try {
+        if (!(await dataService.listUsers()).includes(username)) {
+          return { success: false, error: `No data stored for @${username}` };
+        }
+
+        const pending = this.requireConfirmation(
+          "deleteUser", username, `permanently delete all data stored for @${username}`, confirmationToken
+        );
+        if (pending) {
+          return pending;
+        }
+
+        const deleted = await dataService.deleteUserData(username);
+        return deleted
+          ? { success: true, message: `Deleted all data for @${username}` }
+          : { success: false, error: `Failed to delete @${username}` };
+      } catch (error) {
+        return this.toolFailure(`delete @${username}`, error);
+      }
+    }
+  });
+
+  /**
+   * Tool for pinning an approved idea in memory
+   */
+  private rememberApprovedIdea = tool({
+    description: "Pin a post idea the user approved so it is remembered for the rest of the conversation",
+    parameters: z.object({
+      text: z.string().describe("The full text of the approved post idea")
+    }),
+    execute: async ({ text }) => {
+      const added = AgentMemoryUtils.addApprovedIdea(this.memory, text);
+      return {
+        success: true,
+        alreadyPinned: !added,
+        approvedIdeas: this.memory.pinned.approvedIdeas.length
+      };
+    }
+  });
+
+  /**
+   * Tool for pinning a fact in memory
+   */
+  private pinNote = tool({
+    description: "Pin a preference, decision or fact the user stated so it survives when old messages are summarized",
+    parameters: z.object({
+      note: z.string().describe("The fact to remember, as one short sentence")
+    }),
+    execute: async ({ note }) => {
+      const added = AgentMemoryUtils.addNote(this.memory, note);
+      return { success: true, alreadyPinned: !added, notes: this.memory.pinned.notes.length };
+    }
+  });
+
   /**
    * Main agent conversation method
    */
   async chat(message: string): Promise<string> {
-    const spinner = ora({
+    const spinner = this.spinner({
       text: 'Thinking...',
       color: 'yellow'
     });
 
     try {
-      console.log(chalk.blue(`\n🤖 Processing: ${message}`));
+      if (!this.headless) {
+        console.log(chalk.blue(`\n🤖 Processing: ${message}`));
+      }
       spinner.start();
 
+      await this.compact();
+
       // Add user message to conversation history
       this.messages.push({ role: 'user', content: message });
+      this.turnId = crypto.randomUUID();
 
-      const result = await generateText({
+      const result = await usageService.track(() => this.usageContext("agent-chat"), () => generateText({
         model: this.model,
         maxSteps: this.maxSteps,
-        messages: this.messages,
-        tools: {
-          analyzeTwitterUser: this.analyzeTwitterUser,
-          generatePostIdeas: this.generatePostIdeas,
-          generateFromPrompt: this.generateFromPrompt,
-          tweakPostIdea: this.tweakPostIdea,
-          getUserInfo: this.getUserInfo,
-          listUsers: this.listUsers,
-          web_search: webSearch,
-          website_visit: websiteVisit
-        }
-      });
+        messages: this.conversation(),
+        tools: this.tools()
+      }));
 
       // Add assistant response to conversation history
       this.messages.push({ role: 'assistant', content: result.text });
 
-      // Keep conversation history manageable (last 20 messages + system)
-      if (this.messages.length > 21) {
-        const systemMessage = this.messages[0];
-        const recentMessages = this.messages.slice(-20);
-        if (systemMessage) {
-          this.messages = [systemMessage, ...recentMessages];
-        } else {
-          this.messages = recentMessages;
-        }
-      }
-
       spinner.stop();
       return result.text;
     } catch (error) {
@@ -542,51 +1038,176 @@ Remember: You can analyze any public Twitter user, generate content that matches
    * Stream responses for real-time interaction
    */
   async *chatStream(message: string): AsyncGenerator<string, void, unknown> {
-    try {
+    if (!this.headless) {
       console.log(chalk.blue(`\n🤖 Processing: ${message}`));
+    }
+
+    for await (const event of this.chatEvents(message)) {
+      if (event.type === 'text') {
+        yield event.delta;
+      } else if (event.type === 'error') {
+        yield `Sorry, I encountered an error: ${event.message}. Please try again.`;
+      }
+    }
+  }
+
+  /**
+   * Stream the response as events, including the tools the agent calls along the way
+   */
+  async *chatEvents(message: string): AsyncGenerator<AgentStreamEvent, void, unknown> {
+    try {
+      await this.compact();
 
       // Add user message to conversation history
       this.messages.push({ role: 'user', content: message });
+      this.turnId = crypto.randomUUID();
 
-      const result = streamText({
+      await usageService.checkBudget(this.usageContext("agent-chat"));
+      const startedAt = Date.now();
+      const result = await streamText({
         model: this.model,
         maxSteps: this.maxSteps,
-        messages: this.messages,
-        tools: {
-          analyzeTwitterUser: this.analyzeTwitterUser,
-          generatePostIdeas: this.generatePostIdeas,
-          generateFromPrompt: this.generateFromPrompt,
-          tweakPostIdea: this.tweakPostIdea,
-          getUserInfo: this.getUserInfo,
-          listUsers: this.listUsers,
-          web_search: webSearch,
-          website_visit: websiteVisit
-        }
+        messages: this.conversation(),
+        tools: this.tools()
       });
 
       let responseText = '';
-      for await (const delta of (await result).textStream) {
-        responseText += delta;
-        yield delta;
+      try {
+        for await (const part of result.fullStream) {
+          switch (part.type) {
+            case 'text-delta':
+              responseText += part.textDelta;
+              yield { type: 'text', delta: part.textDelta };
+              break;
+            case 'tool-call':
+              yield { type: 'tool-call', toolName: part.toolName, args: part.args };
+              break;
+            case 'tool-result':
+              yield { type: 'tool-result', toolName: part.toolName, result: part.result };
+              break;
+            case 'error':
+              throw part.error;
+          }
+        }
+      } catch (error) {
+        await usageService.record(this.usageContext("agent-chat"), startedAt, undefined, error);
+        throw error;
       }
+      await usageService.record(this.usageContext("agent-chat"), startedAt, { usage: await result.usage, steps: await result.steps });
 
       // Add assistant response to conversation history
       this.messages.push({ role: 'assistant', content: responseText });
 
-      // Keep conversation history manageable (last 20 messages + system)
-      if (this.messages.length > 21) {
-        const systemMessage = this.messages[0];
-        const recentMessages = this.messages.slice(-20);
-        if (systemMessage) {
-          this.messages = [systemMessage, ...recentMessages];
-        } else {
-          this.messages = recentMessages;
-        }
-      }
+      yield { type: 'done', text: responseText };
     } catch (error) {
       logger.error("Agent stream failed", error as Error);
-      yield `Sorry, I encountered an error: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`;
+      yield { type: 'error', message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  private tools() {
+    return {
+      analyzeTwitterUser: this.analyzeTwitterUser,
+      generatePostIdeas: this.generatePostIdeas,
+      generateThread: this.generateThread,
+      draftReplies: this.draftReplies,
+      generateFromPrompt: this.generateFromPrompt,
+      tweakPostIdea: this.tweakPostIdea,
+      getUserInfo: this.getUserInfo,
+      listUsers: this.listUsers,
+      getSettings: this.getSettings,
+      setCustomInstructions: this.setCustomInstructions,
+      clearCustomInstructions: this.clearCustomInstructions,
+      addCommunity: this.addCommunity,
+      removeCommunity: this.removeCommunity,
+      listIdeas: this.listIdeas,
+      updateIdeaStatus: this.updateIdeaStatus,
+      deleteIdea: this.deleteIdea,
+      exportUserData: this.exportUserData,
+      refreshPosts: this.refreshPosts,
+      deleteUser: this.deleteUser,
+      rememberApprovedIdea: this.rememberApprovedIdea,
+      pinNote: this.pinNote,
+      web_search: webSearch,
+      website_visit: websiteVisit
+    };
+  }
+
+  /**
+   * Gate for destructive tools. Returns null once the user has confirmed in an earlier turn,
+   * otherwise the result the tool should hand back to the model instead of acting.
+   */
+  private requireConfirmation(action: string, target: string, description: string, token?: string) {
+    if (token) {
+      const check = confirmationService.confirm(token, action, target, this.turnId);
+      if (check === 'confirmed') {
+        return null;
+      }
+      if (check === 'same-turn') {
+        return {
+          success: false,
+          requiresConfirmation: true,
+          error: "The user hasn't answered yet. Ask them to confirm and wait for their reply before using the token."
+        };
+      }
     }
+
+    const confirmationToken = confirmationService.request(action, target, this.turnId);
+    return {
+      success: false,
+      requiresConfirmation: true,
+      confirmationToken,
+      message: `${token ? "That confirmation token is invalid or expired. " : ""}This will ${description}. `
+        + `Ask the user to confirm. If they agree, call this tool again with confirmationToken "${confirmationToken}".`
+    };
+  }
+
+  private toolFailure(action: string, error: unknown) {
+    logger.error(`Failed to ${action}`, error as Error);
+    return {
+      success: false,
+      error: `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+
+  /**
+   * Agent calls are billed to the account the conversation is about, read when the call is
+   * recorded so a turn that picks the account is billed to it
+   */
+  private usageContext(operation: string): UsageContext {
+    return { operation, username: this.memory.pinned.targetAccount, task: "agent" };
+  }
+
+  private conversation() {
+    return [{ role: 'system' as const, content: this.systemPrompt() }, ...this.messages];
+  }
+
+  /**
+   * Fold the oldest messages into the memory summary once the conversation gets long.
+   * Pinned facts are kept as they are, so they survive any number of compactions.
+   */
+  private async compact(): Promise<void> {
+    if (this.messages.length <= MAX_CONTEXT_MESSAGES) {
+      return;
+    }
+
+    const folded = this.messages.slice(0, this.messages.length - KEEP_RECENT_MESSAGES);
+
+    try {
+      const { text } = await usageService.track(this.usageContext("agent-summary"), () => generateText({
+        model: this.model,
+        prompt: AgentMemoryUtils.summaryPrompt(this.memory, folded)
+      }));
+      this.memory.summary = text.trim();
+      logger.info(`Summarized ${folded.length} older messages into memory`);
+    } catch (error) {
+      // Dropping the messages keeps the agent usable, and the pinned facts are still there
+      logger.warn(`Failed to summarize older messages, dropping ${folded.length} of them`, error as Error);
+    }
+
+    this.messages = this.messages.slice(folded.length);
+    this.memory.summarizedCount += folded.length;
+    this.memory.updatedAt = new Date().toISOString();
   }
 
   /**
@@ -595,7 +1216,7 @@ Remember: You can analyze any public Twitter user, generate content that matches
   async runLoop(): Promise<void> {
     console.log(chalk.cyan.bold("\n🚀 Postgeist AI Agent - Interactive Mode"));
     console.log(chalk.gray("Ask me to analyze Twitter users, generate posts, search the web, or anything else!"));
-    console.log(chalk.gray("Type 'exit' to quit.\n"));
+    console.log(chalk.gray("Type '/memory' to see what I remember, 'exit' to quit.\n"));
 
     const { text } = await import("@clack/prompts");
 
@@ -611,6 +1232,11 @@ Remember: You can analyze any public Twitter user, generate content that matches
           break;
         }
 
+        if (userInput.trim() === "/memory") {
+          DisplayUI.showAgentMemory(this.memory);
+          continue;
+        }
+
         // Get response from agent
         const response = await this.chat(userInput);
         console.log(chalk.green(`\n✨ ${response}\n`));
@@ -0,0 +1,171 @@
+import type { Analysis, TwitterPost, UserData } from "../types";
+import { AnalysisDiffer } from "./diff";
+import { EngagementAnalytics } from "./engagement";
+import { ThreadUtils } from "../utils/threads";
+
+// Same cut-off the analysis diff uses to treat two free-text themes as one
+const MATCH_THRESHOLD = 0.5;
+
+const TOP_HASHTAGS = 5;
+
+// Shares of the account's own posts, 0-1
+export interface FormatMix {
+  replies: number;
+  quotes: number;
+  threads: number;
+  media: number;
+  links: number;
+  questions: number;
+}
+
+export interface AccountMetrics {
+  // Own posts; reposts are counted separately
+  posts: number;
+  reposts: number;
+  postsPerWeek: number | null;
+  medianHoursBetweenPosts: number | null;
+  firstPostAt?: string;
+  lastPostAt?: string;
+  averageLength: number;
+  formatMix: FormatMix;
+  // Weighted interactions on a typical post, per view when every post has a view count
+  medianEngagement: number | null;
+  engagementPerView: boolean;
+  topHashtags: string[];
+}
+
+export interface AccountProfile {
+  username: string;
+  tone: string;
+  themes: string[];
+  engagementMechanics: string[];
+  // Themes no other account in the comparison covers
+  exclusiveThemes: string[];
+  metrics: AccountMetrics;
+}
+
+export interface ComparisonNarrative {
+  overview: string;
+  accounts: {
+    username: string;
+    positioning: string;
+    exclusiveTopics: string[];
+    gaps: string[];
+  }[];
+  sharedTopics: string[];
+  recommendations: string[];
+}
+
+export interface AccountComparison {
+  generatedAt: string;
+  accounts: AccountProfile[];
+  // Themes every account covers, in the first account's wording
+  sharedThemes: string[];
+  narrative?: ComparisonNarrative;
+}
+
+export class AccountComparer {
+  /**
+   * Side-by-side profiles of analyzed accounts. Themes, tone and mechanics come from the
+   * stored analyses; cadence, formats and engagement are measured on the archived posts.
+   */
+  static compare(users: UserData[]): AccountComparison {
+    if (users.length < 2) {
+      throw new Error("At least two accounts are needed for a comparison");
+    }
+
+    const missing = users.filter(user => !user.analysis).map(user => `@${user.username}`);
+    if (missing.length > 0) {
+      throw new Error(`No analysis found for ${missing.join(", ")}. Please analyze them first.`);
+    }
+
+    const themes = users.map(user => this.themes(user.analysis!));
+
+    const accounts = users.map((user, index) => ({
+      username: user.username,
+      tone: user.analysis!.tone,
+      themes: themes[index]!,
+      engagementMechanics: user.analysis!.engagement_mechanics ?? user.analysis!.engagement_patterns,
+      exclusiveThemes: themes[index]!.filter(theme =>
+        themes.every((others, otherIndex) => otherIndex === index || !this.covers(others, theme))
+      ),
+      metrics: this.metrics(user.posts)
+    }));
+
+    return {
+      generatedAt: new Date().toISOString(),
+      accounts,
+      sharedThemes: themes[0]!.filter(theme => themes.slice(1).every(others => this.covers(others, theme)))
+    };
+  }
+
+  static metrics(posts: TwitterPost[]): AccountMetrics {
+    const own = posts.filter(post => !post.isRetweet);
+    const times = own
+      .map(post => post.timestamp ?? (post.createdAt ? Date.parse(post.createdAt) / 1000 : NaN))
+      .filter(time => !isNaN(time))
+      .sort((a, b) => a - b);
+
+    let postsPerWeek: number | null = null;
+    let medianHoursBetweenPosts: number | null = null;
+    if (times.length >= 2) {
+      // Anything shorter than a week would inflate the rate of a handful of posts
+      const weeks = Math.max(1, (times[times.length - 1]! - times[0]!) / (7 * 24 * 3600));
+      postsPerWeek = this.round(times.length / weeks);
+      medianHoursBetweenPosts = this.round(
+        EngagementAnalytics.median(times.slice(1).map((time, index) => (time - times[index]!) / 3600))
+      );
+    }
+
+    const threadPosts = new Set(ThreadUtils.findThreads(own).flat());
+    const share = (predicate: (post: TwitterPost) => boolean) =>
+      own.length > 0 ? this.round(own.filter(predicate).length / own.length) : 0;
+
+    const hashtags = new Map<string, number>();
+    for (const post of own) {
+      for (const tag of post.hashtags ?? []) {
+        hashtags.set(tag.toLowerCase(), (hashtags.get(tag.toLowerCase()) ?? 0) + 1);
+      }
+    }
+
+    const { medianEngagement, usesViews } = EngagementAnalytics.rank(own);
+    const hasMetrics = EngagementAnalytics.hasMetrics(own);
+
+    return {
+      posts: own.length,
+      reposts: posts.length - own.length,
+      postsPerWeek,
+      medianHoursBetweenPosts,
+      firstPostAt: times.length > 0 ? new Date(times[0]! * 1000).toISOString() : undefined,
+      lastPostAt: times.length > 0 ? new Date(times[times.length - 1]! * 1000).toISOString() : undefined,
+      averageLength: own.length > 0 ? Math.round(own.reduce((sum, post) => sum + post.text.length, 0) / own.length) : 0,
+      formatMix: {
+        replies: share(post => !!post.isReply),
+        quotes: share(post => !!post.isQuote),
+        threads: share(post => threadPosts.has(post)),
+        media: share(post => (post.photos?.length ?? 0) + (post.videos?.length ?? 0) > 0),
+        links: share(post => (post.urls?.length ?? 0) > 0),
+        questions: share(post => post.text.includes("?"))
+      },
+      medianEngagement: hasMetrics ? this.round(medianEngagement, usesViews ? 4 : 1) : null,
+      engagementPerView: hasMetrics && usesViews,
+      topHashtags: Array.from(hashtags.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_HASHTAGS)
+        .map(([tag]) => `#${tag}`)
+    };
+  }
+
+  private static themes(analysis: Analysis): string[] {
+    return [...analysis.key_themes, ...(analysis.thematic_analysis ?? [])];
+  }
+
+  private static covers(themes: string[], theme: string): boolean {
+    return themes.some(other => AnalysisDiffer.similarity(other, theme) >= MATCH_THRESHOLD);
+  }
+
+  private static round(value: number, digits: number = 2): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+  }
+}
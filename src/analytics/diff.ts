@@ -0,0 +1,166 @@
+import type { Analysis, AnalysisSnapshot } from "../types";
+
+export interface FieldDiff {
+  field: string;
+  label: string;
+  added: string[];
+  removed: string[];
+  unchanged: number;
+}
+
+export interface AnalysisDiff {
+  from: Omit<AnalysisSnapshot, "analysis">;
+  to: Omit<AnalysisSnapshot, "analysis">;
+  // Only fields where something appeared or disappeared
+  fields: FieldDiff[];
+  // Word overlap of the two tone descriptions, 1 = same wording
+  toneSimilarity: number;
+}
+
+// Analyses are free text, so items only rarely repeat word for word between runs.
+// Two items with at least this much word overlap are treated as the same item.
+const MATCH_THRESHOLD = 0.5;
+
+const LIST_FIELDS: { field: keyof Analysis; label: string }[] = [
+  { field: "key_themes", label: "Key Themes" },
+  { field: "thematic_analysis", label: "Thematic Analysis" },
+  { field: "linguistic_patterns", label: "Linguistic Patterns" },
+  { field: "opportunities", label: "Opportunities" },
+  { field: "untapped_opportunities", label: "Untapped Opportunities" },
+  { field: "engagement_patterns", label: "Engagement Patterns" },
+  { field: "unique_behaviors", label: "Unique Behaviors" },
+  { field: "content_taxonomy", label: "Content Taxonomy" }
+];
+
+// Single paragraphs that are compared sentence by sentence
+const TEXT_FIELDS: { field: keyof Analysis; label: string }[] = [
+  { field: "tone", label: "Tone" },
+  { field: "voice_architecture", label: "Voice Architecture" }
+];
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "their", "they", "that", "this", "are", "from", "into", "about", "often", "uses"
+]);
+
+export class AnalysisDiffer {
+  /**
+   * What appeared and disappeared between two analysis snapshots
+   */
+  static diff(from: AnalysisSnapshot, to: AnalysisSnapshot): AnalysisDiff {
+    const fields: FieldDiff[] = [];
+
+    for (const { field, label } of LIST_FIELDS) {
+      fields.push(this.diffItems(
+        field,
+        label,
+        this.listField(from.analysis, field),
+        this.listField(to.analysis, field)
+      ));
+    }
+
+    for (const { field, label } of TEXT_FIELDS) {
+      fields.push(this.diffItems(
+        field,
+        label,
+        this.sentences(from.analysis[field] as string | undefined),
+        this.sentences(to.analysis[field] as string | undefined)
+      ));
+    }
+
+    fields.push(this.diffItems(
+      "what_works",
+      "What Works",
+      (from.analysis.what_works ?? []).map(insight => insight.pattern),
+      (to.analysis.what_works ?? []).map(insight => insight.pattern)
+    ));
+
+    return {
+      from: this.describe(from),
+      to: this.describe(to),
+      fields: fields.filter(field => field.added.length > 0 || field.removed.length > 0),
+      toneSimilarity: this.similarity(from.analysis.tone, to.analysis.tone)
+    };
+  }
+
+  /**
+   * Jaccard overlap of the significant words in two strings
+   */
+  static similarity(a: string, b: string): number {
+    const wordsA = this.words(a);
+    const wordsB = this.words(b);
+
+    if (wordsA.size === 0 && wordsB.size === 0) {
+      return 1;
+    }
+
+    let shared = 0;
+    for (const word of wordsA) {
+      if (wordsB.has(word)) {
+        shared++;
+      }
+    }
+
+    return shared / (wordsA.size + wordsB.size - shared);
+  }
+
+  private static diffItems(field: string, label: string, previous: string[], current: string[]): FieldDiff {
+    const unmatched = new Set(previous.map((_, index) => index));
+    const added: string[] = [];
+
+    for (const item of current) {
+      let bestIndex = -1;
+      let bestScore = MATCH_THRESHOLD;
+
+      for (const index of unmatched) {
+        const score = this.similarity(item, previous[index]!);
+        if (score >= bestScore) {
+          bestIndex = index;
+          bestScore = score;
+        }
+      }
+
+      if (bestIndex === -1) {
+        added.push(item);
+      } else {
+        unmatched.delete(bestIndex);
+      }
+    }
+
+    return {
+      field,
+      label,
+      added,
+      removed: [...unmatched].map(index => previous[index]!),
+      unchanged: current.length - added.length
+    };
+  }
+
+  private static describe(snapshot: AnalysisSnapshot): AnalysisDiff["from"] {
+    return {
+      id: snapshot.id,
+      createdAt: snapshot.createdAt,
+      model: snapshot.model,
+      postWindow: snapshot.postWindow
+    };
+  }
+
+  private static listField(analysis: Analysis, field: keyof Analysis): string[] {
+    const value = analysis[field];
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+  }
+
+  private static sentences(text: string | undefined): string[] {
+    return (text ?? "")
+      .split(/(?<=[.!?;])\s+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0);
+  }
+
+  private static words(text: string): Set<string> {
+    return new Set(
+      text.toLowerCase()
+        .split(/[^a-z0-9']+/)
+        .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    );
+  }
+}
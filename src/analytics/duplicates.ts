@@ -0,0 +1,134 @@
+import type { DuplicateMatch, PostIdea, TwitterPost } from "../types";
+
+// Estimated Jaccard overlap of character shingles at which two texts count as the same post
+export const DUPLICATE_THRESHOLD = 0.5;
+
+const NUM_HASHES = 128;
+const SHINGLE_SIZE = 5;
+
+// Signatures are cached by text, since the same posts are compared against every new idea
+const MAX_CACHED_SIGNATURES = 5000;
+
+const URL_PATTERN = /https?:\/\/\S+/g;
+
+interface Candidate {
+  source: DuplicateMatch["source"];
+  text: string;
+  id?: string;
+}
+
+export class DuplicateDetector {
+  private static signatures = new Map<string, Uint32Array>();
+
+  /**
+   * MinHash signature of a text's character shingles, after lowercasing and dropping links,
+   * punctuation and extra whitespace. Deterministic, so signatures compare across runs.
+   */
+  static signature(text: string): Uint32Array {
+    const cached = this.signatures.get(text);
+    if (cached) {
+      return cached;
+    }
+
+    const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+    for (const shingle of this.shingles(text)) {
+      const base = this.fnv1a(shingle);
+      for (let index = 0; index < NUM_HASHES; index++) {
+        const hash = this.mix(base ^ Math.imul(index + 1, 0x9e3779b9));
+        if (hash < signature[index]!) {
+          signature[index] = hash;
+        }
+      }
+    }
+
+    if (this.signatures.size >= MAX_CACHED_SIGNATURES) {
+      this.signatures.clear();
+    }
+    this.signatures.set(text, signature);
+    return signature;
+  }
+
+  /**
+   * Estimated Jaccard overlap of two texts' character shingles, 0-1
+   */
+  static similarity(a: string, b: string): number {
+    const signatureA = this.signature(a);
+    const signatureB = this.signature(b);
+
+    let equal = 0;
+    for (let index = 0; index < NUM_HASHES; index++) {
+      if (signatureA[index] === signatureB[index]) {
+        equal++;
+      }
+    }
+    return equal / NUM_HASHES;
+  }
+
+  /**
+   * Mark every idea that nearly repeats one of the user's posts, an idea from an earlier session
+   * or an idea earlier in the same batch. The closest match wins; ideas without one are cleared.
+   */
+  static flag(ideas: PostIdea[], posts: TwitterPost[], previous: PostIdea[] = []): PostIdea[] {
+    const candidates: Candidate[] = [
+      ...posts.filter(post => !post.isRetweet).map(post => ({ source: "post" as const, text: post.text })),
+      ...previous.map(idea => ({ source: "idea" as const, text: idea.text, id: idea.id }))
+    ];
+
+    const flagged: PostIdea[] = [];
+    for (const idea of ideas) {
+      const duplicateOf = this.closest(idea.text, candidates);
+      flagged.push({ ...idea, duplicateOf: duplicateOf && duplicateOf.similarity >= DUPLICATE_THRESHOLD ? duplicateOf : undefined });
+      candidates.push({ source: "batch", text: idea.text });
+    }
+    return flagged;
+  }
+
+  private static closest(text: string, candidates: Candidate[]): DuplicateMatch | undefined {
+    let best: DuplicateMatch | undefined;
+    for (const candidate of candidates) {
+      const similarity = this.similarity(text, candidate.text);
+      if (!best || similarity > best.similarity) {
+        best = { ...candidate, similarity: Math.round(similarity * 100) / 100 };
+      }
+    }
+    return best;
+  }
+
+  private static shingles(text: string): Set<string> {
+    const normalized = text
+      .replace(URL_PATTERN, " ")
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}@#\s]/gu, "")
+      .replace(/\s+/g, " ")
+      .trim();
+
+    const shingles = new Set<string>();
+    if (normalized.length <= SHINGLE_SIZE) {
+      shingles.add(normalized);
+      return shingles;
+    }
+    for (let index = 0; index + SHINGLE_SIZE <= normalized.length; index++) {
+      shingles.add(normalized.slice(index, index + SHINGLE_SIZE));
+    }
+    return shingles;
+  }
+
+  private static fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let index = 0; index < text.length; index++) {
+      hash ^= text.charCodeAt(index);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  // Murmur3 finalizer, spreads one base hash into independent-looking permutations
+  private static mix(value: number): number {
+    value ^= value >>> 16;
+    value = Math.imul(value, 0x85ebca6b);
+    value ^= value >>> 13;
+    value = Math.imul(value, 0xc2b2ae35);
+    value ^= value >>> 16;
+    return value >>> 0;
+  }
+}
@@ -0,0 +1,103 @@
+import type { TwitterPost } from "../types";
+
+export interface RankedPost {
+  post: TwitterPost;
+  // Engagement relative to the account's median post, 1 = a typical post
+  score: number;
+  rank: number;
+}
+
+export interface EngagementSplit {
+  ranked: RankedPost[];
+  top: RankedPost[];
+  bottom: RankedPost[];
+  medianEngagement: number;
+  usesViews: boolean;
+}
+
+// Reposts and replies take more effort than a like, so they count for more
+const WEIGHTS = {
+  likes: 1,
+  retweets: 2,
+  replies: 2,
+  bookmarks: 1.5
+};
+
+export class EngagementAnalytics {
+  /**
+   * Weighted interaction count for a post, or null when it has no metrics
+   */
+  static weightedEngagement(post: TwitterPost): number | null {
+    if (!post.metrics) {
+      return null;
+    }
+
+    const { likes, retweets, replies, bookmarks } = post.metrics;
+    return likes * WEIGHTS.likes
+      + retweets * WEIGHTS.retweets
+      + replies * WEIGHTS.replies
+      + (bookmarks ?? 0) * WEIGHTS.bookmarks;
+  }
+
+  /**
+   * Rank the user's own posts by engagement. Reposts are skipped because
+   * their metrics belong to someone else. When every post has a view count,
+   * engagement is measured per view so older posts don't win by reach alone.
+   */
+  static rank(posts: TwitterPost[]): { ranked: RankedPost[]; medianEngagement: number; usesViews: boolean } {
+    const measurable = posts.filter(post => !post.isRetweet && post.metrics);
+    const usesViews = measurable.length > 0 && measurable.every(post => (post.metrics?.views ?? 0) > 0);
+
+    const values = measurable.map(post => {
+      const weighted = this.weightedEngagement(post) ?? 0;
+      return usesViews ? weighted / post.metrics!.views! : weighted;
+    });
+
+    const median = this.median(values);
+
+    const ranked = measurable
+      .map((post, index) => ({
+        post,
+        score: median > 0 ? values[index]! / median : values[index]!,
+        rank: 0
+      }))
+      .sort((a, b) => b.score - a.score)
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+
+    return { ranked, medianEngagement: median, usesViews };
+  }
+
+  /**
+   * Top and bottom performers, each a share of the ranked posts
+   */
+  static split(posts: TwitterPost[], fraction: number = 0.2, maxPerSide: number = 15): EngagementSplit {
+    const { ranked, medianEngagement, usesViews } = this.rank(posts);
+    const size = Math.min(maxPerSide, Math.max(1, Math.floor(ranked.length * fraction)));
+
+    // Too few posts to contrast meaningfully
+    if (ranked.length < 4) {
+      return { ranked, top: [], bottom: [], medianEngagement, usesViews };
+    }
+
+    return {
+      ranked,
+      top: ranked.slice(0, size),
+      bottom: ranked.slice(-size).reverse(),
+      medianEngagement,
+      usesViews
+    };
+  }
+
+  static hasMetrics(posts: TwitterPost[]): boolean {
+    return posts.some(post => !post.isRetweet && post.metrics);
+  }
+
+  static median(values: number[]): number {
+    if (values.length === 0) {
+      return 0;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1]! + sorted[middle]!) / 2 : sorted[middle]!;
+  }
+}
@@ -0,0 +1,121 @@
+import type { DuplicateMatch, IdeaQuality, PostIdea, StyleFingerprint, TwitterPost } from "../types";
+import { DuplicateDetector, DUPLICATE_THRESHOLD } from "./duplicates";
+import { StyleAnalytics } from "./style";
+import { MAX_TWEET_LENGTH } from "../utils/threads";
+
+// Same floor the generation prompts ask for
+export const MIN_POST_LENGTH = 20;
+
+// Every issue costs this many points on top of its effect on the sub-scores
+const ISSUE_PENALTY = 15;
+
+const WEIGHTS = { style: 0.4, novelty: 0.35, length: 0.25 };
+
+const PLACEHOLDER_PATTERN = /\[[^\]]*\]|\{[^}]*\}|<[^>\d]+>|\b(?:TODO|TBD|XXX|lorem ipsum)\b|\b(?:insert|your) (?:link|name|product|company|url|handle)\b/i;
+const BRACKET_PATTERN = /[[\]{}]/;
+// Percentages, multipliers, money and rounded counts like "10k" or "1,000+"
+const METRIC_PATTERN = /[$€£]\s?\d[\d,.]*\s?[kmb]?\b|\b\d[\d,.]*\s?(?:%|x\b|[km]\b|\+)/gi;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/u;
+
+export class IdeaScorer {
+  /**
+   * Style similarity, novelty against the user's own posts and length compliance, minus a
+   * penalty for every forbidden pattern: placeholders, brackets, figures the user never
+   * published, emoji from someone who never uses them and near-duplicates.
+   */
+  static score(idea: PostIdea, posts: TwitterPost[], style?: StyleFingerprint): IdeaQuality {
+    const texts = idea.thread && idea.thread.length > 0 ? idea.thread.map(tweet => tweet.text) : [idea.text];
+    const own = posts.filter(post => !post.isRetweet);
+    const issues: string[] = [];
+
+    // Length: every tweet must fit, and very short ones read like fragments
+    const lengths = texts.map(text => {
+      if (text.length > MAX_TWEET_LENGTH) {
+        issues.push(`Over ${MAX_TWEET_LENGTH} characters (${text.length})`);
+        return 0;
+      }
+      return Math.min(1, text.length / MIN_POST_LENGTH);
+    });
+    if (texts.some(text => text.length < MIN_POST_LENGTH)) {
+      issues.push(`Under ${MIN_POST_LENGTH} characters`);
+    }
+
+    // Novelty: the closest existing post decides
+    let closest = 0;
+    let closestText = "";
+    for (const text of texts) {
+      for (const post of own) {
+        const similarity = DuplicateDetector.similarity(text, post.text);
+        if (similarity > closest) {
+          closest = similarity;
+          closestText = post.text;
+        }
+      }
+    }
+    // Ideas flagged by DuplicateDetector.flag also know about earlier ideas and the rest of the batch
+    const duplicate = idea.duplicateOf
+      ?? (closest >= DUPLICATE_THRESHOLD ? { source: "post" as const, text: closestText, similarity: closest } : undefined);
+    if (duplicate) {
+      issues.push(this.describeDuplicate(duplicate));
+    }
+
+    const placeholder = idea.text.match(PLACEHOLDER_PATTERN);
+    if (placeholder) {
+      issues.push(`Placeholder "${placeholder[0]}"`);
+    } else if (BRACKET_PATTERN.test(idea.text)) {
+      issues.push("Contains brackets");
+    }
+
+    // Figures are fine when the user has published them before; invented ones are not
+    const published = own.map(post => this.normalizeFigure(post.text)).join(" ");
+    const figures = Array.from(new Set((idea.text.match(METRIC_PATTERN) ?? []).map(figure => figure.trim())))
+      .filter(figure => !published.includes(this.normalizeFigure(figure)));
+    if (figures.length > 0) {
+      issues.push(`Figures not found in their posts: ${figures.join(", ")}`);
+    }
+
+    if (style && style.emoji.rate === 0 && EMOJI_PATTERN.test(idea.text)) {
+      issues.push("Uses emoji, which they never do");
+    }
+
+    const styleScore = style ? StyleAnalytics.matchIdea(idea, style).score : null;
+    const noveltyScore = Math.round((1 - closest) * 100);
+    const lengthScore = Math.round(Math.min(...lengths) * 100);
+
+    // Without a style to compare against, novelty and length share its weight
+    const weighted = styleScore === null
+      ? (noveltyScore * WEIGHTS.novelty + lengthScore * WEIGHTS.length) / (WEIGHTS.novelty + WEIGHTS.length)
+      : styleScore * WEIGHTS.style + noveltyScore * WEIGHTS.novelty + lengthScore * WEIGHTS.length;
+
+    return {
+      score: Math.max(0, Math.min(100, Math.round(weighted - issues.length * ISSUE_PENALTY))),
+      style: styleScore,
+      novelty: noveltyScore,
+      length: lengthScore,
+      issues
+    };
+  }
+
+  /**
+   * Flag near-duplicates, score every idea and sort them best first. Ties keep the model's order.
+   */
+  static rank(ideas: PostIdea[], posts: TwitterPost[], style?: StyleFingerprint, previous: PostIdea[] = []): PostIdea[] {
+    return DuplicateDetector.flag(ideas, posts, previous)
+      .map(idea => ({
+        ...idea,
+        styleMatch: style ? StyleAnalytics.matchIdea(idea, style) : idea.styleMatch,
+        quality: this.score(idea, posts, style)
+      }))
+      .sort((a, b) => b.quality.score - a.quality.score);
+  }
+
+  private static describeDuplicate(duplicate: DuplicateMatch): string {
+    const label = { post: "an existing post", idea: "an earlier idea", batch: "another idea in this batch" }[duplicate.source];
+    const preview = duplicate.text.replace(/\s+/g, " ");
+    return `Close to ${label}: "${preview.length > 60 ? `${preview.slice(0, 57)}...` : preview}"`;
+  }
+
+  private static normalizeFigure(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, "");
+  }
+}
@@ -0,0 +1,139 @@
+import type { TwitterPost, UserData } from "../types";
+
+// BM25 defaults: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+const URL_PATTERN = /https?:\/\/\S+/g;
+
+// Words that match everything and so rank nothing
+const STOP_WORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "of", "to", "in", "on", "at", "for", "with", "is", "it", "its", "this",
+  "that", "be", "are", "was", "were", "as", "by", "from", "i", "you", "we", "they", "he", "she", "my", "your",
+  "our", "their", "so", "if", "not", "no", "do", "does", "just", "about", "what", "how", "me", "im", "can"
+]);
+
+export interface RetrievedPost {
+  post: TwitterPost;
+  // Index of the post in the list the index was built from
+  position: number;
+  score: number;
+}
+
+interface Document {
+  post: TwitterPost;
+  position: number;
+  terms: Map<string, number>;
+  length: number;
+}
+
+/**
+ * BM25 keyword index over a user's own posts, so prompts can show the handful of past posts
+ * closest to a topic instead of whatever is most recent
+ */
+export class PostIndex {
+  // One index per user, rebuilt whenever their posts change
+  private static cache = new Map<string, { version: string; index: PostIndex }>();
+
+  private documents: Document[];
+  private frequencies = new Map<string, number>();
+  private averageLength: number;
+
+  constructor(posts: TwitterPost[]) {
+    this.documents = posts
+      .map((post, position) => ({ post, position }))
+      .filter(({ post }) => !post.isRetweet)
+      .map(({ post, position }) => {
+        const tokens = PostIndex.tokenize(post.isReply ? post.text.replace(/^(@\w+\s+)+/, "") : post.text);
+        const terms = new Map<string, number>();
+        for (const token of tokens) {
+          terms.set(token, (terms.get(token) ?? 0) + 1);
+        }
+        return { post, position, terms, length: tokens.length };
+      })
+      .filter(document => document.length > 0);
+
+    for (const document of this.documents) {
+      for (const term of document.terms.keys()) {
+        this.frequencies.set(term, (this.frequencies.get(term) ?? 0) + 1);
+      }
+    }
+    this.averageLength = this.documents.reduce((sum, document) => sum + document.length, 0) / Math.max(this.documents.length, 1);
+  }
+
+  static forUser(userData: UserData): PostIndex {
+    const version = `${userData.lastUpdated}:${userData.posts.length}`;
+    const cached = this.cache.get(userData.username);
+    if (cached && cached.version === version) {
+      return cached.index;
+    }
+
+    const index = new PostIndex(userData.posts);
+    this.cache.set(userData.username, { version, index });
+    return index;
+  }
+
+  /**
+   * Style exemplars for a prompt: the posts that best match the query, topped up with the most
+   * recent ones. Without a query this is just the most recent posts.
+   */
+  static exemplars(userData: UserData, query: string | undefined, limit: number): TwitterPost[] {
+    // A cached index may hold the post objects of an earlier load of the same user, so results
+    // are mapped back onto this load's posts by position
+    const relevant = query
+      ? this.forUser(userData).search(query, limit).map(result => userData.posts[result.position]!)
+      : [];
+    const recent = userData.posts.filter(post => !post.isRetweet && !relevant.includes(post));
+    return [...relevant, ...recent].slice(0, limit);
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  /**
+   * Posts sharing at least one term with the query, best match first. Ties keep the stored order,
+   * which is newest first.
+   */
+  search(query: string, limit: number): RetrievedPost[] {
+    const terms = Array.from(new Set(PostIndex.tokenize(query))).filter(term => this.frequencies.has(term));
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const count = this.documents.length;
+    const idf = new Map(terms.map(term => {
+      const frequency = this.frequencies.get(term)!;
+      return [term, Math.log(1 + (count - frequency + 0.5) / (frequency + 0.5))];
+    }));
+
+    return this.documents
+      .map(document => {
+        let score = 0;
+        for (const term of terms) {
+          const frequency = document.terms.get(term);
+          if (frequency) {
+            const normalization = K1 * (1 - B + B * document.length / this.averageLength);
+            score += idf.get(term)! * (frequency * (K1 + 1)) / (frequency + normalization);
+          }
+        }
+        return { post: document.post, position: document.position, score: Math.round(score * 1000) / 1000 };
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Lowercase words without links, stop words or plural endings; hashtags count as their word
+   */
+  static tokenize(text: string): string[] {
+    return text
+      .replace(URL_PATTERN, " ")
+      .toLowerCase()
+      .replace(/['’]s\b/g, "")
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+      .map(word => (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word));
+  }
+}
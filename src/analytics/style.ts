@@ -0,0 +1,275 @@
+import type { PostIdea, StyleFingerprint, StyleMatch, TwitterPost } from "../types";
+import { EngagementAnalytics } from "./engagement";
+import { Utils } from "../utils";
+import { ThreadUtils } from "../utils/threads";
+
+// Below this many posts the rates are too noisy to judge new posts by
+export const MIN_STYLE_SAMPLE = 5;
+
+const FAVORITE_EMOJIS = 5;
+const TOP_BIGRAMS = 10;
+const TOP_TRIGRAMS = 5;
+
+// A trait shown by fewer than this share of posts (or missing from more than 1 - this) is called out
+const DEVIATION_THRESHOLD = 0.15;
+
+const URL_PATTERN = /https?:\/\/\S+/g;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/u;
+const ALL_CAPS_PATTERN = /\b[A-Z]{3,}\b/;
+
+// Phrases made only of these say nothing about a writer
+const STOP_WORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "of", "to", "in", "on", "at", "for", "with", "is", "it", "this", "that",
+  "be", "are", "was", "as", "by", "from", "i", "you", "we", "they", "my", "your", "our", "so", "if", "not"
+]);
+
+// Yes/no traits a post either shows or not
+const TRAITS: {
+  rate: (style: StyleFingerprint) => number;
+  test: (text: string) => boolean;
+  present: string;
+  absent: string;
+  habit: string;
+}[] = [
+  { rate: style => style.emoji.rate, test: text => EMOJI_PATTERN.test(text), present: "Uses emoji", absent: "No emoji", habit: "use emoji" },
+  {
+    rate: style => style.hashtags.rate,
+    test: text => Utils.extractHashtags(text.replace(URL_PATTERN, "")).length > 0,
+    present: "Uses hashtags",
+    absent: "No hashtags",
+    habit: "use hashtags"
+  },
+  {
+    rate: style => style.mentions.rate,
+    test: text => Utils.extractMentions(text).length > 0,
+    present: "Mentions someone",
+    absent: "No mentions",
+    habit: "mention someone"
+  },
+  { rate: style => style.urlRate, test: text => /https?:\/\//.test(text), present: "Has a link", absent: "No link", habit: "have a link" },
+  {
+    rate: style => style.lineBreaks.rate,
+    test: text => text.trim().includes("\n"),
+    present: "Spans several lines",
+    absent: "Single line",
+    habit: "span several lines"
+  },
+  {
+    rate: style => style.capitalization.lowercaseStart,
+    test: text => /^[a-z]/.test(text.trim()),
+    present: "Starts lowercase",
+    absent: "Starts uppercase",
+    habit: "start lowercase"
+  },
+  {
+    rate: style => style.capitalization.allCapsWords,
+    test: text => ALL_CAPS_PATTERN.test(text.replace(URL_PATTERN, "")),
+    present: "Uses ALL-CAPS words",
+    absent: "No ALL-CAPS words",
+    habit: "use ALL-CAPS words"
+  },
+  { rate: style => style.punctuation.exclamations, test: text => text.includes("!"), present: 'Uses "!"', absent: 'No "!"', habit: 'use "!"' },
+  {
+    rate: style => style.punctuation.endsWithPeriod,
+    test: text => /[^.]\.$/.test(text.replace(URL_PATTERN, "").trim()),
+    present: "Ends with a period",
+    absent: "No closing period",
+    habit: "end with a period"
+  }
+];
+
+export class StyleAnalytics {
+  /**
+   * Length, emoji, capitalization, punctuation, line break, hashtag, mention and link habits plus
+   * recurring phrases, measured on the user's own posts. Reposts are skipped and so are the
+   * @handles a reply starts with, which the client adds on its own.
+   */
+  static fingerprint(posts: TwitterPost[]): StyleFingerprint {
+    const texts = posts
+      .filter(post => !post.isRetweet)
+      .map(post => (post.isReply ? post.text.replace(/^(@\w+\s+)+/, "") : post.text).trim())
+      .filter(text => text.length > 0);
+
+    const share = (predicate: (text: string) => boolean) =>
+      texts.length > 0 ? this.round(texts.filter(predicate).length / texts.length) : 0;
+    const perPost = (count: (text: string) => number) =>
+      texts.length > 0 ? this.round(texts.reduce((sum, text) => sum + count(text), 0) / texts.length) : 0;
+
+    const lengths = texts.map(text => text.replace(URL_PATTERN, "").trim().length);
+    const emojis = new Map<string, number>();
+    for (const text of texts) {
+      for (const emoji of this.emojis(text)) {
+        emojis.set(emoji, (emojis.get(emoji) ?? 0) + 1);
+      }
+    }
+
+    return {
+      sampleSize: texts.length,
+      length: {
+        median: Math.round(EngagementAnalytics.median(lengths)),
+        p10: this.percentile(lengths, 0.1),
+        p90: this.percentile(lengths, 0.9)
+      },
+      medianWords: Math.round(EngagementAnalytics.median(texts.map(text => Utils.countWords(text.replace(URL_PATTERN, ""))))),
+      emoji: {
+        rate: share(text => this.emojis(text).length > 0),
+        perPost: perPost(text => this.emojis(text).length),
+        favorites: this.top(emojis, FAVORITE_EMOJIS)
+      },
+      capitalization: {
+        lowercaseStart: share(text => /^[a-z]/.test(text)),
+        allCapsWords: share(text => ALL_CAPS_PATTERN.test(text.replace(URL_PATTERN, "")))
+      },
+      punctuation: {
+        questions: share(text => text.includes("?")),
+        exclamations: share(text => text.includes("!")),
+        ellipses: share(text => /\.\.\.|…/.test(text)),
+        endsWithPeriod: share(text => /[^.]\.$/.test(text.replace(URL_PATTERN, "").trim()))
+      },
+      lineBreaks: {
+        rate: share(text => text.includes("\n")),
+        perPost: perPost(text => (text.match(/\n/g) ?? []).length)
+      },
+      hashtags: {
+        rate: share(text => Utils.extractHashtags(text.replace(URL_PATTERN, "")).length > 0),
+        perPost: perPost(text => Utils.extractHashtags(text.replace(URL_PATTERN, "")).length)
+      },
+      mentions: {
+        rate: share(text => Utils.extractMentions(text).length > 0),
+        perPost: perPost(text => Utils.extractMentions(text).length)
+      },
+      urlRate: share(text => /https?:\/\//.test(text)),
+      ngrams: {
+        bigrams: this.ngrams(texts, 2, TOP_BIGRAMS),
+        trigrams: this.ngrams(texts, 3, TOP_TRIGRAMS)
+      }
+    };
+  }
+
+  /**
+   * How well a text fits the fingerprint. Length counts double; every yes/no trait scores by how
+   * common its presence (or absence) is in the user's own posts.
+   */
+  static match(text: string, style: StyleFingerprint): StyleMatch {
+    const deviations: string[] = [];
+    const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+    const length = text.replace(URL_PATTERN, "").trim().length;
+    const { p10, p90 } = style.length;
+    const distance = length < p10 ? (p10 - length) / Math.max(p10, 1) : length > p90 ? (length - p90) / Math.max(p90, 1) : 0;
+    const lengthScore = Math.max(0, 1 - distance);
+    if (lengthScore < 0.5) {
+      deviations.push(`${length} characters (their posts are usually ${p10}-${p90})`);
+    }
+
+    const traitScores = TRAITS.map(trait => {
+      const rate = trait.rate(style);
+      const present = trait.test(text);
+      const likelihood = present ? rate : 1 - rate;
+      if (likelihood < DEVIATION_THRESHOLD) {
+        deviations.push(`${present ? trait.present : trait.absent} (${percent(rate)} of their posts ${trait.habit})`);
+      }
+      // Anything at least as common as not fits perfectly
+      return Math.min(1, likelihood * 2);
+    });
+
+    const score = (lengthScore * 2 + traitScores.reduce((sum, value) => sum + value, 0)) / (TRAITS.length + 2);
+    return { score: Math.round(score * 100), deviations };
+  }
+
+  /**
+   * Thread ideas are matched tweet by tweet, without the numbering, and averaged
+   */
+  static matchIdea(idea: PostIdea, style: StyleFingerprint): StyleMatch {
+    if (!idea.thread || idea.thread.length === 0) {
+      return this.match(idea.text, style);
+    }
+
+    const matches = idea.thread.map(tweet => this.match(ThreadUtils.stripNumbering(tweet.text), style));
+    return {
+      score: Math.round(matches.reduce((sum, match) => sum + match.score, 0) / matches.length),
+      deviations: Array.from(new Set(matches.flatMap(match => match.deviations)))
+    };
+  }
+
+  /**
+   * Plain-text summary for generation prompts, one habit per line
+   */
+  static describe(style: StyleFingerprint): string {
+    const percent = (share: number) => `${Math.round(share * 100)}%`;
+    const quote = (phrases: string[]) => phrases.map(phrase => `"${phrase}"`).join(", ");
+    const phrases = [...style.ngrams.trigrams, ...style.ngrams.bigrams];
+
+    return [
+      `Length: usually ${style.length.p10}-${style.length.p90} characters (median ${style.length.median}, about ${style.medianWords} words)`,
+      `Emoji: in ${percent(style.emoji.rate)} of posts, ${style.emoji.perPost} per post`
+        + (style.emoji.favorites.length > 0 ? `, favorites ${style.emoji.favorites.join(" ")}` : ""),
+      `Capitalization: ${percent(style.capitalization.lowercaseStart)} of posts start lowercase, `
+        + `${percent(style.capitalization.allCapsWords)} use ALL-CAPS words`,
+      `Punctuation: ${percent(style.punctuation.questions)} ask a question, ${percent(style.punctuation.exclamations)} use "!", `
+        + `${percent(style.punctuation.ellipses)} use ellipses, ${percent(style.punctuation.endsWithPeriod)} end with a period`,
+      `Line breaks: ${percent(style.lineBreaks.rate)} of posts span several lines (${style.lineBreaks.perPost} breaks per post)`,
+      `Hashtags: ${percent(style.hashtags.rate)} of posts (${style.hashtags.perPost} per post); `
+        + `mentions: ${percent(style.mentions.rate)}; links: ${percent(style.urlRate)}`,
+      phrases.length > 0 ? `Recurring phrases: ${quote(phrases)}` : ""
+    ].filter(Boolean).join("\n");
+  }
+
+  /**
+   * Whole emoji, so skin tones and ZWJ sequences count as one
+   */
+  private static emojis(text: string): string[] {
+    const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+    return Array.from(segmenter.segment(text), ({ segment }) => segment).filter(segment => EMOJI_PATTERN.test(segment));
+  }
+
+  /**
+   * Word n-grams that appear in at least two posts, counted once per post
+   */
+  private static ngrams(texts: string[], size: number, limit: number): string[] {
+    const counts = new Map<string, number>();
+
+    for (const text of texts) {
+      const words = text
+        .replace(URL_PATTERN, " ")
+        .toLowerCase()
+        .split(/\s+/)
+        .map(word => word.replace(/^[^\p{L}\p{N}#@]+|[^\p{L}\p{N}]+$/gu, ""))
+        .filter(word => word.length > 0 && !word.startsWith("#") && !word.startsWith("@"));
+
+      const seen = new Set<string>();
+      for (let index = 0; index + size <= words.length; index++) {
+        const gram = words.slice(index, index + size);
+        if (gram.every(word => STOP_WORDS.has(word))) {
+          continue;
+        }
+        seen.add(gram.join(" "));
+      }
+      for (const gram of seen) {
+        counts.set(gram, (counts.get(gram) ?? 0) + 1);
+      }
+    }
+
+    return this.top(new Map(Array.from(counts).filter(([, count]) => count >= 2)), limit);
+  }
+
+  private static top(counts: Map<string, number>, limit: number): string[] {
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, limit)
+      .map(([key]) => key);
+  }
+
+  private static percentile(values: number[], fraction: number): number {
+    if (values.length === 0) {
+      return 0;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))]!;
+  }
+
+  private static round(value: number, digits: number = 2): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+  }
+}
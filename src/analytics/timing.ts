@@ -0,0 +1,252 @@
+import type { TwitterPost } from "../types";
+import { EngagementAnalytics } from "./engagement";
+
+export const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// An hour or weekday needs this many measured posts before it can be called a best time
+const MIN_SAMPLES = 3;
+
+const BEST_SLOTS = 3;
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// Server local time for people reading the report, UTC for prompts that also show UTC publish times
+export type TimingZone = "local" | "UTC";
+
+export interface DaySpan {
+  // "YYYY-MM-DD" in the report's zone
+  from: string;
+  to: string;
+  days: number;
+}
+
+export interface TimingReport {
+  // Own posts with a known publish time; everything below is computed from these
+  postCount: number;
+  // All hours and weekdays are local to this zone
+  timezone: string;
+  // Posts per weekday (0 = Sunday) and hour
+  heatmap: number[][];
+  byWeekday: number[];
+  byHour: number[];
+  firstPostAt?: string;
+  lastPostAt?: string;
+  postsPerWeek: number | null;
+  // Calendar days with at least one post
+  activeDays: number;
+  longestStreak: DaySpan | null;
+  // Consecutive days with posts, ending today or yesterday
+  currentStreak: number;
+  // Longest stretch of days without a post between two posts
+  longestGap: DaySpan | null;
+  medianGapHours: number | null;
+  // Median engagement score per hour and weekday, 1 = the account's median post; null without measured posts
+  engagementByHour: (number | null)[];
+  engagementByWeekday: (number | null)[];
+  // Measured posts behind each engagement score
+  samplesByHour: number[];
+  samplesByWeekday: number[];
+  // Best first, only counting slots with enough measured posts
+  bestHours: number[];
+  bestWeekdays: number[];
+}
+
+export class TimingAnalytics {
+  /**
+   * When a post was published, or null when neither timestamp nor createdAt is usable
+   */
+  static publishedAt(post: TwitterPost): Date | null {
+    const seconds = post.timestamp ?? (post.createdAt ? Date.parse(post.createdAt) / 1000 : NaN);
+    return isNaN(seconds) ? null : new Date(seconds * 1000);
+  }
+
+  /**
+   * Posting frequency, streaks, gaps and engagement by time of day, from the account's own
+   * posts in server local time or UTC. Reposts are skipped: their time says little about the audience.
+   */
+  static report(posts: TwitterPost[], now: Date = new Date(), zone: TimingZone = "local"): TimingReport {
+    const dated = posts
+      .filter(post => !post.isRetweet)
+      .map(post => ({ post, published: this.publishedAt(post) }))
+      .filter((entry): entry is { post: TwitterPost; published: Date } => entry.published !== null)
+      .sort((a, b) => a.published.getTime() - b.published.getTime());
+
+    const heatmap = WEEKDAYS.map(() => new Array<number>(24).fill(0));
+    for (const { published } of dated) {
+      heatmap[this.weekday(published, zone)]![this.hour(published, zone)]!++;
+    }
+
+    const times = dated.map(({ published }) => published.getTime());
+    let postsPerWeek: number | null = null;
+    let medianGapHours: number | null = null;
+    if (times.length >= 2) {
+      // Anything shorter than a week would inflate the rate of a handful of posts
+      const weeks = Math.max(1, (times[times.length - 1]! - times[0]!) / (7 * DAY_MS));
+      postsPerWeek = this.round(times.length / weeks);
+      medianGapHours = this.round(
+        EngagementAnalytics.median(times.slice(1).map((time, index) => (time - times[index]!) / 3600000))
+      );
+    }
+
+    const days = Array.from(new Set(dated.map(({ published }) => this.formatDate(published, zone))));
+    const { longestStreak, currentStreak, longestGap } = this.streaks(days, this.formatDate(now, zone));
+
+    // Scores are relative to the account's median, so hours can be compared directly
+    const scores = new Map(EngagementAnalytics.rank(dated.map(({ post }) => post)).ranked.map(entry => [entry.post, entry.score]));
+    const hourScores = Array.from({ length: 24 }, () => [] as number[]);
+    const weekdayScores = WEEKDAYS.map(() => [] as number[]);
+    for (const { post, published } of dated) {
+      const score = scores.get(post);
+      if (score !== undefined) {
+        hourScores[this.hour(published, zone)]!.push(score);
+        weekdayScores[this.weekday(published, zone)]!.push(score);
+      }
+    }
+
+    const engagementByHour = hourScores.map(values => values.length > 0 ? this.round(EngagementAnalytics.median(values), 2) : null);
+    const engagementByWeekday = weekdayScores.map(values => values.length > 0 ? this.round(EngagementAnalytics.median(values), 2) : null);
+
+    return {
+      postCount: dated.length,
+      timezone: zone === "UTC" ? "UTC" : Intl.DateTimeFormat().resolvedOptions().timeZone,
+      heatmap,
+      byWeekday: heatmap.map(hours => hours.reduce((sum, count) => sum + count, 0)),
+      byHour: Array.from({ length: 24 }, (_, hour) => heatmap.reduce((sum, hours) => sum + hours[hour]!, 0)),
+      firstPostAt: dated[0]?.published.toISOString(),
+      lastPostAt: dated[dated.length - 1]?.published.toISOString(),
+      postsPerWeek,
+      activeDays: days.length,
+      longestStreak,
+      currentStreak,
+      longestGap,
+      medianGapHours,
+      engagementByHour,
+      engagementByWeekday,
+      samplesByHour: hourScores.map(values => values.length),
+      samplesByWeekday: weekdayScores.map(values => values.length),
+      bestHours: this.best(engagementByHour, hourScores),
+      bestWeekdays: this.best(engagementByWeekday, weekdayScores)
+    };
+  }
+
+  /**
+   * Plain-text summary for prompts and the CLI, one fact per line
+   */
+  static describe(report: TimingReport): string {
+    if (report.postCount === 0) {
+      return "No posts with known publish times.";
+    }
+
+    const hour = (value: number) => `${String(value).padStart(2, "0")}:00`;
+    const date = (iso: string) => this.formatDate(new Date(iso), report.timezone === "UTC" ? "UTC" : "local");
+    const busiest = (counts: number[], label: (index: number) => string) => counts
+      .map((count, index) => ({ count, index }))
+      .filter(({ count }) => count > 0)
+      .sort((a, b) => b.count - a.count || a.index - b.index)
+      .slice(0, BEST_SLOTS)
+      .map(({ count, index }) => `${label(index)} (${count} posts)`)
+      .join(", ");
+    const best = (slots: number[], scores: (number | null)[], samples: number[], label: (index: number) => string) => slots
+      .map(index => `${label(index)} (${scores[index]}x median, ${samples[index]} posts)`)
+      .join(", ");
+
+    const lines = [
+      `${report.postCount} posts between ${date(report.firstPostAt!)} and ${date(report.lastPostAt!)}, times in ${report.timezone}`,
+      report.postsPerWeek !== null ? `Frequency: ${report.postsPerWeek} posts per week, active on ${report.activeDays} days` : "",
+      `Busiest weekdays: ${busiest(report.byWeekday, index => WEEKDAYS[index]!)}`,
+      `Busiest hours: ${busiest(report.byHour, hour)}`,
+      report.longestStreak
+        ? `Longest streak: ${report.longestStreak.days} days in a row (${report.longestStreak.from} to ${report.longestStreak.to}), current streak: ${report.currentStreak} days`
+        : "",
+      report.longestGap ? `Longest break: ${report.longestGap.days} days without posting (${report.longestGap.from} to ${report.longestGap.to})` : "",
+      report.medianGapHours !== null ? `Median time between posts: ${report.medianGapHours} hours` : "",
+      report.bestHours.length > 0
+        ? `Best hours by engagement relative to the median post: ${best(report.bestHours, report.engagementByHour, report.samplesByHour, hour)}`
+        : "",
+      report.bestWeekdays.length > 0
+        ? `Best weekdays by engagement relative to the median post: ${best(report.bestWeekdays, report.engagementByWeekday, report.samplesByWeekday, index => WEEKDAYS[index]!)}`
+        : ""
+    ];
+
+    return lines.filter(Boolean).join("\n");
+  }
+
+  private static streaks(days: string[], today: string) {
+    let longestStreak: DaySpan | null = null;
+    let longestGap: DaySpan | null = null;
+    let start = 0;
+
+    for (let index = 0; index < days.length; index++) {
+      const next = days[index + 1];
+      const apart = next ? this.daysBetween(days[index]!, next) : 0;
+
+      if (apart !== 1) {
+        const length = index - start + 1;
+        if (!longestStreak || length > longestStreak.days) {
+          longestStreak = { from: days[start]!, to: days[index]!, days: length };
+        }
+        start = index + 1;
+      }
+      if (next && apart - 1 > (longestGap?.days ?? 0)) {
+        longestGap = { from: this.shift(days[index]!, 1), to: this.shift(next, -1), days: apart - 1 };
+      }
+    }
+
+    // Today may not be over yet, so a streak that reached yesterday still counts
+    let currentStreak = 0;
+    const last = days[days.length - 1];
+    if (last && this.daysBetween(last, today) <= 1) {
+      currentStreak = 1;
+      while (currentStreak < days.length && this.daysBetween(days[days.length - 1 - currentStreak]!, days[days.length - currentStreak]!) === 1) {
+        currentStreak++;
+      }
+    }
+
+    return { longestStreak, currentStreak, longestGap };
+  }
+
+  private static best(scores: (number | null)[], samples: number[][]): number[] {
+    return scores
+      .map((score, index) => ({ score, index }))
+      .filter(({ score, index }) => score !== null && samples[index]!.length >= MIN_SAMPLES)
+      .sort((a, b) => b.score! - a.score! || a.index - b.index)
+      .slice(0, BEST_SLOTS)
+      .map(({ index }) => index);
+  }
+
+  private static daysBetween(from: string, to: string): number {
+    return Math.round((this.parseDate(to).getTime() - this.parseDate(from).getTime()) / DAY_MS);
+  }
+
+  private static shift(date: string, days: number): string {
+    const parsed = this.parseDate(date);
+    parsed.setDate(parsed.getDate() + days);
+    return this.formatDate(parsed);
+  }
+
+  // Noon keeps daylight saving changes from moving the date
+  private static parseDate(date: string): Date {
+    const [year, month, day] = date.split("-").map(Number);
+    return new Date(year!, month! - 1, day!, 12);
+  }
+
+  private static formatDate(date: Date, zone: TimingZone = "local"): string {
+    if (zone === "UTC") {
+      return date.toISOString().slice(0, 10);
+    }
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+  }
+
+  private static weekday(date: Date, zone: TimingZone): number {
+    return zone === "UTC" ? date.getUTCDay() : date.getDay();
+  }
+
+  private static hour(date: Date, zone: TimingZone): number {
+    return zone === "UTC" ? date.getUTCHours() : date.getHours();
+  }
+
+  private static round(value: number, digits: number = 1): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+  }
+}
@@ -7,14 +7,32 @@ import { config } from "./config";
 import { dataService } from "./services/data";
 import { scraperService } from "./services/scraper";
 import { aiService } from "./services/ai";
+import { ideaService } from "./services/ideas";
+import { analysisHistoryService } from "./services/history";
+import { comparisonService, MAX_COMPARED_ACCOUNTS } from "./services/comparison";
+import { calendarService } from "./services/calendar";
+import { usageService } from "./services/usage";
 import { DisplayUI } from "./ui/display";
 import { PromptsUI } from "./ui/prompts";
 import { Utils } from "./utils";
+import { PostUtils } from "./utils/posts";
 import { createLogger } from "../logger";
-import type { UserData, PostIdea } from "./types";
+import type {
+  UserData,
+  PostIdea,
+  StoredIdea,
+  IdeaFilter,
+  IdeaActionType,
+  IdeaStatus,
+  AnalysisSnapshot,
+  ReplyDraft
+} from "./types";
 
 const logger = createLogger("PostgeistApp");
 
+// How far back the CLI usage view reaches
+const USAGE_REPORT_DAYS = 30;
+
 export class PostgeistApp {
   private userData: UserData | null = null;
   private initialized = false;
@@ -101,12 +119,27 @@ export class PostgeistApp {
       case "ideas":
         await this.handleGenerate();
         break;
+      case "thread":
+        await this.handleGenerateThreads();
+        break;
+      case "reply":
+        await this.handleDraftReplies();
+        break;
+      case "compare":
+        await this.handleCompare();
+        break;
       case "both":
         await this.handleAnalyzeAndGenerate();
         break;
       case "prompt":
         await this.handleGenerateFromPrompt();
         break;
+      case "library":
+        await this.handleIdeaLibrary();
+        break;
+      case "calendar":
+        await this.handleCalendar();
+        break;
       case "info":
         await this.handleUserInfo();
         break;
@@ -135,7 +168,7 @@ export class PostgeistApp {
     const userData = await this.getUserData(username);
 
     const analysis = await Utils.withProgress(
-      this.performAnalysis(username, userData),
+      update => this.performAnalysis(username, userData, update),
       `🔍 Analyzing @${username}...`,
       "✅ Analysis complete!",
       "❌ Analysis failed"
@@ -165,13 +198,103 @@ export class PostgeistApp {
     await this.offerPostActions(postIdeas);
   }
 
+  private async handleGenerateThreads(): Promise<void> {
+    const userData = await this.getExistingUserData();
+
+    if (!userData.analysis) {
+      DisplayUI.showError(`No analysis found for @${userData.username}. Please analyze first.`);
+      return;
+    }
+
+    const topic = await PromptsUI.getThreadTopicInput();
+    const threadCount = await PromptsUI.selectThreadCount();
+
+    const threads = await Utils.withProgress(
+      aiService.generateThreadIdeas(userData, threadCount, topic),
+      `🧵 Generating ${threadCount} threads...`,
+      "✅ Threads generated!",
+      "❌ Thread generation failed"
+    );
+
+    DisplayUI.showPostIdeas(threads);
+    await this.offerThreadActions(threads);
+  }
+
+  private async handleDraftReplies(): Promise<void> {
+    const userData = await this.getExistingUserData();
+
+    if (!userData.analysis) {
+      DisplayUI.showError(`No analysis found for @${userData.username}. Please analyze first.`);
+      return;
+    }
+
+    const tweet = await PromptsUI.getTweetInput();
+    const mode = await PromptsUI.selectReplyMode();
+
+    // Only URLs and ids need a lookup; plain text is used as it is
+    const target = PostUtils.parseTweetReference(tweet)
+      ? await Utils.withProgress(
+        scraperService.resolveTweet(tweet),
+        "🔗 Loading tweet...",
+        "✅ Tweet loaded!",
+        "❌ Failed to load tweet"
+      )
+      : await scraperService.resolveTweet(tweet);
+
+    const drafts = await Utils.withProgress(
+      aiService.draftReplies(userData, target, 4, mode),
+      `💬 Drafting as @${userData.username}...`,
+      "✅ Drafts ready!",
+      "❌ Reply drafting failed"
+    );
+
+    DisplayUI.showReplyDrafts(target, drafts, userData.username);
+
+    while (await PromptsUI.confirmAction("Copy one of the drafts?")) {
+      const draft = await PromptsUI.selectFromList(
+        "Select a draft to copy:",
+        drafts,
+        (item: ReplyDraft) => `${drafts.indexOf(item) + 1}. ${Utils.truncateText(item.text, 60)}`,
+        (item: ReplyDraft) => item.kind
+      );
+
+      if (await Utils.copyToClipboard(draft.text)) {
+        DisplayUI.showSuccess("Draft copied to clipboard!");
+      } else {
+        DisplayUI.showInfo(`Copy this text manually:\n\n${draft.text}`);
+      }
+    }
+  }
+
+  private async handleCompare(): Promise<void> {
+    const analyzed = (await dataService.listUserSummaries())
+      .filter(user => user.hasAnalysis)
+      .map(user => user.username);
+
+    if (analyzed.length < 2) {
+      DisplayUI.showError("Comparing needs at least two analyzed accounts. Analyze another profile first.");
+      return;
+    }
+
+    const usernames = await PromptsUI.selectAccountsToCompare(analyzed, MAX_COMPARED_ACCOUNTS);
+
+    const comparison = await Utils.withProgress(
+      comparisonService.compare(usernames),
+      `⚖️  Comparing ${usernames.map(username => `@${username}`).join(", ")}...`,
+      "✅ Comparison ready!",
+      "❌ Comparison failed"
+    );
+
+    DisplayUI.showComparison(comparison);
+  }
+
   private async handleAnalyzeAndGenerate(): Promise<void> {
     const username = await PromptsUI.getUsernameInput();
     const userData = await this.getUserData(username);
 
     // Analyze
     const analysis = await Utils.withProgress(
-      this.performAnalysis(username, userData),
+      update => this.performAnalysis(username, userData, update),
       `🔍 Analyzing @${username}...`,
       "✅ Analysis complete!",
       "❌ Analysis failed"
@@ -225,6 +348,146 @@ export class PostgeistApp {
     await this.offerPostActions(postIdeas, userData);
   }
 
+  private async handleIdeaLibrary(): Promise<void> {
+    const { username } = await this.getExistingUserData();
+
+    while (true) {
+      const counts = await ideaService.getStatusCounts(username);
+      const filterAction = await PromptsUI.selectIdeaFilter(counts);
+
+      if (filterAction === "back") break;
+
+      const filter: IdeaFilter = { limit: 50 };
+      if (filterAction === "search") {
+        filter.search = await PromptsUI.getSearchInput();
+      } else if (filterAction !== "all") {
+        filter.status = filterAction;
+      }
+
+      const ideas = await ideaService.list(username, filter);
+      if (ideas.length === 0) {
+        DisplayUI.showInfo("No ideas match this filter yet. Generated ideas are saved here automatically.");
+        continue;
+      }
+
+      const idea = await PromptsUI.selectFromList(
+        `Select an idea (${ideas.length} shown):`,
+        ideas,
+        item => Utils.truncateText(item.text.replace(/\s+/g, " "), 70),
+        item => `${item.status} • ${item.source} • ${Utils.formatDate(item.createdAt)}`
+      );
+
+      await this.handleLibraryIdea(username, idea);
+    }
+  }
+
+  private async handleLibraryIdea(username: string, idea: StoredIdea): Promise<void> {
+    DisplayUI.showStoredIdea(idea);
+    const action = await PromptsUI.selectIdeaAction(idea);
+
+    const statusByAction: Partial<Record<IdeaActionType, IdeaStatus>> = {
+      star: "starred",
+      use: "used",
+      reject: "rejected",
+      reset: "new"
+    };
+
+    switch (action) {
+      case "copy": {
+        const copied = await Utils.copyToClipboard(idea.text);
+        if (copied) {
+          DisplayUI.showSuccess("Idea copied to clipboard!");
+        } else {
+          DisplayUI.showInfo(`Copy this text manually:\n\n${idea.text}`);
+        }
+        break;
+      }
+
+      case "schedule":
+        await this.scheduleIdea(username, idea.id);
+        break;
+
+      case "delete":
+        if (await PromptsUI.confirmAction("Delete this idea from the library?")) {
+          await ideaService.delete(username, idea.id);
+          DisplayUI.showSuccess("Idea deleted.");
+        }
+        break;
+
+      case "back":
+        break;
+
+      default: {
+        const status = statusByAction[action]!;
+        await ideaService.updateStatus(username, idea.id, status);
+        DisplayUI.showSuccess(`Idea marked as ${status}.`);
+      }
+    }
+  }
+
+  private async handleCalendar(): Promise<void> {
+    const { username } = await this.getExistingUserData();
+
+    while (true) {
+      const calendar = await calendarService.get(username);
+      DisplayUI.showCalendar(calendar);
+
+      const action = await PromptsUI.selectCalendarAction(calendar);
+      if (action === "back") {
+        break;
+      }
+
+      switch (action) {
+        case "schedule": {
+          if (calendar.unscheduled.length === 0) {
+            DisplayUI.showInfo("No approved ideas waiting. Star ideas in the Idea Library to schedule them.");
+            break;
+          }
+          const idea = await PromptsUI.selectFromList(
+            "Select an idea to schedule:",
+            calendar.unscheduled,
+            item => Utils.truncateText(item.text.replace(/\s+/g, " "), 70),
+            item => `${item.source} • ${Utils.formatDate(item.createdAt)}`
+          );
+          await this.scheduleIdea(username, idea.id);
+          break;
+        }
+
+        case "unschedule": {
+          const idea = await PromptsUI.selectFromList(
+            "Select an idea to take off the calendar:",
+            calendar.entries,
+            item => Utils.truncateText(item.text.replace(/\s+/g, " "), 60),
+            item => `${item.scheduledFor!.date} at ${item.scheduledFor!.time}`
+          );
+          await calendarService.unschedule(username, idea.id);
+          DisplayUI.showSuccess("Idea taken off the calendar. It stays starred in the library.");
+          break;
+        }
+
+        case "export": {
+          if (!fs.existsSync(config.app.dataDir)) {
+            fs.mkdirSync(config.app.dataDir, { recursive: true });
+          }
+          const filePath = path.join(config.app.dataDir, `postgeist-${Utils.sanitizeFilename(username)}.ics`);
+          await Bun.write(filePath, await calendarService.exportICS(username));
+          DisplayUI.showSuccess(`Calendar exported to: ${filePath}`);
+          break;
+        }
+      }
+    }
+  }
+
+  /**
+   * Pick a slot for a stored idea, suggested from the account's posting times
+   */
+  private async scheduleIdea(username: string, ideaId: string): Promise<void> {
+    const { suggestions } = await calendarService.get(username);
+    const slot = await PromptsUI.selectSlot(suggestions);
+    await calendarService.schedule(username, ideaId, slot);
+    DisplayUI.showSuccess(`Scheduled for ${slot.date} at ${slot.time}.`);
+  }
+
   private async handleUserInfo(): Promise<void> {
     const userData = await this.getExistingUserData();
     DisplayUI.showUserInfo(userData);
@@ -264,10 +527,18 @@ export class PostgeistApp {
           await this.handleExport();
           break;
 
+        case "usage":
+          await this.handleUsage();
+          break;
+
         case "list":
           await this.handleListUsers();
           break;
 
+        case "sync":
+          await this.handleSyncPosts();
+          break;
+
         case "cleanup":
           await this.handleCleanup();
           break;
@@ -275,16 +546,16 @@ export class PostgeistApp {
     }
   }
 
-  private async performAnalysis(username: string, userData: UserData) {
+  private async performAnalysis(username: string, userData: UserData, update?: (message: string) => void) {
     // Fetch posts if needed
     if (userData.posts.length === 0) {
-      const posts = await scraperService.fetchPosts(username);
-      userData.posts = posts;
-      await dataService.saveUserData(userData);
+      await scraperService.syncPosts(username, userData);
     }
 
     // Perform analysis and update userData with results
-    const analysis = await aiService.analyzeUser(username, userData.posts);
+    const analysis = await aiService.analyzeUser(username, userData.posts, (completed, chunks) => {
+      update?.(`🔍 Analyzed ${completed} of ${chunks} periods for @${username}...`);
+    });
     userData.analysis = analysis;
     await dataService.saveUserData(userData);
 
@@ -422,6 +693,10 @@ export class PostgeistApp {
           }
           break;
 
+        case "history":
+          await this.handleAnalysisHistory(userData.username);
+          break;
+
         case "regenerate":
           const confirm = await PromptsUI.confirmAction(
             "Re-analyzing the user will regenerate all facts. Continue?"
@@ -438,6 +713,33 @@ export class PostgeistApp {
     }
   }
 
+  private async handleAnalysisHistory(username: string): Promise<void> {
+    const history = await analysisHistoryService.list(username);
+
+    if (history.length < 2) {
+      DisplayUI.showInfo("Only one analysis on record. Re-analyze later to compare how the account has changed.");
+      return;
+    }
+
+    const describe = (snapshot: AnalysisSnapshot) =>
+      `${new Date(snapshot.createdAt).toLocaleString()} • ${snapshot.postWindow.count} posts`;
+
+    try {
+      const to = await PromptsUI.selectFromList("Compare which analysis...", history, describe, snapshot => snapshot.model);
+      const earlier = history.filter(snapshot => snapshot.createdAt < to.createdAt);
+
+      if (earlier.length === 0) {
+        DisplayUI.showInfo("That is the oldest analysis on record. Pick a newer one to compare.");
+        return;
+      }
+
+      const from = await PromptsUI.selectFromList("...against which earlier analysis?", earlier, describe);
+      DisplayUI.showAnalysisDiff(await analysisHistoryService.diff(username, from.id, to.id));
+    } catch (error) {
+      Utils.handleError(error, "Comparison failed");
+    }
+  }
+
   private async handleExport(): Promise<void> {
     const userData = await this.getExistingUserData();
     const format = await PromptsUI.selectExportFormat();
@@ -450,6 +752,25 @@ export class PostgeistApp {
     }
   }
 
+  private async handleSyncPosts(): Promise<void> {
+    const userData = await this.getExistingUserData();
+
+    try {
+      const result = await Utils.withProgress(
+        scraperService.syncPosts(userData.username, userData),
+        `🔄 Syncing new posts for @${userData.username}...`,
+        "✅ Sync complete!",
+        "❌ Sync failed"
+      );
+
+      DisplayUI.showSuccess(
+        `Added ${result.added} new posts for @${userData.username}. ${result.total} posts in archive.`
+      );
+    } catch (error) {
+      Utils.handleError(error, "Sync failed");
+    }
+  }
+
   private async handleListUsers(): Promise<void> {
     const users = await dataService.listUsers();
 
@@ -472,6 +793,15 @@ export class PostgeistApp {
     }
   }
 
+  /**
+   * Token usage and estimated cost for the last USAGE_REPORT_DAYS days, today included
+   */
+  private async handleUsage(): Promise<void> {
+    const from = new Date(Date.now() - (USAGE_REPORT_DAYS - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const report = await usageService.report({ from });
+    DisplayUI.showUsageReport(report, await usageService.budgetStatus());
+  }
+
   private async handleCleanup(): Promise<void> {
     const users = await dataService.listUsers();
 
@@ -504,6 +834,9 @@ export class PostgeistApp {
         { value: "view_detailed", label: "📑 Switch to detailed view", hint: "See full post details" },
         { value: "tweak", label: "🔧 Tweak a post idea", hint: "Improve a specific post with feedback" },
         { value: "export", label: "📁 Export all posts", hint: "Save to file" },
+        ...(userData && postIdeas.some(idea => idea.id)
+          ? [{ value: "schedule", label: "📅 Schedule a post", hint: "Put it on the content calendar" }]
+          : []),
         { value: "stats", label: "📊 View detailed statistics", hint: "Show comprehensive post stats" },
         { value: "continue", label: "➡️  Continue", hint: "Move on" }
       ]
@@ -572,6 +905,53 @@ export class PostgeistApp {
       case "stats":
         await this.showDetailedPostStats(postIdeas);
         break;
+
+      case "schedule": {
+        const storedIdeas = postIdeas.filter(idea => idea.id);
+        const idea = await PromptsUI.selectFromList(
+          "Select a post to schedule:",
+          storedIdeas,
+          (item: PostIdea) => `${postIdeas.indexOf(item) + 1}. ${Utils.truncateText(item.text.replace(/\s+/g, " "), 60)}`
+        );
+        await this.scheduleIdea(userData!.username, idea.id!);
+        await this.offerPostActions(postIdeas, userData);
+        break;
+      }
+    }
+  }
+
+  private async offerThreadActions(threads: PostIdea[]): Promise<void> {
+    while (await PromptsUI.confirmAction("Copy a thread or one of its tweets?")) {
+      const selected = await PromptsUI.selectFromList(
+        "Select a thread:",
+        threads,
+        (idea: PostIdea) => `${threads.indexOf(idea) + 1}. ${Utils.truncateText(idea.thread?.[0]?.text ?? idea.text, 60)}`,
+        (idea: PostIdea) => `${idea.thread?.length ?? 1} tweets`
+      );
+
+      const tweets = selected.thread ?? [];
+      const choice = await clack.select({
+        message: "What should be copied?",
+        options: [
+          { value: "all", label: "📋 The whole thread", hint: "Tweets separated by blank lines" },
+          ...tweets.map((tweet, index) => ({
+            value: index.toString(),
+            label: `${index + 1}. ${Utils.truncateText(tweet.text, 60)}`,
+            hint: `${tweet.role} • ${tweet.text.length}/280`
+          }))
+        ]
+      }) as string;
+
+      if (clack.isCancel(choice)) {
+        break;
+      }
+
+      const text = choice === "all" ? selected.text : tweets[parseInt(choice)]!.text;
+      if (await Utils.copyToClipboard(text)) {
+        DisplayUI.showSuccess("Copied to clipboard!");
+      } else {
+        DisplayUI.showInfo(`Copy this text manually:\n\n${text}`);
+      }
     }
   }
 
@@ -698,6 +1078,12 @@ export class PostgeistApp {
     statsContent += chalk.yellow(`• Average: ${avgLength} characters`) + "\n";
     statsContent += chalk.yellow(`• Range: ${minLength} - ${maxLength} characters`) + "\n\n";
 
+    if (stats.averageQuality !== null) {
+      statsContent += chalk.white.bold("🏅 Quality:") + "\n";
+      statsContent += chalk.yellow(`• Average score: ${stats.averageQuality}/100`) + "\n";
+      statsContent += chalk.yellow(`• Ideas with failed checks: ${stats.withIssues}`) + "\n\n";
+    }
+
     statsContent += chalk.white.bold("📈 Length Distribution:") + "\n";
     Object.entries(lengthRanges).forEach(([range, count]) => {
       const percentage = Math.round((count / postIdeas.length) * 100);
@@ -728,7 +1114,7 @@ export class PostgeistApp {
     const userData = await dataService.getUserData(username);
 
     const analysis = await Utils.withProgress(
-      this.performAnalysis(username, userData),
+      update => this.performAnalysis(username, userData, update),
       `🔍 Analyzing @${username}...`,
       "✅ Analysis complete!",
       "❌ Analysis failed"
@@ -764,7 +1150,7 @@ export class PostgeistApp {
 
     // Analyze
     const analysis = await Utils.withProgress(
-      this.performAnalysis(username, userData),
+      update => this.performAnalysis(username, userData, update),
       `🔍 Analyzing @${username}...`,
       "✅ Analysis complete!",
       "❌ Analysis failed"
@@ -1,22 +1,57 @@
 import path from "path";
 import os from "os";
 import { LogLevel } from "../../logger";
-import type { AppConfig, ScraperConfig } from "../types";
+import type { AppConfig, ScraperConfig, AIConfig, AIProviderName, BudgetMode, ModelPrice, StorageBackendName } from "../types";
+
+// Default model used for each provider when no explicit model is configured
+export const DEFAULT_MODELS: Record<AIProviderName, string> = {
+  google: "gemini-2.5-flash",
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-5-sonnet-latest",
+  ollama: "llama3.1",
+  llamacpp: "default",
+  mock: "mock-1"
+};
+
+// List prices in USD per million tokens, used to estimate what each call costs. MODEL_PRICES
+// adds or overrides entries; ollama, llamacpp and mock models run locally and are always free.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "google:gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "google:gemini-2.5-pro": { input: 1.25, output: 10 },
+  "openai:gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "openai:gpt-4o": { input: 2.5, output: 10 },
+  "anthropic:claude-3-5-sonnet-latest": { input: 3, output: 15 },
+  "anthropic:claude-3-5-haiku-latest": { input: 0.8, output: 4 }
+};
 
 export class Config {
   private static instance: Config;
   private _appConfig: AppConfig;
   private _scraperConfig: ScraperConfig;
+  private _aiConfig: AIConfig;
 
   private constructor() {
     // Default data directory in user's home directory
     const defaultDataDir = path.join(os.homedir(), ".postgeist");
 
+    const dataDir = process.env.DATA_DIR || defaultDataDir;
+
     this._appConfig = {
-      dataDir: process.env.DATA_DIR || defaultDataDir,
+      dataDir,
       logLevel: process.env.LOG_LEVEL || "WARN",
       maxPostsToAnalyze: parseInt(process.env.MAX_POSTS_TO_ANALYZE || "400"),
-      maxPostsForPrompt: parseInt(process.env.MAX_POSTS_FOR_PROMPT || "50")
+      analysisChunkSize: parseInt(process.env.ANALYSIS_CHUNK_SIZE || "100"),
+      maxPostsForPrompt: parseInt(process.env.MAX_POSTS_FOR_PROMPT || "50"),
+      maxArchivedPosts: parseInt(process.env.MAX_ARCHIVED_POSTS || "5000"),
+      storageBackend: (process.env.STORAGE_BACKEND || "json").toLowerCase() as StorageBackendName,
+      sqlitePath: process.env.SQLITE_PATH || path.join(dataDir, "postgeist.db"),
+      schedulerEnabled: process.env.SCHEDULER_ENABLED !== "false",
+      schedulerIntervalMs: parseInt(process.env.SCHEDULER_INTERVAL_MS || "60000"),
+      queueConcurrency: parseInt(process.env.QUEUE_CONCURRENCY || "2"),
+      minIdeaQuality: parseInt(process.env.MIN_IDEA_QUALITY || "50"),
+      dailyBudget: parseFloat(process.env.DAILY_BUDGET || "0"),
+      dailyBudgetPerUser: parseFloat(process.env.DAILY_BUDGET_PER_USER || "0"),
+      budgetMode: (process.env.BUDGET_MODE || "refuse").toLowerCase() as BudgetMode
     };
 
     this._scraperConfig = {
@@ -24,6 +59,34 @@ export class Config {
       password: process.env.TWITTER_PASSWORD,
       email: process.env.TWITTER_EMAIL
     };
+
+    // Model specs are either "model" (uses AI_PROVIDER) or "provider:model"
+    const provider = (process.env.AI_PROVIDER || "google").toLowerCase() as AIProviderName;
+    const defaultModel = process.env.AI_MODEL || `${provider}:${DEFAULT_MODELS[provider] ?? DEFAULT_MODELS.google}`;
+
+    this._aiConfig = {
+      provider,
+      models: {
+        analysis: process.env.AI_ANALYSIS_MODEL || defaultModel,
+        generation: process.env.AI_GENERATION_MODEL || defaultModel,
+        agent: process.env.AI_AGENT_MODEL || defaultModel
+      },
+      openaiBaseUrl: process.env.OPENAI_BASE_URL,
+      ollamaBaseUrl: process.env.OLLAMA_BASE_URL || "http://localhost:11434/v1",
+      llamacppBaseUrl: process.env.LLAMACPP_BASE_URL || "http://localhost:8080/v1",
+      prices: { ...MODEL_PRICES, ...Config.parsePrices(process.env.MODEL_PRICES) }
+    };
+  }
+
+  private static parsePrices(value: string | undefined): Record<string, ModelPrice> {
+    if (!value) {
+      return {};
+    }
+    try {
+      return JSON.parse(value) as Record<string, ModelPrice>;
+    } catch {
+      throw new Error(`MODEL_PRICES must be JSON like {"openai:gpt-4o": {"input": 2.5, "output": 10}}`);
+    }
   }
 
   public static getInstance(): Config {
@@ -41,6 +104,10 @@ export class Config {
     return this._scraperConfig;
   }
 
+  public get ai(): AIConfig {
+    return this._aiConfig;
+  }
+
   public validateTwitterCredentials(): boolean {
     return !!(this._scraperConfig.username && this._scraperConfig.password);
   }
@@ -2,6 +2,8 @@
 import { PostgeistApp } from "./app";
 import { DisplayUI } from "./ui/display";
 import { Utils } from "./utils";
+import { config } from "./config";
+import { JsonFileStorage, SqliteStorage, migrateStorage } from "./storage";
 import chalk from "chalk";
 
 // CLI argument parsing
@@ -12,6 +14,7 @@ interface CLIOptions {
   action?: string;
   verbose?: boolean;
   setup?: boolean;
+  migrate?: boolean;
 }
 
 function parseArgs(): CLIOptions {
@@ -44,6 +47,9 @@ function parseArgs(): CLIOptions {
       case "--setup":
         options.setup = true;
         break;
+      case "--migrate":
+        options.migrate = true;
+        break;
       default:
         // If it doesn't start with -, treat as username
         if (arg && !arg.startsWith("-") && !options.username) {
@@ -69,19 +75,23 @@ function showHelp(): void {
   console.log("  -u, --username <user>   Specify Twitter username to analyze");
   console.log("  -a, --action <action>   Specify action (analyze, ideas, both)");
   console.log("  --verbose               Enable verbose logging");
-  console.log("  --setup                 Show setup instructions\n");
+  console.log("  --setup                 Show setup instructions");
+  console.log("  --migrate               Copy JSON data into the SQLite store\n");
 
   console.log(chalk.white.bold("EXAMPLES:"));
   console.log("  postgeist elonmusk              # Analyze @elonmusk interactively");
   console.log("  postgeist -u elonmusk -a both   # Analyze and generate ideas");
-  console.log("  postgeist --setup               # Show setup instructions\n");
+  console.log("  postgeist --setup               # Show setup instructions");
+  console.log("  postgeist --migrate             # Move ~/.postgeist/*.json into SQLite\n");
 
   console.log(chalk.white.bold("ENVIRONMENT VARIABLES:"));
   console.log("  TWITTER_USERNAME    Your Twitter username");
   console.log("  TWITTER_PASSWORD    Your Twitter password");
   console.log("  TWITTER_EMAIL       Your Twitter email (optional)");
   console.log("  LOG_LEVEL          Log level (DEBUG, INFO, WARN, ERROR)");
-  console.log("  DATA_DIR           Data directory (default: ~/.postgeist)\n");
+  console.log("  DATA_DIR           Data directory (default: ~/.postgeist)");
+  console.log("  STORAGE_BACKEND    Storage backend: json or sqlite (default: json)");
+  console.log("  SQLITE_PATH        SQLite database file (default: $DATA_DIR/postgeist.db)\n");
 
   console.log(chalk.gray("For more information, visit: https://github.com/your-username/postgeist"));
 }
@@ -97,6 +107,32 @@ async function showVersion(): Promise<void> {
   }
 }
 
+async function runMigration(): Promise<void> {
+  const source = new JsonFileStorage(config.app.dataDir);
+  const target = new SqliteStorage(config.app.sqlitePath);
+
+  try {
+    console.log(chalk.cyan(`Migrating ${config.app.dataDir} → ${config.app.sqlitePath}\n`));
+
+    const result = await migrateStorage(source, target, (username, index, total) => {
+      console.log(chalk.gray(`  [${index}/${total}] @${username}`));
+    });
+
+    console.log(chalk.green(
+      `\n✅ Migrated ${result.users} users, ${result.posts} posts, ${result.ideas} ideas`
+      + `, ${result.snapshots} analysis snapshots, ${result.sessions} agent sessions and ${result.usage} usage records.`
+    ));
+    console.log(chalk.yellow("Set STORAGE_BACKEND=sqlite to use the new store. The JSON files were left in place."));
+  } catch (error) {
+    console.error(chalk.red("❌ Migration failed:"), (error as Error).message);
+    // Not process.exit, so the stores below still get closed
+    process.exitCode = 1;
+  } finally {
+    source.close();
+    target.close();
+  }
+}
+
 async function runNonInteractiveMode(app: any, options: CLIOptions): Promise<void> {
   try {
     const username = options.username!;
@@ -143,6 +179,11 @@ async function runCLI(options: CLIOptions): Promise<void> {
     return;
   }
 
+  if (options.migrate) {
+    await runMigration();
+    return;
+  }
+
   if (options.verbose) {
     process.env.LOG_LEVEL = "DEBUG";
   }
@@ -0,0 +1,117 @@
+import type { LanguageModel } from "ai";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { config, DEFAULT_MODELS } from "../config";
+import { createLogger } from "../../logger";
+import type { AIProviderName, ModelTask } from "../types";
+import { MockLanguageModel } from "./mock";
+
+const logger = createLogger("ModelRegistry");
+
+type ModelFactory = (modelId: string) => LanguageModel;
+
+/**
+ * Registry of LLM providers. Models are resolved from specs such as
+ * "gemini-2.5-flash" (uses the default AI_PROVIDER) or "openai:gpt-4o-mini",
+ * and each task (analysis, generation, agent) can point at its own spec.
+ */
+export class ModelRegistry {
+  private factories = new Map<AIProviderName, ModelFactory>();
+  private cache = new Map<string, LanguageModel>();
+
+  constructor() {
+    this.registerDefaults();
+  }
+
+  private registerDefaults(): void {
+    this.register("google", modelId => createGoogleGenerativeAI()(modelId));
+
+    this.register("openai", modelId => createOpenAI({
+      baseURL: config.ai.openaiBaseUrl,
+      compatibility: "strict"
+    })(modelId));
+
+    this.register("anthropic", modelId => createAnthropic()(modelId));
+
+    // Ollama and llama.cpp both expose OpenAI-compatible endpoints
+    this.register("ollama", modelId => createOpenAI({
+      baseURL: config.ai.ollamaBaseUrl,
+      apiKey: "ollama",
+      compatibility: "compatible"
+    })(modelId));
+
+    this.register("llamacpp", modelId => createOpenAI({
+      baseURL: config.ai.llamacppBaseUrl,
+      apiKey: "llamacpp",
+      compatibility: "compatible"
+    })(modelId));
+
+    this.register("mock", modelId => new MockLanguageModel(modelId));
+  }
+
+  register(provider: AIProviderName, factory: ModelFactory): void {
+    this.factories.set(provider, factory);
+    // Drop cached models so the new factory takes effect
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(`${provider}:`)) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  listProviders(): AIProviderName[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Normalize a model spec into "provider:model". The part before the first ":" only counts as
+   * the provider when one is registered under that name, so tags like "llama3.1:8b" stay intact.
+   */
+  parseSpec(spec: string): { provider: AIProviderName; modelId: string } {
+    const separatorIndex = spec.indexOf(":");
+    const prefix = spec.slice(0, separatorIndex).toLowerCase() as AIProviderName;
+    const hasProvider = separatorIndex !== -1 && this.factories.has(prefix);
+    const provider = hasProvider ? prefix : config.ai.provider;
+    const modelId = hasProvider ? spec.slice(separatorIndex + 1) : spec;
+
+    return {
+      provider,
+      modelId: modelId || DEFAULT_MODELS[provider] || ""
+    };
+  }
+
+  resolve(spec: string): LanguageModel {
+    const { provider, modelId } = this.parseSpec(spec);
+    const key = `${provider}:${modelId}`;
+
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const factory = this.factories.get(provider);
+    if (!factory) {
+      throw new Error(`Unknown AI provider "${provider}". Available providers: ${this.listProviders().join(", ")}`);
+    }
+
+    const model = factory(modelId);
+    this.cache.set(key, model);
+    logger.info(`Resolved model ${key}`);
+    return model;
+  }
+
+  getModel(task: ModelTask): LanguageModel {
+    return this.resolve(config.ai.models[task]);
+  }
+
+  /**
+   * Human readable "provider:model" for the model configured for a task
+   */
+  describe(task: ModelTask): string {
+    const { provider, modelId } = this.parseSpec(config.ai.models[task]);
+    return `${provider}:${modelId}`;
+  }
+}
+
+export const modelRegistry = new ModelRegistry();
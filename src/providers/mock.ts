@@ -0,0 +1,245 @@
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1StreamPart } from "ai";
+
+// Distinct, ready-to-post sample texts so offline runs produce believable batches
+const SAMPLE_POSTS = [
+  "Shipping small experiments every week beats planning one big launch every quarter.",
+  "The best documentation is the one you wrote for yourself six months ago and actually understood.",
+  "Hot take: most productivity systems are procrastination with better branding.",
+  "Spent the morning deleting code. The app got faster and I got happier.",
+  "If your onboarding needs a video, your onboarding needs a redesign.",
+  "Reminder that boring technology is a feature, not a bug.",
+  "Talked to five users today. Four of them wanted the same thing we never built.",
+  "Every side project starts as a weekend idea and ends as a lesson in scope.",
+  "The fastest way to learn a codebase is to fix its smallest bug.",
+  "Pricing pages are the most honest product documentation you will ever write.",
+  "Writing in public is mostly about being okay with being wrong in public.",
+  "Good defaults save more time than any amount of configuration options.",
+  "You do not need a roadmap. You need a list of problems ranked by pain.",
+  "Caching is easy. Knowing when to invalidate it is the actual job.",
+  "Customers rarely churn because of missing features. They churn because of friction.",
+  "Read the error message twice before opening a new tab. Saves hours.",
+  "The first version of anything should embarrass you a little.",
+  "A clear changelog builds more trust than a flashy landing page.",
+  "Automate the task the third time you do it, not the first.",
+  "Momentum is built on small wins you can show to someone else."
+];
+
+type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  minItems?: number;
+  minimum?: number;
+  [key: string]: unknown;
+};
+
+/**
+ * Offline language model that returns deterministic responses.
+ *
+ * It recognises the prompts Postgeist sends (analysis, post idea batches,
+ * structured output schemas) and answers with well-formed data so the whole
+ * pipeline can run in tests without network access or API keys.
+ */
+export class MockLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = "v1" as const;
+  readonly provider = "mock";
+  readonly defaultObjectGenerationMode = "json" as const;
+  readonly modelId: string;
+
+  constructor(modelId: string = "mock-1") {
+    this.modelId = modelId;
+  }
+
+  async doGenerate(options: LanguageModelV1CallOptions) {
+    const promptText = MockLanguageModel.extractPromptText(options);
+
+    if (options.mode.type === "object-tool") {
+      const args = MockLanguageModel.sampleFromSchema(
+        options.mode.tool.parameters as JsonSchema,
+        options.mode.tool.name,
+        MockLanguageModel.requestedCount(promptText)
+      );
+      return {
+        toolCalls: [{
+          toolCallType: "function" as const,
+          toolCallId: "mock-tool-call",
+          toolName: options.mode.tool.name,
+          args: JSON.stringify(args)
+        }],
+        finishReason: "tool-calls" as const,
+        usage: MockLanguageModel.estimateUsage(promptText, JSON.stringify(args)),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+      };
+    }
+
+    const text = this.respond(options, promptText);
+
+    return {
+      text,
+      finishReason: "stop" as const,
+      usage: MockLanguageModel.estimateUsage(promptText, text),
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+    };
+  }
+
+  async doStream(options: LanguageModelV1CallOptions) {
+    const promptText = MockLanguageModel.extractPromptText(options);
+    const text = this.respond(options, promptText);
+    const usage = MockLanguageModel.estimateUsage(promptText, text);
+
+    const stream = new ReadableStream<LanguageModelV1StreamPart>({
+      start(controller) {
+        for (let i = 0; i < text.length; i += 24) {
+          controller.enqueue({ type: "text-delta", textDelta: text.slice(i, i + 24) });
+        }
+        controller.enqueue({ type: "finish", finishReason: "stop", usage });
+        controller.close();
+      }
+    });
+
+    return {
+      stream,
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+    };
+  }
+
+  private respond(options: LanguageModelV1CallOptions, promptText: string): string {
+    const count = MockLanguageModel.requestedCount(promptText);
+
+    if (options.mode.type === "object-json" && options.mode.schema) {
+      return JSON.stringify(MockLanguageModel.sampleFromSchema(options.mode.schema as JsonSchema, "root", count));
+    }
+
+    if (/"summary"/.test(promptText) && /"key_themes"/.test(promptText)) {
+      return JSON.stringify(MockLanguageModel.sampleAnalysis());
+    }
+
+    if (/JSON array/i.test(promptText)) {
+      return JSON.stringify(MockLanguageModel.samplePostIdeas(count ?? 5));
+    }
+
+    const lastLine = promptText.trim().split("\n").pop() || "";
+    return `Mock response (${this.modelId}): ${lastLine.slice(0, 200)}`;
+  }
+
+  private static extractPromptText(options: LanguageModelV1CallOptions): string {
+    return options.prompt
+      .map(message => {
+        if (typeof message.content === "string") {
+          return message.content;
+        }
+        return message.content
+          .map(part => ("text" in part && typeof part.text === "string" ? part.text : ""))
+          .join("\n");
+      })
+      .join("\n");
+  }
+
+  private static requestedCount(promptText: string): number | undefined {
+    const match = promptText.match(/Generate exactly (\d+)/i)
+      || promptText.match(/exactly (\d+) (?:posts|variations)/i);
+    return match?.[1] ? parseInt(match[1]) : undefined;
+  }
+
+  private static estimateUsage(promptText: string, completion: string) {
+    return {
+      promptTokens: Math.ceil(promptText.length / 4),
+      completionTokens: Math.ceil(completion.length / 4)
+    };
+  }
+
+  static samplePostIdeas(count: number) {
+    return Array.from({ length: count }, (_, index) => ({
+      text: SAMPLE_POSTS[index % SAMPLE_POSTS.length]!,
+      community: null,
+      reasoning: "Mock idea generated offline"
+    }));
+  }
+
+  static sampleThread(length: number = 4) {
+    return Array.from({ length }, (_, index) => ({
+      text: SAMPLE_POSTS[index % SAMPLE_POSTS.length]!,
+      role: index === 0 ? "hook" : index === length - 1 ? "cta" : "body"
+    }));
+  }
+
+  static sampleAnalysis() {
+    return {
+      summary: "Mock analysis: concise, practical posts about building software products.",
+      content_taxonomy: ["Short opinions", "Lessons learned", "Build-in-public updates"],
+      thematic_analysis: ["Product development", "Developer experience"],
+      linguistic_patterns: ["Short declarative sentences", "Sentence case", "Few emojis"],
+      engagement_mechanics: ["Contrarian one-liners", "Relatable frustrations"],
+      temporal_patterns: ["Posts several times per week"],
+      interaction_style: ["Replies briefly to questions"],
+      expertise_demonstration: ["Shares concrete engineering trade-offs"],
+      content_evolution: ["Moving from technical tips to product thinking"],
+      untapped_opportunities: ["Behind-the-scenes metrics", "Customer interview stories"],
+      voice_architecture: "Direct, dry and pragmatic with occasional humour.",
+      what_works: [{
+        pattern: "Contrarian one-liners about everyday engineering habits",
+        evidence: ["Reminder that boring technology is a feature, not a bug."],
+        contrast: "Long announcements without a point of view get little engagement"
+      }],
+      key_themes: ["Shipping", "Product", "Engineering"],
+      engagement_patterns: ["Short takes perform best"],
+      unique_behaviors: ["Rarely uses hashtags"],
+      opportunities: ["Threads that expand on popular one-liners"],
+      tone: "Pragmatic, understated and confident."
+    };
+  }
+
+  private static sampleFromSchema(schema: JsonSchema, name: string, count?: number, index: number = 0): unknown {
+    if (name === "community") {
+      return null;
+    }
+    if (name === "tweets") {
+      return MockLanguageModel.sampleThread(Math.max(schema.minItems ?? 0, 4));
+    }
+
+    const variants = schema.anyOf ?? schema.oneOf;
+    if (variants && variants.length > 0) {
+      const preferred = variants.find(variant => variant.type !== "null") ?? variants[0]!;
+      return MockLanguageModel.sampleFromSchema(preferred, name, count, index);
+    }
+
+    if (schema.enum && schema.enum.length > 0) {
+      return schema.enum[0];
+    }
+
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const type = types.find(t => t && t !== "null") ?? (schema.properties ? "object" : "string");
+
+    switch (type) {
+      case "object": {
+        if (name === "root" && schema.properties?.summary && schema.properties?.key_themes) {
+          return MockLanguageModel.sampleAnalysis();
+        }
+        const result: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(schema.properties ?? {})) {
+          result[key] = MockLanguageModel.sampleFromSchema(value, key, count, index);
+        }
+        return result;
+      }
+      case "array": {
+        const itemSchema = schema.items ?? { type: "string" };
+        const objectItems = !!itemSchema.properties;
+        const length = Math.max(schema.minItems ?? 0, objectItems ? count ?? 3 : 3);
+        return Array.from({ length }, (_, i) => MockLanguageModel.sampleFromSchema(itemSchema, name, count, i));
+      }
+      case "number":
+      case "integer":
+        return schema.minimum ?? 1;
+      case "boolean":
+        return false;
+      default:
+        if (name === "text") {
+          return SAMPLE_POSTS[index % SAMPLE_POSTS.length];
+        }
+        return `Mock ${name} ${index + 1}`;
+    }
+  }
+}
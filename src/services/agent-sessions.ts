@@ -0,0 +1,132 @@
+import type { AgentMemory, AgentMessage, AgentSession, AgentSessionSummary, AgentStreamEvent } from "../types";
+import { PostgeistAgent } from "../agent";
+import { AgentMemoryUtils } from "../utils/agent-memory";
+import { createLogger } from "../../logger";
+import { dataService } from "./data";
+
+const logger = createLogger("AgentSessions");
+
+const DEFAULT_TITLE = "New chat";
+
+// Untitled sessions are named after the start of their first message
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Saved conversations with the agent. Every turn rebuilds the agent from the stored
+ * memory and the messages it doesn't cover yet, so a session can be resumed after a
+ * restart or from another client.
+ */
+export class AgentSessionService {
+  private busy = new Set<string>();
+
+  async create(title?: string): Promise<AgentSession> {
+    const now = new Date().toISOString();
+    const session: AgentSession = {
+      id: crypto.randomUUID(),
+      title: title?.trim() || DEFAULT_TITLE,
+      createdAt: now,
+      updatedAt: now,
+      messages: []
+    };
+
+    await dataService.saveAgentSession(session);
+    logger.info(`Created agent session ${session.id}`);
+    return session;
+  }
+
+  /**
+   * Sessions without their messages, most recently active first
+   */
+  async list(): Promise<AgentSessionSummary[]> {
+    const sessions = await dataService.listAgentSessions();
+    return sessions
+      .map(session => ({
+        id: session.id,
+        title: session.title,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        messageCount: session.messages.length
+      }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(id: string): Promise<AgentSession | null> {
+    return dataService.getAgentSession(id);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return dataService.deleteAgentSession(id);
+  }
+
+  /**
+   * Send a message and stream the agent's reply. The message and the reply are saved
+   * once the agent is done; a failed turn leaves the session unchanged so it can be retried.
+   */
+  async *send(id: string, message: string): AsyncGenerator<AgentStreamEvent, void, unknown> {
+    const session = await this.get(id);
+    if (!session) {
+      throw new Error(`Agent session ${id} not found`);
+    }
+    if (this.busy.has(id)) {
+      throw new Error("The agent is still answering the previous message in this session");
+    }
+
+    this.busy.add(id);
+    try {
+      const userMessage: AgentMessage = { role: "user", content: message, createdAt: new Date().toISOString() };
+      const memory = session.memory ?? AgentMemoryUtils.empty();
+      const agent = new PostgeistAgent(session.messages.slice(memory.summarizedCount), memory, { headless: true });
+      let reply: string | undefined;
+
+      for await (const event of agent.chatEvents(message)) {
+        if (event.type === "done") {
+          reply = event.text;
+        }
+        yield event;
+      }
+
+      if (reply !== undefined) {
+        await this.append(
+          id,
+          [userMessage, { role: "assistant", content: reply, createdAt: new Date().toISOString() }],
+          agent.getMemory()
+        );
+      }
+    } finally {
+      this.busy.delete(id);
+    }
+  }
+
+  /**
+   * The session's memory, empty for sessions that haven't needed any yet
+   */
+  async getMemory(id: string): Promise<AgentMemory | null> {
+    const session = await this.get(id);
+    return session ? session.memory ?? AgentMemoryUtils.empty() : null;
+  }
+
+  private async append(id: string, messages: AgentMessage[], memory: AgentMemory): Promise<void> {
+    // Re-read in case the session was renamed or deleted during the turn
+    const session = await this.get(id);
+    if (!session) {
+      logger.warn(`Agent session ${id} was deleted before the reply could be saved`);
+      return;
+    }
+
+    if (session.title === DEFAULT_TITLE && session.messages.length === 0) {
+      session.title = AgentSessionService.titleFrom(messages[0]!.content);
+    }
+
+    session.messages.push(...messages);
+    session.memory = memory;
+    session.updatedAt = new Date().toISOString();
+    await dataService.saveAgentSession(session);
+  }
+
+  private static titleFrom(message: string): string {
+    const text = message.replace(/\s+/g, " ").trim();
+    return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : text;
+  }
+}
+
+export const agentSessionService = new AgentSessionService();
@@ -1,80 +1,203 @@
-import { generateText } from "ai";
-import { google } from "@ai-sdk/google";
+import { generateObject, generateText, streamText, JSONParseError, NoObjectGeneratedError, TypeValidationError } from "ai";
 import { z } from "zod";
-import type { Analysis, PostIdea, UserData, TwitterPost } from "../types";
+import { createHash } from "crypto";
+import type {
+  Analysis,
+  AnalysisChunk,
+  AnalysisPostWindow,
+  IdeaStreamEvent,
+  ModelTask,
+  PostIdea,
+  ReplyDraft,
+  ReplyKind,
+  ReplyTarget,
+  StyleFingerprint,
+  UserData,
+  TwitterPost
+} from "../types";
 import { config } from "../config";
+import { modelRegistry } from "../providers";
 import { createLogger } from "../../logger";
 import { dataService } from "./data";
+import { ideaService, type IdeaOrigin } from "./ideas";
+import { analysisHistoryService } from "./history";
+import { usageService } from "./usage";
 import prompts from "../../prompts";
 import { websiteVisit } from "../tools/website-visit";
 import { webSearch } from "../tools/web-search";
 import { DisplayUI } from "../ui/display";
+import { PostUtils } from "../utils/posts";
+import { ThreadUtils, MAX_THREAD_TWEETS, MAX_TWEET_LENGTH, MIN_THREAD_TWEETS } from "../utils/threads";
+import { EngagementAnalytics, type EngagementSplit, type RankedPost } from "../analytics/engagement";
+import { TimingAnalytics, type TimingReport } from "../analytics/timing";
+import { StyleAnalytics, MIN_STYLE_SAMPLE } from "../analytics/style";
+import { IdeaScorer } from "../analytics/quality";
+import { PostIndex } from "../analytics/retrieval";
+import type { AccountComparison, AccountProfile, ComparisonNarrative } from "../analytics/compare";
 import ora from "ora";
 
 const logger = createLogger("AIService");
 
+// Invalid responses get this many attempts in total before giving up
+const MAX_STRUCTURED_ATTEMPTS = 3;
+
 // Define the schema for post ideas
 const postIdeaSchema = z.object({
-  text: z.string().describe("The complete post text"),
+  text: z.string().trim().min(1, "Post text is empty").describe("The complete post text"),
   community: z.string().nullable().describe("The community name or null"),
   reasoning: z.string().describe("Brief explanation of community choice")
 });
 
-const postIdeasSchema = z.object({
-  ideas: z.array(postIdeaSchema).describe("Array of generated post ideas")
+const postIdeasSchema = (count: number) => z.object({
+  ideas: z.array(postIdeaSchema)
+    .min(count, `Expected ${count} post ideas`)
+    .describe(`Array of exactly ${count} generated post ideas`)
 });
 
-export class AIService {
-  private model: any;
+// Per-tweet length is checked before numbering is added, so the limit leaves room for it
+const threadIdeaSchema = (maxTweetLength: number) => z.object({
+  tweets: z.array(z.object({
+    text: z.string().trim()
+      .min(1, "Tweet text is empty")
+      .max(maxTweetLength, `Tweet is longer than ${maxTweetLength} characters`)
+      .describe("The tweet text, without numbering"),
+    role: z.enum(["hook", "body", "cta"]).describe("hook for the first tweet, cta for the last, body for the rest")
+  }))
+    .min(MIN_THREAD_TWEETS, `A thread needs at least ${MIN_THREAD_TWEETS} tweets`)
+    .max(MAX_THREAD_TWEETS, `A thread has at most ${MAX_THREAD_TWEETS} tweets`)
+    .refine(tweets => tweets[0]?.role === "hook", "The first tweet must be the hook")
+    .refine(tweets => tweets[tweets.length - 1]?.role === "cta", "The last tweet must be the cta")
+    .describe("The tweets in posting order"),
+  community: z.string().nullable().describe("The community name or null"),
+  reasoning: z.string().describe("Why this thread fits the user and what it is about")
+});
 
-  constructor() {
-    this.model = google("gemini-2.5-flash");
-  }
+const threadIdeasSchema = (count: number, maxTweetLength: number) => z.object({
+  ideas: z.array(threadIdeaSchema(maxTweetLength))
+    .min(count, `Expected ${count} threads`)
+    .describe(`Array of exactly ${count} threads`)
+});
+
+const replyDraftsSchema = (count: number, kinds: [ReplyKind, ...ReplyKind[]]) => z.object({
+  drafts: z.array(z.object({
+    kind: z.enum(kinds).describe("reply to answer the tweet, quote to share it with a comment"),
+    text: z.string().trim()
+      .min(1, "Draft text is empty")
+      .max(MAX_TWEET_LENGTH, `Draft is longer than ${MAX_TWEET_LENGTH} characters`)
+      .describe("The complete reply or quote text"),
+    rationale: z.string().trim().min(1, "Rationale is empty").describe("One or two sentences on why this draft works")
+  }))
+    .min(count, `Expected ${count} drafts`)
+    .describe(`Array of exactly ${count} drafts`)
+});
+
+// Own replies and quotes shown to the model as examples of how the persona talks to others
+const MAX_INTERACTION_EXAMPLES = 10;
+
+// Finished periods of a chunked analysis that hasn't been merged yet
+const ANALYSIS_CHUNKS_COLLECTION = "analysis-chunks";
+
+// Past posts shown as style examples when tweaking an idea
+const MAX_TWEAK_EXEMPLARS = 10;
+
+// Newest library ideas that new ideas are checked against for near-duplicates
+const MAX_PREVIOUS_IDEAS = 500;
+
+// One entry per compared account, in the order they were given
+const comparisonSchema = (count: number) => z.object({
+  overview: z.string().trim().min(1, "Overview is empty").describe("Two or three sentences on how the accounts differ"),
+  accounts: z.array(z.object({
+    username: z.string().describe("The account's username without @"),
+    positioning: z.string().describe("One sentence on the niche this account owns compared to the others"),
+    exclusiveTopics: z.array(z.string()).describe("Topics this account covers that none of the others do"),
+    gaps: z.array(z.string()).describe("Topics the others cover that this account doesn't")
+  }))
+    .length(count, `Expected ${count} accounts`)
+    .describe(`Array of exactly ${count} accounts, in the order given`),
+  sharedTopics: z.array(z.string()).describe("Topics every account covers"),
+  recommendations: z.array(z.string()).describe("Concrete moves for the first account, based on what the others do")
+});
+
+const insightListSchema = (description: string) => z.array(z.string()).describe(description);
+
+const analysisSchema = z.object({
+  summary: z.string().min(1).describe("A comprehensive summary of the user's posting strategy and approach"),
+  content_taxonomy: insightListSchema("Content types, formats, and structures used").optional(),
+  thematic_analysis: insightListSchema("Core themes and unexplored angles within those themes").optional(),
+  linguistic_patterns: insightListSchema("Writing style, vocabulary, sentence structures, punctuation, capitalization").optional(),
+  engagement_mechanics: insightListSchema("What drives engagement").optional(),
+  temporal_patterns: insightListSchema("Post frequency, timing and seasonal patterns").optional(),
+  interaction_style: insightListSchema("How they respond to others and engage with their community").optional(),
+  expertise_demonstration: insightListSchema("Areas where they show authority and how").optional(),
+  content_evolution: insightListSchema("How their content has changed over time").optional(),
+  untapped_opportunities: insightListSchema("Angles, formats, or themes they haven't explored").optional(),
+  voice_architecture: z.string().describe("The precise construction of their unique voice").optional(),
+  what_works: z.array(z.object({
+    pattern: z.string().min(1),
+    evidence: z.array(z.string()).min(1, "Every pattern needs evidence from top-performing posts"),
+    contrast: z.string().optional()
+  })).describe("Patterns that separate top performers from bottom performers").optional(),
+  key_themes: insightListSchema("Primary themes and topics the user focuses on").min(1, "At least one key theme is required"),
+  engagement_patterns: insightListSchema("Observable patterns in how they engage with their audience"),
+  unique_behaviors: insightListSchema("Distinctive behaviors that set them apart"),
+  opportunities: insightListSchema("Strategic opportunities for content growth"),
+  tone: z.string().min(1).describe("Detailed analysis of their tone, writing style, and voice")
+});
+
+// What a call is recorded under in the usage log
+interface UsageTag {
+  operation: string;
+  username?: string;
+}
 
-  async analyzeUser(username: string, posts: TwitterPost[]): Promise<Analysis> {
+interface StructuredRequest<T> extends UsageTag {
+  task: ModelTask;
+  schema: z.ZodType<T>;
+  system?: string;
+  prompt: string;
+  // Used in logs and error messages, e.g. "Analysis"
+  label: string;
+}
+
+export class AIService {
+  /**
+   * Analyze the newest posts in one request or, past ANALYSIS_CHUNK_SIZE posts, one period at a
+   * time before merging the partial analyses. Finished periods are checkpointed, so a failed run
+   * resumes where it stopped when retried with the same posts and model.
+   */
+  async analyzeUser(
+    username: string,
+    posts: TwitterPost[],
+    onProgress?: (completed: number, chunks: number) => void
+  ): Promise<Analysis> {
     try {
       if (posts.length === 0) {
         throw new Error("No posts available for analysis. Please fetch posts first.");
       }
 
-      logger.info(`Analyzing ${posts.length} posts for @${username}`);
+      // The archive can grow past the analysis window; analyze the newest posts only
+      posts = posts.slice(0, config.app.maxPostsToAnalyze);
 
-      const analysis = await generateText({
-        system: prompts.analyze,
-        model: this.model,
-        prompt: `
-          Analyze the following posts for @${username} and generate comprehensive strategic insights for future content creation.
+      logger.info(`Analyzing ${posts.length} posts for @${username} with ${modelRegistry.describe("analysis")}`);
 
-          Posts to analyze:
-          ${posts.map((post, index) => `${index + 1}. ${post.text}`).join("\n")}
+      const analysis = posts.length > config.app.analysisChunkSize
+        ? await this.analyzeInChunks(username, posts, onProgress)
+        : await this.generateStructured({
+          task: "analysis",
+          operation: "analysis",
+          username,
+          schema: analysisSchema,
+          label: "Analysis",
+          system: prompts.analyze,
+          prompt: this.buildAnalysisPrompt(username, posts)
+        });
 
-          Return the response as a valid JSON object with the following structure:
-          {
-            "summary": "A comprehensive summary of the user's posting strategy and approach",
-            "content_taxonomy": ["Detailed categorization of content types, formats, and structures used"],
-            "thematic_analysis": ["Core themes and importantly, unexplored angles within those themes"],
-            "linguistic_patterns": ["Exact writing style, vocabulary, sentence structures, punctuation, capitalization patterns"],
-            "engagement_mechanics": ["What drives engagement - question types, controversial takes, educational content, personal stories"],
-            "temporal_patterns": ["Post frequency, timing, seasonal content, trending topic adoption patterns"],
-            "interaction_style": ["How they respond to others, collaboration patterns, community engagement"],
-            "expertise_demonstration": ["Areas where they show authority, credibility markers, knowledge sharing methods"],
-            "content_evolution": ["How their content has changed over time, new directions emerging"],
-            "untapped_opportunities": ["Specific content angles, formats, or themes they haven't explored but would fit their brand"],
-            "voice_architecture": "Detailed analysis of the precise construction of their unique voice - tone, formality, personality markers",
-            "key_themes": ["Primary themes and topics the user focuses on"],
-            "engagement_patterns": ["Observable patterns in how they engage with their audience"],
-            "unique_behaviors": ["Distinctive behaviors and approaches that set them apart"],
-            "opportunities": ["Strategic opportunities for content growth and audience expansion"],
-            "tone": "Extremely detailed analysis of their tone, writing style, and voice characteristics"
-          }
-        `
-      });
+      // The style fingerprint is measured, not asked for, so it's exact and costs no tokens
+      const result: Analysis = { ...analysis, style: StyleAnalytics.fingerprint(posts) };
 
       logger.info(`Analysis completed for @${username}`);
-
-      // Parse the JSON response
-      const parsed = this.parseAnalysisJson(analysis.text);
-      return parsed as Analysis;
+      await this.storeSnapshot(username, posts, result);
+      return result;
     } catch (error) {
       logger.error(`Analysis failed for @${username}`, error as Error);
 
@@ -92,125 +215,201 @@ export class AIService {
 
   async generatePostIdeas(userData: UserData, count: number = 10): Promise<PostIdea[]> {
     try {
-      if (!userData.analysis) {
-        throw new Error("No analysis found. Please analyze the user first.");
-      }
-
-      if (userData.posts.length === 0) {
-        throw new Error("No posts available for generation. Please fetch posts first.");
-      }
-
+      const prompt = this.buildIdeasPrompt(userData, count);
       logger.info(`Generating ${count} post ideas for @${userData.username}`);
 
-      const postsForPrompt = userData.posts
-        .slice(0, config.app.maxPostsForPrompt)
-        .map((post: TwitterPost, index: number) => {
-          const postAttachments: string[] = [];
-          if (post.photos && post.photos.length > 0) {
-            postAttachments.push(...post.photos.map((photo) => `Photo: ${photo.url}`));
-          }
-          if (post.videos && post.videos.length > 0) {
-            postAttachments.push(...post.videos.map((video) => `Video: ${video.url}`));
-          }
-          return `${index + 1}. ${post.text}${postAttachments.length > 0
-            ? `\n   Attachments:\n   - ${postAttachments.join('\n   - ')}`
-            : ''
-            }`;
-        })
-        .join("\n");
-
-      const customInstructionsSection = userData.customInstructions
-        ? `\n\nCUSTOM INSTRUCTIONS:\n${userData.customInstructions}\n\nMake sure to follow these custom instructions carefully when generating posts.`
-        : '';
-
-      const communitiesSection = userData.availableCommunities && userData.availableCommunities.length > 0
-        ? `\n\nAVAILABLE COMMUNITIES:\n${userData.availableCommunities.map(c => `- ${c.name}: ${c.description}`).join('\n')}\n\nFor each post, decide whether it should be posted to one of these communities or no community at all. Only assign a community if the post content directly relates to that community's focus.`
-        : '\n\nNo communities available - set community to null for all posts.';
+      const generated = await this.generateIdeasWithTools(count, prompt, { operation: "ideas", username: userData.username });
+      const postIdeas = await this.regenerateWeakIdeas(userData, generated.slice(0, count));
 
-      const strategicInsightsSection = `\n\nSTRATEGIC CONTENT INSIGHTS:
-Content Taxonomy: ${userData.analysis.content_taxonomy?.join(", ") || "Not analyzed"}
-Thematic Analysis: ${userData.analysis.thematic_analysis?.join(", ") || "Not analyzed"}
-Linguistic Patterns: ${userData.analysis.linguistic_patterns?.join(", ") || "Not analyzed"}
-Engagement Mechanics: ${userData.analysis.engagement_mechanics?.join(", ") || "Not analyzed"}
-Untapped Opportunities: ${userData.analysis.untapped_opportunities?.join(", ") || "Not analyzed"}
-Voice Architecture: ${userData.analysis.voice_architecture || "Not analyzed"}
+      DisplayUI.showToolSuccess("Post generation completed!");
 
-Use these insights to generate content that represents a natural EVOLUTION of their voice and explores the untapped opportunities identified in the analysis.`;
+      logger.info(`Generated ${postIdeas.length} post ideas for @${userData.username}`);
+      return this.storeIdeas(userData, postIdeas, { source: "batch" });
+    } catch (error) {
+      logger.error(`Post generation failed for @${userData.username}`, error as Error);
+      throw AIService.describeGenerationError(error);
+    }
+  }
 
-      const result = await generateText({
-        model: this.model,
+  /**
+   * Same as generatePostIdeas, but yields tool calls and each idea as soon as the model has
+   * written it. The whole batch is validated (and repaired if needed) once the model is done and
+   * weak ideas are regenerated, so the ideas in the final "done" event are the ones to keep.
+   */
+  async *streamPostIdeas(userData: UserData, count: number = 10): AsyncGenerator<IdeaStreamEvent, PostIdea[]> {
+    try {
+      const prompt = this.buildIdeasPrompt(userData, count);
+      logger.info(`Streaming ${count} post ideas for @${userData.username}`);
+      yield { type: "progress", message: `Generating ${count} post ideas` };
+
+      const usage: UsageTag = { operation: "ideas", username: userData.username };
+      await usageService.checkBudget({ ...usage, task: "generation" });
+      const startedAt = Date.now();
+      const result = await streamText({
+        model: modelRegistry.getModel("generation"),
         tools: {
           website_visit: websiteVisit,
           web_search: webSearch,
         },
-        prompt: `${prompts.generate.new_post_idea}
-
-${customInstructionsSection}
+        maxSteps: 5,
+        prompt,
+      });
 
-⚠️ CRITICAL: The custom instructions above are the HIGHEST PRIORITY. They must be followed EXACTLY and take precedence over all other guidance below. If there is any conflict between custom instructions and other requirements, ALWAYS follow the custom instructions.
+      let responseText = "";
+      let streamed = 0;
+
+      try {
+        for await (const part of result.fullStream) {
+          switch (part.type) {
+            case "text-delta": {
+              responseText += part.textDelta;
+              const completed = AIService.completedArrayItems(responseText);
+              for (; streamed < completed.length && streamed < count; streamed++) {
+                const idea = postIdeaSchema.safeParse(completed[streamed]);
+                if (idea.success) {
+                  yield { type: "idea", index: streamed, idea: idea.data };
+                }
+              }
+              break;
+            }
+            case "tool-call":
+              yield { type: "tool-call", toolName: part.toolName, args: part.args };
+              break;
+            case "tool-result":
+              yield { type: "tool-result", toolName: part.toolName, result: part.result };
+              break;
+            case "step-finish":
+              // Text written before a tool call is not part of the answer
+              if (part.finishReason === "tool-calls") {
+                responseText = "";
+                streamed = 0;
+              }
+              break;
+            case "error":
+              throw part.error;
+          }
+        }
+      } catch (error) {
+        await usageService.record({ ...usage, task: "generation" }, startedAt, undefined, error);
+        throw error;
+      }
+      await usageService.record({ ...usage, task: "generation" }, startedAt, { usage: await result.usage, steps: await result.steps });
 
-USER ANALYSIS:
-Summary: ${userData.analysis.summary}
-Key Themes: ${userData.analysis.key_themes.join(", ")}
-Engagement Patterns: ${userData.analysis.engagement_patterns.join(", ")}
-Tone: ${userData.analysis.tone}
+      const validation = AIService.validateIdeasResponse(responseText, postIdeasSchema(count));
+      let postIdeas: PostIdea[];
+      if (validation.success) {
+        postIdeas = validation.ideas.slice(0, count);
+      } else {
+        yield { type: "progress", message: "Repairing the generated ideas" };
+        postIdeas = await this.repairIdeas(count, prompt, responseText, validation.issues, usage);
+      }
 
-🚨 EXISTING POSTS TO AVOID DUPLICATING:
-(Study these for STYLE ONLY - DO NOT generate similar content)
-${postsForPrompt}
+      yield { type: "progress", message: "Scoring the ideas and regenerating weak ones" };
+      postIdeas = await this.regenerateWeakIdeas(userData, postIdeas);
 
-${strategicInsightsSection}
-${communitiesSection}
+      logger.info(`Streamed ${postIdeas.length} post ideas for @${userData.username}`);
+      const stored = await this.storeIdeas(userData, postIdeas, { source: "batch" });
+      yield { type: "done", ideas: stored };
+      return stored;
+    } catch (error) {
+      logger.error(`Streaming post generation failed for @${userData.username}`, error as Error);
+      throw AIService.describeGenerationError(error);
+    }
+  }
 
-REQUIREMENTS (Secondary to custom instructions):
-- Match the user's exact writing style, tone, and voice
-- Use similar emoji patterns and formatting
-- Make posts 20-280 characters long
-- Each post should be ready to copy-paste to Twitter
+  /**
+   * Generate threads in the user's voice, optionally about a topic. Tweets are numbered the way
+   * the user numbers their own threads.
+   */
+  async generateThreadIdeas(userData: UserData, count: number = 3, topic?: string): Promise<PostIdea[]> {
+    try {
+      const style = ThreadUtils.learnStyle(userData.posts);
+      const maxTweetLength = ThreadUtils.maxTweetLength(style);
+      const prompt = this.buildThreadPrompt(userData, count, maxTweetLength, topic);
+      logger.info(`Generating ${count} threads for @${userData.username}, ${ThreadUtils.describeStyle(style)}`);
+
+      const { ideas } = await this.generateStructured({
+        task: "generation",
+        operation: "thread",
+        username: userData.username,
+        schema: threadIdeasSchema(count, maxTweetLength),
+        label: "Thread ideas",
+        prompt
+      });
 
-TOOLS AVAILABLE:
-- website_visit: Extract content from websites
-- web_search: Search for current information
-- Use these tools if the custom instructions mention links or search queries
+      const threads: PostIdea[] = ideas.slice(0, count).map(idea => {
+        const thread = ThreadUtils.format(idea.tweets, style);
+        return { text: ThreadUtils.toText(thread), community: idea.community, reasoning: idea.reasoning, thread };
+      });
 
-CRITICAL: You must respond with ONLY a valid JSON array. No other text before or after.
+      DisplayUI.showToolSuccess("Thread generation completed!");
 
-Format exactly like this:
-[
-  {
-    "text": "Your first post text here",
-    "community": null,
-    "reasoning": "Why this post fits the user's style"
-  },
-  {
-    "text": "Your second post text here",
-    "community": "CommunityName",
-    "reasoning": "Why this belongs in this community"
+      logger.info(`Generated ${threads.length} threads for @${userData.username}`);
+      return this.storeIdeas(userData, threads, topic ? { source: "prompt", prompt: topic } : { source: "batch" });
+    } catch (error) {
+      logger.error(`Thread generation failed for @${userData.username}`, error as Error);
+      throw AIService.describeGenerationError(error);
+    }
   }
-]
 
-Generate exactly ${count} posts. Start with [ and end with ]. No markdown, no explanations, just the JSON array.`,
+  /**
+   * Draft replies and/or quote tweets to someone else's tweet in the persona's voice
+   */
+  async draftReplies(
+    userData: UserData,
+    target: ReplyTarget,
+    count: number = 4,
+    mode: ReplyKind | 'both' = 'both'
+  ): Promise<ReplyDraft[]> {
+    try {
+      const kinds: [ReplyKind, ...ReplyKind[]] = mode === 'both' ? ['reply', 'quote'] : [mode];
+      logger.info(`Drafting ${count} ${kinds.join("/")} drafts as @${userData.username}`);
+
+      const { drafts } = await this.generateStructured({
+        task: "generation",
+        operation: "reply",
+        username: userData.username,
+        schema: replyDraftsSchema(count, kinds),
+        label: "Reply drafts",
+        prompt: this.buildReplyPrompt(userData, target, count, mode)
       });
 
-      // Parse the JSON response
-      const postIdeas = this.parseJsonFromResponse(result.text, count);
-
-      DisplayUI.showToolSuccess("Post generation completed!");
-
-      logger.info(`Generated ${postIdeas.length} post ideas for @${userData.username}`);
-      return postIdeas.slice(0, count);
+      DisplayUI.showToolSuccess("Reply drafting completed!");
+      return drafts.slice(0, count);
     } catch (error) {
-      logger.error(`Post generation failed for @${userData.username}`, error as Error);
+      logger.error(`Reply drafting failed for @${userData.username}`, error as Error);
+      throw AIService.describeGenerationError(error);
+    }
+  }
 
-      if (error instanceof Error) {
-        if (error.message.includes('quota') || error.message.includes('limit')) {
-          throw new Error('AI service quota exceeded. Please try again later.');
-        } else if (error.message.includes('timeout')) {
-          throw new Error('AI service timeout. The generation took too long, please try again.');
-        }
-      }
+  /**
+   * Turn measured profiles into a written benchmark: positioning, exclusive topics and gaps per account.
+   * Recommendations are written for the first account, the one being benchmarked.
+   */
+  async compareAccounts(comparison: AccountComparison): Promise<ComparisonNarrative> {
+    const usernames = comparison.accounts.map(account => account.username);
 
-      throw error;
+    try {
+      logger.info(`Comparing ${usernames.map(username => `@${username}`).join(", ")}`);
+
+      const narrative = await this.generateStructured({
+        task: "analysis",
+        operation: "compare",
+        username: usernames[0],
+        schema: comparisonSchema(usernames.length),
+        label: "Account comparison",
+        prompt: this.buildComparisonPrompt(comparison.accounts)
+      });
+
+      DisplayUI.showToolSuccess("Account comparison completed!");
+      // Entries follow the input order, so the usernames are pinned rather than trusted
+      return {
+        ...narrative,
+        accounts: narrative.accounts.map((account, index) => ({ ...account, username: usernames[index]! }))
+      };
+    } catch (error) {
+      logger.error("Account comparison failed", error as Error);
+      throw AIService.describeGenerationError(error);
     }
   }
 
@@ -238,16 +437,16 @@ STYLE REQUIREMENTS:
 - Use similar emoji patterns and formatting
 - Use the same sentence structure, punctuation style, and formatting as their past posts
 - Match their typical post length and structure
+${this.buildStyleSection(userData)}
 `;
 
           if (userData.posts && userData.posts.length > 0) {
-            const postsForPrompt = userData.posts
-              .slice(0, config.app.maxPostsForPrompt)
+            const postsForPrompt = PostIndex.exemplars(userData, prompt, config.app.maxPostsForPrompt)
               .map((post: TwitterPost, index: number) => `${index + 1}. ${post.text}`)
               .join("\n");
 
             existingPostsSection = `
-EXISTING POSTS FOR STYLE REFERENCE:
+EXISTING POSTS FOR STYLE REFERENCE (their posts closest to this topic first):
 (Study these for STYLE ONLY - DO NOT generate similar content)
 ${postsForPrompt}
 `;
@@ -263,13 +462,7 @@ For each post, decide whether it should be posted to one of these communities or
         }
       }
 
-      const result = await generateText({
-        model: this.model,
-        tools: {
-          website_visit: websiteVisit,
-          web_search: webSearch,
-        },
-        prompt: `You are PostGeist, an advanced AI content creator for platform X (formerly Twitter).
+      const postIdeas = await this.generateIdeasWithTools(count, `You are PostGeist, an advanced AI content creator for platform X (formerly Twitter).
 
 Your task is to generate COMPLETE, READY-TO-POST tweets based on the following topic/prompt:
 
@@ -311,16 +504,12 @@ Format exactly like this:
   }
 ]
 
-Generate exactly ${count} posts about "${prompt}". Start with [ and end with ]. No markdown, no explanations, just the JSON array.`,
-      });
-
-      // Parse the JSON response
-      const postIdeas = this.parseJsonFromResponse(result.text, count);
+Generate exactly ${count} posts about "${prompt}". Start with [ and end with ]. No markdown, no explanations, just the JSON array.`, { operation: "prompt", username: userData?.username });
 
       DisplayUI.showToolSuccess("Prompt-based post generation completed!");
 
       logger.info(`Generated ${postIdeas.length} post ideas from prompt`);
-      return postIdeas.slice(0, count);
+      return this.storeIdeas(userData, postIdeas.slice(0, count), { source: "prompt", prompt });
     } catch (error) {
       logger.error(`Prompt-based post generation failed`, error as Error);
 
@@ -355,6 +544,19 @@ STYLE REQUIREMENTS:
 - Use similar emoji patterns and formatting
 - Use the same sentence structure, punctuation style, and formatting as their past posts
 - Match their typical post length and structure
+${this.buildStyleSection(userData)}
+`;
+      }
+
+      let existingPostsSection = '';
+      if (userData && userData.posts.length > 0) {
+        const postsForPrompt = PostIndex.exemplars(userData, `${originalIdea.text} ${feedback}`, MAX_TWEAK_EXEMPLARS)
+          .map((post: TwitterPost, index: number) => `${index + 1}. ${post.text}`)
+          .join("\n");
+
+        existingPostsSection = `
+THEIR POSTS CLOSEST TO THIS IDEA FOR STYLE REFERENCE:
+${postsForPrompt}
 `;
       }
 
@@ -367,8 +569,12 @@ ${userData.availableCommunities.map(c => `- ${c.name}: ${c.description}`).join('
 For each post, decide whether it should be posted to one of these communities or no community at all. Only assign a community if the post content directly relates to that community's focus.`;
       }
 
-      const result = await generateText({
-        model: this.model,
+      const { ideas } = await this.generateStructured({
+        task: "generation",
+        operation: "tweak",
+        username: userData?.username,
+        schema: postIdeasSchema(3),
+        label: "Post variations",
         prompt: `You are PostGeist, an advanced AI content creator for platform X (formerly Twitter).
 
 Your task is to take an existing post idea and create 3 IMPROVED variations based on specific feedback.
@@ -383,6 +589,8 @@ FEEDBACK TO APPLY:
 
 ${styleSection}
 
+${existingPostsSection}
+
 ${communitiesSection}
 
 REQUIREMENTS:
@@ -395,41 +603,19 @@ REQUIREMENTS:
 - Keep the core message but improve based on feedback
 - Make each variation unique while incorporating the feedback
 
-CRITICAL: You must respond with ONLY a valid JSON array of exactly 3 posts. No other text before or after.
-
-Format exactly like this:
-[
-  {
-    "text": "First improved variation here",
-    "community": null,
-    "reasoning": "How this variation applies the feedback"
-  },
-  {
-    "text": "Second improved variation here",
-    "community": "CommunityName",
-    "reasoning": "How this variation applies the feedback"
-  },
-  {
-    "text": "Third improved variation here",
-    "community": null,
-    "reasoning": "How this variation applies the feedback"
-  }
-]
-
-Generate exactly 3 variations. Start with [ and end with ]. No markdown, no explanations, just the JSON array.`,
+Return exactly 3 variations in "ideas". Use "reasoning" to explain how each variation applies the feedback.`,
       });
 
-      // Parse the JSON response - expecting exactly 3 variations
-      const postIdeas = this.parseJsonFromResponse(result.text, 3);
-
-      if (postIdeas.length !== 3) {
-        throw new Error('Expected exactly 3 variations from AI response');
-      }
+      const postIdeas = ideas.slice(0, 3);
 
       DisplayUI.showToolSuccess("Post idea tweaking completed!");
 
       logger.info(`Generated 3 tweaked variations for post idea`);
-      return postIdeas;
+      return this.storeIdeas(userData, postIdeas, {
+        source: "tweak",
+        prompt: feedback,
+        parentId: originalIdea.id
+      });
     } catch (error) {
       logger.error(`Post idea tweaking failed`, error as Error);
 
@@ -445,190 +631,792 @@ Generate exactly 3 variations. Start with [ and end with ]. No markdown, no expl
     }
   }
 
-  private parseJsonFromResponse(responseText: string, count: number): PostIdea[] {
-    try {
-      // Clean up the response text
-      let jsonString = responseText.trim();
+  /**
+   * The batch generation prompt: the user's analysis, example posts, custom instructions and communities
+   */
+  private buildIdeasPrompt(userData: UserData, count: number): string {
+    const { analysis } = userData;
+    if (!analysis) {
+      throw new Error("No analysis found. Please analyze the user first.");
+    }
 
-      logger.info(`AI Response length: ${responseText.length} characters`);
-      logger.info(`First 200 chars: ${responseText.slice(0, 200)}`);
-      logger.info(`Last 200 chars: ${responseText.slice(-200)}`);
+    if (userData.posts.length === 0) {
+      throw new Error("No posts available for generation. Please fetch posts first.");
+    }
 
-      // Remove markdown code blocks if present
-      jsonString = jsonString.replace(/```(?:json)?\s*(\[[\s\S]*?\])\s*```/g, '$1');
+    // Custom instructions usually name the topics to write about, so their closest posts come first
+    const postsForPrompt = PostIndex.exemplars(userData, userData.customInstructions, config.app.maxPostsForPrompt)
+      .map((post: TwitterPost, index: number) => {
+        const postAttachments: string[] = [];
+        if (post.photos && post.photos.length > 0) {
+          postAttachments.push(...post.photos.map((photo) => `Photo: ${photo.url}`));
+        }
+        if (post.videos && post.videos.length > 0) {
+          postAttachments.push(...post.videos.map((video) => `Video: ${video.url}`));
+        }
+        return `${index + 1}. ${post.text}${postAttachments.length > 0
+          ? `\n   Attachments:\n   - ${postAttachments.join('\n   - ')}`
+          : ''
+          }`;
+      })
+      .join("\n");
+
+    const customInstructionsSection = userData.customInstructions
+      ? `\n\nCUSTOM INSTRUCTIONS:\n${userData.customInstructions}\n\nMake sure to follow these custom instructions carefully when generating posts.`
+      : '';
+
+    const communitiesSection = userData.availableCommunities && userData.availableCommunities.length > 0
+      ? `\n\nAVAILABLE COMMUNITIES:\n${userData.availableCommunities.map(c => `- ${c.name}: ${c.description}`).join('\n')}\n\nFor each post, decide whether it should be posted to one of these communities or no community at all. Only assign a community if the post content directly relates to that community's focus.`
+      : '\n\nNo communities available - set community to null for all posts.';
+
+    const strategicInsightsSection = `\n\nSTRATEGIC CONTENT INSIGHTS:
+Content Taxonomy: ${analysis.content_taxonomy?.join(", ") || "Not analyzed"}
+Thematic Analysis: ${analysis.thematic_analysis?.join(", ") || "Not analyzed"}
+Linguistic Patterns: ${analysis.linguistic_patterns?.join(", ") || "Not analyzed"}
+Engagement Mechanics: ${analysis.engagement_mechanics?.join(", ") || "Not analyzed"}
+Untapped Opportunities: ${analysis.untapped_opportunities?.join(", ") || "Not analyzed"}
+Voice Architecture: ${analysis.voice_architecture || "Not analyzed"}
 
-      // Look for JSON array in the response
-      const jsonMatch = jsonString.match(/\[[\s\S]*?\]/);
-      if (jsonMatch) {
-        jsonString = jsonMatch[0];
-      } else {
-        logger.warn('No JSON array found in response, trying to extract from text');
-        return this.fallbackParsePostIdeas(responseText, count);
-      }
+Use these insights to generate content that represents a natural EVOLUTION of their voice and explores the untapped opportunities identified in the analysis.`;
 
-      logger.info(`Extracted JSON: ${jsonString.slice(0, 300)}...`);
+    return `${prompts.generate.new_post_idea}
 
-      // Parse the JSON
-      const parsedArray = JSON.parse(jsonString);
+${customInstructionsSection}
 
-      if (!Array.isArray(parsedArray)) {
-        throw new Error('Response is not a JSON array');
-      }
+⚠️ CRITICAL: The custom instructions above are the HIGHEST PRIORITY. They must be followed EXACTLY and take precedence over all other guidance below. If there is any conflict between custom instructions and other requirements, ALWAYS follow the custom instructions.
 
-      if (parsedArray.length === 0) {
-        throw new Error('No post ideas found in response');
-      }
+USER ANALYSIS:
+Summary: ${analysis.summary}
+Key Themes: ${analysis.key_themes.join(", ")}
+Engagement Patterns: ${analysis.engagement_patterns.join(", ")}
+Tone: ${analysis.tone}
 
-      // Validate and convert each item
-      const postIdeas: PostIdea[] = parsedArray.slice(0, count).map((item: any, index: number) => {
-        if (!item || typeof item !== 'object') {
-          throw new Error(`Invalid post idea at index ${index}: not an object`);
-        }
+🚨 EXISTING POSTS TO AVOID DUPLICATING:
+(Study these for STYLE ONLY - DO NOT generate similar content)
+${postsForPrompt}
 
-        if (!item.text || typeof item.text !== 'string') {
-          throw new Error(`Invalid post idea at index ${index}: missing or invalid text field`);
-        }
+${strategicInsightsSection}${this.buildStyleSection(userData)}
+${communitiesSection}
 
-        return {
-          text: item.text.trim(),
-          community: item.community === null || item.community === undefined ? null : String(item.community),
-          reasoning: item.reasoning ? String(item.reasoning) : 'No reasoning provided'
-        };
-      });
+REQUIREMENTS (Secondary to custom instructions):
+- Match the user's exact writing style, tone, and voice
+- Use similar emoji patterns and formatting
+- Make posts 20-280 characters long
+- Each post should be ready to copy-paste to Twitter
+
+TOOLS AVAILABLE:
+- website_visit: Extract content from websites
+- web_search: Search for current information
+- Use these tools if the custom instructions mention links or search queries
+
+CRITICAL: You must respond with ONLY a valid JSON array. No other text before or after.
+
+Format exactly like this:
+[
+  {
+    "text": "Your first post text here",
+    "community": null,
+    "reasoning": "Why this post fits the user's style"
+  },
+  {
+    "text": "Your second post text here",
+    "community": "CommunityName",
+    "reasoning": "Why this belongs in this community"
+  }
+]
+
+Generate exactly ${count} posts. Start with [ and end with ]. No markdown, no explanations, just the JSON array.`;
+  }
+
+  /**
+   * The thread prompt: the user's voice, a few of their own threads as examples, custom instructions and communities
+   */
+  private buildThreadPrompt(userData: UserData, count: number, maxTweetLength: number, topic?: string): string {
+    const { analysis } = userData;
+    if (!analysis) {
+      throw new Error("No analysis found. Please analyze the user first.");
+    }
+
+    const examples = ThreadUtils.findThreads(userData.posts)
+      .slice(0, 3)
+      .map((thread, index) => `Thread ${index + 1}:\n${thread.map(post => `- ${post.text}`).join("\n")}`)
+      .join("\n\n");
+
+    const examplesSection = examples
+      ? `\n\nTHEIR OWN THREADS FOR STYLE REFERENCE:\n(Study these for STYLE ONLY - DO NOT repeat their content)\n${examples}`
+      : "";
+
+    const customInstructionsSection = userData.customInstructions
+      ? `\n\nCUSTOM INSTRUCTIONS (highest priority, follow them exactly):\n${userData.customInstructions}`
+      : "";
+
+    const communitiesSection = userData.availableCommunities && userData.availableCommunities.length > 0
+      ? `\n\nAVAILABLE COMMUNITIES:\n${userData.availableCommunities.map(c => `- ${c.name}: ${c.description}`).join('\n')}\n\nFor each thread, decide whether it belongs in one of these communities. Only assign a community if the thread directly relates to that community's focus.`
+      : '\n\nNo communities available - set community to null for all threads.';
+
+    const topicSection = topic
+      ? `TOPIC: "${topic}"\nEvery thread must be about this topic, each from a different angle.`
+      : "Pick topics from their key themes and untapped opportunities, a different one for each thread.";
+
+    return `You are PostGeist, an advanced AI content creator for platform X (formerly Twitter).
+
+Your task is to write ${count} COMPLETE, READY-TO-POST threads for @${userData.username}.
+
+${topicSection}
+
+USER ANALYSIS:
+Summary: ${analysis.summary}
+Key Themes: ${analysis.key_themes.join(", ")}
+Tone: ${analysis.tone}
+Voice Architecture: ${analysis.voice_architecture || "Not analyzed"}
+Linguistic Patterns: ${analysis.linguistic_patterns?.join(", ") || "Not analyzed"}
+Untapped Opportunities: ${analysis.untapped_opportunities?.join(", ") || "Not analyzed"}
+${this.buildStyleSection(userData)}${examplesSection}${customInstructionsSection}${communitiesSection}
+
+THREAD STRUCTURE:
+- ${MIN_THREAD_TWEETS}-${MAX_THREAD_TWEETS} tweets per thread, in posting order
+- The first tweet is the hook (role "hook"): a claim, question or promise that makes people open the thread
+- Middle tweets (role "body") carry one point each and still make sense when quoted on their own
+- The last tweet is the call to action (role "cta"): ask to follow, reply, bookmark or share, in the user's voice
+- Each tweet is at most ${maxTweetLength} characters
+- Do NOT number the tweets or add thread emojis - numbering is added automatically
+
+REQUIREMENTS:
+- Match the user's exact writing style, tone, and voice
+- NO variables, placeholders, or [brackets] - everything must be concrete and specific
+- Every thread could be posted RIGHT NOW with zero editing
+
+Generate exactly ${count} threads in "ideas".`;
+  }
+
+  /**
+   * The reply prompt: the target tweet, the persona's voice and how they usually talk to others
+   */
+  private buildReplyPrompt(userData: UserData, target: ReplyTarget, count: number, mode: ReplyKind | 'both'): string {
+    const { analysis } = userData;
+    if (!analysis) {
+      throw new Error(`No analysis found for @${userData.username}. Please analyze the user first.`);
+    }
+
+    const interactions = userData.posts
+      .filter(post => post.isReply || post.isQuote)
+      .slice(0, MAX_INTERACTION_EXAMPLES)
+      .map((post, index) => `${index + 1}. [${post.isQuote ? "quote" : "reply"}] ${post.text}`)
+      .join("\n");
+
+    const interactionsSection = interactions
+      ? `\n\nTHEIR OWN REPLIES AND QUOTES FOR STYLE REFERENCE:\n${interactions}`
+      : "";
+
+    const customInstructionsSection = userData.customInstructions
+      ? `\n\nCUSTOM INSTRUCTIONS (highest priority, follow them exactly):\n${userData.customInstructions}`
+      : "";
+
+    const kindInstructions = {
+      reply: "Write only replies (kind \"reply\").",
+      quote: "Write only quote tweets (kind \"quote\").",
+      both: "Mix replies (kind \"reply\") and quote tweets (kind \"quote\"), at least one of each."
+    }[mode];
+
+    return `You are PostGeist, an advanced AI content creator for platform X (formerly Twitter).
+
+Your task is to draft responses to the tweet below, written as @${userData.username}.
+
+TARGET TWEET${target.author ? ` by @${target.author}` : ""}:
+"${target.text}"
+
+PERSONA:
+Summary: ${analysis.summary}
+Tone: ${analysis.tone}
+Voice Architecture: ${analysis.voice_architecture || "Not analyzed"}
+Interaction Style: ${analysis.interaction_style?.join(", ") || "Not analyzed"}
+Expertise: ${analysis.expertise_demonstration?.join(", ") || "Not analyzed"}
+${interactionsSection}${customInstructionsSection}
+
+HOW TO RESPOND:
+- ${kindInstructions}
+- Replies talk to the author directly and add something: an answer, a counterpoint, an experience, a sharp question
+- Quote tweets are read by the persona's followers who may not know the original, so they make a point of their own
+- No generic praise or filler openers like "Great point" or "This!"
+- Each draft is at most ${MAX_TWEET_LENGTH} characters and ready to post with zero editing
+- Each draft takes a different angle
+- Match the persona's exact writing style, tone, and voice
+
+Generate exactly ${count} drafts in "drafts". Give each a one or two sentence rationale.`;
+  }
+
+  private buildComparisonPrompt(accounts: AccountProfile[]): string {
+    const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+    const profiles = accounts.map((account, index) => {
+      const { metrics } = account;
+      return `ACCOUNT ${index + 1}: @${account.username}${index === 0 ? " (the account being benchmarked)" : ""}
+Tone: ${account.tone}
+Themes: ${account.themes.join("; ") || "None"}
+Engagement mechanics: ${account.engagementMechanics.join("; ") || "None"}
+Cadence: ${metrics.postsPerWeek ?? "unknown"} posts per week over ${metrics.posts} posts
+Formats: ${percent(metrics.formatMix.replies)} replies, ${percent(metrics.formatMix.quotes)} quotes, `
+        + `${percent(metrics.formatMix.threads)} threads, ${percent(metrics.formatMix.media)} with media, `
+        + `${percent(metrics.formatMix.links)} with links, average ${metrics.averageLength} characters
+Top hashtags: ${metrics.topHashtags.join(" ") || "None"}`;
+    }).join("\n\n");
+
+    return `You are PostGeist, an expert social media strategist for platform X (formerly Twitter).
+
+Compare the accounts below for a competitor benchmark. Every profile comes from an earlier analysis of the account's posts plus measured posting statistics.
 
-      logger.info(`Successfully parsed ${postIdeas.length} post ideas from AI response`);
-      return postIdeas;
+${profiles}
 
+HOW TO COMPARE:
+- Name topics specifically; "tech" or "business" is too broad to act on
+- A topic is exclusive only if none of the other accounts cover it, even in other words
+- Gaps are topics the other accounts cover successfully that this account leaves out
+- Recommendations are concrete moves for @${accounts[0]!.username}, grounded in what the others do differently
+- Refer to the numbers where they explain a difference
+
+Generate exactly ${accounts.length} entries in "accounts", one per account in the order above.`;
+  }
+
+  /**
+   * Score and rank generated ideas, then save them to the user's idea library. Ideas without an
+   * account are only returned, and a storage failure never throws away a finished generation.
+   */
+  private async storeIdeas(
+    userData: UserData | undefined,
+    ideas: PostIdea[],
+    origin: Omit<IdeaOrigin, "model">
+  ): Promise<PostIdea[]> {
+    if (!userData) {
+      return ideas;
+    }
+
+    ideas = this.rankIdeas(userData, ideas, await this.previousIdeas(userData.username, origin.parentId));
+
+    try {
+      return await ideaService.record(userData.username, ideas, { ...origin, model: modelRegistry.describe("generation") });
     } catch (error) {
-      logger.error('Failed to parse JSON from AI response', error as Error);
+      logger.warn(`Failed to store ideas for @${userData.username}`, error as Error);
+      return ideas;
+    }
+  }
+
+  private rankIdeas(userData: UserData, ideas: PostIdea[], previous: PostIdea[]): PostIdea[] {
+    return IdeaScorer.rank(ideas, userData.posts.slice(0, config.app.maxPostsToAnalyze), this.styleOf(userData), previous);
+  }
 
-      // Fallback: try to extract posts using regex patterns
-      return this.fallbackParsePostIdeas(responseText, count);
+  /**
+   * Ideas from earlier sessions that new ones must not repeat. A tweak is meant to stay close to
+   * the idea it came from, so that idea and its other tweaks are left out.
+   */
+  private async previousIdeas(username: string, parentId?: string): Promise<PostIdea[]> {
+    try {
+      return (await ideaService.list(username, { limit: MAX_PREVIOUS_IDEAS }))
+        .filter(idea => !parentId || (idea.id !== parentId && idea.parentId !== parentId));
+    } catch (error) {
+      logger.warn(`Failed to load earlier ideas for @${username}`, error as Error);
+      return [];
     }
   }
 
-  private fallbackParsePostIdeas(responseText: string, count: number): PostIdea[] {
+  /**
+   * Ask once more for every idea scoring below MIN_IDEA_QUALITY or repeating an earlier post or
+   * idea, telling the model what was wrong, and keep the best of the weak ideas and their
+   * replacements. A failed retry keeps the originals.
+   */
+  private async regenerateWeakIdeas(userData: UserData, ideas: PostIdea[]): Promise<PostIdea[]> {
+    const threshold = config.app.minIdeaQuality;
+    const previous = await this.previousIdeas(userData.username);
+    const ranked = this.rankIdeas(userData, ideas, previous);
+    const weak = ranked.filter(idea => idea.quality!.score < threshold || idea.duplicateOf);
+    if (weak.length === 0) {
+      return ranked;
+    }
+
+    logger.info(`Regenerating ${weak.length} ideas for @${userData.username} that are weak or near-duplicates`);
     try {
-      logger.info('Attempting fallback parsing of post ideas');
-
-      const ideas: PostIdea[] = [];
-
-      // Try multiple patterns to extract posts
-      const patterns = [
-        // Look for quoted text in JSON-like format
-        /"text":\s*"([^"]+(?:\\.[^"]*)*)"/g,
-        // Look for single quotes
-        /'text':\s*'([^']+(?:\\.[^']*)*)'/g,
-        // Look for numbered lists
-        /\d+\.\s*([^\n\r]+)/g,
-        // Look for bullet points
-        /[-•]\s*([^\n\r]+)/g,
-        // Look for any line that looks like a tweet (starts with text, reasonable length)
-        /^(.{20,280})$/gm
-      ];
-
-      for (const pattern of patterns) {
-        if (ideas.length >= count) break;
-
-        const matches = [...responseText.matchAll(pattern)];
-        logger.info(`Pattern matched ${matches.length} items`);
-
-        for (const match of matches) {
-          if (ideas.length >= count) break;
-
-          const text = match[1]?.trim();
-          if (text && text.length >= 10 && text.length <= 280) {
-            // Clean up the text
-            const cleanText = text
-              .replace(/\\"/g, '"')
-              .replace(/\\'/g, "'")
-              .replace(/\\\\/g, "\\")
-              .trim();
-
-            // Avoid duplicates
-            if (!ideas.some(idea => idea.text === cleanText)) {
-              ideas.push({
-                text: cleanText,
-                community: null,
-                reasoning: 'Generated via fallback parsing'
-              });
-            }
-          }
-        }
-      }
+      const rejected = weak
+        .map(idea => `- "${idea.text}" (score ${idea.quality!.score}${idea.quality!.issues.length > 0 ? `: ${idea.quality!.issues.join("; ")}` : ""})`)
+        .join("\n");
+      const prompt = `${this.buildIdeasPrompt(userData, weak.length)}
+
+REJECTED BY AUTOMATIC CHECKS (write different posts that avoid these problems):
+${rejected}
+
+Generate exactly ${weak.length} posts as a JSON array.`;
+
+      const kept = ranked.filter(idea => !weak.includes(idea));
+      const replacements = (await this.generateIdeasWithTools(weak.length, prompt, { operation: "ideas-retry", username: userData.username }))
+        .slice(0, weak.length);
+      // Replacements are checked against the ideas being kept, so they can't repeat those either,
+      // and a fresh idea beats a near-duplicate whatever their scores
+      const best = this.rankIdeas(userData, [...kept, ...weak, ...replacements], previous)
+        .filter(idea => !kept.some(keptIdea => keptIdea.text === idea.text))
+        .sort((a, b) => Number(Boolean(a.duplicateOf)) - Number(Boolean(b.duplicateOf)))
+        .slice(0, weak.length);
+      return this.rankIdeas(userData, [...kept, ...best], previous);
+    } catch (error) {
+      logger.warn(`Regenerating weak ideas for @${userData.username} failed, keeping the originals`, error as Error);
+      return ranked;
+    }
+  }
 
-      if (ideas.length === 0) {
-        logger.warn('All parsing methods failed, generating emergency fallback posts');
-
-        // Generate very basic fallback posts based on themes
-        const emergencyPosts = [
-          "Just had an interesting thought about technology and how it shapes our daily lives. 🤔",
-          "Working on something new and exciting. Can't wait to share more details soon! 🚀",
-          "Sometimes the best ideas come when you least expect them. ✨",
-          "Grateful for all the amazing people in this community. You inspire me every day! 🙏",
-          "Learning something new every day. Growth never stops! 📚"
-        ];
-
-        return emergencyPosts.slice(0, count).map(text => ({
-          text,
-          community: null,
-          reasoning: 'Emergency fallback - please regenerate for better results'
-        }));
-      }
+  /**
+   * The fingerprint stored with the analysis, measured on the spot for analyses that predate it.
+   * Undefined when there are too few posts to tell.
+   */
+  private styleOf(userData: UserData): StyleFingerprint | undefined {
+    const style = userData.analysis?.style ?? StyleAnalytics.fingerprint(userData.posts.slice(0, config.app.maxPostsToAnalyze));
+    return style.sampleSize >= MIN_STYLE_SAMPLE ? style : undefined;
+  }
 
-      logger.info(`Fallback parsing recovered ${ideas.length} post ideas`);
-      return ideas.slice(0, count);
+  private buildStyleSection(userData: UserData): string {
+    const style = this.styleOf(userData);
+    if (!style) {
+      return "";
+    }
+
+    return `\n\nMEASURED STYLE (counted on ${style.sampleSize} of their real posts, stay close to these numbers):
+${StyleAnalytics.describe(style).split("\n").map(line => `- ${line}`).join("\n")}`;
+  }
 
+  private async storeSnapshot(username: string, posts: TwitterPost[], analysis: Analysis): Promise<void> {
+    try {
+      await analysisHistoryService.record(username, posts, analysis, modelRegistry.describe("analysis"));
     } catch (error) {
-      logger.error('Fallback parsing also failed', error as Error);
-      throw new Error(`All parsing methods failed. Please try again or check your AI model configuration.`);
+      logger.warn(`Failed to store analysis snapshot for @${username}`, error as Error);
     }
   }
 
+  /**
+   * Generate an object that matches the schema. Invalid responses are retried with the
+   * validation errors fed back to the model, and a clear error is thrown if none pass.
+   */
+  private async generateStructured<T>(request: StructuredRequest<T>): Promise<T> {
+    let lastIssues = "";
+
+    for (let attempt = 1; attempt <= MAX_STRUCTURED_ATTEMPTS; attempt++) {
+      const repairNote = lastIssues
+        ? `\n\nYour previous response was rejected because it did not match the required schema:\n${lastIssues}\n`
+          + "Return a corrected response that matches the schema exactly."
+        : "";
+
+      try {
+        const { object } = await usageService.track(
+          { operation: request.operation, username: request.username, task: request.task },
+          () => generateObject({
+            model: modelRegistry.getModel(request.task),
+            schema: request.schema,
+            system: request.system,
+            prompt: request.prompt + repairNote
+          })
+        );
+        return object;
+      } catch (error) {
+        const issues = AIService.describeValidationError(error);
+        if (!issues) {
+          throw error;
+        }
+        lastIssues = issues;
+        logger.warn(
+          `${request.label} response failed validation (attempt ${attempt}/${MAX_STRUCTURED_ATTEMPTS}): ${issues}`
+        );
+      }
+    }
 
-  private parseAnalysisJson(responseText: string): Analysis {
+    throw new Error(
+      `${request.label} response failed validation after ${MAX_STRUCTURED_ATTEMPTS} attempts: ${lastIssues}`
+    );
+  }
+
+  /**
+   * Idea generation may browse or search first, which rules out generateObject for the
+   * first pass. The final text is validated against the schema and, when it doesn't
+   * match, handed back to the model together with the errors to repair.
+   */
+  private async generateIdeasWithTools(count: number, prompt: string, usage: UsageTag): Promise<PostIdea[]> {
+    const schema = postIdeasSchema(count);
+
+    const result = await usageService.track({ ...usage, task: "generation" }, () => generateText({
+      model: modelRegistry.getModel("generation"),
+      tools: {
+        website_visit: websiteVisit,
+        web_search: webSearch,
+      },
+      maxSteps: 5,
+      prompt,
+    }));
+
+    const validation = AIService.validateIdeasResponse(result.text, schema);
+    if (validation.success) {
+      return validation.ideas.slice(0, count);
+    }
+
+    return this.repairIdeas(count, prompt, result.text, validation.issues, usage);
+  }
+
+  /**
+   * Hand an invalid ideas response back to the model together with the validation errors
+   */
+  private async repairIdeas(
+    count: number,
+    prompt: string,
+    responseText: string,
+    issues: string,
+    usage: UsageTag
+  ): Promise<PostIdea[]> {
+    logger.warn(`Post ideas response failed validation, repairing: ${issues}`);
+
+    const { ideas } = await this.generateStructured({
+      task: "generation",
+      operation: `${usage.operation}-repair`,
+      username: usage.username,
+      schema: postIdeasSchema(count),
+      label: "Post ideas",
+      prompt: `${prompt}
+
+A previous answer to this request was rejected because it did not match the required format:
+${issues}
+
+Previous answer:
+${responseText || "(empty)"}
+
+Return exactly ${count} post ideas in "ideas", keeping the content of the previous answer where it is usable.`
+    });
+
+    return ideas.slice(0, count);
+  }
+
+  private static validateIdeasResponse(
+    responseText: string,
+    schema: ReturnType<typeof postIdeasSchema>
+  ): { success: true; ideas: PostIdea[] } | { success: false; issues: string } {
+    // Models often wrap JSON in a markdown fence even when told not to
+    const jsonText = responseText.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+
+    let parsed: unknown;
     try {
-      // Clean up the response text
-      let jsonString = responseText.trim();
+      parsed = JSON.parse(jsonText);
+    } catch (error) {
+      return { success: false, issues: `Response is not valid JSON (${(error as Error).message})` };
+    }
+
+    // The prompts ask for a bare array; accept the schema's { ideas } shape too
+    const result = schema.safeParse(Array.isArray(parsed) ? { ideas: parsed } : parsed);
+    return result.success
+      ? { success: true, ideas: result.data.ideas }
+      : { success: false, issues: AIService.formatZodIssues(result.error) };
+  }
 
-      logger.info(`AI Analysis Response length: ${responseText.length} characters`);
-      logger.info(`First 200 chars: ${responseText.slice(0, 200)}`);
+  /**
+   * Objects of the first JSON array in a partial response that the model has finished writing
+   */
+  private static completedArrayItems(responseText: string): unknown[] {
+    const start = responseText.indexOf("[");
+    if (start === -1) {
+      return [];
+    }
 
-      // Remove markdown code blocks if present
-      jsonString = jsonString.replace(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/g, '$1');
+    const items: unknown[] = [];
+    let depth = 0;
+    let itemStart = -1;
+    let inString = false;
+    let escaped = false;
+
+    for (let i = start + 1; i < responseText.length; i++) {
+      const char = responseText[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === "\\") {
+          escaped = true;
+        } else if (char === "\"") {
+          inString = false;
+        }
+        continue;
+      }
 
-      // Look for JSON object in the response
-      const jsonMatch = jsonString.match(/\{[\s\S]*?\}$/);
-      if (jsonMatch) {
-        jsonString = jsonMatch[0];
-      } else {
-        logger.warn('No JSON object found in response, trying full text');
-        // Try to find the start of a JSON object
-        const startIndex = jsonString.indexOf('{');
-        const endIndex = jsonString.lastIndexOf('}');
-        if (startIndex !== -1 && endIndex !== -1 && endIndex > startIndex) {
-          jsonString = jsonString.slice(startIndex, endIndex + 1);
+      if (char === "\"") {
+        inString = true;
+      } else if (char === "{" || char === "[") {
+        if (depth === 0) {
+          itemStart = i;
+        }
+        depth++;
+      } else if (char === "}" || char === "]") {
+        if (depth === 0) {
+          break;
         }
+        depth--;
+        if (depth === 0 && itemStart !== -1) {
+          try {
+            items.push(JSON.parse(responseText.slice(itemStart, i + 1)));
+          } catch {
+            // Skip items the model mangled, the final validation reports them
+          }
+          itemStart = -1;
+        }
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Friendlier errors for the provider failures users run into most
+   */
+  private static describeGenerationError(error: unknown): unknown {
+    if (error instanceof Error) {
+      if (error.message.includes('quota') || error.message.includes('limit')) {
+        return new Error('AI service quota exceeded. Please try again later.');
+      } else if (error.message.includes('timeout')) {
+        return new Error('AI service timeout. The generation took too long, please try again.');
       }
+    }
+
+    return error;
+  }
+
+  /**
+   * Readable validation issues for schema failures, or null for any other error
+   */
+  private static describeValidationError(error: unknown): string | null {
+    if (TypeValidationError.isInstance(error)) {
+      return error.cause instanceof z.ZodError ? AIService.formatZodIssues(error.cause) : error.message;
+    }
+    if (JSONParseError.isInstance(error)) {
+      return `Response is not valid JSON (${error.message})`;
+    }
+    if (NoObjectGeneratedError.isInstance(error)) {
+      return "No object was generated";
+    }
+    return null;
+  }
+
+  private static formatZodIssues(error: z.ZodError): string {
+    return error.issues
+      .slice(0, 8)
+      .map(issue => `${issue.path.join(".") || "response"}: ${issue.message}`)
+      .join("; ");
+  }
 
-      logger.info(`Extracted JSON: ${jsonString.slice(0, 300)}...`);
+  /**
+   * Map-reduce analysis: periods of up to ANALYSIS_CHUNK_SIZE posts are analyzed oldest first and
+   * checkpointed one by one, then one more request merges them into a single analysis
+   */
+  private async analyzeInChunks(
+    username: string,
+    posts: TwitterPost[],
+    onProgress?: (completed: number, chunks: number) => void
+  ): Promise<Analysis> {
+    const size = config.app.analysisChunkSize;
+    const chronological = [...posts].reverse();
+    const chunks: TwitterPost[][] = [];
+    for (let index = 0; index < chronological.length; index += size) {
+      // Each period keeps the archive's newest-first order
+      chunks.push(chronological.slice(index, index + size).reverse());
+    }
 
-      // Parse the JSON
-      const parsed = JSON.parse(jsonString);
+    const model = modelRegistry.describe("analysis");
+    const keys = chunks.map(chunk => AIService.chunkKey(model, chunk));
+    // Checkpoints for other posts or models can't be reused
+    const checkpoints = (await this.loadAnalysisChunks(username)).filter(checkpoint => keys.includes(checkpoint.key));
+    if (checkpoints.length > 0) {
+      logger.info(`Resuming analysis for @${username}: ${checkpoints.length} of ${chunks.length} periods already done`);
+    }
 
-      // Validate required fields
-      if (!parsed.summary || !parsed.key_themes || !parsed.tone) {
-        throw new Error('Missing required analysis fields');
+    const periods: AnalysisChunk[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+      let period = checkpoints.find(checkpoint => checkpoint.key === keys[index]);
+      if (!period) {
+        const postWindow = analysisHistoryService.describeWindow(chunk);
+        logger.info(`Analyzing period ${index + 1}/${chunks.length} for @${username} (${AIService.describePeriod(postWindow)})`);
+
+        const analysis = await this.generateStructured({
+          task: "analysis",
+          operation: "analysis-period",
+          username,
+          schema: analysisSchema,
+          label: `Analysis of period ${index + 1}/${chunks.length}`,
+          system: prompts.analyze,
+          prompt: this.buildAnalysisPrompt(username, chunk, { index: index + 1, count: chunks.length, postWindow })
+        });
+
+        period = { key: keys[index]!, postWindow, analysis, createdAt: new Date().toISOString() };
+        checkpoints.push(period);
+        await this.saveAnalysisChunks(username, checkpoints);
       }
 
-      return parsed;
+      periods.push(period);
+      onProgress?.(index + 1, chunks.length);
+    }
+
+    logger.info(`Merging ${periods.length} periods for @${username}`);
+    const merged = await this.generateStructured({
+      task: "analysis",
+      operation: "analysis-merge",
+      username,
+      schema: analysisSchema,
+      label: "Merged analysis",
+      system: prompts.analyze,
+      prompt: this.buildMergePrompt(username, posts, periods)
+    });
+
+    await this.saveAnalysisChunks(username, []);
+    return merged;
+  }
+
+  /**
+   * The analysis prompt for all posts at once or for one period of a chunked analysis
+   */
+  private buildAnalysisPrompt(
+    username: string,
+    posts: TwitterPost[],
+    period?: { index: number; count: number; postWindow: AnalysisPostWindow }
+  ): string {
+    const performance = EngagementAnalytics.split(posts);
+    const hasPerformanceData = performance.top.length > 0;
+    const timing = TimingAnalytics.report(posts, new Date(), "UTC");
+
+    const task = period
+      ? `Analyze the following posts for @${username} from period ${period.index} of ${period.count} (${AIService.describePeriod(period.postWindow)}).
+          The analyses of all periods are merged afterwards, so describe what these posts show and leave comparisons with other periods to the merge.`
+      : `Analyze the following posts for @${username} and generate comprehensive strategic insights for future content creation.`;
+
+    return `
+          ${task}
+
+          Each post is prefixed with its publish time (UTC) and engagement metrics when known.
+          Base temporal_patterns on the posting time data below and engagement_mechanics on how posts actually performed.
+
+          Posts to analyze:
+          ${posts.map((post, index) => PostUtils.formatForPrompt(post, index)).join("\n")}
+          ${hasPerformanceData ? this.buildPerformanceSection(performance) : ""}
+          ${timing.postCount > 0 ? this.buildTimingSection(timing) : ""}
+
+          ${this.buildAnalysisFormat(hasPerformanceData)}
+        `;
+  }
+
+  /**
+   * The merge step of a chunked analysis: the partial analyses plus timing and engagement data
+   * computed over every post
+   */
+  private buildMergePrompt(username: string, posts: TwitterPost[], periods: AnalysisChunk[]): string {
+    const performance = EngagementAnalytics.split(posts);
+    const hasPerformanceData = performance.top.length > 0;
+    const timing = TimingAnalytics.report(posts, new Date(), "UTC");
+
+    const partials = periods
+      .map((period, index) => `          PERIOD ${index + 1} OF ${periods.length} (${AIService.describePeriod(period.postWindow)}):
+          ${JSON.stringify(period.analysis)}`)
+      .join("\n\n");
+
+    return `
+          Merge the partial analyses below into one analysis of @${username}. Each covers one period of their posts, oldest period first, and was written without seeing the others.
+
+          - Keep what holds across periods; an insight from a single period belongs in the result only if it is recent and strong
+          - Base content_evolution on how the periods differ: themes, formats and tone they picked up, dropped or changed
+          - Quote what_works evidence exactly as the partial analyses do
+          - Base temporal_patterns on the posting time data below and engagement_mechanics on how posts actually performed
+
+${partials}
+          ${hasPerformanceData ? this.buildPerformanceSection(performance) : ""}
+          ${timing.postCount > 0 ? this.buildTimingSection(timing) : ""}
+
+          ${this.buildAnalysisFormat(hasPerformanceData)}
+        `;
+  }
+
+  private buildAnalysisFormat(hasPerformanceData: boolean): string {
+    return `Return the response as a valid JSON object with the following structure:
+          {
+            "summary": "A comprehensive summary of the user's posting strategy and approach",
+            "content_taxonomy": ["Detailed categorization of content types, formats, and structures used"],
+            "thematic_analysis": ["Core themes and importantly, unexplored angles within those themes"],
+            "linguistic_patterns": ["Exact writing style, vocabulary, sentence structures, punctuation, capitalization patterns"],
+            "engagement_mechanics": ["What drives engagement - question types, controversial takes, educational content, personal stories"],
+            "temporal_patterns": ["Post frequency, timing, seasonal content, trending topic adoption patterns"],
+            "interaction_style": ["How they respond to others, collaboration patterns, community engagement"],
+            "expertise_demonstration": ["Areas where they show authority, credibility markers, knowledge sharing methods"],
+            "content_evolution": ["How their content has changed over time, new directions emerging"],
+            "untapped_opportunities": ["Specific content angles, formats, or themes they haven't explored but would fit their brand"],
+            "voice_architecture": "Detailed analysis of the precise construction of their unique voice - tone, formality, personality markers",${hasPerformanceData ? `
+            "what_works": [{"pattern": "A specific pattern that separates top performers from bottom performers", "evidence": ["Short quotes from top-performing posts that show it"], "contrast": "What the bottom performers do instead"}],` : ""}
+            "key_themes": ["Primary themes and topics the user focuses on"],
+            "engagement_patterns": ["Observable patterns in how they engage with their audience"],
+            "unique_behaviors": ["Distinctive behaviors and approaches that set them apart"],
+            "opportunities": ["Strategic opportunities for content growth and audience expansion"],
+            "tone": "Extremely detailed analysis of their tone, writing style, and voice characteristics"
+          }`;
+  }
+
+  /**
+   * A failed checkpoint read or write costs a rerun of some periods, never the analysis itself
+   */
+  private async loadAnalysisChunks(username: string): Promise<AnalysisChunk[]> {
+    try {
+      return await dataService.getCollection<AnalysisChunk>(username, ANALYSIS_CHUNKS_COLLECTION);
     } catch (error) {
-      logger.error('Analysis JSON parsing failed', error as Error);
-      logger.info(`Raw response: ${responseText}`);
-      throw new Error(`Failed to parse analysis response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      logger.warn(`Failed to load analysis checkpoints for @${username}`, error as Error);
+      return [];
     }
   }
 
+  private async saveAnalysisChunks(username: string, chunks: AnalysisChunk[]): Promise<void> {
+    try {
+      await dataService.saveCollection(username, ANALYSIS_CHUNKS_COLLECTION, chunks);
+    } catch (error) {
+      logger.warn(`Failed to save analysis checkpoints for @${username}`, error as Error);
+    }
+  }
+
+  private static chunkKey(model: string, posts: TwitterPost[]): string {
+    const hash = createHash("sha1").update(model);
+    for (const post of posts) {
+      hash.update(`\n${post.id ?? post.text}`);
+    }
+    return hash.digest("hex");
+  }
+
+  private static describePeriod(postWindow: AnalysisPostWindow): string {
+    const count = postWindow.count === 1 ? "1 post" : `${postWindow.count} posts`;
+    return postWindow.from && postWindow.to
+      ? `${postWindow.from.slice(0, 10)} to ${postWindow.to.slice(0, 10)}, ${count}`
+      : `${count}, dates unknown`;
+  }
+
+  /**
+   * Top and bottom performers for the analysis prompt, so "what works" is grounded in real numbers
+   */
+  private buildPerformanceSection(performance: EngagementSplit): string {
+    const formatRanked = (entries: RankedPost[]) => entries
+      .map(entry => `- (${entry.score.toFixed(1)}x median) ${entry.post.text.replace(/\s+/g, " ")}`)
+      .join("\n");
+
+    return `
+          Engagement scores are relative to the account's median post${performance.usesViews ? ", measured per view" : ""}.
+
+          TOP PERFORMERS:
+${formatRanked(performance.top)}
+
+          BOTTOM PERFORMERS:
+${formatRanked(performance.bottom)}
+
+          Compare the top and bottom performers and explain in "what_works" which topics, formats, hooks and
+          lengths drive engagement for this account. Every pattern must cite evidence from the top performers.
+`;
+  }
+
+  private buildTimingSection(timing: TimingReport): string {
+    return `
+          POSTING TIME DATA (computed from the publish times above, treat as fact):
+${TimingAnalytics.describe(timing).split("\n").map(line => `- ${line}`).join("\n")}
+
+          temporal_patterns must agree with these numbers. Do not guess times or frequencies they don't support.
+`;
+  }
+
   async reanalyzeUser(username: string, posts: TwitterPost[]): Promise<Analysis> {
     // Clear existing analysis and generate fresh one
     const userData = await dataService.getUserData(username);
@@ -0,0 +1,67 @@
+import type { CalendarSlot, ContentCalendar, StoredIdea } from "../types";
+import { CalendarUtils, MAX_CALENDAR_DAYS } from "../utils/calendar";
+import { createLogger } from "../../logger";
+import { dataService } from "./data";
+import { ideaService } from "./ideas";
+
+const logger = createLogger("Calendar");
+
+export const DEFAULT_CALENDAR_DAYS = 14;
+
+/**
+ * Per-user content calendar. Slots live on the ideas themselves, so the idea
+ * library stays the single source of truth and deleting an idea clears its slot.
+ */
+export class CalendarService {
+  /**
+   * Scheduled ideas, gaps and suggested slots for `days` days starting at `from` (today by default)
+   */
+  async get(username: string, from?: string, days: number = DEFAULT_CALENDAR_DAYS): Promise<ContentCalendar> {
+    const start = from ? CalendarUtils.validateSlot({ date: from, time: "00:00" }).date : CalendarUtils.formatDate(new Date());
+    if (!Number.isInteger(days) || days < 1 || days > MAX_CALENDAR_DAYS) {
+      throw new Error(`Days must be a whole number between 1 and ${MAX_CALENDAR_DAYS}`);
+    }
+
+    const dates = CalendarUtils.dateRange(start, days);
+    const to = dates[dates.length - 1]!;
+    const ideas = await ideaService.list(username);
+    const { posts } = await dataService.getUserData(username);
+
+    const entries = ideas
+      .filter(idea => idea.scheduledFor && idea.scheduledFor.date >= start && idea.scheduledFor.date <= to)
+      .sort((a, b) => CalendarUtils.compareSlots(a.scheduledFor!, b.scheduledFor!));
+    const busy = new Set(entries.map(idea => idea.scheduledFor!.date));
+    const gaps = dates.filter(date => !busy.has(date));
+
+    return {
+      username,
+      from: start,
+      to,
+      entries,
+      unscheduled: ideas.filter(idea => idea.status === "starred" && !idea.scheduledFor),
+      gaps,
+      suggestions: CalendarUtils.suggestSlots(posts, gaps),
+      preferredTimes: CalendarUtils.preferredTimes(posts)
+    };
+  }
+
+  async schedule(username: string, ideaId: string, slot: Partial<CalendarSlot>): Promise<StoredIdea> {
+    const idea = await ideaService.schedule(username, ideaId, CalendarUtils.validateSlot(slot));
+    logger.info(`Scheduled idea ${ideaId} for @${username}`, idea.scheduledFor);
+    return idea;
+  }
+
+  async unschedule(username: string, ideaId: string): Promise<StoredIdea> {
+    return ideaService.schedule(username, ideaId);
+  }
+
+  /**
+   * Every scheduled idea, past and upcoming, as an iCalendar file
+   */
+  async exportICS(username: string): Promise<string> {
+    const ideas = await ideaService.list(username);
+    return CalendarUtils.toICS(username, ideas);
+  }
+}
+
+export const calendarService = new CalendarService();
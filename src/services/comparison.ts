@@ -0,0 +1,59 @@
+import { AccountComparer, type AccountComparison } from "../analytics/compare";
+import { createLogger } from "../../logger";
+import { aiService } from "./ai";
+import { dataService } from "./data";
+
+const logger = createLogger("Comparison");
+
+// Beyond this the side-by-side report stops being readable
+export const MAX_COMPARED_ACCOUNTS = 5;
+
+/**
+ * The requested accounts can't be compared; the message is written for the caller
+ */
+export class ComparisonInputError extends Error {
+  constructor(message: string, readonly status: 400 | 404 = 400) {
+    super(message);
+    this.name = "ComparisonInputError";
+  }
+}
+
+/**
+ * Benchmarks stored accounts against each other. The first account is the one being
+ * benchmarked; the written recommendations are addressed to it.
+ */
+export class ComparisonService {
+  async compare(usernames: string[], options: { narrative?: boolean } = {}): Promise<AccountComparison> {
+    const unique = [...new Set(usernames.map(username => username.trim().replace(/^@/, "")).filter(Boolean))];
+
+    if (unique.length < 2) {
+      throw new ComparisonInputError("Pick at least two different accounts to compare");
+    }
+    if (unique.length > MAX_COMPARED_ACCOUNTS) {
+      throw new ComparisonInputError(`Compare at most ${MAX_COMPARED_ACCOUNTS} accounts at a time`);
+    }
+
+    const known = new Set(await dataService.listUsers());
+    const unknown = unique.filter(username => !known.has(username));
+    if (unknown.length > 0) {
+      throw new ComparisonInputError(`User not found: ${unknown.map(username => `@${username}`).join(", ")}`, 404);
+    }
+
+    const users = await Promise.all(unique.map(username => dataService.getUserData(username)));
+    const unanalyzed = users.filter(user => !user.analysis).map(user => `@${user.username}`);
+    if (unanalyzed.length > 0) {
+      throw new ComparisonInputError(`No analysis found for ${unanalyzed.join(", ")}. Please analyze them first.`);
+    }
+
+    const comparison = AccountComparer.compare(users);
+    logger.info(`Compared ${unique.length} accounts`, { accounts: unique });
+
+    if (options.narrative === false) {
+      return comparison;
+    }
+
+    return { ...comparison, narrative: await aiService.compareAccounts(comparison) };
+  }
+}
+
+export const comparisonService = new ComparisonService();
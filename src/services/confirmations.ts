@@ -0,0 +1,63 @@
+import { createLogger } from "../../logger";
+
+const logger = createLogger("Confirmations");
+
+// Long enough to read the question and answer it, short enough that a stale "yes" can't delete anything
+const CONFIRMATION_TTL_MS = 10 * 60 * 1000;
+
+interface PendingConfirmation {
+  action: string;
+  target: string;
+  // The agent turn that asked; the user has to answer in a later one
+  turnId: string;
+  expiresAt: number;
+}
+
+export type ConfirmationCheck = 'confirmed' | 'invalid' | 'same-turn';
+
+/**
+ * Single-use tokens that destructive agent tools hand out before they act. The agent has to
+ * ask the user and pass the token back in a later turn, so it can't confirm its own request.
+ * Tokens live in memory and outlive the agent instance, since saved sessions rebuild the agent every turn.
+ */
+export class ConfirmationService {
+  private pending = new Map<string, PendingConfirmation>();
+
+  request(action: string, target: string, turnId: string): string {
+    this.prune();
+
+    const token = crypto.randomUUID().slice(0, 8);
+    this.pending.set(token, { action, target, turnId, expiresAt: Date.now() + CONFIRMATION_TTL_MS });
+    logger.info(`Confirmation ${token} requested for ${action} ${target}`);
+    return token;
+  }
+
+  /**
+   * Use up the token if it was issued for this exact action and target in an earlier turn
+   */
+  confirm(token: string, action: string, target: string, turnId: string): ConfirmationCheck {
+    this.prune();
+
+    const pending = this.pending.get(token);
+    if (!pending || pending.action !== action || pending.target !== target) {
+      return 'invalid';
+    }
+    if (pending.turnId === turnId) {
+      return 'same-turn';
+    }
+
+    this.pending.delete(token);
+    return 'confirmed';
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
+
+export const confirmationService = new ConfirmationService();
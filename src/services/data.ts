@@ -1,17 +1,32 @@
 import fs from "fs";
 import path from "path";
-import type { UserData, TwitterPost } from "../types";
+import type {
+  AgentSession,
+  Analysis,
+  AnalysisSnapshot,
+  DataStats,
+  StorageBackendName,
+  StoredIdea,
+  UsageFilter,
+  UsageRecord,
+  UserData,
+  UserSummary
+} from "../types";
 import { config } from "../config";
 import { createLogger } from "../../logger";
+import { PostUtils, POST_SCHEMA_VERSION } from "../utils/posts";
+import { createStorageBackend, type StorageBackend } from "../storage";
 
 const logger = createLogger("DataService");
 
 export class DataService {
   private dataDir: string;
+  private storage: StorageBackend;
 
-  constructor() {
+  constructor(storage?: StorageBackend) {
     this.dataDir = config.app.dataDir;
     this.ensureDataDirExists();
+    this.storage = storage ?? createStorageBackend();
   }
 
   private ensureDataDirExists(): void {
@@ -21,18 +36,21 @@ export class DataService {
     }
   }
 
+  get backend(): StorageBackendName {
+    return this.storage.name;
+  }
+
   async getUserData(username: string): Promise<UserData> {
-    const userFilePath = path.join(this.dataDir, `${username}.json`);
-    const userFile = Bun.file(userFilePath);
-
-    if (await userFile.exists()) {
-      try {
-        const data = JSON.parse(await userFile.text()) as UserData;
-        logger.debug(`Loaded user data for @${username}`, { postsCount: data.posts.length });
-        return data;
-      } catch (error) {
-        logger.warn(`Failed to parse user data for @${username}, creating new`, error as Error);
+    const data = await this.storage.loadUser(username);
+
+    if (data) {
+      if (PostUtils.needsMigration(data.posts)) {
+        data.posts = data.posts.map(post => PostUtils.migrate(post));
+        logger.info(`Migrated ${data.posts.length} posts for @${username} to schema v${POST_SCHEMA_VERSION}`);
       }
+
+      logger.debug(`Loaded user data for @${username}`, { postsCount: data.posts.length });
+      return data;
     }
 
     const newUserData: UserData = {
@@ -47,10 +65,9 @@ export class DataService {
 
   async saveUserData(userData: UserData): Promise<void> {
     try {
-      const userFilePath = path.join(this.dataDir, `${userData.username}.json`);
       userData.lastUpdated = new Date().toISOString();
 
-      await Bun.write(userFilePath, JSON.stringify(userData, null, 2));
+      await this.storage.saveUser(userData);
       logger.debug(`Saved user data for @${userData.username}`);
     } catch (error) {
       logger.error(`Failed to save user data for @${userData.username}`, error as Error);
@@ -58,6 +75,17 @@ export class DataService {
     }
   }
 
+  /**
+   * Store a new analysis on the latest copy of the user, so posts synced or settings
+   * edited while the analysis was running are kept
+   */
+  async saveAnalysis(username: string, analysis: Analysis): Promise<UserData> {
+    const userData = await this.getUserData(username);
+    userData.analysis = analysis;
+    await this.saveUserData(userData);
+    return userData;
+  }
+
   async exportUserData(username: string, format: 'json' | 'csv' = 'json'): Promise<string> {
     const userData = await this.getUserData(username);
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
@@ -72,11 +100,27 @@ export class DataService {
       const filename = `${username}_posts_${timestamp}.csv`;
       const filepath = path.join(this.dataDir, filename);
 
+      const csvCell = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
       const csvContent = [
-        'text,photos,videos,timestamp',
-        ...userData.posts.map(post =>
-          `"${post.text.replace(/"/g, '""')}","${post.photos?.map(p => p.url).join(';') || ''}","${post.videos?.map(v => v.url).join(';') || ''}","${userData.lastUpdated}"`
-        )
+        'id,created_at,text,likes,retweets,replies,views,is_reply,is_retweet,is_quote,urls,hashtags,mentions,photos,videos',
+        ...userData.posts.map(post => [
+          post.id,
+          post.createdAt,
+          post.text,
+          post.metrics?.likes,
+          post.metrics?.retweets,
+          post.metrics?.replies,
+          post.metrics?.views,
+          post.isReply,
+          post.isRetweet,
+          post.isQuote,
+          post.urls?.join(';'),
+          post.hashtags?.join(';'),
+          post.mentions?.join(';'),
+          post.photos?.map(p => p.url).join(';'),
+          post.videos?.map(v => v.url).join(';')
+        ].map(csvCell).join(','))
       ].join('\n');
 
       await Bun.write(filepath, csvContent);
@@ -86,68 +130,92 @@ export class DataService {
 
   async listUsers(): Promise<string[]> {
     try {
-      const files = fs.readdirSync(this.dataDir);
-      return files
-        .filter(file => file.endsWith('.json') && !file.startsWith('_'))
-        .map(file => file.replace('.json', ''));
+      return await this.storage.listUsers();
     } catch (error) {
       logger.error("Failed to list users", error as Error);
       return [];
     }
   }
 
+  /**
+   * Lightweight per-user overview without loading every post
+   */
+  async listUserSummaries(): Promise<UserSummary[]> {
+    return this.storage.listUserSummaries();
+  }
+
   async deleteUserData(username: string): Promise<boolean> {
     try {
-      const userFilePath = path.join(this.dataDir, `${username}.json`);
-      if (fs.existsSync(userFilePath)) {
-        fs.unlinkSync(userFilePath);
+      const deleted = await this.storage.deleteUser(username);
+      if (deleted) {
         logger.info(`Deleted user data for @${username}`);
-        return true;
       }
-      return false;
+      return deleted;
     } catch (error) {
       logger.error(`Failed to delete user data for @${username}`, error as Error);
       return false;
     }
   }
 
-  async getDataStats(): Promise<{ totalUsers: number; totalDataSize: string; lastUpdated?: string }> {
-    try {
-      const users = await this.listUsers();
-      const files = fs.readdirSync(this.dataDir);
-      let totalSize = 0;
-      let lastUpdated: string | undefined;
-
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          const filePath = path.join(this.dataDir, file);
-          const stats = fs.statSync(filePath);
-          totalSize += stats.size;
-
-          if (!lastUpdated || stats.mtime > new Date(lastUpdated)) {
-            lastUpdated = stats.mtime.toISOString();
-          }
-        }
-      }
+  async getIdeas(username: string): Promise<StoredIdea[]> {
+    return this.storage.loadIdeas(username);
+  }
+
+  async saveIdeas(username: string, ideas: StoredIdea[]): Promise<void> {
+    await this.storage.saveIdeas(username, ideas);
+  }
+
+  /**
+   * Every analysis run for the user, oldest first
+   */
+  async getAnalysisHistory(username: string): Promise<AnalysisSnapshot[]> {
+    return this.storage.loadAnalysisHistory(username);
+  }
+
+  async addAnalysisSnapshot(username: string, snapshot: AnalysisSnapshot): Promise<void> {
+    await this.storage.addAnalysisSnapshot(username, snapshot);
+  }
 
-      return {
-        totalUsers: users.length,
-        totalDataSize: this.formatBytes(totalSize),
-        lastUpdated
-      };
+  async getCollection<T>(username: string, collection: string): Promise<T[]> {
+    return this.storage.loadCollection<T>(username, collection);
+  }
+
+  async saveCollection<T>(username: string, collection: string, items: T[]): Promise<void> {
+    await this.storage.saveCollection(username, collection, items);
+  }
+
+  async listAgentSessions(): Promise<AgentSession[]> {
+    return this.storage.listAgentSessions();
+  }
+
+  async getAgentSession(id: string): Promise<AgentSession | null> {
+    return this.storage.loadAgentSession(id);
+  }
+
+  async saveAgentSession(session: AgentSession): Promise<void> {
+    await this.storage.saveAgentSession(session);
+  }
+
+  async deleteAgentSession(id: string): Promise<boolean> {
+    return this.storage.deleteAgentSession(id);
+  }
+
+  async getUsage(filter: UsageFilter = {}): Promise<UsageRecord[]> {
+    return this.storage.loadUsage(filter);
+  }
+
+  async addUsage(record: UsageRecord): Promise<void> {
+    await this.storage.addUsage(record);
+  }
+
+  async getDataStats(): Promise<DataStats> {
+    try {
+      return await this.storage.getStats();
     } catch (error) {
       logger.error("Failed to get data stats", error as Error);
       return { totalUsers: 0, totalDataSize: "0 B" };
     }
   }
-
-  private formatBytes(bytes: number): string {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  }
 }
 
 export const dataService = new DataService();
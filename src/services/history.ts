@@ -0,0 +1,80 @@
+import type { Analysis, AnalysisPostWindow, AnalysisSnapshot, TwitterPost } from "../types";
+import { AnalysisDiffer, type AnalysisDiff } from "../analytics/diff";
+import { createLogger } from "../../logger";
+import { dataService } from "./data";
+
+const logger = createLogger("AnalysisHistory");
+
+/**
+ * Every analysis run is kept as a timestamped snapshot so an account's
+ * voice can be compared over time.
+ */
+export class AnalysisHistoryService {
+  async record(username: string, posts: TwitterPost[], analysis: Analysis, model: string): Promise<AnalysisSnapshot> {
+    const snapshot: AnalysisSnapshot = {
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+      model,
+      postWindow: this.describeWindow(posts),
+      analysis
+    };
+
+    await dataService.addAnalysisSnapshot(username, snapshot);
+    logger.info(`Stored analysis snapshot for @${username}`, { posts: posts.length });
+    return snapshot;
+  }
+
+  /**
+   * Snapshots newest first
+   */
+  async list(username: string): Promise<AnalysisSnapshot[]> {
+    return (await dataService.getAnalysisHistory(username)).reverse();
+  }
+
+  /**
+   * Compare two snapshots. Defaults to the previous run against the latest one.
+   */
+  async diff(username: string, fromId?: string, toId?: string): Promise<AnalysisDiff> {
+    const history = await this.list(username);
+
+    if (history.length < 2 && !(fromId && toId)) {
+      throw new Error(`@${username} needs at least two analyses to compare. Re-analyze to create another snapshot.`);
+    }
+
+    const find = (id: string) => {
+      const snapshot = history.find(candidate => candidate.id === id);
+      if (!snapshot) {
+        throw new Error(`Analysis snapshot ${id} not found for @${username}`);
+      }
+      return snapshot;
+    };
+
+    const to = toId ? find(toId) : history[0]!;
+    const from = fromId ? find(fromId) : history.find(snapshot => snapshot.id !== to.id);
+
+    if (!from) {
+      throw new Error(`No earlier analysis to compare with for @${username}`);
+    }
+
+    return AnalysisDiffer.diff(from, to);
+  }
+
+  /**
+   * Which posts an analysis covered, newest first as stored
+   */
+  describeWindow(posts: TwitterPost[]): AnalysisPostWindow {
+    const timestamps = posts
+      .map(post => post.timestamp)
+      .filter((timestamp): timestamp is number => typeof timestamp === "number");
+
+    return {
+      count: posts.length,
+      newestPostId: posts[0]?.id,
+      oldestPostId: posts[posts.length - 1]?.id,
+      from: timestamps.length > 0 ? new Date(Math.min(...timestamps) * 1000).toISOString() : undefined,
+      to: timestamps.length > 0 ? new Date(Math.max(...timestamps) * 1000).toISOString() : undefined
+    };
+  }
+}
+
+export const analysisHistoryService = new AnalysisHistoryService();
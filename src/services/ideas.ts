@@ -0,0 +1,167 @@
+import type { CalendarSlot, IdeaFilter, IdeaSource, IdeaStatus, PostIdea, StoredIdea } from "../types";
+import { createLogger } from "../../logger";
+import { dataService } from "./data";
+
+const logger = createLogger("IdeaService");
+
+export const IDEA_STATUSES: IdeaStatus[] = ["new", "starred", "used", "rejected"];
+
+export interface IdeaOrigin {
+  source: IdeaSource;
+  model: string;
+  prompt?: string;
+  parentId?: string;
+}
+
+/**
+ * Library of every generated post idea, stored per user
+ */
+export class IdeaService {
+  // Pending writes per user, so concurrent edits don't overwrite each other's library
+  private writes = new Map<string, Promise<unknown>>();
+
+  /**
+   * Store freshly generated ideas and return them with their library ids
+   */
+  async record(username: string, ideas: PostIdea[], origin: IdeaOrigin): Promise<PostIdea[]> {
+    if (ideas.length === 0) {
+      return ideas;
+    }
+
+    const createdAt = new Date().toISOString();
+    const stored: StoredIdea[] = ideas.map(idea => ({
+      ...idea,
+      id: crypto.randomUUID(),
+      source: origin.source,
+      prompt: origin.prompt,
+      parentId: origin.parentId,
+      model: origin.model,
+      status: "new",
+      createdAt
+    }));
+
+    await this.write(username, async () => {
+      const library = await dataService.getIdeas(username);
+      await dataService.saveIdeas(username, [...library, ...stored]);
+    });
+
+    logger.info(`Stored ${stored.length} ${origin.source} ideas for @${username}`);
+    return ideas.map((idea, index) => ({ ...idea, id: stored[index]!.id }));
+  }
+
+  /**
+   * Newest ideas first, optionally filtered by status, source and text
+   */
+  async list(username: string, filter: IdeaFilter = {}): Promise<StoredIdea[]> {
+    const search = filter.search?.trim().toLowerCase();
+
+    const ideas = (await dataService.getIdeas(username))
+      .filter(idea => !filter.status || idea.status === filter.status)
+      .filter(idea => !filter.source || idea.source === filter.source)
+      .filter(idea => !search
+        || idea.text.toLowerCase().includes(search)
+        || idea.prompt?.toLowerCase().includes(search))
+      .reverse();
+
+    return filter.limit ? ideas.slice(0, filter.limit) : ideas;
+  }
+
+  async get(username: string, id: string): Promise<StoredIdea | undefined> {
+    const ideas = await dataService.getIdeas(username);
+    return ideas.find(idea => idea.id === id);
+  }
+
+  async updateStatus(username: string, id: string, status: IdeaStatus): Promise<StoredIdea> {
+    if (!IDEA_STATUSES.includes(status)) {
+      throw new Error(`Invalid idea status "${status}". Use one of: ${IDEA_STATUSES.join(", ")}`);
+    }
+
+    return this.write(username, async () => {
+      const ideas = await dataService.getIdeas(username);
+      const idea = ideas.find(candidate => candidate.id === id);
+      if (!idea) {
+        throw new Error(`Idea ${id} not found for @${username}`);
+      }
+
+      idea.status = status;
+      // Rejected ideas give up their calendar slot
+      if (status === "rejected") {
+        delete idea.scheduledFor;
+      }
+      idea.updatedAt = new Date().toISOString();
+      await dataService.saveIdeas(username, ideas);
+
+      return idea;
+    });
+  }
+
+  /**
+   * Put the idea on the content calendar, or take it off without a slot. Scheduling a new
+   * idea approves it; rejected and used ideas can't be scheduled.
+   */
+  async schedule(username: string, id: string, slot?: CalendarSlot): Promise<StoredIdea> {
+    return this.write(username, async () => {
+      const ideas = await dataService.getIdeas(username);
+      const idea = ideas.find(candidate => candidate.id === id);
+      if (!idea) {
+        throw new Error(`Idea ${id} not found for @${username}`);
+      }
+
+      if (slot) {
+        if (idea.status === "rejected" || idea.status === "used") {
+          throw new Error(`Idea ${id} is ${idea.status} and can't be scheduled`);
+        }
+        idea.scheduledFor = slot;
+        idea.status = "starred";
+      } else {
+        delete idea.scheduledFor;
+      }
+
+      idea.updatedAt = new Date().toISOString();
+      await dataService.saveIdeas(username, ideas);
+
+      return idea;
+    });
+  }
+
+  async delete(username: string, id: string): Promise<boolean> {
+    return this.write(username, async () => {
+      const ideas = await dataService.getIdeas(username);
+      const remaining = ideas.filter(idea => idea.id !== id);
+
+      if (remaining.length === ideas.length) {
+        return false;
+      }
+
+      await dataService.saveIdeas(username, remaining);
+      return true;
+    });
+  }
+
+  async getStatusCounts(username: string): Promise<Record<IdeaStatus, number>> {
+    const counts: Record<IdeaStatus, number> = { new: 0, starred: 0, used: 0, rejected: 0 };
+    for (const idea of await dataService.getIdeas(username)) {
+      counts[idea.status]++;
+    }
+    return counts;
+  }
+
+  /**
+   * Run a read-modify-write of the user's library after any earlier one has finished
+   */
+  private async write<T>(username: string, update: () => Promise<T>): Promise<T> {
+    const previous = this.writes.get(username) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(update);
+    this.writes.set(username, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.writes.get(username) === current) {
+        this.writes.delete(username);
+      }
+    }
+  }
+}
+
+export const ideaService = new IdeaService();
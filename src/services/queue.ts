@@ -0,0 +1,136 @@
+import type { QueuedJob, QueuedJobType } from "../types";
+import { config } from "../config";
+import { createLogger } from "../../logger";
+
+const logger = createLogger("JobQueue");
+
+// Finished jobs stay queryable for this long so clients can pick up the result
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+export type ProgressReporter = (progress: number, message?: string) => void;
+
+export type JobHandler<T> = (report: ProgressReporter) => Promise<T>;
+
+/**
+ * In-memory queue for long-running API work. Requests enqueue a job and
+ * return its id right away; clients poll the job for progress and the result.
+ */
+export class JobQueueService {
+  private jobs = new Map<string, QueuedJob>();
+  private pending: { job: QueuedJob; handler: JobHandler<unknown> }[] = [];
+  private active = 0;
+
+  constructor(private concurrency: number = config.app.queueConcurrency) {}
+
+  /**
+   * Queue work for a user. A job of the same type that is already queued or
+   * running for the user is returned instead of starting a duplicate.
+   */
+  enqueue<T>(type: QueuedJobType, username: string, handler: JobHandler<T>): QueuedJob<T> {
+    this.prune();
+
+    const existing = [...this.jobs.values()].find(job =>
+      job.type === type && job.username === username && (job.status === "queued" || job.status === "running")
+    );
+    if (existing) {
+      return existing as QueuedJob<T>;
+    }
+
+    const job: QueuedJob = {
+      id: crypto.randomUUID(),
+      type,
+      username,
+      status: "queued",
+      progress: 0,
+      message: "Waiting in queue",
+      createdAt: new Date().toISOString()
+    };
+
+    this.jobs.set(job.id, job);
+    this.pending.push({ job, handler });
+    logger.info(`Queued ${type} job for @${username}`, { jobId: job.id });
+
+    this.drain();
+    return job as QueuedJob<T>;
+  }
+
+  get(id: string): QueuedJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Known jobs newest first
+   */
+  list(username?: string): QueuedJob[] {
+    this.prune();
+    return [...this.jobs.values()]
+      .filter(job => !username || job.username === username)
+      .reverse();
+  }
+
+  /**
+   * Resolves once the job has completed or failed
+   */
+  async wait(id: string, pollMs: number = 50): Promise<QueuedJob> {
+    for (;;) {
+      const job = this.jobs.get(id);
+      if (!job) {
+        throw new Error(`Job ${id} not found`);
+      }
+      if (job.status === "completed" || job.status === "failed") {
+        return job;
+      }
+      await Bun.sleep(pollMs);
+    }
+  }
+
+  private drain(): void {
+    while (this.active < this.concurrency && this.pending.length > 0) {
+      const { job, handler } = this.pending.shift()!;
+      this.active++;
+      this.run(job, handler).finally(() => {
+        this.active--;
+        this.drain();
+      });
+    }
+  }
+
+  private async run(job: QueuedJob, handler: JobHandler<unknown>): Promise<void> {
+    job.status = "running";
+    job.startedAt = new Date().toISOString();
+    job.message = "Starting";
+
+    const report: ProgressReporter = (progress, message) => {
+      job.progress = Math.max(job.progress, Math.min(99, Math.round(progress)));
+      if (message) {
+        job.message = message;
+      }
+    };
+
+    try {
+      job.result = await handler(report);
+      job.status = "completed";
+      job.progress = 100;
+      job.message = "Done";
+      logger.info(`Completed ${job.type} job for @${job.username}`, { jobId: job.id });
+    } catch (error) {
+      job.status = "failed";
+      job.error = error instanceof Error ? error.message : String(error);
+      job.message = "Failed";
+      logger.error(`${job.type} job for @${job.username} failed`, error as Error);
+    } finally {
+      job.finishedAt = new Date().toISOString();
+    }
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt && new Date(job.finishedAt).getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+export const jobQueue = new JobQueueService();
@@ -0,0 +1,346 @@
+import type { JobRun, JobSchedule, ScheduledJob, ScheduledJobType } from "../types";
+import { config } from "../config";
+import { createLogger } from "../../logger";
+import { dataService } from "./data";
+import { scraperService } from "./scraper";
+import { aiService } from "./ai";
+
+const logger = createLogger("Scheduler");
+
+const JOBS_COLLECTION = "jobs";
+const RUNS_COLLECTION = "job-runs";
+
+// Run history kept per user, oldest runs are dropped first
+const MAX_RUNS_PER_USER = 100;
+
+export const JOB_TYPES: ScheduledJobType[] = ["sync", "analyze", "generate"];
+
+export interface JobInput {
+  type: ScheduledJobType;
+  schedule: JobSchedule;
+  count?: number;
+  enabled?: boolean;
+}
+
+/**
+ * Runs recurring sync, re-analysis and idea generation jobs inside the API server.
+ * Job definitions and run history are stored per user.
+ */
+export class SchedulerService {
+  private timer?: ReturnType<typeof setInterval>;
+  private running = new Set<string>();
+  private ticking = false;
+
+  start(intervalMs: number = config.app.schedulerIntervalMs): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.error("Scheduler tick failed", error as Error));
+    }, intervalMs);
+
+    logger.info(`Scheduler started, checking for due jobs every ${Math.round(intervalMs / 1000)}s`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Run every enabled job whose next run time has passed. A tick that starts while the previous
+   * one is still running is skipped; the due jobs are picked up once it finishes.
+   */
+  async tick(now: Date = new Date()): Promise<JobRun[]> {
+    if (this.ticking) {
+      return [];
+    }
+
+    this.ticking = true;
+    try {
+      const due = (await this.listJobs()).filter(job => this.isDue(job, now));
+
+      const runs: JobRun[] = [];
+      for (const job of due) {
+        // Earlier jobs can take a while, and a job run by hand in the meantime has moved on
+        const current = await this.getJob(job.id);
+        if (current && this.isDue(current, now)) {
+          runs.push(await this.execute(current));
+        }
+      }
+      return runs;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  async listJobs(username?: string): Promise<ScheduledJob[]> {
+    const usernames = username ? [username] : await dataService.listUsers();
+    const jobs: ScheduledJob[] = [];
+
+    for (const name of usernames) {
+      jobs.push(...await dataService.getCollection<ScheduledJob>(name, JOBS_COLLECTION));
+    }
+
+    return jobs.sort((a, b) => a.nextRunAt.localeCompare(b.nextRunAt));
+  }
+
+  async getJob(id: string): Promise<ScheduledJob | undefined> {
+    return (await this.listJobs()).find(job => job.id === id);
+  }
+
+  async createJob(username: string, input: JobInput): Promise<ScheduledJob> {
+    this.validate(input);
+
+    // Jobs are found through the user list, so make sure the user exists
+    const userData = await dataService.getUserData(username);
+    if (!(await dataService.listUsers()).includes(username)) {
+      await dataService.saveUserData(userData);
+    }
+
+    const job: ScheduledJob = {
+      id: crypto.randomUUID(),
+      username,
+      type: input.type,
+      schedule: input.schedule,
+      count: input.type === "generate" ? input.count ?? 10 : undefined,
+      enabled: input.enabled ?? true,
+      createdAt: new Date().toISOString(),
+      nextRunAt: SchedulerService.computeNextRun(input.schedule).toISOString()
+    };
+
+    const jobs = await dataService.getCollection<ScheduledJob>(username, JOBS_COLLECTION);
+    await dataService.saveCollection(username, JOBS_COLLECTION, [...jobs, job]);
+
+    logger.info(`Scheduled ${job.type} job for @${username}`, { schedule: job.schedule, nextRunAt: job.nextRunAt });
+    return job;
+  }
+
+  async updateJob(id: string, changes: Partial<JobInput>): Promise<ScheduledJob> {
+    const job = await this.requireJob(id);
+    const updated: ScheduledJob = {
+      ...job,
+      ...changes,
+      updatedAt: new Date().toISOString()
+    };
+
+    this.validate(updated);
+    if (changes.schedule || (changes.enabled && !job.enabled)) {
+      updated.nextRunAt = SchedulerService.computeNextRun(updated.schedule).toISOString();
+    }
+
+    await this.saveJob(updated);
+    return updated;
+  }
+
+  async deleteJob(id: string): Promise<boolean> {
+    const job = await this.getJob(id);
+    if (!job) {
+      return false;
+    }
+
+    const jobs = await dataService.getCollection<ScheduledJob>(job.username, JOBS_COLLECTION);
+    await dataService.saveCollection(job.username, JOBS_COLLECTION, jobs.filter(candidate => candidate.id !== id));
+    return true;
+  }
+
+  /**
+   * Run a job immediately without waiting for its schedule
+   */
+  async runNow(id: string): Promise<JobRun> {
+    const job = await this.requireJob(id);
+    if (this.running.has(id)) {
+      throw new Error("Job is already running");
+    }
+    return this.execute(job);
+  }
+
+  /**
+   * Past runs newest first, optionally for a single job
+   */
+  async getRuns(username: string, jobId?: string): Promise<JobRun[]> {
+    const runs = await dataService.getCollection<JobRun>(username, RUNS_COLLECTION);
+    return runs.filter(run => !jobId || run.jobId === jobId).reverse();
+  }
+
+  /**
+   * The first matching time strictly after `from`, in server local time
+   */
+  static computeNextRun(schedule: JobSchedule, from: Date = new Date()): Date {
+    const [hours, minutes] = SchedulerService.parseTime(schedule.time);
+    const next = new Date(from);
+    next.setSeconds(0, 0);
+
+    switch (schedule.frequency) {
+      case "hourly":
+        next.setMinutes(minutes);
+        if (next <= from) {
+          next.setHours(next.getHours() + 1);
+        }
+        return next;
+
+      case "daily":
+        next.setHours(hours, minutes);
+        if (next <= from) {
+          next.setDate(next.getDate() + 1);
+        }
+        return next;
+
+      case "weekly": {
+        next.setHours(hours, minutes);
+        const daysAhead = ((schedule.dayOfWeek ?? 1) - next.getDay() + 7) % 7;
+        next.setDate(next.getDate() + daysAhead);
+        if (next <= from) {
+          next.setDate(next.getDate() + 7);
+        }
+        return next;
+      }
+
+      default:
+        throw new Error(`Unknown job frequency "${schedule.frequency}"`);
+    }
+  }
+
+  private async execute(job: ScheduledJob): Promise<JobRun> {
+    this.running.add(job.id);
+    const startedAt = new Date();
+    let run: JobRun;
+
+    try {
+      const message = await this.perform(job);
+      run = {
+        id: crypto.randomUUID(),
+        jobId: job.id,
+        type: job.type,
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        status: "success",
+        message
+      };
+      logger.info(`Job ${job.type} for @${job.username} succeeded: ${message}`);
+    } catch (error) {
+      run = {
+        id: crypto.randomUUID(),
+        jobId: job.id,
+        type: job.type,
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error)
+      };
+      logger.error(`Job ${job.type} for @${job.username} failed`, error as Error);
+    }
+
+    // Still marked as running until the next run time is saved, so it can't look due in between
+    try {
+      await this.recordRun(job.username, run);
+
+      // Re-read the job in case it was edited or deleted while running
+      const current = await this.getJob(job.id);
+      if (current) {
+        await this.saveJob({
+          ...current,
+          lastRunAt: run.startedAt,
+          lastStatus: run.status,
+          nextRunAt: SchedulerService.computeNextRun(current.schedule, new Date(run.finishedAt)).toISOString()
+        });
+      }
+    } finally {
+      this.running.delete(job.id);
+    }
+
+    return run;
+  }
+
+  private isDue(job: ScheduledJob, now: Date): boolean {
+    return job.enabled && !this.running.has(job.id) && new Date(job.nextRunAt) <= now;
+  }
+
+  private async perform(job: ScheduledJob): Promise<string> {
+    const userData = await dataService.getUserData(job.username);
+
+    switch (job.type) {
+      case "sync": {
+        const result = await scraperService.syncPosts(job.username, userData);
+        return `Added ${result.added} new posts, ${result.total} in archive`;
+      }
+
+      case "analyze": {
+        if (userData.posts.length === 0) {
+          await scraperService.syncPosts(job.username, userData);
+        }
+        const analysis = await aiService.analyzeUser(job.username, userData.posts);
+        await dataService.saveAnalysis(job.username, analysis);
+        return `Analyzed ${Math.min(userData.posts.length, config.app.maxPostsToAnalyze)} posts`;
+      }
+
+      case "generate": {
+        const ideas = await aiService.generatePostIdeas(userData, job.count ?? 10);
+        return `Generated ${ideas.length} ideas`;
+      }
+
+      default:
+        throw new Error(`Unknown job type "${job.type}"`);
+    }
+  }
+
+  private async recordRun(username: string, run: JobRun): Promise<void> {
+    const runs = await dataService.getCollection<JobRun>(username, RUNS_COLLECTION);
+    await dataService.saveCollection(username, RUNS_COLLECTION, [...runs, run].slice(-MAX_RUNS_PER_USER));
+  }
+
+  private async saveJob(job: ScheduledJob): Promise<void> {
+    const jobs = await dataService.getCollection<ScheduledJob>(job.username, JOBS_COLLECTION);
+    await dataService.saveCollection(
+      job.username,
+      JOBS_COLLECTION,
+      jobs.map(candidate => candidate.id === job.id ? job : candidate)
+    );
+  }
+
+  private async requireJob(id: string): Promise<ScheduledJob> {
+    const job = await this.getJob(id);
+    if (!job) {
+      throw new Error(`Job ${id} not found`);
+    }
+    return job;
+  }
+
+  private validate(input: JobInput): void {
+    if (!JOB_TYPES.includes(input.type)) {
+      throw new Error(`Invalid job type "${input.type}". Use one of: ${JOB_TYPES.join(", ")}`);
+    }
+
+    if (!input.schedule || !["hourly", "daily", "weekly"].includes(input.schedule.frequency)) {
+      throw new Error("Schedule frequency must be hourly, daily or weekly");
+    }
+
+    SchedulerService.parseTime(input.schedule.time);
+
+    const { dayOfWeek } = input.schedule;
+    if (dayOfWeek !== undefined && (!Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6)) {
+      throw new Error("Day of week must be between 0 (Sunday) and 6 (Saturday)");
+    }
+
+    if (input.count !== undefined && (!Number.isInteger(input.count) || input.count < 1 || input.count > 50)) {
+      throw new Error("Idea count must be between 1 and 50");
+    }
+  }
+
+  private static parseTime(time: string): [number, number] {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time ?? "");
+    const hours = match ? parseInt(match[1]!) : NaN;
+    const minutes = match ? parseInt(match[2]!) : NaN;
+
+    if (!(hours >= 0 && hours <= 23 && minutes >= 0 && minutes <= 59)) {
+      throw new Error(`Invalid time "${time}". Use 24-hour HH:MM, e.g. 06:00`);
+    }
+
+    return [hours, minutes];
+  }
+}
+
+export const schedulerService = new SchedulerService();
@@ -1,8 +1,9 @@
 import { Scraper } from "@the-convocation/twitter-scraper";
-import type { TwitterPost, UserData } from "../types";
+import type { ReplyTarget, TwitterPost, SyncResult, UserData } from "../types";
 import { config } from "../config";
 import { createLogger } from "../../logger";
 import { dataService } from "./data";
+import { PostUtils } from "../utils/posts";
 
 const logger = createLogger("ScraperService");
 
@@ -19,55 +20,81 @@ export class ScraperService {
   }
 
   async fetchPosts(username: string): Promise<TwitterPost[]> {
+    // Check if we have cached posts first
+    const userData = await dataService.getUserData(username);
+    if (userData.posts && userData.posts.length > 0) {
+      logger.info(`Using ${userData.posts.length} cached posts for @${username}`);
+      return userData.posts;
+    }
+
+    const result = await this.syncPosts(username);
+    return result.posts;
+  }
+
+  /**
+   * Fetch only tweets newer than the newest stored one and merge them into the archive.
+   * Pass the caller's userData to have it updated in place.
+   */
+  async syncPosts(
+    username: string,
+    existingUserData?: UserData,
+    onProgress?: (fetched: number, limit: number) => void
+  ): Promise<SyncResult> {
     try {
-      // Check if we have cached posts first
-      const userData = await dataService.getUserData(username);
-      if (userData.posts && userData.posts.length > 0) {
-        logger.info(`Using ${userData.posts.length} cached posts for @${username}`);
-        return userData.posts;
-      }
+      const userData = existingUserData ?? await dataService.getUserData(username);
+      const scraper = await this.getScraper();
 
-      // Validate credentials before attempting to scrape
-      const { valid, missing } = await this.validateCredentials();
-      if (!valid) {
-        throw new Error(`Missing Twitter credentials: ${missing.join(', ')}. Please set these environment variables.`);
-      }
+      const knownIds = new Set(userData.posts.map(post => post.id).filter(Boolean));
+      const knownTexts = new Set(userData.posts.filter(post => !post.id).map(post => post.text));
+      const newestTimestamp = Math.max(0, ...userData.posts.map(post => post.timestamp || 0));
 
-      // Initialize scraper if needed
-      if (!this.scraper) {
-        this.scraper = new Scraper();
-
-        // Authenticate with Twitter
-        await this.scraper.login(
-          config.scraper.username!,
-          config.scraper.password!,
-          config.scraper.email
-        );
-        this.isAuthenticated = true;
-      }
+      // First sync fills the analysis window. Later syncs page back until they reach a stored post, so
+      // nothing posted since the last sync is skipped; more than the archive holds would push out every
+      // stored post anyway.
+      const limit = userData.posts.length === 0 ? config.app.maxPostsToAnalyze : config.app.maxArchivedPosts;
 
-      logger.info(`Fetching fresh posts for @${username}...`);
+      logger.info(`Syncing posts for @${username} (${userData.posts.length} stored, limit ${limit})...`);
 
-      // Fetch tweets
-      const tweets = this.scraper.getTweets(username);
-      const posts: TwitterPost[] = [];
+      const incoming: TwitterPost[] = [];
 
-      for await (const tweet of tweets) {
-        posts.push(tweet as TwitterPost);
+      for await (const tweet of scraper.getTweets(username, limit)) {
+        const post = PostUtils.fromTweet(tweet);
+        const alreadyStored = post.id ? knownIds.has(post.id) : knownTexts.has(post.text);
+        const olderThanArchive = !!newestTimestamp && !!post.timestamp && post.timestamp <= newestTimestamp;
 
-        // Limit based on configuration
-        if (posts.length >= config.app.maxPostsToAnalyze) {
+        if (alreadyStored || olderThanArchive) {
+          // Pinned tweets show up first regardless of age, so keep looking
+          if (post.isPin) {
+            continue;
+          }
+          break;
+        }
+
+        incoming.push(post);
+        onProgress?.(incoming.length, limit);
+
+        if (incoming.length >= limit) {
           break;
         }
       }
 
-      logger.info(`Fetched ${posts.length} posts for @${username}`);
+      // Counted before the archive cap, which drops the oldest posts to make room for the new ones
+      const deduped = ScraperService.mergePosts(userData.posts, incoming);
+      const added = deduped.length - userData.posts.length;
+      const merged = deduped.slice(0, config.app.maxArchivedPosts);
 
-      // Save posts to user data
-      userData.posts = posts;
+      userData.posts = merged;
+      userData.lastSyncedAt = new Date().toISOString();
       await dataService.saveUserData(userData);
 
-      return posts;
+      logger.info(`Synced @${username}: ${added} new posts, ${merged.length} in archive`);
+
+      return {
+        username,
+        posts: merged,
+        added: Math.max(0, added),
+        total: merged.length
+      };
     } catch (error) {
       logger.error(`Failed to fetch posts for @${username}`, error as Error);
 
@@ -86,13 +113,87 @@ export class ScraperService {
     }
   }
 
+  /**
+   * Look up a tweet by URL or id. Anything else is taken to be the tweet's text.
+   */
+  async resolveTweet(input: string): Promise<ReplyTarget> {
+    const reference = PostUtils.parseTweetReference(input);
+    if (!reference) {
+      return { text: input.trim() };
+    }
+
+    const scraper = await this.getScraper();
+    const tweet = await scraper.getTweet(reference.id);
+    if (!tweet?.text) {
+      throw new Error(`Tweet ${reference.id} not found. It may be deleted or from a protected account.`);
+    }
+
+    return {
+      text: tweet.text,
+      id: tweet.id ?? reference.id,
+      author: tweet.username ?? reference.username,
+      url: tweet.permanentUrl ?? input.trim()
+    };
+  }
+
   async refreshPosts(username: string): Promise<TwitterPost[]> {
-    // Clear cached data and fetch fresh posts
-    const userData = await dataService.getUserData(username);
-    userData.posts = [];
-    await dataService.saveUserData(userData);
+    // Incremental sync keeps older posts instead of re-downloading everything
+    const result = await this.syncPosts(username);
+    return result.posts;
+  }
+
+  /**
+   * Merge newly fetched posts into an archive without duplicates, newest first
+   */
+  static mergePosts(existing: TwitterPost[], incoming: TwitterPost[]): TwitterPost[] {
+    const seenIds = new Set<string>();
+    const idsByText = new Map<string, string | undefined>();
+    const merged: TwitterPost[] = [];
+
+    for (const post of [...incoming, ...existing]) {
+      if (post.id && seenIds.has(post.id)) {
+        continue;
+      }
+
+      // Legacy posts have no id, so they can only be matched by text
+      if (idsByText.has(post.text) && (!post.id || !idsByText.get(post.text))) {
+        continue;
+      }
+
+      if (post.id) {
+        seenIds.add(post.id);
+      }
+      if (!idsByText.has(post.text)) {
+        idsByText.set(post.text, post.id);
+      }
+      merged.push(post);
+    }
+
+    // Stable sort keeps the original order for posts without timestamps
+    return merged.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0));
+  }
+
+  private async getScraper(): Promise<Scraper> {
+    // Validate credentials before attempting to scrape
+    const { valid, missing } = await this.validateCredentials();
+    if (!valid) {
+      throw new Error(`Missing Twitter credentials: ${missing.join(', ')}. Please set these environment variables.`);
+    }
+
+    // Initialize scraper if needed
+    if (!this.scraper) {
+      this.scraper = new Scraper();
+
+      // Authenticate with Twitter
+      await this.scraper.login(
+        config.scraper.username!,
+        config.scraper.password!,
+        config.scraper.email
+      );
+      this.isAuthenticated = true;
+    }
 
-    return this.fetchPosts(username);
+    return this.scraper;
   }
 
   getAuthStatus(): { authenticated: boolean; credentials: boolean } {
@@ -0,0 +1,219 @@
+import type { LanguageModelUsage } from "ai";
+import type { BudgetStatus, ModelTask, UsageFilter, UsageRecord, UsageReport, UsageTotals } from "../types";
+import { config } from "../config";
+import { modelRegistry } from "../providers";
+import { createLogger } from "../../logger";
+import { dataService } from "./data";
+
+const logger = createLogger("UsageService");
+
+// Models that run on the user's own machine cost nothing per token
+const LOCAL_PROVIDERS = ["ollama", "llamacpp", "mock"];
+
+// Report key for calls that weren't made for an account
+const NO_ACCOUNT = "-";
+
+export interface UsageContext {
+  // What the call is for, e.g. "analysis" or "agent-chat"
+  operation: string;
+  username?: string;
+  task: ModelTask;
+}
+
+// The parts of a generateText, generateObject or finished streamText result that are recorded
+export interface TrackedResult {
+  usage?: LanguageModelUsage;
+  steps?: { toolCalls: unknown[] }[];
+}
+
+/**
+ * Records tokens, estimated cost, latency and tool steps for every LLM call, and enforces the
+ * daily budgets before a call is made
+ */
+export class UsageService {
+  /**
+   * Run one non-streaming LLM call with a budget check up front. The call is recorded whether it
+   * succeeds or fails. Pass the context as a function when the account is only known once the
+   * call is done, like an agent turn that picks one.
+   */
+  async track<T extends TrackedResult>(
+    context: UsageContext | (() => UsageContext),
+    call: () => PromiseLike<T>
+  ): Promise<T> {
+    const resolve = () => (typeof context === "function" ? context() : context);
+    await this.checkBudget(resolve());
+
+    const startedAt = Date.now();
+    try {
+      const result = await call();
+      await this.record(resolve(), startedAt, result);
+      return result;
+    } catch (error) {
+      // Failed structured calls still report what they used
+      await this.record(resolve(), startedAt, error as TrackedResult, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store one finished call. Streaming callers use this directly once the stream is done; a
+   * storage failure is logged and never fails the call itself.
+   */
+  async record(context: UsageContext, startedAt: number, result?: TrackedResult, error?: unknown): Promise<UsageRecord> {
+    const model = modelRegistry.describe(context.task);
+    const promptTokens = UsageService.tokens(result?.usage?.promptTokens);
+    const completionTokens = UsageService.tokens(result?.usage?.completionTokens);
+    const steps = Array.isArray(result?.steps) ? result.steps : [];
+
+    const record: UsageRecord = {
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+      operation: context.operation,
+      username: context.username,
+      model,
+      promptTokens,
+      completionTokens,
+      cost: UsageService.estimateCost(model, promptTokens, completionTokens),
+      latencyMs: Date.now() - startedAt,
+      steps: Math.max(steps.length, 1),
+      toolCalls: steps.reduce((sum, step) => sum + (step.toolCalls?.length ?? 0), 0),
+      error: error === undefined ? undefined : error instanceof Error ? error.message : String(error)
+    };
+
+    try {
+      await dataService.addUsage(record);
+    } catch (storageError) {
+      logger.warn(`Failed to record ${context.operation} usage`, storageError as Error);
+    }
+
+    logger.info(`${context.operation}${context.username ? ` for @${context.username}` : ""}: `
+      + `${promptTokens}+${completionTokens} tokens on ${model} in ${record.latencyMs}ms`);
+    return record;
+  }
+
+  /**
+   * Refuse (or, with BUDGET_MODE=warn, log) a call once today's workspace or account budget is
+   * used up, or when its model has no price and so can't be counted against the budget
+   */
+  async checkBudget({ username, task }: UsageContext): Promise<void> {
+    const { dailyBudget, dailyBudgetPerUser, budgetMode } = config.app;
+    if (dailyBudget <= 0 && (dailyBudgetPerUser <= 0 || !username)) {
+      return;
+    }
+
+    const status = await this.budgetStatus(username);
+    const problems: string[] = [];
+    const model = modelRegistry.describe(task);
+    if (UsageService.estimateCost(model, 0, 0) === null) {
+      problems.push(`${model} has no price in MODEL_PRICES, so its calls can't be counted against the daily budget. `
+        + "Add its price to MODEL_PRICES.");
+    }
+    if (status.budget > 0 && status.spent >= status.budget) {
+      problems.push(`Daily budget of $${status.budget.toFixed(2)} is used up ($${status.spent.toFixed(2)} spent today). `
+        + "Raise DAILY_BUDGET or try again tomorrow.");
+    }
+    if (status.user && status.user.budget > 0 && status.user.spent >= status.user.budget) {
+      problems.push(`Daily budget of $${status.user.budget.toFixed(2)} for @${status.user.username} is used up `
+        + `($${status.user.spent.toFixed(2)} spent today). Raise DAILY_BUDGET_PER_USER or try again tomorrow.`);
+    }
+
+    if (problems.length === 0) {
+      return;
+    }
+    if (budgetMode === "refuse") {
+      throw new Error(problems.join(" "));
+    }
+    for (const problem of problems) {
+      logger.warn(problem);
+    }
+  }
+
+  async budgetStatus(username?: string): Promise<BudgetStatus> {
+    const day = new Date().toISOString().slice(0, 10);
+    const records = await dataService.getUsage({ from: day, to: day });
+    const spent = (matching: UsageRecord[]) => UsageService.round(matching.reduce((sum, record) => sum + (record.cost ?? 0), 0));
+
+    return {
+      day,
+      mode: config.app.budgetMode,
+      spent: spent(records),
+      budget: config.app.dailyBudget,
+      user: username
+        ? {
+          username,
+          spent: spent(records.filter(record => record.username === username)),
+          budget: config.app.dailyBudgetPerUser
+        }
+        : undefined
+    };
+  }
+
+  async list(filter: UsageFilter = {}): Promise<UsageRecord[]> {
+    return dataService.getUsage(filter);
+  }
+
+  /**
+   * Totals for the filtered calls, broken down by account, UTC day, operation and model
+   */
+  async report(filter: UsageFilter = {}): Promise<UsageReport> {
+    const records = await dataService.getUsage(filter);
+    const group = (key: (record: UsageRecord) => string) => {
+      const groups = new Map<string, UsageRecord[]>();
+      for (const record of records) {
+        const matching = groups.get(key(record)) ?? [];
+        matching.push(record);
+        groups.set(key(record), matching);
+      }
+      return Object.fromEntries(
+        Array.from(groups.entries())
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([name, matching]) => [name, UsageService.totals(matching)])
+      );
+    };
+
+    return {
+      filter,
+      totals: UsageService.totals(records),
+      byUser: group(record => record.username ?? NO_ACCOUNT),
+      byDay: group(record => record.createdAt.slice(0, 10)),
+      byOperation: group(record => record.operation),
+      byModel: group(record => record.model)
+    };
+  }
+
+  /**
+   * Estimated USD for a call, from MODEL_PRICES. Null when the model's price is unknown.
+   */
+  static estimateCost(model: string, promptTokens: number, completionTokens: number): number | null {
+    const price = config.ai.prices[model];
+    if (!price) {
+      return LOCAL_PROVIDERS.includes(model.split(":")[0]!) ? 0 : null;
+    }
+    return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+  }
+
+  private static totals(records: UsageRecord[]): UsageTotals {
+    const sum = (value: (record: UsageRecord) => number) => records.reduce((total, record) => total + value(record), 0);
+
+    return {
+      calls: records.length,
+      errors: records.filter(record => record.error).length,
+      promptTokens: sum(record => record.promptTokens),
+      completionTokens: sum(record => record.completionTokens),
+      cost: this.round(sum(record => record.cost ?? 0)),
+      unpriced: records.filter(record => record.cost === null).length,
+      averageLatencyMs: records.length > 0 ? Math.round(sum(record => record.latencyMs) / records.length) : 0
+    };
+  }
+
+  // Some providers report NaN or nothing when a call fails early
+  private static tokens(value: number | undefined): number {
+    return typeof value === "number" && Number.isFinite(value) ? value : 0;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 1_000_000) / 1_000_000;
+  }
+}
+
+export const usageService = new UsageService();
@@ -0,0 +1,135 @@
+import type {
+  AgentSession,
+  AnalysisSnapshot,
+  DataStats,
+  StorageBackendName,
+  StoredIdea,
+  UsageFilter,
+  UsageRecord,
+  UserData,
+  UserSummary
+} from "../types";
+import { config } from "../config";
+import { JsonFileStorage } from "./json";
+import { SqliteStorage } from "./sqlite";
+
+/**
+ * Persistence layer behind DataService. Backends only store and load;
+ * defaults, schema migrations of posts and exports stay in DataService.
+ */
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+
+  loadUser(username: string): Promise<UserData | null>;
+  saveUser(userData: UserData): Promise<void>;
+  deleteUser(username: string): Promise<boolean>;
+  listUsers(): Promise<string[]>;
+  listUserSummaries(): Promise<UserSummary[]>;
+
+  loadIdeas(username: string): Promise<StoredIdea[]>;
+  saveIdeas(username: string, ideas: StoredIdea[]): Promise<void>;
+
+  // Oldest snapshot first
+  loadAnalysisHistory(username: string): Promise<AnalysisSnapshot[]>;
+  // A snapshot whose id is already stored is left as it is
+  addAnalysisSnapshot(username: string, snapshot: AnalysisSnapshot): Promise<void>;
+
+  // Named per-user lists for features that don't need their own tables, e.g. "jobs"
+  listCollections(username: string): Promise<string[]>;
+  loadCollection<T>(username: string, collection: string): Promise<T[]>;
+  saveCollection<T>(username: string, collection: string, items: T[]): Promise<void>;
+
+  // Agent chat sessions belong to the whole workspace rather than to one account
+  listAgentSessions(): Promise<AgentSession[]>;
+  loadAgentSession(id: string): Promise<AgentSession | null>;
+  saveAgentSession(session: AgentSession): Promise<void>;
+  deleteAgentSession(id: string): Promise<boolean>;
+
+  // LLM usage is billing history, so it stays when an account is deleted. Oldest first.
+  loadUsage(filter?: UsageFilter): Promise<UsageRecord[]>;
+  addUsage(record: UsageRecord): Promise<void>;
+
+  getStats(): Promise<DataStats>;
+  close(): void;
+}
+
+export interface MigrationResult {
+  users: number;
+  posts: number;
+  ideas: number;
+  snapshots: number;
+  sessions: number;
+  usage: number;
+}
+
+export function createStorageBackend(name: StorageBackendName = config.app.storageBackend): StorageBackend {
+  switch (name) {
+    case "json":
+      return new JsonFileStorage(config.app.dataDir);
+    case "sqlite":
+      return new SqliteStorage(config.app.sqlitePath);
+    default:
+      throw new Error(`Unknown storage backend "${name}". Use "json" or "sqlite".`);
+  }
+}
+
+/**
+ * Copy every user with their ideas, analysis history and collections, plus the agent sessions
+ * and usage records, from one backend into another.
+ * The source is left untouched so a migration can be re-run safely.
+ */
+export async function migrateStorage(
+  source: StorageBackend,
+  target: StorageBackend,
+  onProgress?: (username: string, index: number, total: number) => void
+): Promise<MigrationResult> {
+  const usernames = await source.listUsers();
+  const result: MigrationResult = { users: 0, posts: 0, ideas: 0, snapshots: 0, sessions: 0, usage: 0 };
+
+  for (const [index, username] of usernames.entries()) {
+    onProgress?.(username, index + 1, usernames.length);
+
+    const userData = await source.loadUser(username);
+    if (!userData) {
+      continue;
+    }
+
+    // Keep the original timestamp instead of stamping the migration time
+    await target.saveUser({ ...userData });
+    result.users++;
+    result.posts += userData.posts.length;
+
+    const ideas = await source.loadIdeas(username);
+    if (ideas.length > 0) {
+      await target.saveIdeas(username, ideas);
+      result.ideas += ideas.length;
+    }
+
+    for (const snapshot of await source.loadAnalysisHistory(username)) {
+      await target.addAnalysisSnapshot(username, snapshot);
+      result.snapshots++;
+    }
+
+    for (const collection of await source.listCollections(username)) {
+      await target.saveCollection(username, collection, await source.loadCollection(username, collection));
+    }
+  }
+
+  for (const session of await source.listAgentSessions()) {
+    await target.saveAgentSession(session);
+    result.sessions++;
+  }
+
+  // The JSON backend appends usage without checking ids, so records copied by an earlier run are skipped here
+  const copied = new Set((await target.loadUsage()).map(record => record.id));
+  for (const record of await source.loadUsage()) {
+    if (!copied.has(record.id)) {
+      await target.addUsage(record);
+    }
+    result.usage++;
+  }
+
+  return result;
+}
+
+export { JsonFileStorage, SqliteStorage };
@@ -0,0 +1,329 @@
+import fs from "fs";
+import path from "path";
+import type {
+  AgentSession,
+  AnalysisSnapshot,
+  DataStats,
+  StorageBackendName,
+  StoredIdea,
+  UsageFilter,
+  UsageRecord,
+  UserData,
+  UserSummary
+} from "../types";
+import type { StorageBackend } from "./index";
+import { Utils } from "../utils";
+import { createLogger } from "../../logger";
+
+const logger = createLogger("JsonFileStorage");
+
+/**
+ * One pretty-printed <username>.json per account in the data directory,
+ * with generated ideas kept in ideas/<username>.json, analysis snapshots
+ * in history/<username>.json, collections in collections/<name>/<username>.json,
+ * agent sessions in agent-sessions/<id>.json and LLM usage in usage/<day>.jsonl.
+ */
+export class JsonFileStorage implements StorageBackend {
+  readonly name: StorageBackendName = "json";
+
+  // Summaries are cached per file and only re-parsed when the file changes
+  private summaryCache = new Map<string, { mtimeMs: number; summary: UserSummary }>();
+
+  constructor(private dataDir: string) {
+    if (!fs.existsSync(this.dataDir)) {
+      fs.mkdirSync(this.dataDir, { recursive: true });
+      logger.info(`Created data directory: ${this.dataDir}`);
+    }
+  }
+
+  async loadUser(username: string): Promise<UserData | null> {
+    const userFile = Bun.file(this.userPath(username));
+
+    if (!(await userFile.exists())) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await userFile.text()) as UserData;
+    } catch (error) {
+      logger.warn(`Failed to parse user data for @${username}`, error as Error);
+      return null;
+    }
+  }
+
+  async saveUser(userData: UserData): Promise<void> {
+    await Bun.write(this.userPath(userData.username), JSON.stringify(userData, null, 2));
+  }
+
+  async deleteUser(username: string): Promise<boolean> {
+    const userFilePath = this.userPath(username);
+    if (!fs.existsSync(userFilePath)) {
+      return false;
+    }
+
+    fs.unlinkSync(userFilePath);
+    const collectionPaths = (await this.listCollections(username))
+      .map(collection => this.collectionPath(username, collection));
+
+    for (const relatedPath of [this.ideasPath(username), this.historyPath(username), ...collectionPaths]) {
+      if (fs.existsSync(relatedPath)) {
+        fs.unlinkSync(relatedPath);
+      }
+    }
+    this.summaryCache.delete(username);
+    return true;
+  }
+
+  async listUsers(): Promise<string[]> {
+    try {
+      return fs.readdirSync(this.dataDir)
+        .filter(file => file.endsWith(".json") && !file.startsWith("_"))
+        .map(file => file.replace(".json", ""));
+    } catch (error) {
+      logger.error("Failed to list users", error as Error);
+      return [];
+    }
+  }
+
+  async listUserSummaries(): Promise<UserSummary[]> {
+    const usernames = await this.listUsers();
+    const summaries: UserSummary[] = [];
+
+    for (const username of usernames) {
+      const { mtimeMs } = fs.statSync(this.userPath(username));
+      const cached = this.summaryCache.get(username);
+
+      if (cached && cached.mtimeMs === mtimeMs) {
+        summaries.push(cached.summary);
+        continue;
+      }
+
+      const userData = await this.loadUser(username);
+      if (!userData) {
+        continue;
+      }
+
+      const summary: UserSummary = {
+        username,
+        postsCount: userData.posts.length,
+        hasAnalysis: !!userData.analysis,
+        lastUpdated: userData.lastUpdated,
+        customInstructions: !!userData.customInstructions,
+        communities: userData.availableCommunities?.length || 0
+      };
+      this.summaryCache.set(username, { mtimeMs, summary });
+      summaries.push(summary);
+    }
+
+    return summaries;
+  }
+
+  async loadIdeas(username: string): Promise<StoredIdea[]> {
+    return this.readList<StoredIdea>(this.ideasPath(username), `ideas for @${username}`);
+  }
+
+  async saveIdeas(username: string, ideas: StoredIdea[]): Promise<void> {
+    await Bun.write(this.ideasPath(username), JSON.stringify(ideas, null, 2));
+  }
+
+  async loadAnalysisHistory(username: string): Promise<AnalysisSnapshot[]> {
+    return this.readList<AnalysisSnapshot>(this.historyPath(username), `analysis history for @${username}`);
+  }
+
+  async addAnalysisSnapshot(username: string, snapshot: AnalysisSnapshot): Promise<void> {
+    const history = await this.loadAnalysisHistory(username);
+    if (history.some(existing => existing.id === snapshot.id)) {
+      return;
+    }
+    history.push(snapshot);
+    await Bun.write(this.historyPath(username), JSON.stringify(history, null, 2));
+  }
+
+  async listCollections(username: string): Promise<string[]> {
+    const collectionsDir = path.join(this.dataDir, "collections");
+    if (!fs.existsSync(collectionsDir)) {
+      return [];
+    }
+    return fs.readdirSync(collectionsDir)
+      .filter(collection => fs.existsSync(this.collectionPath(username, collection)));
+  }
+
+  async loadCollection<T>(username: string, collection: string): Promise<T[]> {
+    return this.readList<T>(this.collectionPath(username, collection), `${collection} for @${username}`);
+  }
+
+  async saveCollection<T>(username: string, collection: string, items: T[]): Promise<void> {
+    await Bun.write(this.collectionPath(username, collection), JSON.stringify(items, null, 2));
+  }
+
+  async listAgentSessions(): Promise<AgentSession[]> {
+    const sessions: AgentSession[] = [];
+    for (const filePath of this.listFiles("agent-sessions")) {
+      const session = await this.readSession(filePath);
+      if (session) {
+        sessions.push(session);
+      }
+    }
+    return sessions;
+  }
+
+  async loadAgentSession(id: string): Promise<AgentSession | null> {
+    return this.readSession(this.sessionPath(id));
+  }
+
+  async saveAgentSession(session: AgentSession): Promise<void> {
+    await Bun.write(this.sessionPath(session.id), JSON.stringify(session, null, 2));
+  }
+
+  async deleteAgentSession(id: string): Promise<boolean> {
+    const sessionPath = this.sessionPath(id);
+    if (!fs.existsSync(sessionPath)) {
+      return false;
+    }
+    fs.unlinkSync(sessionPath);
+    return true;
+  }
+
+  async loadUsage(filter: UsageFilter = {}): Promise<UsageRecord[]> {
+    const dir = path.join(this.dataDir, "usage");
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+
+    const records: UsageRecord[] = [];
+    // One file per UTC day, so a date range only reads the days in it
+    const days = fs.readdirSync(dir)
+      .filter(file => file.endsWith(".jsonl"))
+      .map(file => file.replace(".jsonl", ""))
+      .filter(day => (!filter.from || day >= filter.from) && (!filter.to || day <= filter.to))
+      .sort();
+
+    for (const day of days) {
+      const lines = (await Bun.file(this.usagePath(day)).text()).split("\n").filter(line => line.trim());
+      for (const line of lines) {
+        try {
+          const record = JSON.parse(line) as UsageRecord;
+          if (!filter.username || record.username === filter.username) {
+            records.push(record);
+          }
+        } catch (error) {
+          logger.warn(`Skipping an unreadable usage record from ${day}`, error as Error);
+        }
+      }
+    }
+    return records;
+  }
+
+  async addUsage(record: UsageRecord): Promise<void> {
+    const usagePath = this.usagePath(record.createdAt.slice(0, 10));
+    fs.mkdirSync(path.dirname(usagePath), { recursive: true });
+    // Appending keeps concurrent calls from overwriting each other's records
+    fs.appendFileSync(usagePath, `${JSON.stringify(record)}\n`);
+  }
+
+  async getStats(): Promise<DataStats> {
+    const users = await this.listUsers();
+    let totalSize = 0;
+    let lastUpdated: string | undefined;
+
+    const files = [
+      ...fs.readdirSync(this.dataDir).filter(file => file.endsWith(".json")).map(file => path.join(this.dataDir, file)),
+      ...this.listFiles("ideas"),
+      ...this.listFiles("history"),
+      ...this.listFiles("agent-sessions"),
+      ...this.listFiles("usage", ".jsonl"),
+      ...this.listCollectionFiles()
+    ];
+
+    for (const filePath of files) {
+      const stats = fs.statSync(filePath);
+      totalSize += stats.size;
+
+      if (!lastUpdated || stats.mtime > new Date(lastUpdated)) {
+        lastUpdated = stats.mtime.toISOString();
+      }
+    }
+
+    return {
+      totalUsers: users.length,
+      totalDataSize: Utils.formatBytes(totalSize),
+      lastUpdated
+    };
+  }
+
+  close(): void {
+    this.summaryCache.clear();
+  }
+
+  private async readList<T>(filePath: string, description: string): Promise<T[]> {
+    const file = Bun.file(filePath);
+
+    if (!(await file.exists())) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(await file.text()) as T[];
+    } catch (error) {
+      logger.warn(`Failed to parse ${description}`, error as Error);
+      return [];
+    }
+  }
+
+  private async readSession(filePath: string): Promise<AgentSession | null> {
+    const file = Bun.file(filePath);
+
+    if (!(await file.exists())) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await file.text()) as AgentSession;
+    } catch (error) {
+      logger.warn(`Failed to parse agent session ${path.basename(filePath)}`, error as Error);
+      return null;
+    }
+  }
+
+  private listFiles(subdir: string, extension: string = ".json"): string[] {
+    const dir = path.join(this.dataDir, subdir);
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+    return fs.readdirSync(dir)
+      .filter(file => file.endsWith(extension))
+      .map(file => path.join(dir, file));
+  }
+
+  private listCollectionFiles(): string[] {
+    const collectionsDir = path.join(this.dataDir, "collections");
+    if (!fs.existsSync(collectionsDir)) {
+      return [];
+    }
+    return fs.readdirSync(collectionsDir).flatMap(collection => this.listFiles(path.join("collections", collection)));
+  }
+
+  private userPath(username: string): string {
+    return path.join(this.dataDir, `${username}.json`);
+  }
+
+  private ideasPath(username: string): string {
+    return path.join(this.dataDir, "ideas", `${username}.json`);
+  }
+
+  private historyPath(username: string): string {
+    return path.join(this.dataDir, "history", `${username}.json`);
+  }
+
+  private sessionPath(id: string): string {
+    return path.join(this.dataDir, "agent-sessions", `${id}.json`);
+  }
+
+  private usagePath(day: string): string {
+    return path.join(this.dataDir, "usage", `${day}.jsonl`);
+  }
+
+  private collectionPath(username: string, collection: string): string {
+    return path.join(this.dataDir, "collections", collection, `${username}.json`);
+  }
+}
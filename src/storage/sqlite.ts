@@ -0,0 +1,456 @@
+import fs from "fs";
+import path from "path";
+import { Database } from "bun:sqlite";
+import type {
+  AgentSession,
+  AnalysisSnapshot,
+  DataStats,
+  StorageBackendName,
+  StoredIdea,
+  TwitterPost,
+  UsageFilter,
+  UsageRecord,
+  UserData,
+  UserSummary
+} from "../types";
+import type { StorageBackend } from "./index";
+import { Utils } from "../utils";
+import { createLogger } from "../../logger";
+
+const logger = createLogger("SqliteStorage");
+
+// Each entry upgrades the schema by one version, tracked with PRAGMA user_version
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE users (
+    username TEXT PRIMARY KEY,
+    custom_instructions TEXT,
+    communities TEXT NOT NULL DEFAULT '[]',
+    last_synced_at TEXT,
+    last_updated TEXT NOT NULL,
+    extra TEXT NOT NULL DEFAULT '{}'
+  );
+
+  CREATE TABLE posts (
+    username TEXT NOT NULL REFERENCES users(username) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    post_id TEXT,
+    timestamp INTEGER,
+    text TEXT NOT NULL,
+    likes INTEGER,
+    retweets INTEGER,
+    replies INTEGER,
+    views INTEGER,
+    is_reply INTEGER NOT NULL DEFAULT 0,
+    is_retweet INTEGER NOT NULL DEFAULT 0,
+    is_quote INTEGER NOT NULL DEFAULT 0,
+    data TEXT NOT NULL,
+    PRIMARY KEY (username, position)
+  );
+  CREATE INDEX posts_by_time ON posts(username, timestamp);
+
+  CREATE TABLE analyses (
+    username TEXT PRIMARY KEY REFERENCES users(username) ON DELETE CASCADE,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE ideas (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    text TEXT NOT NULL,
+    community TEXT,
+    reasoning TEXT,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX ideas_by_user ON ideas(username, position);
+  `,
+  `
+  ALTER TABLE ideas ADD COLUMN source TEXT NOT NULL DEFAULT 'batch';
+  ALTER TABLE ideas ADD COLUMN prompt TEXT;
+  ALTER TABLE ideas ADD COLUMN model TEXT;
+  ALTER TABLE ideas ADD COLUMN status TEXT NOT NULL DEFAULT 'new';
+  CREATE INDEX ideas_by_status ON ideas(username, status);
+  `,
+  `
+  CREATE TABLE analysis_history (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    model TEXT,
+    post_count INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX analysis_history_by_user ON analysis_history(username, created_at);
+  `,
+  `
+  CREATE TABLE collections (
+    username TEXT NOT NULL,
+    name TEXT NOT NULL,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (username, name)
+  );
+  `,
+  `
+  CREATE TABLE agent_sessions (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE usage (
+    id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    username TEXT,
+    operation TEXT NOT NULL,
+    model TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL,
+    completion_tokens INTEGER NOT NULL,
+    cost REAL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX usage_by_time ON usage(created_at);
+  CREATE INDEX usage_by_user ON usage(username, created_at);
+  `
+];
+
+// UserData fields with their own columns or tables; everything else goes into users.extra
+const USER_COLUMNS = new Set([
+  "username", "posts", "analysis", "customInstructions", "availableCommunities", "lastSyncedAt", "lastUpdated"
+]);
+
+type UserRow = {
+  username: string;
+  custom_instructions: string | null;
+  communities: string;
+  last_synced_at: string | null;
+  last_updated: string;
+  extra: string;
+};
+
+/**
+ * Single-file SQLite store with tables for users, posts, analyses, analysis history, ideas,
+ * generic per-user collections, agent sessions and LLM usage
+ */
+export class SqliteStorage implements StorageBackend {
+  readonly name: StorageBackendName = "sqlite";
+  private db: Database;
+
+  constructor(private dbPath: string) {
+    if (dbPath !== ":memory:") {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+
+    this.db = new Database(dbPath, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec("PRAGMA foreign_keys = ON;");
+    this.migrate();
+  }
+
+  private migrate(): void {
+    const { user_version: version } = this.db.query("PRAGMA user_version").get() as { user_version: number };
+
+    for (let next = version; next < MIGRATIONS.length; next++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[next]!);
+        this.db.exec(`PRAGMA user_version = ${next + 1}`);
+      })();
+      logger.info(`Migrated SQLite schema to version ${next + 1}`);
+    }
+  }
+
+  async loadUser(username: string): Promise<UserData | null> {
+    const row = this.db.query("SELECT * FROM users WHERE username = ?").get(username) as UserRow | null;
+    if (!row) {
+      return null;
+    }
+
+    const posts = this.db
+      .query("SELECT data FROM posts WHERE username = ? ORDER BY position")
+      .all(username) as { data: string }[];
+
+    const analysis = this.db
+      .query("SELECT data FROM analyses WHERE username = ?")
+      .get(username) as { data: string } | null;
+
+    const communities = JSON.parse(row.communities);
+
+    return {
+      ...JSON.parse(row.extra),
+      username: row.username,
+      posts: posts.map(post => JSON.parse(post.data) as TwitterPost),
+      analysis: analysis ? JSON.parse(analysis.data) : undefined,
+      customInstructions: row.custom_instructions ?? undefined,
+      availableCommunities: communities.length > 0 ? communities : undefined,
+      lastSyncedAt: row.last_synced_at ?? undefined,
+      lastUpdated: row.last_updated
+    };
+  }
+
+  async saveUser(userData: UserData): Promise<void> {
+    const extra = Object.fromEntries(
+      Object.entries(userData).filter(([key]) => !USER_COLUMNS.has(key))
+    );
+
+    const insertPost = this.db.prepare(`
+      INSERT INTO posts (username, position, post_id, timestamp, text, likes, retweets, replies, views,
+        is_reply, is_retweet, is_quote, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      this.db.query(`
+        INSERT INTO users (username, custom_instructions, communities, last_synced_at, last_updated, extra)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(username) DO UPDATE SET
+          custom_instructions = excluded.custom_instructions,
+          communities = excluded.communities,
+          last_synced_at = excluded.last_synced_at,
+          last_updated = excluded.last_updated,
+          extra = excluded.extra
+      `).run(
+        userData.username,
+        userData.customInstructions ?? null,
+        JSON.stringify(userData.availableCommunities ?? []),
+        userData.lastSyncedAt ?? null,
+        userData.lastUpdated,
+        JSON.stringify(extra)
+      );
+
+      this.db.query("DELETE FROM posts WHERE username = ?").run(userData.username);
+      userData.posts.forEach((post, position) => {
+        insertPost.run(
+          userData.username,
+          position,
+          post.id ?? null,
+          post.timestamp ?? null,
+          post.text,
+          post.metrics?.likes ?? null,
+          post.metrics?.retweets ?? null,
+          post.metrics?.replies ?? null,
+          post.metrics?.views ?? null,
+          post.isReply ? 1 : 0,
+          post.isRetweet ? 1 : 0,
+          post.isQuote ? 1 : 0,
+          JSON.stringify(post)
+        );
+      });
+
+      if (userData.analysis) {
+        this.db.query(`
+          INSERT INTO analyses (username, data, updated_at) VALUES (?, ?, ?)
+          ON CONFLICT(username) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+        `).run(userData.username, JSON.stringify(userData.analysis), userData.lastUpdated);
+      } else {
+        this.db.query("DELETE FROM analyses WHERE username = ?").run(userData.username);
+      }
+    })();
+  }
+
+  async deleteUser(username: string): Promise<boolean> {
+    const result = this.db.transaction(() => {
+      this.db.query("DELETE FROM ideas WHERE username = ?").run(username);
+      this.db.query("DELETE FROM analysis_history WHERE username = ?").run(username);
+      this.db.query("DELETE FROM collections WHERE username = ?").run(username);
+      return this.db.query("DELETE FROM users WHERE username = ?").run(username);
+    })();
+    return result.changes > 0;
+  }
+
+  async listUsers(): Promise<string[]> {
+    const rows = this.db.query("SELECT username FROM users ORDER BY username").all() as { username: string }[];
+    return rows.map(row => row.username);
+  }
+
+  async listUserSummaries(): Promise<UserSummary[]> {
+    const rows = this.db.query(`
+      SELECT
+        u.username,
+        (SELECT COUNT(*) FROM posts p WHERE p.username = u.username) AS postsCount,
+        EXISTS (SELECT 1 FROM analyses a WHERE a.username = u.username) AS hasAnalysis,
+        u.last_updated AS lastUpdated,
+        u.custom_instructions IS NOT NULL AND u.custom_instructions != '' AS customInstructions,
+        json_array_length(u.communities) AS communities
+      FROM users u
+      ORDER BY u.username
+    `).all() as (Omit<UserSummary, "hasAnalysis" | "customInstructions"> & {
+      hasAnalysis: number;
+      customInstructions: number;
+    })[];
+
+    return rows.map(row => ({
+      ...row,
+      hasAnalysis: !!row.hasAnalysis,
+      customInstructions: !!row.customInstructions
+    }));
+  }
+
+  async loadIdeas(username: string): Promise<StoredIdea[]> {
+    const rows = this.db
+      .query("SELECT data FROM ideas WHERE username = ? ORDER BY position")
+      .all(username) as { data: string }[];
+    return rows.map(row => JSON.parse(row.data) as StoredIdea);
+  }
+
+  async saveIdeas(username: string, ideas: StoredIdea[]): Promise<void> {
+    const insertIdea = this.db.prepare(`
+      INSERT INTO ideas (id, username, position, text, community, reasoning, source, prompt, model, status,
+        created_at, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      this.db.query("DELETE FROM ideas WHERE username = ?").run(username);
+      ideas.forEach((idea, position) => {
+        insertIdea.run(
+          idea.id,
+          username,
+          position,
+          idea.text,
+          idea.community,
+          idea.reasoning ?? null,
+          idea.source,
+          idea.prompt ?? null,
+          idea.model,
+          idea.status,
+          idea.createdAt,
+          JSON.stringify(idea)
+        );
+      });
+    })();
+  }
+
+  async loadAnalysisHistory(username: string): Promise<AnalysisSnapshot[]> {
+    const rows = this.db
+      .query("SELECT data FROM analysis_history WHERE username = ? ORDER BY created_at, rowid")
+      .all(username) as { data: string }[];
+    return rows.map(row => JSON.parse(row.data) as AnalysisSnapshot);
+  }
+
+  async addAnalysisSnapshot(username: string, snapshot: AnalysisSnapshot): Promise<void> {
+    this.db.query(`
+      INSERT OR IGNORE INTO analysis_history (id, username, created_at, model, post_count, data)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      snapshot.id,
+      username,
+      snapshot.createdAt,
+      snapshot.model,
+      snapshot.postWindow.count,
+      JSON.stringify(snapshot)
+    );
+  }
+
+  async listCollections(username: string): Promise<string[]> {
+    const rows = this.db
+      .query("SELECT name FROM collections WHERE username = ? ORDER BY name")
+      .all(username) as { name: string }[];
+    return rows.map(row => row.name);
+  }
+
+  async loadCollection<T>(username: string, collection: string): Promise<T[]> {
+    const row = this.db
+      .query("SELECT data FROM collections WHERE username = ? AND name = ?")
+      .get(username, collection) as { data: string } | null;
+    return row ? JSON.parse(row.data) as T[] : [];
+  }
+
+  async saveCollection<T>(username: string, collection: string, items: T[]): Promise<void> {
+    this.db.query(`
+      INSERT INTO collections (username, name, data, updated_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT(username, name) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `).run(username, collection, JSON.stringify(items), new Date().toISOString());
+  }
+
+  async listAgentSessions(): Promise<AgentSession[]> {
+    const rows = this.db.query("SELECT data FROM agent_sessions ORDER BY created_at").all() as { data: string }[];
+    return rows.map(row => JSON.parse(row.data) as AgentSession);
+  }
+
+  async loadAgentSession(id: string): Promise<AgentSession | null> {
+    const row = this.db.query("SELECT data FROM agent_sessions WHERE id = ?").get(id) as { data: string } | null;
+    return row ? JSON.parse(row.data) as AgentSession : null;
+  }
+
+  async saveAgentSession(session: AgentSession): Promise<void> {
+    this.db.query(`
+      INSERT INTO agent_sessions (id, title, created_at, updated_at, data) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET title = excluded.title, updated_at = excluded.updated_at, data = excluded.data
+    `).run(session.id, session.title, session.createdAt, session.updatedAt, JSON.stringify(session));
+  }
+
+  async deleteAgentSession(id: string): Promise<boolean> {
+    return this.db.query("DELETE FROM agent_sessions WHERE id = ?").run(id).changes > 0;
+  }
+
+  async loadUsage(filter: UsageFilter = {}): Promise<UsageRecord[]> {
+    const conditions: string[] = [];
+    const values: string[] = [];
+    if (filter.username) {
+      conditions.push("username = ?");
+      values.push(filter.username);
+    }
+    if (filter.from) {
+      conditions.push("substr(created_at, 1, 10) >= ?");
+      values.push(filter.from);
+    }
+    if (filter.to) {
+      conditions.push("substr(created_at, 1, 10) <= ?");
+      values.push(filter.to);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db
+      .query(`SELECT data FROM usage ${where} ORDER BY created_at, rowid`)
+      .all(...values) as { data: string }[];
+    return rows.map(row => JSON.parse(row.data) as UsageRecord);
+  }
+
+  async addUsage(record: UsageRecord): Promise<void> {
+    this.db.query(`
+      INSERT OR IGNORE INTO usage (id, created_at, username, operation, model, prompt_tokens, completion_tokens, cost, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      record.id,
+      record.createdAt,
+      record.username ?? null,
+      record.operation,
+      record.model,
+      record.promptTokens,
+      record.completionTokens,
+      record.cost,
+      JSON.stringify(record)
+    );
+  }
+
+  async getStats(): Promise<DataStats> {
+    const { totalUsers, lastUpdated } = this.db
+      .query("SELECT COUNT(*) AS totalUsers, MAX(last_updated) AS lastUpdated FROM users")
+      .get() as { totalUsers: number; lastUpdated: string | null };
+
+    let totalSize = 0;
+    if (this.dbPath !== ":memory:") {
+      for (const file of [this.dbPath, `${this.dbPath}-wal`]) {
+        if (fs.existsSync(file)) {
+          totalSize += fs.statSync(file).size;
+        }
+      }
+    }
+
+    return {
+      totalUsers,
+      totalDataSize: Utils.formatBytes(totalSize),
+      lastUpdated: lastUpdated ?? undefined
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { config } from "../config";
+import { PostgeistAgent } from "../agent";
+import { AgentMemoryUtils } from "../utils/agent-memory";
+import type { AgentMessage, AgentStreamEvent } from "../types";
+
+function history(count: number): AgentMessage[] {
+  return Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? "user" : "assistant",
+    content: `Message ${i + 1}`,
+    createdAt: new Date(Date.UTC(2024, 0, 1, 0, i)).toISOString()
+  }));
+}
+
+describe("Agent memory", () => {
+  const originalModel = config.ai.models.agent;
+
+  beforeAll(() => {
+    config.ai.models.agent = "mock:mock-1";
+  });
+
+  afterAll(() => {
+    config.ai.models.agent = originalModel;
+  });
+
+  test("folds old turns into the summary and keeps pinned facts", async () => {
+    const memory = AgentMemoryUtils.empty();
+    AgentMemoryUtils.setTargetAccount(memory, "@writer");
+    AgentMemoryUtils.addApprovedIdea(memory, "Ship small, ship daily");
+
+    const agent = new PostgeistAgent(history(24), memory);
+    const events: AgentStreamEvent[] = [];
+    for await (const event of agent.chatEvents("What did we decide?")) {
+      events.push(event);
+    }
+    expect(events[events.length - 1]!.type).toBe("done");
+
+    const updated = agent.getMemory();
+    expect(updated.summarizedCount).toBe(14);
+    expect(updated.summary).not.toBe("");
+    expect(updated.updatedAt).toBeDefined();
+    expect(updated.pinned.targetAccount).toBe("writer");
+    expect(updated.pinned.approvedIdeas).toEqual(["Ship small, ship daily"]);
+  });
+
+  test("leaves short conversations alone", async () => {
+    const agent = new PostgeistAgent(history(4));
+    const events: AgentStreamEvent[] = [];
+    for await (const event of agent.chatEvents("Hello")) {
+      events.push(event);
+    }
+    expect(events[events.length - 1]!.type).toBe("done");
+    expect(agent.getMemory().summarizedCount).toBe(0);
+    expect(agent.getMemory().summary).toBe("");
+  });
+
+  test("renders pinned facts into the prompt and dedupes them", () => {
+    const memory = AgentMemoryUtils.empty();
+    expect(AgentMemoryUtils.toPrompt(memory)).toBe("");
+
+    expect(AgentMemoryUtils.addNote(memory, "Prefers lowercase posts")).toBe(true);
+    expect(AgentMemoryUtils.addNote(memory, " Prefers lowercase posts ")).toBe(false);
+    AgentMemoryUtils.setTargetAccount(memory, "writer");
+
+    const prompt = AgentMemoryUtils.toPrompt(memory);
+    expect(prompt).toContain("CONVERSATION MEMORY");
+    expect(prompt).toContain("@writer");
+    expect(prompt).toContain("- Prefers lowercase posts");
+    expect(memory.pinned.notes).toHaveLength(1);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, test, expect, beforeAll, afterAll, spyOn } from "bun:test";
+import type { LanguageModelV1CallOptions, LanguageModelV1StreamPart } from "ai";
+import { config } from "../config";
+import { modelRegistry } from "../providers";
+import { MockLanguageModel } from "../providers/mock";
+import { agentSessionService } from "../services/agent-sessions";
+import { DisplayUI } from "../ui/display";
+import type { AgentStreamEvent } from "../types";
+
+async function collect(events: AsyncIterable<AgentStreamEvent>): Promise<AgentStreamEvent[]> {
+  const collected: AgentStreamEvent[] = [];
+  for await (const event of events) {
+    collected.push(event);
+  }
+  return collected;
+}
+
+/**
+ * Mock model that asks for post ideas on its first call, then answers normally
+ */
+class ToolCallingLanguageModel extends MockLanguageModel {
+  private calls = 0;
+
+  override async doStream(options: LanguageModelV1CallOptions) {
+    if (this.calls++ > 0) {
+      return super.doStream(options);
+    }
+
+    const stream = new ReadableStream<LanguageModelV1StreamPart>({
+      start(controller) {
+        controller.enqueue({
+          type: "tool-call",
+          toolCallType: "function",
+          toolCallId: "mock-tool-call",
+          toolName: "generateFromPrompt",
+          args: JSON.stringify({ prompt: "pricing", count: 2 })
+        });
+        controller.enqueue({ type: "finish", finishReason: "tool-calls", usage: { promptTokens: 10, completionTokens: 10 } });
+        controller.close();
+      }
+    });
+    return { stream, rawCall: { rawPrompt: options.prompt, rawSettings: {} } };
+  }
+}
+
+describe("AgentSessionService", () => {
+  const originalModel = config.ai.models.agent;
+
+  beforeAll(() => {
+    config.ai.models.agent = "mock:mock-1";
+  });
+
+  afterAll(() => {
+    config.ai.models.agent = originalModel;
+  });
+
+  test("saves each turn and names the session after the first message", async () => {
+    const session = await agentSessionService.create();
+    expect(session.title).toBe("New chat");
+
+    const events = await collect(agentSessionService.send(session.id, "List the analyzed users"));
+    expect(events[events.length - 1]!.type).toBe("done");
+
+    await collect(agentSessionService.send(session.id, "Thanks"));
+
+    const saved = await agentSessionService.get(session.id);
+    expect(saved!.title).toBe("List the analyzed users");
+    expect(saved!.messages.map(message => message.role)).toEqual(["user", "assistant", "user", "assistant"]);
+    expect(saved!.messages[2]!.content).toBe("Thanks");
+
+    const [summary] = await agentSessionService.list();
+    expect(summary!.id).toBe(session.id);
+    expect(summary!.messageCount).toBe(4);
+  });
+
+  test("keeps explicit titles and deletes sessions", async () => {
+    const session = await agentSessionService.create("Launch planning");
+    await collect(agentSessionService.send(session.id, "Hello"));
+
+    expect((await agentSessionService.get(session.id))!.title).toBe("Launch planning");
+    expect(await agentSessionService.delete(session.id)).toBe(true);
+    expect(await agentSessionService.get(session.id)).toBeNull();
+    await expect(collect(agentSessionService.send(session.id, "Hello again"))).rejects.toThrow("not found");
+  });
+
+  test("runs tools without spinners or terminal output", async () => {
+    const originalGeneration = config.ai.models.generation;
+    config.ai.models.generation = "mock:mock-1";
+    modelRegistry.register("mock", modelId => modelId === "mock-1" ? new MockLanguageModel(modelId) : new ToolCallingLanguageModel(modelId));
+    config.ai.models.agent = "mock:tools";
+    const display = spyOn(DisplayUI, "showPostIdeas");
+    const stderr = spyOn(process.stderr, "write");
+
+    try {
+      const session = await agentSessionService.create();
+      const events = await collect(agentSessionService.send(session.id, "Write two posts about pricing"));
+
+      const result = events.find(event => event.type === "tool-result");
+      expect(result).toMatchObject({ toolName: "generateFromPrompt", result: { success: true, count: 2 } });
+      expect(display).not.toHaveBeenCalled();
+      expect(stderr).not.toHaveBeenCalled();
+    } finally {
+      display.mockRestore();
+      stderr.mockRestore();
+      config.ai.models.agent = "mock:mock-1";
+      config.ai.models.generation = originalGeneration;
+      modelRegistry.register("mock", modelId => new MockLanguageModel(modelId));
+    }
+  });
+});
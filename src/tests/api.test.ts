@@ -0,0 +1,51 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import type { Server } from "bun";
+import { config } from "../config";
+import { MockLanguageModel } from "../providers/mock";
+import { dataService } from "../services/data";
+
+describe("API", () => {
+  let server: Server;
+
+  const post = (path: string, body: unknown) => fetch(new URL(path, server.url), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+
+  beforeAll(async () => {
+    // Any free port, and no scheduler ticking in the background
+    process.env.PORT = "0";
+    config.app.schedulerEnabled = false;
+    ({ server } = await import("../../api"));
+
+    for (const username of ["comparedone", "comparedtwo"]) {
+      await dataService.saveUserData({
+        username,
+        posts: [{ id: "1", text: "Ship small, ship often.", timestamp: 1700000000 }],
+        analysis: username === "comparedone" ? MockLanguageModel.sampleAnalysis() : undefined,
+        lastUpdated: new Date().toISOString()
+      });
+    }
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("POST /api/compare - rejects accounts that can't be compared with 400", async () => {
+    const single = await post("/api/compare", { usernames: ["comparedone"] });
+    expect(single.status).toBe(400);
+    expect((await single.json()).error).toContain("at least two");
+
+    const unanalyzed = await post("/api/compare", { usernames: ["comparedone", "comparedtwo"], narrative: false });
+    expect(unanalyzed.status).toBe(400);
+    expect((await unanalyzed.json()).error).toContain("@comparedtwo");
+  });
+
+  test("POST /api/compare - answers 404 for unknown accounts", async () => {
+    const response = await post("/api/compare", { usernames: ["comparedone", "nobodyhere"] });
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe("User not found: @nobodyhere");
+  });
+});
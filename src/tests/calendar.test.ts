@@ -0,0 +1,95 @@
+import { describe, test, expect } from "bun:test";
+import { CalendarUtils, DEFAULT_SLOT_TIME } from "../utils/calendar";
+import { calendarService } from "../services/calendar";
+import { ideaService } from "../services/ideas";
+import type { StoredIdea, TwitterPost } from "../types";
+
+// Local time, like the calendar itself
+function postAt(year: number, month: number, day: number, hour: number): TwitterPost {
+  return { text: "A post", timestamp: new Date(year, month - 1, day, hour, 15).getTime() / 1000 };
+}
+
+describe("CalendarUtils", () => {
+  test("builds date ranges across month ends", () => {
+    expect(CalendarUtils.dateRange("2024-01-30", 4)).toEqual(["2024-01-30", "2024-01-31", "2024-02-01", "2024-02-02"]);
+  });
+
+  test("validates and normalizes slots", () => {
+    expect(CalendarUtils.validateSlot({ date: "2024-03-18", time: "9:05" })).toEqual({ date: "2024-03-18", time: "09:05" });
+    expect(() => CalendarUtils.validateSlot({ date: "2024-02-30", time: "09:00" })).toThrow("Invalid date");
+    expect(() => CalendarUtils.validateSlot({ date: "2024-03-18", time: "24:00" })).toThrow("Invalid time");
+  });
+
+  test("suggests the busiest hour per weekday, then overall, then the default", () => {
+    // 2024-03-18 and 2024-03-25 are Mondays, 2024-03-19 is a Tuesday
+    const posts = [
+      postAt(2024, 3, 18, 8),
+      postAt(2024, 3, 25, 8),
+      postAt(2024, 3, 18, 17),
+      postAt(2024, 3, 20, 17),
+      postAt(2024, 3, 21, 17),
+      { text: "RT @someone: not theirs", timestamp: postAt(2024, 3, 19, 6).timestamp, isRetweet: true }
+    ];
+
+    const [monday, tuesday] = CalendarUtils.suggestSlots(posts, ["2024-04-01", "2024-04-02"]);
+    expect(monday).toEqual({ date: "2024-04-01", time: "08:00", postCount: 2, basis: "weekday" });
+    expect(tuesday).toEqual({ date: "2024-04-02", time: "17:00", postCount: 3, basis: "overall" });
+
+    expect(CalendarUtils.suggestSlots([], ["2024-04-01"])[0]).toEqual({
+      date: "2024-04-01", time: DEFAULT_SLOT_TIME, postCount: 0, basis: "default"
+    });
+    expect(CalendarUtils.preferredTimes(posts, 2)).toEqual(["17:00", "08:00"]);
+  });
+
+  test("exports scheduled ideas as escaped, folded iCalendar events", () => {
+    const idea: StoredIdea = {
+      id: "idea-1",
+      text: "Shipping beats planning; every time, no exceptions.\nHere is why, in detail, with a very long explanation attached",
+      community: null,
+      source: "batch",
+      model: "mock:mock-1",
+      status: "starred",
+      createdAt: "2024-03-01T00:00:00.000Z",
+      scheduledFor: { date: "2024-03-18", time: "09:30" }
+    };
+
+    const ics = CalendarUtils.toICS("writer", [idea, { ...idea, id: "idea-2", scheduledFor: undefined }], new Date("2024-03-01T12:00:00Z"));
+    const lines = ics.split("\r\n");
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(lines).toContain("DTSTART:20240318T093000");
+    expect(lines).toContain("DTSTAMP:20240301T120000Z");
+    expect(lines).toContain("UID:idea-1@postgeist");
+    expect(ics).not.toContain("idea-2");
+    expect(ics).toContain("Shipping beats planning\\; every time\\, no exceptions.\\nHere");
+    expect(lines.every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(lines.some(line => line.startsWith(" "))).toBe(true);
+  });
+});
+
+describe("CalendarService", () => {
+  const username = "calendaruser";
+
+  test("schedules approved ideas, reports gaps and frees rejected slots", async () => {
+    const [first, second] = await ideaService.record(username, [
+      { text: "First idea", community: null },
+      { text: "Second idea", community: null }
+    ], { source: "batch", model: "mock:mock-1" });
+    await ideaService.updateStatus(username, second!.id!, "starred");
+
+    const scheduled = await calendarService.schedule(username, first!.id!, { date: "2024-03-19", time: "10:00" });
+    expect(scheduled.status).toBe("starred");
+
+    const calendar = await calendarService.get(username, "2024-03-18", 3);
+    expect(calendar.to).toBe("2024-03-20");
+    expect(calendar.entries.map(idea => idea.id)).toEqual([first!.id!]);
+    expect(calendar.unscheduled.map(idea => idea.id)).toEqual([second!.id!]);
+    expect(calendar.gaps).toEqual(["2024-03-18", "2024-03-20"]);
+    expect(calendar.suggestions.map(slot => slot.date)).toEqual(calendar.gaps);
+
+    await ideaService.updateStatus(username, first!.id!, "rejected");
+    expect((await calendarService.get(username, "2024-03-18", 3)).entries).toEqual([]);
+    await expect(calendarService.schedule(username, first!.id!, { date: "2024-03-19", time: "10:00" })).rejects.toThrow("rejected");
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import type { LanguageModelV1CallOptions } from "ai";
+import { config } from "../config";
+import { modelRegistry } from "../providers";
+import { MockLanguageModel } from "../providers/mock";
+import { aiService } from "../services/ai";
+import { dataService } from "../services/data";
+import type { TwitterPost } from "../types";
+
+/**
+ * Mock model that keeps every prompt and can fail one call, like a dropped connection
+ */
+class RecordingLanguageModel extends MockLanguageModel {
+  prompts: string[] = [];
+
+  constructor(private failOnCall?: number) {
+    super("recording");
+  }
+
+  override async doGenerate(options: LanguageModelV1CallOptions) {
+    this.prompts.push(JSON.stringify(options.prompt));
+    if (this.prompts.length === this.failOnCall) {
+      throw new Error("Connection reset");
+    }
+    return super.doGenerate(options);
+  }
+}
+
+// Newest first, one post a day
+const posts: TwitterPost[] = Array.from({ length: 7 }, (_, index) => ({
+  id: `${7 - index}`,
+  text: `Post number ${7 - index} about shipping`,
+  timestamp: Date.UTC(2024, 0, 7 - index) / 1000
+}));
+
+describe("AIService chunked analysis", () => {
+  const original = { model: config.ai.models.analysis, chunkSize: config.app.analysisChunkSize };
+
+  beforeAll(() => {
+    config.ai.models.analysis = "mock:recording";
+    config.app.analysisChunkSize = 3;
+  });
+
+  afterAll(() => {
+    config.ai.models.analysis = original.model;
+    config.app.analysisChunkSize = original.chunkSize;
+    modelRegistry.register("mock", modelId => new MockLanguageModel(modelId));
+  });
+
+  test("analyzes periods oldest first and merges them", async () => {
+    const model = new RecordingLanguageModel();
+    modelRegistry.register("mock", () => model);
+    const progress: string[] = [];
+
+    const analysis = await aiService.analyzeUser("chunkuser", posts, (completed, chunks) => progress.push(`${completed}/${chunks}`));
+
+    expect(analysis.key_themes.length).toBeGreaterThan(0);
+    expect(progress).toEqual(["1/3", "2/3", "3/3"]);
+    expect(model.prompts).toHaveLength(4);
+    expect(model.prompts[0]).toContain("period 1 of 3 (2024-01-01 to 2024-01-03, 3 posts)");
+    expect(model.prompts[2]).toContain("period 3 of 3 (2024-01-07 to 2024-01-07, 1 post)");
+    expect(model.prompts[3]).toContain("PERIOD 3 OF 3");
+    expect(await dataService.getCollection("chunkuser", "analysis-chunks")).toEqual([]);
+  });
+
+  test("resumes from the last finished period after a failure", async () => {
+    const failing = new RecordingLanguageModel(2);
+    modelRegistry.register("mock", () => failing);
+    await expect(aiService.analyzeUser("resumeuser", posts)).rejects.toThrow("Connection reset");
+    expect(await dataService.getCollection("resumeuser", "analysis-chunks")).toHaveLength(1);
+
+    const model = new RecordingLanguageModel();
+    modelRegistry.register("mock", () => model);
+    const progress: string[] = [];
+    await aiService.analyzeUser("resumeuser", posts, (completed, chunks) => progress.push(`${completed}/${chunks}`));
+
+    // Period 1 comes from the checkpoint; periods 2 and 3 and the merge are new requests
+    expect(model.prompts).toHaveLength(3);
+    expect(model.prompts[0]).toContain("period 2 of 3");
+    expect(progress).toEqual(["1/3", "2/3", "3/3"]);
+    expect(await dataService.getCollection("resumeuser", "analysis-chunks")).toEqual([]);
+  });
+
+  test("keeps small analyses to a single request", async () => {
+    const model = new RecordingLanguageModel();
+    modelRegistry.register("mock", () => model);
+
+    await aiService.analyzeUser("smalluser", posts.slice(0, 3));
+    expect(model.prompts).toHaveLength(1);
+    expect(model.prompts[0]).not.toContain("period");
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { config } from "../config";
+import { MockLanguageModel } from "../providers/mock";
+import { AccountComparer } from "../analytics/compare";
+import { aiService } from "../services/ai";
+import type { Analysis, TwitterPost, UserData } from "../types";
+
+const DAY = 24 * 3600;
+
+function user(username: string, keyThemes: string[], posts: TwitterPost[]): UserData {
+  const analysis: Analysis = { ...MockLanguageModel.sampleAnalysis(), key_themes: keyThemes, thematic_analysis: [] };
+  return { username, posts, analysis, lastUpdated: new Date().toISOString() };
+}
+
+describe("AccountComparer", () => {
+  const daily = user("daily", ["Shipping small releases", "Hiring engineers"], [
+    { text: "Ship it?", timestamp: 0, metrics: { likes: 10, retweets: 0, replies: 0 }, hashtags: ["ship"] },
+    { text: "@someone agreed", timestamp: DAY, isReply: true, metrics: { likes: 2, retweets: 0, replies: 0 } },
+    { text: "Read this https://example.com", timestamp: 2 * DAY, urls: ["https://example.com"], hashtags: ["Ship"] },
+    { text: "RT @other: not mine", timestamp: 3 * DAY, isRetweet: true }
+  ]);
+  const weekly = user("weekly", ["Shipping small releases weekly", "Pricing experiments"], [
+    { text: "Pricing lesson", timestamp: 0 },
+    { text: "Another pricing lesson", timestamp: 14 * DAY }
+  ]);
+
+  test("measures cadence, formats and engagement on the account's own posts", () => {
+    const metrics = AccountComparer.metrics(daily.posts);
+
+    expect(metrics.posts).toBe(3);
+    expect(metrics.reposts).toBe(1);
+    expect(metrics.postsPerWeek).toBe(3);
+    expect(metrics.medianHoursBetweenPosts).toBe(24);
+    expect(metrics.formatMix.replies).toBe(0.33);
+    expect(metrics.formatMix.links).toBe(0.33);
+    expect(metrics.formatMix.questions).toBe(0.33);
+    expect(metrics.topHashtags).toEqual(["#ship"]);
+    expect(metrics.medianEngagement).toBe(6);
+    expect(metrics.engagementPerView).toBe(false);
+
+    expect(AccountComparer.metrics(weekly.posts).postsPerWeek).toBe(1);
+    expect(AccountComparer.metrics(weekly.posts).medianEngagement).toBeNull();
+  });
+
+  test("splits themes into shared and exclusive ones", () => {
+    const comparison = AccountComparer.compare([daily, weekly]);
+
+    expect(comparison.sharedThemes).toEqual(["Shipping small releases"]);
+    expect(comparison.accounts[0]!.exclusiveThemes).toEqual(["Hiring engineers"]);
+    expect(comparison.accounts[1]!.exclusiveThemes).toEqual(["Pricing experiments"]);
+  });
+
+  test("needs two analyzed accounts", () => {
+    expect(() => AccountComparer.compare([daily])).toThrow("At least two accounts");
+    expect(() => AccountComparer.compare([daily, { ...weekly, analysis: undefined }])).toThrow("@weekly");
+  });
+});
+
+describe("AIService.compareAccounts", () => {
+  const originalModel = config.ai.models.analysis;
+
+  beforeAll(() => {
+    config.ai.models.analysis = "mock:mock-1";
+  });
+
+  afterAll(() => {
+    config.ai.models.analysis = originalModel;
+  });
+
+  test("writes one entry per account, in the order given", async () => {
+    const comparison = AccountComparer.compare([
+      user("first", ["Shipping"], [{ text: "One", timestamp: 0 }]),
+      user("second", ["Pricing"], [{ text: "Two", timestamp: 0 }]),
+      user("third", ["Hiring"], [{ text: "Three", timestamp: 0 }])
+    ]);
+
+    const narrative = await aiService.compareAccounts(comparison);
+    expect(narrative.overview.length).toBeGreaterThan(0);
+    expect(narrative.accounts.map(account => account.username)).toEqual(["first", "second", "third"]);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, test, expect } from "bun:test";
+import { ConfirmationService } from "../services/confirmations";
+
+describe("ConfirmationService", () => {
+  test("only accepts a token in a later turn, once", () => {
+    const confirmations = new ConfirmationService();
+    const token = confirmations.request("deleteUser", "writer", "turn-1");
+
+    expect(confirmations.confirm(token, "deleteUser", "writer", "turn-1")).toBe("same-turn");
+    expect(confirmations.confirm(token, "deleteUser", "writer", "turn-2")).toBe("confirmed");
+    expect(confirmations.confirm(token, "deleteUser", "writer", "turn-3")).toBe("invalid");
+  });
+
+  test("rejects tokens issued for another action or target", () => {
+    const confirmations = new ConfirmationService();
+    const token = confirmations.request("deleteIdea", "writer/idea-1", "turn-1");
+
+    expect(confirmations.confirm(token, "deleteIdea", "writer/idea-2", "turn-2")).toBe("invalid");
+    expect(confirmations.confirm(token, "deleteUser", "writer/idea-1", "turn-2")).toBe("invalid");
+    expect(confirmations.confirm("made-up", "deleteIdea", "writer/idea-1", "turn-2")).toBe("invalid");
+    expect(confirmations.confirm(token, "deleteIdea", "writer/idea-1", "turn-2")).toBe("confirmed");
+  });
+});
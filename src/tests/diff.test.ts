@@ -0,0 +1,65 @@
+import { describe, test, expect } from "bun:test";
+import { AnalysisDiffer } from "../analytics/diff";
+import type { Analysis, AnalysisSnapshot } from "../types";
+
+const baseAnalysis: Analysis = {
+  summary: "Summary",
+  key_themes: ["Startup fundraising advice", "Remote team management"],
+  engagement_patterns: ["Asks open questions at the end of posts"],
+  unique_behaviors: [],
+  opportunities: ["Weekly founder Q&A threads"],
+  tone: "Dry and direct. Uses short sentences."
+};
+
+const snapshot = (id: string, analysis: Analysis): AnalysisSnapshot => ({
+  id,
+  createdAt: `2024-0${id}-01T00:00:00.000Z`,
+  model: "mock:mock-1",
+  postWindow: { count: 10 },
+  analysis
+});
+
+describe("AnalysisDiffer", () => {
+  test("similarity - should ignore case and filler words", () => {
+    expect(AnalysisDiffer.similarity("Startup fundraising advice", "startup FUNDRAISING advice")).toBe(1);
+    expect(AnalysisDiffer.similarity("Startup fundraising advice", "Cooking recipes")).toBe(0);
+  });
+
+  test("diff - should report themes, tone and opportunities that appeared or disappeared", () => {
+    const from = snapshot("1", baseAnalysis);
+    const to = snapshot("2", {
+      ...baseAnalysis,
+      key_themes: ["Advice on startup fundraising", "AI tooling for developers"],
+      opportunities: ["Weekly founder Q&A threads", "Short video explainers"],
+      tone: "Dry and direct. Increasingly playful with memes."
+    });
+
+    const diff = AnalysisDiffer.diff(from, to);
+    const field = (name: string) => diff.fields.find(candidate => candidate.field === name);
+
+    expect(diff.from.id).toBe("1");
+    expect(diff.to.id).toBe("2");
+    expect(diff.from).not.toHaveProperty("analysis");
+
+    expect(field("key_themes")).toEqual({
+      field: "key_themes",
+      label: "Key Themes",
+      added: ["AI tooling for developers"],
+      removed: ["Remote team management"],
+      unchanged: 1
+    });
+    expect(field("opportunities")?.added).toEqual(["Short video explainers"]);
+    expect(field("opportunities")?.removed).toEqual([]);
+    expect(field("tone")?.added).toEqual(["Increasingly playful with memes."]);
+    expect(field("tone")?.removed).toEqual(["Uses short sentences."]);
+    expect(field("engagement_patterns")).toBeUndefined();
+    expect(diff.toneSimilarity).toBeLessThan(1);
+  });
+
+  test("diff - should report no fields when nothing changed", () => {
+    const diff = AnalysisDiffer.diff(snapshot("1", baseAnalysis), snapshot("2", baseAnalysis));
+
+    expect(diff.fields).toEqual([]);
+    expect(diff.toneSimilarity).toBe(1);
+  });
+});
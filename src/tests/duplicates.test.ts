@@ -0,0 +1,78 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { config } from "../config";
+import { MockLanguageModel } from "../providers/mock";
+import { aiService } from "../services/ai";
+import { ideaService } from "../services/ideas";
+import { DuplicateDetector, DUPLICATE_THRESHOLD } from "../analytics/duplicates";
+import type { PostIdea, TwitterPost, UserData } from "../types";
+
+const idea = (text: string, id?: string): PostIdea => ({ id, text, community: null });
+
+describe("DuplicateDetector", () => {
+  test("estimates shingle overlap, ignoring case, punctuation and links", () => {
+    const original = "Shipping small experiments every week beats planning one big launch every quarter.";
+
+    expect(DuplicateDetector.similarity(original, original)).toBe(1);
+    expect(DuplicateDetector.similarity(original, `${original.toUpperCase()}!! https://example.com/post`)).toBe(1);
+    expect(DuplicateDetector.similarity(original, "Shipping small experiments every week beats planning a big launch each quarter"))
+      .toBeGreaterThanOrEqual(DUPLICATE_THRESHOLD);
+    expect(DuplicateDetector.similarity(original, "Most roadmaps are wishlists with dates attached.")).toBeLessThan(0.2);
+  });
+
+  test("flags copies of posts, earlier ideas and the rest of the batch", () => {
+    const posts: TwitterPost[] = [
+      { text: "Boring technology keeps paying rent, year after year." },
+      { text: "Hot take about frameworks nobody asked for", isRetweet: true }
+    ];
+    const previous = [idea("Deleted a thousand lines today and nothing broke at all.", "old-1")];
+
+    const flagged = DuplicateDetector.flag([
+      idea("Boring technology keeps paying the rent, year after year"),
+      idea("Deleted a thousand lines today and nothing broke."),
+      idea("Every feature flag is a promise to clean up later."),
+      idea("Every feature flag is a promise to clean up later!"),
+      idea("Hot take about frameworks nobody asked for")
+    ], posts, previous);
+
+    expect(flagged[0]!.duplicateOf?.source).toBe("post");
+    expect(flagged[1]!.duplicateOf).toMatchObject({ source: "idea", id: "old-1" });
+    expect(flagged[2]!.duplicateOf).toBeUndefined();
+    expect(flagged[3]!.duplicateOf).toMatchObject({ source: "batch", text: "Every feature flag is a promise to clean up later." });
+    // Reposts aren't the user's words
+    expect(flagged[4]!.duplicateOf).toBeUndefined();
+  });
+});
+
+describe("AIService near-duplicates", () => {
+  const originalModel = config.ai.models.generation;
+
+  beforeAll(() => {
+    config.ai.models.generation = "mock:mock-1";
+  });
+
+  afterAll(() => {
+    config.ai.models.generation = originalModel;
+  });
+
+  test("marks ideas that repeat an earlier session when a retry can't avoid them", async () => {
+    const userData: UserData = {
+      username: "duplicateuser",
+      posts: [{ text: "Most roadmaps are wishlists with dates attached." }],
+      analysis: MockLanguageModel.sampleAnalysis(),
+      lastUpdated: new Date().toISOString()
+    };
+
+    const first = await aiService.generatePostIdeas(userData, 2);
+    expect(first.every(generated => !generated.duplicateOf)).toBe(true);
+
+    // The mock writes the same posts again, even when told they were rejected
+    const second = await aiService.generatePostIdeas(userData, 2);
+    expect(second).toHaveLength(2);
+    for (const generated of second) {
+      expect(generated.duplicateOf?.source).toBe("idea");
+      expect(first.map(earlier => earlier.id)).toContain(generated.duplicateOf!.id);
+      expect(generated.quality!.issues.some(issue => issue.startsWith("Close to an earlier idea"))).toBe(true);
+    }
+    expect(await ideaService.list(userData.username)).toHaveLength(4);
+  });
+});
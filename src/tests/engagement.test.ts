@@ -0,0 +1,49 @@
+import { describe, test, expect } from "bun:test";
+import { EngagementAnalytics } from "../analytics/engagement";
+import type { TwitterPost } from "../types";
+
+const post = (text: string, likes: number, views?: number, isRetweet = false): TwitterPost => ({
+  text,
+  isRetweet,
+  metrics: { likes, retweets: 0, replies: 0, views }
+});
+
+describe("EngagementAnalytics", () => {
+  test("rank - should score posts relative to the median and skip reposts", () => {
+    const { ranked, medianEngagement } = EngagementAnalytics.rank([
+      post("low", 1),
+      post("mid", 10),
+      post("high", 100),
+      post("someone else's", 5000, undefined, true)
+    ]);
+
+    expect(medianEngagement).toBe(10);
+    expect(ranked.map(entry => entry.post.text)).toEqual(["high", "mid", "low"]);
+    expect(ranked[0]!.score).toBe(10);
+  });
+
+  test("rank - should measure per view when every post has views", () => {
+    const { ranked, usesViews } = EngagementAnalytics.rank([
+      post("viral but weak", 100, 100000),
+      post("small but strong", 50, 500)
+    ]);
+
+    expect(usesViews).toBe(true);
+    expect(ranked[0]!.post.text).toBe("small but strong");
+  });
+
+  test("split - should contrast top and bottom performers", () => {
+    const posts = Array.from({ length: 10 }, (_, index) => post(`post ${index}`, index));
+    const { top, bottom } = EngagementAnalytics.split(posts, 0.2);
+
+    expect(top.map(entry => entry.post.text)).toEqual(["post 9", "post 8"]);
+    expect(bottom.map(entry => entry.post.text)).toEqual(["post 0", "post 1"]);
+  });
+
+  test("split - should skip the contrast for legacy posts without metrics", () => {
+    const { top, bottom } = EngagementAnalytics.split([{ text: "a" }, { text: "b" }, { text: "c" }, { text: "d" }]);
+
+    expect(top).toHaveLength(0);
+    expect(bottom).toHaveLength(0);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, test, expect } from "bun:test";
+import { ideaService } from "../services/ideas";
+import type { IdeaStatus } from "../types";
+
+describe("IdeaService", () => {
+  const username = "libraryuser";
+
+  test("records ideas with ids and lists them newest first", async () => {
+    const first = await ideaService.record(username, [{ text: "First idea", community: null }], {
+      source: "batch",
+      model: "mock:mock-1"
+    });
+    const second = await ideaService.record(username, [{ text: "Pricing thoughts", community: "Tech" }], {
+      source: "prompt",
+      model: "mock:mock-1",
+      prompt: "pricing"
+    });
+
+    expect(first[0]!.id).toBeDefined();
+    expect(second[0]!.id).not.toBe(first[0]!.id);
+
+    const ideas = await ideaService.list(username);
+    expect(ideas.map(idea => idea.text)).toEqual(["Pricing thoughts", "First idea"]);
+    expect(ideas[0]!.status).toBe("new");
+    expect(ideas[0]!.prompt).toBe("pricing");
+  });
+
+  test("filters by source and search text", async () => {
+    expect((await ideaService.list(username, { source: "batch" })).map(idea => idea.text)).toEqual(["First idea"]);
+    expect((await ideaService.list(username, { search: "PRICING" })).length).toBe(1);
+    expect((await ideaService.list(username, { search: "missing" })).length).toBe(0);
+  });
+
+  test("updates status and counts", async () => {
+    const [idea] = await ideaService.list(username, { search: "first" });
+    const updated = await ideaService.updateStatus(username, idea!.id, "starred");
+
+    expect(updated.status).toBe("starred");
+    expect(updated.updatedAt).toBeDefined();
+    expect(await ideaService.getStatusCounts(username)).toEqual({ new: 1, starred: 1, used: 0, rejected: 0 });
+    expect((await ideaService.list(username, { status: "starred" })).length).toBe(1);
+  });
+
+  test("rejects unknown statuses and missing ideas", async () => {
+    const [idea] = await ideaService.list(username);
+    await expect(ideaService.updateStatus(username, idea!.id, "archived" as IdeaStatus)).rejects.toThrow("Invalid idea status");
+    await expect(ideaService.updateStatus(username, "nope", "used")).rejects.toThrow("not found");
+  });
+
+  test("deletes ideas", async () => {
+    const [idea] = await ideaService.list(username);
+
+    expect(await ideaService.delete(username, idea!.id)).toBe(true);
+    expect(await ideaService.delete(username, idea!.id)).toBe(false);
+    expect((await ideaService.list(username)).length).toBe(1);
+  });
+
+  test("keeps every change when edits to the library overlap", async () => {
+    const [idea] = await ideaService.list(username);
+
+    await Promise.all([
+      ideaService.record(username, [{ text: "Queued idea", community: null }], { source: "batch", model: "mock:mock-1" }),
+      ideaService.schedule(username, idea!.id, { date: "2024-06-03", time: "09:00" }),
+      ideaService.record(username, [{ text: "Agent idea", community: null }], { source: "prompt", model: "mock:mock-1" })
+    ]);
+
+    const ideas = await ideaService.list(username);
+    expect(ideas.map(stored => stored.text).sort()).toEqual(["Agent idea", idea!.text, "Queued idea"].sort());
+    expect(ideas.find(stored => stored.id === idea!.id)!.scheduledFor).toEqual({ date: "2024-06-03", time: "09:00" });
+  });
+
+  test("keeps concurrent records and status changes, even after a failed write", async () => {
+    const user = "busylibraryuser";
+    const origin = { source: "batch" as const, model: "mock:mock-1" };
+    const [first, second] = await ideaService.record(user, [
+      { text: "Starred later", community: null },
+      { text: "Rejected later", community: null }
+    ], origin);
+
+    const results = await Promise.allSettled([
+      ideaService.record(user, [{ text: "Batch one", community: null }], origin),
+      ideaService.updateStatus(user, first!.id!, "starred"),
+      ideaService.updateStatus(user, "missing", "used"),
+      ideaService.record(user, [{ text: "Batch two", community: null }], origin),
+      ideaService.updateStatus(user, second!.id!, "rejected"),
+      ideaService.record(user, [{ text: "Batch three", community: null }], origin)
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(["fulfilled", "fulfilled", "rejected", "fulfilled", "fulfilled", "fulfilled"]);
+    expect((await ideaService.list(user)).map(idea => idea.text).sort())
+      .toEqual(["Batch one", "Batch three", "Batch two", "Rejected later", "Starred later"]);
+    expect(await ideaService.getStatusCounts(user)).toEqual({ new: 3, starred: 1, used: 0, rejected: 1 });
+  });
+});
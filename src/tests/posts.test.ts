@@ -0,0 +1,98 @@
+import { describe, test, expect } from "bun:test";
+import type { Tweet } from "@the-convocation/twitter-scraper";
+import { PostUtils, POST_SCHEMA_VERSION } from "../utils/posts";
+import type { TwitterPost } from "../types";
+
+describe("PostUtils", () => {
+  test("fromTweet - should keep ids, timestamps, metrics and flags", () => {
+    const tweet = {
+      id: "123",
+      text: "Shipping today #buildinpublic",
+      timestamp: 1700000000,
+      likes: 42,
+      retweets: 3,
+      replies: 5,
+      views: 1000,
+      isReply: false,
+      isRetweet: false,
+      isQuoted: true,
+      hashtags: ["buildinpublic"],
+      mentions: [{ id: "1", username: "friend" }],
+      urls: ["https://example.com"],
+      photos: [],
+      videos: [],
+      thread: []
+    } as Tweet;
+
+    const post = PostUtils.fromTweet(tweet);
+
+    expect(post.schemaVersion).toBe(POST_SCHEMA_VERSION);
+    expect(post.id).toBe("123");
+    expect(post.createdAt).toBe(new Date(1700000000 * 1000).toISOString());
+    expect(post.metrics).toEqual({ likes: 42, retweets: 3, replies: 5, views: 1000, bookmarks: undefined });
+    expect(post.isQuote).toBe(true);
+    expect(post.mentions).toEqual(["friend"]);
+  });
+
+  test("migrate - should upgrade legacy posts from their text", () => {
+    const post = PostUtils.migrate({ text: "@someone great point #dev https://example.com" });
+
+    expect(post.schemaVersion).toBe(POST_SCHEMA_VERSION);
+    expect(post.isReply).toBe(true);
+    expect(post.hashtags).toEqual(["dev"]);
+    expect(post.mentions).toEqual(["someone"]);
+    expect(post.urls).toEqual(["https://example.com"]);
+    expect(PostUtils.needsMigration([post])).toBe(false);
+  });
+
+  test("migrate - should keep engagement from legacy scraper tweets", () => {
+    // Stored as the scraper returned it, before posts had a schema version
+    const legacy = {
+      id: "1712345678901234567",
+      conversationId: "1712345678901234567",
+      text: "Quoting this because it is spot on @friend #startups",
+      html: "Quoting this because it is spot on <a href=\"https://twitter.com/friend\">@friend</a>",
+      timestamp: 1700000000,
+      permanentUrl: "https://twitter.com/someone/status/1712345678901234567",
+      username: "someone",
+      userId: "42",
+      likes: 50,
+      retweets: 4,
+      replies: 7,
+      views: 2300,
+      bookmarkCount: 2,
+      isQuoted: true,
+      isReply: false,
+      isRetweet: false,
+      isPin: false,
+      isSelfThread: false,
+      sensitiveContent: false,
+      quotedStatusId: "1700000000000000000",
+      hashtags: ["startups"],
+      mentions: [{ id: "99", username: "friend", name: "A Friend" }],
+      urls: [],
+      photos: [],
+      videos: [],
+      thread: []
+    } satisfies Tweet;
+
+    const post = PostUtils.migrate(legacy as unknown as TwitterPost);
+
+    expect(post.metrics).toEqual({ likes: 50, retweets: 4, replies: 7, views: 2300, bookmarks: 2 });
+    expect(post.isQuote).toBe(true);
+    expect(post.mentions).toEqual(["friend"]);
+    expect(post.hashtags).toEqual(["startups"]);
+    expect(post.createdAt).toBe("2023-11-14T22:13:20.000Z");
+    expect(post).not.toHaveProperty("likes");
+  });
+
+  test("formatForPrompt - should include publish time and metrics", () => {
+    const line = PostUtils.formatForPrompt({
+      text: "Hello",
+      timestamp: 1700000000,
+      metrics: { likes: 1, retweets: 2, replies: 3 }
+    }, 0);
+
+    expect(line).toBe("1. [Tue 2023-11-14 22:13 UTC | 1 likes, 2 reposts, 3 replies] Hello");
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, test, expect, beforeAll } from "bun:test";
+import { generateText } from "ai";
+import { config } from "../config";
+import { modelRegistry } from "../providers";
+import { aiService } from "../services/ai";
+import type { UserData } from "../types";
+
+describe("ModelRegistry", () => {
+  beforeAll(() => {
+    Object.assign(config.ai.models, {
+      analysis: "mock:mock-analysis",
+      generation: "mock:mock-generation",
+      agent: "mock:mock-agent"
+    });
+  });
+
+  test("parseSpec - should split provider and model", () => {
+    expect(modelRegistry.parseSpec("openai:gpt-4o-mini")).toEqual({ provider: "openai", modelId: "gpt-4o-mini" });
+    expect(modelRegistry.parseSpec("ollama:")).toEqual({ provider: "ollama", modelId: "llama3.1" });
+    expect(modelRegistry.parseSpec("some-model").modelId).toBe("some-model");
+  });
+
+  test("parseSpec - should keep Ollama tags on the default provider", () => {
+    const originalProvider = config.ai.provider;
+    config.ai.provider = "ollama";
+    try {
+      expect(modelRegistry.parseSpec("llama3.1:8b")).toEqual({ provider: "ollama", modelId: "llama3.1:8b" });
+      expect(modelRegistry.parseSpec("ollama:llama3.1:8b")).toEqual({ provider: "ollama", modelId: "llama3.1:8b" });
+      expect(modelRegistry.resolve("llama3.1:8b").modelId).toBe("llama3.1:8b");
+    } finally {
+      config.ai.provider = originalProvider;
+    }
+  });
+
+  test("resolve - should reject unknown providers", () => {
+    const originalProvider = config.ai.provider;
+    config.ai.provider = "nope" as typeof config.ai.provider;
+    try {
+      expect(() => modelRegistry.resolve("some-model")).toThrow(/Unknown AI provider/);
+    } finally {
+      config.ai.provider = originalProvider;
+    }
+  });
+
+  test("getModel - should resolve per-task models", () => {
+    expect(modelRegistry.getModel("analysis").modelId).toBe("mock-analysis");
+    expect(modelRegistry.describe("agent")).toBe("mock:mock-agent");
+  });
+
+  test("mock provider - should answer plain prompts offline", async () => {
+    const result = await generateText({ model: modelRegistry.getModel("agent"), prompt: "Hello there" });
+    expect(result.text).toContain("Hello there");
+  });
+
+  test("pipeline - should analyze and generate ideas with the mock provider", async () => {
+    const posts = [{ text: "Shipping is a habit" }, { text: "Small teams move fast" }];
+    const analysis = await aiService.analyzeUser("mockuser", posts);
+
+    expect(analysis.summary).toBeTruthy();
+    expect(analysis.key_themes.length).toBeGreaterThan(0);
+
+    const userData: UserData = {
+      username: "mockuser",
+      posts,
+      analysis,
+      lastUpdated: new Date().toISOString()
+    };
+
+    const ideas = await aiService.generatePostIdeas(userData, 4);
+    expect(ideas).toHaveLength(4);
+    expect(new Set(ideas.map(idea => idea.text)).size).toBe(4);
+  });
+});
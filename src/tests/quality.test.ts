@@ -0,0 +1,95 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { config } from "../config";
+import { MockLanguageModel } from "../providers/mock";
+import { aiService } from "../services/ai";
+import { IdeaScorer } from "../analytics/quality";
+import { StyleAnalytics } from "../analytics/style";
+import type { PostIdea, TwitterPost, UserData } from "../types";
+
+const posts: TwitterPost[] = [
+  { text: "Shipping small experiments every week beats planning one big launch every quarter." },
+  { text: "We grew signups 40% after cutting the onboarding to one screen." },
+  { text: "Boring technology keeps paying rent." },
+  { text: "Deleted a thousand lines today and nothing broke." },
+  { text: "Most roadmaps are wishlists with dates attached." }
+];
+
+const idea = (text: string): PostIdea => ({ text, community: null });
+
+describe("IdeaScorer", () => {
+  const style = StyleAnalytics.fingerprint(posts);
+
+  test("passes a fresh idea in the user's style", () => {
+    const quality = IdeaScorer.score(idea("Every feature flag is a promise to clean up later."), posts, style);
+
+    expect(quality.issues).toEqual([]);
+    expect(quality.novelty).toBeGreaterThan(80);
+    expect(quality.length).toBe(100);
+    expect(quality.score).toBeGreaterThan(75);
+  });
+
+  test("flags placeholders, invented figures, emoji and copies", () => {
+    expect(IdeaScorer.score(idea("Check out our new launch at [link] today"), posts, style).issues)
+      .toContain('Placeholder "[link]"');
+    expect(IdeaScorer.score(idea("Our churn dropped 87% and revenue grew 3x this year"), posts, style).issues)
+      .toContain("Figures not found in their posts: 87%, 3x");
+    // Figures the user has published before are fine
+    expect(IdeaScorer.score(idea("Still amazed signups grew 40% from one screen"), posts, style).issues).toEqual([]);
+    expect(IdeaScorer.score(idea("Roadmaps are wishlists with deadlines 🚀"), posts, style).issues)
+      .toContain("Uses emoji, which they never do");
+    expect(IdeaScorer.score(idea("Shipping small experiments every week beats planning a big launch every quarter."), posts, style).issues[0])
+      .toStartWith("Close to an existing post");
+  });
+
+  test("checks length per tweet", () => {
+    const quality = IdeaScorer.score(idea("x".repeat(300)), posts, style);
+    expect(quality.length).toBe(0);
+    expect(quality.issues).toContain("Over 280 characters (300)");
+
+    const thread = IdeaScorer.score({
+      ...idea("ignored"),
+      thread: [{ text: "A hook that is long enough to read", role: "hook" }, { text: "Too short", role: "cta" }]
+    }, posts, style);
+    expect(thread.issues).toContain("Under 20 characters");
+  });
+
+  test("ranks ideas best first", () => {
+    const ranked = IdeaScorer.rank([
+      idea("Fill in {product} here"),
+      idea("Every feature flag is a promise to clean up later.")
+    ], posts, style);
+
+    expect(ranked[0]!.text).toBe("Every feature flag is a promise to clean up later.");
+    expect(ranked[0]!.styleMatch).toBeDefined();
+    expect(ranked[1]!.quality!.issues).toContain('Placeholder "{product}"');
+  });
+});
+
+describe("AIService idea quality", () => {
+  const originalModel = config.ai.models.generation;
+
+  beforeAll(() => {
+    config.ai.models.generation = "mock:mock-1";
+  });
+
+  afterAll(() => {
+    config.ai.models.generation = originalModel;
+  });
+
+  test("returns scored ideas ranked best first, even after retrying weak ones", async () => {
+    // The mock writes these exact posts, so every idea starts out as a copy
+    const userData: UserData = {
+      username: "qualityuser",
+      posts: MockLanguageModel.samplePostIdeas(3).map(sample => ({ text: sample.text })),
+      analysis: MockLanguageModel.sampleAnalysis(),
+      lastUpdated: new Date().toISOString()
+    };
+
+    const ideas = await aiService.generatePostIdeas(userData, 3);
+
+    expect(ideas).toHaveLength(3);
+    const scores = ideas.map(generated => generated.quality!.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(ideas[ideas.length - 1]!.quality!.issues.some(issue => issue.startsWith("Close to an existing post"))).toBe(true);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, test, expect } from "bun:test";
+import { JobQueueService } from "../services/queue";
+
+describe("JobQueueService", () => {
+  test("runs a job in the background and keeps its result", async () => {
+    const queue = new JobQueueService(1);
+    const job = queue.enqueue("analyze", "queueuser", async (report) => {
+      report(40, "Halfway");
+      await Bun.sleep(10);
+      return { ok: true };
+    });
+
+    expect(job.status).toBe("running");
+    expect(queue.get(job.id)!.progress).toBe(40);
+    expect(queue.get(job.id)!.message).toBe("Halfway");
+
+    const finished = await queue.wait(job.id);
+    expect(finished.status).toBe("completed");
+    expect(finished.progress).toBe(100);
+    expect(finished.result).toEqual({ ok: true });
+  });
+
+  test("records failures", async () => {
+    const queue = new JobQueueService(1);
+    const job = queue.enqueue("scrape", "queueuser", async () => {
+      throw new Error("User not found");
+    });
+
+    const finished = await queue.wait(job.id);
+    expect(finished.status).toBe("failed");
+    expect(finished.error).toBe("User not found");
+  });
+
+  test("reuses an unfinished job of the same type for the same user", async () => {
+    const queue = new JobQueueService(1);
+    const handler = async () => {
+      await Bun.sleep(10);
+      return "done";
+    };
+
+    const first = queue.enqueue("generate", "queueuser", handler);
+    const second = queue.enqueue("generate", "queueuser", handler);
+    const other = queue.enqueue("generate", "otheruser", handler);
+
+    expect(second.id).toBe(first.id);
+    expect(other.id).not.toBe(first.id);
+    // Concurrency 1: the second user's job waits for the first
+    expect(queue.get(other.id)!.status).toBe("queued");
+
+    await queue.wait(other.id);
+    expect(queue.list().map(job => job.id)).toEqual([other.id, first.id]);
+    expect(queue.list("otheruser").length).toBe(1);
+  });
+});
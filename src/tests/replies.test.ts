@@ -0,0 +1,59 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { config } from "../config";
+import { MockLanguageModel } from "../providers/mock";
+import { aiService } from "../services/ai";
+import { PostUtils } from "../utils/posts";
+import type { UserData } from "../types";
+
+describe("PostUtils.parseTweetReference", () => {
+  test("reads the id and author from x.com and twitter.com links", () => {
+    expect(PostUtils.parseTweetReference("https://x.com/jack/status/1789012345678901234?s=20"))
+      .toEqual({ id: "1789012345678901234", username: "jack" });
+    expect(PostUtils.parseTweetReference("twitter.com/some_user/statuses/1234567890/"))
+      .toEqual({ id: "1234567890", username: "some_user" });
+  });
+
+  test("accepts a bare id and treats anything else as tweet text", () => {
+    expect(PostUtils.parseTweetReference(" 1789012345678901234 ")).toEqual({ id: "1789012345678901234" });
+    expect(PostUtils.parseTweetReference("Shipping on Fridays is fine, actually")).toBeNull();
+    expect(PostUtils.parseTweetReference("https://example.com/jack/status/1789012345678901234")).toBeNull();
+  });
+});
+
+describe("AIService.draftReplies", () => {
+  const originalModel = config.ai.models.generation;
+
+  const userData: UserData = {
+    username: "replier",
+    posts: [
+      { text: "@someone Strongly agree, we saw the same thing", isReply: true },
+      { text: "This is the best take on hiring I've read", isQuote: true }
+    ],
+    analysis: MockLanguageModel.sampleAnalysis(),
+    lastUpdated: new Date().toISOString()
+  };
+
+  beforeAll(() => {
+    config.ai.models.generation = "mock:mock-1";
+  });
+
+  afterAll(() => {
+    config.ai.models.generation = originalModel;
+  });
+
+  test("returns the requested number of drafts, each with a rationale", async () => {
+    const drafts = await aiService.draftReplies(userData, { text: "Estimates are always wrong" }, 3, "quote");
+
+    expect(drafts).toHaveLength(3);
+    for (const draft of drafts) {
+      expect(draft.kind).toBe("quote");
+      expect(draft.text.length).toBeGreaterThan(0);
+      expect(draft.text.length).toBeLessThanOrEqual(280);
+      expect(draft.rationale.length).toBeGreaterThan(0);
+    }
+  });
+
+  test("requires an analysis of the persona", async () => {
+    await expect(aiService.draftReplies({ ...userData, analysis: undefined }, { text: "Hello" })).rejects.toThrow("No analysis found");
+  });
+});
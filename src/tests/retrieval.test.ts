@@ -0,0 +1,61 @@
+import { describe, test, expect } from "bun:test";
+import { PostIndex } from "../analytics/retrieval";
+import type { TwitterPost, UserData } from "../types";
+
+// Newest first, like stored posts
+const posts: TwitterPost[] = [
+  { id: "1", text: "Coffee first, then code." },
+  { id: "2", text: "Raised our seed round after 40 investor meetings. Fundraising is a numbers game." },
+  { id: "3", text: "Pricing is the most underrated growth lever https://example.com/pricing" },
+  { id: "4", text: "Investors fund momentum, not decks. #fundraising" },
+  { id: "5", text: "Someone else on fundraising fundraising fundraising", isRetweet: true },
+  { id: "6", text: "@alice raise prices, seriously", isReply: true }
+];
+
+const userData = (overrides: Partial<UserData> = {}): UserData => ({
+  username: "retrievaluser",
+  posts,
+  lastUpdated: "2024-03-01T00:00:00.000Z",
+  ...overrides
+});
+
+describe("PostIndex", () => {
+  test("tokenizes without links, stop words, handles or plural endings", () => {
+    expect(PostIndex.tokenize("The investors' #Fundraising tips: https://example.com/x")).toEqual(["investor", "fundraising", "tip"]);
+  });
+
+  test("ranks the user's own posts by BM25 relevance", () => {
+    const index = new PostIndex(posts);
+    expect(index.size).toBe(5);
+
+    const results = index.search("tips for fundraising from investors", 10);
+    expect(results.map(result => result.post.id)).toEqual(["4", "2"]);
+    expect(results[0]!.score).toBeGreaterThan(results[1]!.score);
+
+    // The plural stem matches "prices" and "pricing" stays its own word
+    expect(index.search("price", 10).map(result => result.post.id)).toEqual(["6"]);
+    expect(index.search("the and of", 10)).toEqual([]);
+  });
+
+  test("tops up exemplars with recent posts", () => {
+    expect(PostIndex.exemplars(userData(), "pricing growth", 3).map(post => post.id)).toEqual(["3", "1", "2"]);
+    expect(PostIndex.exemplars(userData(), undefined, 2).map(post => post.id)).toEqual(["1", "2"]);
+  });
+
+  test("doesn't repeat posts when the user is loaded again", () => {
+    const reload = (): UserData => JSON.parse(JSON.stringify(userData({ username: "reloaduser" })));
+    PostIndex.exemplars(reload(), "fundraising", 4);
+
+    const exemplars = PostIndex.exemplars(reload(), "fundraising", 4);
+    expect(exemplars.map(post => post.id)).toEqual(["4", "2", "1", "3"]);
+  });
+
+  test("reuses the user's index until their posts change", () => {
+    const first = PostIndex.forUser(userData());
+    expect(PostIndex.forUser(userData())).toBe(first);
+
+    const refreshed = PostIndex.forUser(userData({ posts: posts.slice(0, 2), lastUpdated: "2024-03-02T00:00:00.000Z" }));
+    expect(refreshed).not.toBe(first);
+    expect(refreshed.size).toBe(2);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, test, expect } from "bun:test";
+import type { LanguageModelV1CallOptions } from "ai";
+import { config } from "../config";
+import { modelRegistry } from "../providers";
+import { MockLanguageModel } from "../providers/mock";
+import { dataService } from "../services/data";
+import { SchedulerService, schedulerService } from "../services/scheduler";
+import type { ScheduledJobType } from "../types";
+
+/**
+ * Mock model that holds every answer until the test lets it through
+ */
+class SlowLanguageModel extends MockLanguageModel {
+  release!: () => void;
+  private called!: () => void;
+  private gate = new Promise<void>(resolve => this.release = resolve);
+  readonly started = new Promise<void>(resolve => this.called = resolve);
+
+  override async doGenerate(options: LanguageModelV1CallOptions) {
+    this.called();
+    await this.gate;
+    return super.doGenerate(options);
+  }
+}
+
+// Wednesday 10 January 2024, 10:30 local time
+const from = new Date(2024, 0, 10, 10, 30);
+
+describe("SchedulerService", () => {
+  test("computeNextRun - hourly runs at the next matching minute", () => {
+    expect(SchedulerService.computeNextRun({ frequency: "hourly", time: "00:45" }, from))
+      .toEqual(new Date(2024, 0, 10, 10, 45));
+    expect(SchedulerService.computeNextRun({ frequency: "hourly", time: "00:15" }, from))
+      .toEqual(new Date(2024, 0, 10, 11, 15));
+  });
+
+  test("computeNextRun - daily runs today or tomorrow", () => {
+    expect(SchedulerService.computeNextRun({ frequency: "daily", time: "18:00" }, from))
+      .toEqual(new Date(2024, 0, 10, 18, 0));
+    expect(SchedulerService.computeNextRun({ frequency: "daily", time: "06:00" }, from))
+      .toEqual(new Date(2024, 0, 11, 6, 0));
+    // A job that just ran is not due again in the same minute
+    expect(SchedulerService.computeNextRun({ frequency: "daily", time: "10:30" }, from))
+      .toEqual(new Date(2024, 0, 11, 10, 30));
+  });
+
+  test("computeNextRun - weekly runs on the requested weekday", () => {
+    expect(SchedulerService.computeNextRun({ frequency: "weekly", time: "09:00", dayOfWeek: 1 }, from))
+      .toEqual(new Date(2024, 0, 15, 9, 0));
+    expect(SchedulerService.computeNextRun({ frequency: "weekly", time: "12:00", dayOfWeek: 3 }, from))
+      .toEqual(new Date(2024, 0, 10, 12, 0));
+    expect(SchedulerService.computeNextRun({ frequency: "weekly", time: "09:00", dayOfWeek: 3 }, from))
+      .toEqual(new Date(2024, 0, 17, 9, 0));
+  });
+
+  test("createJob - stores jobs per user and rejects invalid schedules", async () => {
+    const job = await schedulerService.createJob("scheduleduser", {
+      type: "generate",
+      schedule: { frequency: "weekly", time: "08:00", dayOfWeek: 1 }
+    });
+
+    expect(job.count).toBe(10);
+    expect(job.enabled).toBe(true);
+    expect(new Date(job.nextRunAt).getDay()).toBe(1);
+    expect((await schedulerService.listJobs("scheduleduser")).map(candidate => candidate.id)).toEqual([job.id]);
+
+    await expect(schedulerService.createJob("scheduleduser", {
+      type: "sync",
+      schedule: { frequency: "daily", time: "25:00" }
+    })).rejects.toThrow("Invalid time");
+    await expect(schedulerService.createJob("scheduleduser", {
+      type: "post" as ScheduledJobType,
+      schedule: { frequency: "daily", time: "06:00" }
+    })).rejects.toThrow("Invalid job type");
+
+    const paused = await schedulerService.updateJob(job.id, { enabled: false });
+    expect(paused.enabled).toBe(false);
+    expect(await schedulerService.tick(new Date(job.nextRunAt))).toEqual([]);
+
+    expect(await schedulerService.deleteJob(job.id)).toBe(true);
+    expect(await schedulerService.listJobs("scheduleduser")).toEqual([]);
+  });
+
+  test("tick - overlapping ticks run each due job once", async () => {
+    // Without an analysis the jobs fail right away, which still counts as a run
+    const input = { type: "generate" as const, schedule: { frequency: "daily" as const, time: "06:00" }, count: 1 };
+    const job = await schedulerService.createJob("overlapuser", input);
+    await schedulerService.createJob("overlapuser", input);
+    const now = new Date(job.nextRunAt);
+
+    const [first, second] = await Promise.all([schedulerService.tick(now), schedulerService.tick(now)]);
+    expect([...first, ...second]).toHaveLength(2);
+    expect(await schedulerService.getRuns("overlapuser")).toHaveLength(2);
+  });
+
+  test("tick - analyze jobs keep settings edited while the analysis runs", async () => {
+    const originalModel = config.ai.models.analysis;
+    const model = new SlowLanguageModel();
+    config.ai.models.analysis = "mock:mock-1";
+    modelRegistry.register("mock", () => model);
+
+    try {
+      await dataService.saveUserData({
+        username: "slowanalysisuser",
+        posts: [{ id: "1", text: "Ship small, ship often.", timestamp: 1700000000 }],
+        lastUpdated: "2024-01-01T00:00:00.000Z"
+      });
+      const job = await schedulerService.createJob("slowanalysisuser", {
+        type: "analyze",
+        schedule: { frequency: "daily", time: "06:00" }
+      });
+
+      const ticking = schedulerService.tick(new Date(job.nextRunAt));
+      await model.started;
+
+      // Edited through the API in the meantime
+      const userData = await dataService.getUserData("slowanalysisuser");
+      userData.customInstructions = "Keep it short";
+      await dataService.saveUserData(userData);
+
+      model.release();
+      const runs = await ticking;
+      expect(runs.find(run => run.jobId === job.id)!.status).toBe("success");
+
+      const saved = await dataService.getUserData("slowanalysisuser");
+      expect(saved.analysis).toBeDefined();
+      expect(saved.customInstructions).toBe("Keep it short");
+    } finally {
+      config.ai.models.analysis = originalModel;
+      modelRegistry.register("mock", modelId => new MockLanguageModel(modelId));
+    }
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, test, expect } from "bun:test";
+import type { Tweet } from "@the-convocation/twitter-scraper";
+import { config } from "../config";
+import { ScraperService } from "../services/scraper";
+import type { TwitterPost } from "../types";
+
+describe("ScraperService", () => {
+  test("mergePosts - should dedupe by id and keep newest first", () => {
+    const existing: TwitterPost[] = [
+      { id: "2", text: "Second post", timestamp: 200 },
+      { id: "1", text: "First post", timestamp: 100 }
+    ];
+    const incoming: TwitterPost[] = [
+      { id: "3", text: "Third post", timestamp: 300 },
+      { id: "2", text: "Second post", timestamp: 200 }
+    ];
+
+    const merged = ScraperService.mergePosts(existing, incoming);
+
+    expect(merged.map(post => post.id)).toEqual(["3", "2", "1"]);
+  });
+
+  test("mergePosts - should dedupe legacy posts without ids by text", () => {
+    const existing: TwitterPost[] = [{ text: "Legacy post" }];
+    const incoming: TwitterPost[] = [{ text: "Legacy post" }, { text: "New legacy post" }];
+
+    const merged = ScraperService.mergePosts(existing, incoming);
+
+    expect(merged).toHaveLength(2);
+    expect(merged.map(post => post.text)).toContain("New legacy post");
+  });
+
+  test("mergePosts - should replace legacy posts with their scraped versions", () => {
+    const existing: TwitterPost[] = [{ text: "Same post" }];
+    const incoming: TwitterPost[] = [{ id: "9", text: "Same post", timestamp: 900 }];
+
+    const merged = ScraperService.mergePosts(existing, incoming);
+
+    expect(merged).toEqual(incoming);
+  });
+
+  test("syncPosts - should count new posts when the archive is full", async () => {
+    const service = new ScraperService();
+    const tweets: Partial<Tweet>[] = [
+      { id: "4", text: "Fourth post", timestamp: 400 },
+      { id: "3", text: "Third post", timestamp: 300 },
+      { id: "2", text: "Second post", timestamp: 200 }
+    ];
+    // Stands in for the real scraper, which needs a login
+    Object.assign(service, {
+      getScraper: async () => ({
+        async *getTweets() {
+          yield* tweets;
+        }
+      })
+    });
+
+    const originalCap = config.app.maxArchivedPosts;
+    config.app.maxArchivedPosts = 2;
+    try {
+      const result = await service.syncPosts("fullarchiveuser", {
+        username: "fullarchiveuser",
+        posts: [
+          { id: "2", text: "Second post", timestamp: 200 },
+          { id: "1", text: "First post", timestamp: 100 }
+        ],
+        lastUpdated: "2024-01-01T00:00:00.000Z"
+      });
+
+      expect(result.added).toBe(2);
+      expect(result.posts.map(post => post.id)).toEqual(["4", "3"]);
+    } finally {
+      config.app.maxArchivedPosts = originalCap;
+    }
+  });
+
+  test("syncPosts - should fetch every post since the last sync", async () => {
+    const service = new ScraperService();
+    // A busy account that posted 250 times since the last sync
+    const tweets: Partial<Tweet>[] = Array.from({ length: 250 }, (_, index) => ({
+      id: String(1000 - index),
+      text: `Post ${1000 - index}`,
+      timestamp: 1000 - index
+    }));
+    tweets.push({ id: "1", text: "Stored post", timestamp: 1 });
+    Object.assign(service, {
+      getScraper: async () => ({
+        async *getTweets() {
+          yield* tweets;
+        }
+      })
+    });
+
+    const result = await service.syncPosts("busyaccount", {
+      username: "busyaccount",
+      posts: [{ id: "1", text: "Stored post", timestamp: 1 }],
+      lastUpdated: "2024-01-01T00:00:00.000Z"
+    });
+
+    expect(result.added).toBe(250);
+    expect(result.total).toBe(251);
+    expect(result.posts.at(-1)!.id).toBe("1");
+  });
+});
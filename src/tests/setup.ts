@@ -0,0 +1,7 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// Keep test runs away from the real ~/.postgeist data directory
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "postgeist-test-"));
+process.env.STORAGE_BACKEND = "json";
@@ -0,0 +1,185 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { JsonFileStorage, SqliteStorage, migrateStorage } from "../storage";
+import type { AgentSession, AnalysisSnapshot, StoredIdea, UsageRecord, UserData } from "../types";
+
+const userData: UserData = {
+  username: "storageuser",
+  posts: [
+    { id: "2", text: "Newest post", timestamp: 200, metrics: { likes: 5, retweets: 1, replies: 0 } },
+    { id: "1", text: "Older post", timestamp: 100, isReply: true }
+  ],
+  analysis: {
+    summary: "Summary",
+    key_themes: ["Testing"],
+    engagement_patterns: [],
+    unique_behaviors: [],
+    opportunities: [],
+    tone: "Dry"
+  },
+  customInstructions: "Keep it short",
+  availableCommunities: [{ name: "Tech", description: "Tech talk" }],
+  lastUpdated: "2024-01-01T00:00:00.000Z"
+};
+
+const ideas: StoredIdea[] = [
+  {
+    id: "idea-1",
+    text: "An idea",
+    community: null,
+    reasoning: "test",
+    source: "batch",
+    model: "mock:mock-1",
+    status: "new",
+    createdAt: "2024-01-02T00:00:00.000Z"
+  }
+];
+
+const snapshot: AnalysisSnapshot = {
+  id: "snapshot-1",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  model: "mock:mock-1",
+  postWindow: { count: 2, newestPostId: "2", oldestPostId: "1" },
+  analysis: userData.analysis!
+};
+
+const session: AgentSession = {
+  id: "session-1",
+  title: "Analyze storageuser",
+  createdAt: "2024-01-03T00:00:00.000Z",
+  updatedAt: "2024-01-03T00:01:00.000Z",
+  messages: [
+    { role: "user", content: "Analyze @storageuser", createdAt: "2024-01-03T00:00:00.000Z" },
+    { role: "assistant", content: "Done", createdAt: "2024-01-03T00:01:00.000Z" }
+  ]
+};
+
+const usage: UsageRecord[] = [
+  {
+    id: "usage-1",
+    createdAt: "2024-01-02T10:00:00.000Z",
+    operation: "analysis",
+    username: "storageuser",
+    model: "mock:mock-1",
+    promptTokens: 1200,
+    completionTokens: 300,
+    cost: 0,
+    latencyMs: 850,
+    steps: 1,
+    toolCalls: 0
+  },
+  {
+    id: "usage-2",
+    createdAt: "2024-01-03T09:00:00.000Z",
+    operation: "agent-chat",
+    model: "openai:unknown-model",
+    promptTokens: 400,
+    completionTokens: 50,
+    cost: null,
+    latencyMs: 1200,
+    steps: 2,
+    toolCalls: 1
+  }
+];
+
+describe("Storage backends", () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "postgeist-storage-"));
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("SqliteStorage - should round-trip users, posts, analyses and ideas", async () => {
+    const storage = new SqliteStorage(":memory:");
+
+    await storage.saveUser(userData);
+    await storage.saveIdeas(userData.username, ideas);
+    await storage.addAnalysisSnapshot(userData.username, snapshot);
+
+    expect(await storage.loadUser(userData.username)).toEqual(userData);
+    expect(await storage.loadIdeas(userData.username)).toEqual(ideas);
+    expect(await storage.loadAnalysisHistory(userData.username)).toEqual([snapshot]);
+    expect(await storage.listUserSummaries()).toEqual([{
+      username: "storageuser",
+      postsCount: 2,
+      hasAnalysis: true,
+      lastUpdated: userData.lastUpdated,
+      customInstructions: true,
+      communities: 1
+    }]);
+
+    expect(await storage.deleteUser(userData.username)).toBe(true);
+    expect(await storage.loadUser(userData.username)).toBeNull();
+    expect(await storage.loadIdeas(userData.username)).toEqual([]);
+    expect(await storage.loadAnalysisHistory(userData.username)).toEqual([]);
+
+    storage.close();
+  });
+
+  test("SqliteStorage - should store agent sessions", async () => {
+    const storage = new SqliteStorage(":memory:");
+
+    await storage.saveAgentSession(session);
+    await storage.saveAgentSession({ ...session, title: "Renamed" });
+
+    expect(await storage.loadAgentSession(session.id)).toEqual({ ...session, title: "Renamed" });
+    expect(await storage.listAgentSessions()).toHaveLength(1);
+    expect(await storage.deleteAgentSession(session.id)).toBe(true);
+    expect(await storage.deleteAgentSession(session.id)).toBe(false);
+    expect(await storage.loadAgentSession(session.id)).toBeNull();
+
+    storage.close();
+  });
+
+  for (const [name, create] of [
+    ["JsonFileStorage", () => new JsonFileStorage(fs.mkdtempSync(path.join(tempDir, "usage-")))],
+    ["SqliteStorage", () => new SqliteStorage(":memory:")]
+  ] as const) {
+    test(`${name} - should keep usage records and filter them by account and day`, async () => {
+      const storage = create();
+
+      for (const record of usage) {
+        await storage.addUsage(record);
+      }
+      await storage.saveUser(userData);
+      await storage.deleteUser(userData.username);
+
+      expect(await storage.loadUsage()).toEqual(usage);
+      expect(await storage.loadUsage({ username: "storageuser" })).toEqual([usage[0]!]);
+      expect(await storage.loadUsage({ from: "2024-01-03", to: "2024-01-03" })).toEqual([usage[1]!]);
+
+      storage.close();
+    });
+  }
+
+  test("migrateStorage - should copy JSON data into SQLite", async () => {
+    const source = new JsonFileStorage(tempDir);
+    const target = new SqliteStorage(path.join(tempDir, "postgeist.db"));
+
+    await source.saveUser(userData);
+    await source.saveIdeas(userData.username, ideas);
+    await source.addAnalysisSnapshot(userData.username, snapshot);
+    await source.saveAgentSession(session);
+    await source.addUsage(usage[0]!);
+
+    const result = await migrateStorage(source, target);
+
+    expect(result).toEqual({ users: 1, posts: 2, ideas: 1, snapshots: 1, sessions: 1, usage: 1 });
+    expect(await target.loadUsage()).toEqual([usage[0]!]);
+    expect(await target.loadAgentSession(session.id)).toEqual(session);
+    expect(await target.loadAnalysisHistory(userData.username)).toEqual([snapshot]);
+    expect(await target.loadUser(userData.username)).toEqual(userData);
+    expect(await target.loadIdeas(userData.username)).toEqual(ideas);
+
+    // A second run overwrites what it copied before instead of failing or duplicating it
+    expect(await migrateStorage(source, target)).toEqual({ users: 1, posts: 2, ideas: 1, snapshots: 1, sessions: 1, usage: 1 });
+    expect(await target.loadAnalysisHistory(userData.username)).toEqual([snapshot]);
+    expect(await target.loadUsage()).toEqual([usage[0]!]);
+    expect(await target.loadUser(userData.username)).toEqual(userData);
+
+    source.close();
+    target.close();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { config } from "../config";
+import { MockLanguageModel } from "../providers/mock";
+import { aiService } from "../services/ai";
+import { ideaService } from "../services/ideas";
+import type { IdeaStreamEvent, UserData } from "../types";
+
+describe("AIService.streamPostIdeas", () => {
+  const originalModel = config.ai.models.generation;
+
+  const userData: UserData = {
+    username: "streamuser",
+    posts: [{ id: "1", text: "Shipping beats planning", timestamp: 1700000000 }],
+    analysis: MockLanguageModel.sampleAnalysis(),
+    lastUpdated: new Date().toISOString()
+  };
+
+  beforeAll(() => {
+    config.ai.models.generation = "mock:mock-1";
+  });
+
+  afterAll(() => {
+    config.ai.models.generation = originalModel;
+  });
+
+  test("emits each idea before the stored batch", async () => {
+    const events: IdeaStreamEvent[] = [];
+    for await (const event of aiService.streamPostIdeas(userData, 3)) {
+      events.push(event);
+    }
+
+    const ideaEvents = events.filter(event => event.type === "idea");
+    const done = events[events.length - 1];
+
+    expect(events[0]!.type).toBe("progress");
+    expect(events).toContainEqual({ type: "progress", message: "Scoring the ideas and regenerating weak ones" });
+    expect(ideaEvents.map(event => event.index)).toEqual([0, 1, 2]);
+    expect(done?.type).toBe("done");
+    if (done?.type === "done") {
+      expect(done.ideas).toHaveLength(3);
+      expect(done.ideas.every(idea => idea.id)).toBe(true);
+      expect(done.ideas.every(idea => idea.quality)).toBe(true);
+    }
+
+    expect((await ideaService.list("streamuser")).length).toBe(3);
+  });
+
+  test("fails before calling the model when there is no analysis", async () => {
+    const stream = aiService.streamPostIdeas({ ...userData, analysis: undefined }, 3);
+    await expect(stream.next()).rejects.toThrow("No analysis found");
+  });
+});
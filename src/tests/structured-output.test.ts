@@ -0,0 +1,60 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import type { LanguageModelV1CallOptions } from "ai";
+import { config } from "../config";
+import { modelRegistry } from "../providers";
+import { MockLanguageModel } from "../providers/mock";
+import { aiService } from "../services/ai";
+
+/**
+ * Mock model that answers with broken output a fixed number of times before behaving
+ */
+class FlakyLanguageModel extends MockLanguageModel {
+  calls = 0;
+
+  constructor(private invalidResponses: number) {
+    super("flaky");
+  }
+
+  override async doGenerate(options: LanguageModelV1CallOptions) {
+    this.calls++;
+    if (this.calls <= this.invalidResponses) {
+      return {
+        text: "{\"ideas\": [{\"text\": \"\"}]}",
+        finishReason: "stop" as const,
+        usage: { promptTokens: 1, completionTokens: 1 },
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+      };
+    }
+    return super.doGenerate(options);
+  }
+}
+
+describe("AIService structured output", () => {
+  const idea = { text: "Original idea", community: null, reasoning: "test" };
+  const originalModel = config.ai.models.generation;
+
+  beforeAll(() => {
+    Object.assign(config.ai.models, { generation: "mock:flaky" });
+  });
+
+  afterAll(() => {
+    config.ai.models.generation = originalModel;
+    modelRegistry.register("mock", modelId => new MockLanguageModel(modelId));
+  });
+
+  test("should retry invalid responses with the validation errors", async () => {
+    const model = new FlakyLanguageModel(1);
+    modelRegistry.register("mock", () => model);
+
+    const variations = await aiService.tweakPostIdea(idea, "make it shorter");
+
+    expect(variations).toHaveLength(3);
+    expect(model.calls).toBe(2);
+  });
+
+  test("should fail with a clear error when every attempt is invalid", async () => {
+    modelRegistry.register("mock", () => new FlakyLanguageModel(10));
+
+    await expect(aiService.tweakPostIdea(idea, "make it shorter")).rejects.toThrow(/failed validation after 3 attempts/);
+  });
+});
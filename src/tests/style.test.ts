@@ -0,0 +1,89 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { config } from "../config";
+import { MockLanguageModel } from "../providers/mock";
+import { aiService } from "../services/ai";
+import { StyleAnalytics } from "../analytics/style";
+import type { TwitterPost, UserData } from "../types";
+
+const posts: TwitterPost[] = [
+  { text: "shipping beats planning 🚀" },
+  { text: "small teams ship faster 🚀\n\nevery single time" },
+  { text: "shipping beats planning, again 🔥" },
+  { text: "@alice agreed, small teams win", isReply: true },
+  { text: "wrote down why we ship daily https://example.com/post" },
+  { text: "Someone else's post #growth", isRetweet: true }
+];
+
+describe("StyleAnalytics", () => {
+  test("measures habits on the user's own posts", () => {
+    const style = StyleAnalytics.fingerprint(posts);
+
+    expect(style.sampleSize).toBe(5);
+    expect(style.emoji.rate).toBe(0.6);
+    expect(style.emoji.favorites[0]).toBe("🚀");
+    expect(style.capitalization.lowercaseStart).toBe(1);
+    expect(style.lineBreaks.rate).toBe(0.2);
+    // The reply's leading @handle and the repost's hashtag don't count
+    expect(style.mentions.rate).toBe(0);
+    expect(style.hashtags.rate).toBe(0);
+    expect(style.urlRate).toBe(0.2);
+    expect(style.ngrams.bigrams).toContain("beats planning");
+    expect(style.ngrams.bigrams).toContain("small teams");
+    expect(style.ngrams.trigrams).toEqual(["shipping beats planning"]);
+  });
+
+  test("scores texts against the fingerprint and names what stands out", () => {
+    const style = StyleAnalytics.fingerprint(posts);
+
+    const close = StyleAnalytics.match("small teams keep shipping 🚀", style);
+    expect(close.deviations).toEqual([]);
+
+    const far = StyleAnalytics.match("Introducing our NEW product line for enterprise customers, available today! #launch @partner", style);
+    expect(far.score).toBeLessThan(close.score);
+    expect(far.deviations).toContain("Starts uppercase (100% of their posts start lowercase)");
+    expect(far.deviations).toContain("Uses hashtags (0% of their posts use hashtags)");
+    expect(far.deviations.some(deviation => deviation.includes("characters (their posts are usually"))).toBe(true);
+  });
+
+  test("describes the fingerprint for prompts", () => {
+    const text = StyleAnalytics.describe(StyleAnalytics.fingerprint(posts));
+
+    expect(text).toContain("Emoji: in 60% of posts");
+    expect(text).toContain("100% of posts start lowercase");
+    expect(text).toContain('"shipping beats planning"');
+  });
+});
+
+describe("AIService style fingerprint", () => {
+  const originalModels = { ...config.ai.models };
+
+  beforeAll(() => {
+    config.ai.models.analysis = "mock:mock-1";
+    config.ai.models.generation = "mock:mock-1";
+  });
+
+  afterAll(() => {
+    config.ai.models.analysis = originalModels.analysis;
+    config.ai.models.generation = originalModels.generation;
+  });
+
+  test("stores the fingerprint with the analysis", async () => {
+    const analysis = await aiService.analyzeUser("styleuser", posts);
+    expect(analysis.style).toEqual(StyleAnalytics.fingerprint(posts));
+  });
+
+  test("scores generated ideas against the measured style", async () => {
+    const userData: UserData = {
+      username: "styleuser",
+      posts,
+      analysis: { ...MockLanguageModel.sampleAnalysis(), style: StyleAnalytics.fingerprint(posts) },
+      lastUpdated: new Date().toISOString()
+    };
+
+    const ideas = await aiService.generatePostIdeas(userData, 2);
+    expect(ideas).toHaveLength(2);
+    for (const idea of ideas) {
+      expect(idea.styleMatch).toEqual(StyleAnalytics.match(idea.text, userData.analysis!.style!));
+    }
+  });
+});
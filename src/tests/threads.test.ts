@@ -0,0 +1,99 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { config } from "../config";
+import { MockLanguageModel } from "../providers/mock";
+import { aiService } from "../services/ai";
+import { ideaService } from "../services/ideas";
+import { ThreadUtils, MAX_TWEET_LENGTH } from "../utils/threads";
+import type { ThreadTweet, TwitterPost, UserData } from "../types";
+
+function thread(conversationId: string, texts: string[], start: number): TwitterPost[] {
+  return texts.map((text, index) => ({
+    id: index === 0 ? conversationId : `${conversationId}-${index}`,
+    conversationId,
+    text,
+    timestamp: start + index,
+    isSelfThread: true
+  }));
+}
+
+const tweets: ThreadTweet[] = [
+  { text: "Here is what we learned shipping weekly", role: "hook" },
+  { text: "Small releases are easy to roll back", role: "body" },
+  { text: "Follow for the next part", role: "cta" }
+];
+
+describe("ThreadUtils", () => {
+  test("learns numbering and hook markers from the account's own threads", () => {
+    const posts = [
+      ...thread("a", ["1/ Why we stopped estimating 🧵", "2/ Estimates were always wrong", "3/ Follow along"], 100),
+      ...thread("b", ["1/ Hiring lessons 🧵", "2/ Hire slowly", "3/ More soon"], 200),
+      { id: "c", conversationId: "c", text: "A standalone post 1/2", timestamp: 300 }
+    ];
+
+    const style = ThreadUtils.learnStyle(posts);
+    expect(style).toEqual({ numbering: "slash", position: "start", hookMarker: "🧵", sampleSize: 2 });
+    expect(ThreadUtils.findThreads(posts)[0]!.map(post => post.id)).toEqual(["a", "a-1", "a-2"]);
+  });
+
+  test("falls back to fraction numbering without threads to learn from", () => {
+    const style = ThreadUtils.learnStyle([{ text: "Just one post", conversationId: "x" }]);
+    expect(style).toEqual({ numbering: "fraction", position: "end", sampleSize: 0 });
+  });
+
+  test("replaces the model's numbering with the account's style", () => {
+    const formatted = ThreadUtils.format(
+      [{ ...tweets[0]!, text: "1. Here is what we learned shipping weekly" }, tweets[1]!, { ...tweets[2]!, text: "Follow for the next part 3/3" }],
+      { numbering: "fraction", position: "end", hookMarker: "🧵", sampleSize: 1 }
+    );
+
+    expect(formatted.map(tweet => tweet.text)).toEqual([
+      "Here is what we learned shipping weekly 🧵 1/3",
+      "Small releases are easy to roll back 2/3",
+      "Follow for the next part 3/3"
+    ]);
+    expect(formatted.map(tweet => tweet.role)).toEqual(["hook", "body", "cta"]);
+  });
+
+  test("leaves room for numbering in the per-tweet limit", () => {
+    expect(ThreadUtils.maxTweetLength({ numbering: "none", position: "end", sampleSize: 0 })).toBe(MAX_TWEET_LENGTH);
+    expect(ThreadUtils.maxTweetLength({ numbering: "fraction", position: "end", sampleSize: 0 })).toBe(MAX_TWEET_LENGTH - 6);
+  });
+});
+
+describe("AIService.generateThreadIdeas", () => {
+  const originalModel = config.ai.models.generation;
+
+  const userData: UserData = {
+    username: "threaduser",
+    posts: thread("t", ["Why small teams win 1/3", "They ship faster 2/3", "Follow for more 3/3"], 100),
+    analysis: MockLanguageModel.sampleAnalysis(),
+    lastUpdated: new Date().toISOString()
+  };
+
+  beforeAll(() => {
+    config.ai.models.generation = "mock:mock-1";
+  });
+
+  afterAll(() => {
+    config.ai.models.generation = originalModel;
+  });
+
+  test("returns numbered threads with hook and cta roles and stores them", async () => {
+    const threads = await aiService.generateThreadIdeas(userData, 2, "shipping");
+
+    expect(threads).toHaveLength(2);
+    for (const idea of threads) {
+      const roles = idea.thread!.map(tweet => tweet.role);
+      expect(roles[0]).toBe("hook");
+      expect(roles[roles.length - 1]).toBe("cta");
+      expect(idea.thread!.every(tweet => tweet.text.length <= MAX_TWEET_LENGTH)).toBe(true);
+      expect(idea.thread![0]!.text).toEndWith(`1/${roles.length}`);
+      expect(idea.text).toBe(ThreadUtils.toText(idea.thread!));
+    }
+
+    const stored = await ideaService.list("threaduser");
+    expect(stored).toHaveLength(2);
+    expect(stored[0]!.thread).toBeDefined();
+    expect(stored[0]!.prompt).toBe("shipping");
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, test, expect } from "bun:test";
+import { TimingAnalytics } from "../analytics/timing";
+import type { TwitterPost } from "../types";
+
+// Local time, like the report itself
+function postAt(day: number, hour: number, likes?: number): TwitterPost {
+  return {
+    id: `${day}-${hour}`,
+    text: "post",
+    timestamp: new Date(2024, 2, day, hour, 15).getTime() / 1000,
+    metrics: likes === undefined ? undefined : { likes, retweets: 0, replies: 0 }
+  };
+}
+
+describe("TimingAnalytics", () => {
+  // March 2024: the 4th is a Monday
+  const posts: TwitterPost[] = [
+    postAt(4, 9, 10),
+    postAt(5, 9, 12),
+    postAt(6, 9, 14),
+    postAt(7, 18, 2),
+    postAt(14, 18, 3),
+    postAt(15, 18, 1),
+    { ...postAt(15, 20), isRetweet: true }
+  ];
+
+  test("counts own posts per weekday and hour", () => {
+    const report = TimingAnalytics.report(posts, new Date(2024, 2, 16, 10));
+
+    expect(report.postCount).toBe(6);
+    expect(report.heatmap[1]![9]).toBe(1);
+    expect(report.heatmap[4]![18]).toBe(2);
+    expect(report.byHour[9]).toBe(3);
+    expect(report.byHour[20]).toBe(0);
+    expect(report.byWeekday).toEqual([0, 1, 1, 1, 2, 1, 0]);
+    expect(report.activeDays).toBe(6);
+  });
+
+  test("finds streaks and the longest break", () => {
+    const report = TimingAnalytics.report(posts, new Date(2024, 2, 16, 10));
+
+    expect(report.longestStreak).toEqual({ from: "2024-03-04", to: "2024-03-07", days: 4 });
+    expect(report.longestGap).toEqual({ from: "2024-03-08", to: "2024-03-13", days: 6 });
+    expect(report.currentStreak).toBe(2);
+    expect(TimingAnalytics.report(posts, new Date(2024, 2, 20)).currentStreak).toBe(0);
+  });
+
+  test("ranks hours by engagement once they have enough posts", () => {
+    const report = TimingAnalytics.report(posts);
+
+    expect(report.engagementByHour[9]).toBeGreaterThan(1);
+    expect(report.engagementByHour[18]).toBeLessThan(1);
+    expect(report.engagementByHour[12]).toBeNull();
+    expect(report.bestHours).toEqual([9, 18]);
+    // Every weekday has fewer than three measured posts
+    expect(report.bestWeekdays).toEqual([]);
+  });
+
+  test("buckets by UTC for prompts, whatever the server's zone", () => {
+    const utcPosts: TwitterPost[] = [4, 5, 6].map(day => ({ text: "post", timestamp: Date.UTC(2024, 2, day, 23, 30) / 1000 }));
+    const report = TimingAnalytics.report(utcPosts, new Date(Date.UTC(2024, 2, 7, 12)), "UTC");
+
+    expect(report.timezone).toBe("UTC");
+    expect(report.byHour[23]).toBe(3);
+    expect(report.byWeekday).toEqual([0, 1, 1, 1, 0, 0, 0]);
+    expect(report.currentStreak).toBe(3);
+    expect(TimingAnalytics.describe(report)).toContain("3 posts between 2024-03-04 and 2024-03-06, times in UTC");
+  });
+
+  test("describes the report for prompts", () => {
+    const text = TimingAnalytics.describe(TimingAnalytics.report(posts, new Date(2024, 2, 16, 10)));
+
+    expect(text).toContain("6 posts between 2024-03-04 and 2024-03-15");
+    expect(text).toContain("Busiest hours: 09:00 (3 posts), 18:00 (3 posts)");
+    expect(text).toContain("Longest break: 6 days without posting");
+    expect(TimingAnalytics.describe(TimingAnalytics.report([]))).toBe("No posts with known publish times.");
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { config } from "../config";
+import { aiService } from "../services/ai";
+import { dataService } from "../services/data";
+import { usageService, UsageService } from "../services/usage";
+import type { TwitterPost, UsageRecord } from "../types";
+
+const today = new Date().toISOString().slice(0, 10);
+
+const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+  id: crypto.randomUUID(),
+  createdAt: `${today}T12:00:00.000Z`,
+  operation: "ideas",
+  model: "openai:gpt-4o",
+  promptTokens: 1000,
+  completionTokens: 500,
+  cost: UsageService.estimateCost("openai:gpt-4o", 1000, 500),
+  latencyMs: 1000,
+  steps: 1,
+  toolCalls: 0,
+  ...overrides
+});
+
+const posts: TwitterPost[] = [
+  { id: "1", text: "Ship small, ship often." },
+  { id: "2", text: "Pricing is a product decision." }
+];
+
+describe("UsageService", () => {
+  const original = { model: config.ai.models.analysis, budget: config.app.dailyBudgetPerUser, mode: config.app.budgetMode };
+
+  beforeAll(() => {
+    config.ai.models.analysis = "mock:mock-1";
+  });
+
+  afterAll(() => {
+    config.ai.models.analysis = original.model;
+    config.app.dailyBudgetPerUser = original.budget;
+    config.app.budgetMode = original.mode;
+  });
+
+  test("estimates cost from list prices, free for local models", () => {
+    expect(UsageService.estimateCost("openai:gpt-4o", 1_000_000, 100_000)).toBe(3.5);
+    expect(UsageService.estimateCost("ollama:llama3.1", 5000, 5000)).toBe(0);
+    expect(UsageService.estimateCost("openai:some-new-model", 5000, 5000)).toBeNull();
+  });
+
+  test("records every model call, including failed ones", async () => {
+    await aiService.analyzeUser("usageuser", posts);
+
+    const [analysis] = await usageService.list({ username: "usageuser" });
+    expect(analysis).toMatchObject({ operation: "analysis", username: "usageuser", model: "mock:mock-1", cost: 0, steps: 1 });
+    expect(analysis!.promptTokens).toBeGreaterThan(0);
+    expect(analysis!.completionTokens).toBeGreaterThan(0);
+
+    await expect(usageService.track({ operation: "analysis", username: "usageuser", task: "analysis" }, async () => {
+      throw new Error("Connection reset");
+    })).rejects.toThrow("Connection reset");
+    expect((await usageService.list({ username: "usageuser" })).at(-1)).toMatchObject({ error: "Connection reset", promptTokens: 0 });
+  });
+
+  test("reports totals per day, operation and model", async () => {
+    await dataService.addUsage(record({ username: "billeduser", createdAt: "2024-05-01T09:00:00.000Z" }));
+    await dataService.addUsage(record({ username: "billeduser", createdAt: "2024-05-02T09:00:00.000Z", operation: "thread" }));
+    await dataService.addUsage(record({
+      username: "billeduser",
+      createdAt: "2024-05-02T10:00:00.000Z",
+      model: "openai:some-new-model",
+      cost: null
+    }));
+
+    const report = await usageService.report({ username: "billeduser", from: "2024-05-02", to: "2024-05-02" });
+    expect(report.totals).toMatchObject({ calls: 2, promptTokens: 2000, completionTokens: 1000, cost: 0.0075, unpriced: 1 });
+    expect(Object.keys(report.byDay)).toEqual(["2024-05-02"]);
+    expect(report.byOperation.thread!.calls).toBe(1);
+    expect(report.byModel["openai:some-new-model"]!.cost).toBe(0);
+    expect(Object.keys(report.byUser)).toEqual(["billeduser"]);
+  });
+
+  test("refuses calls once an account's daily budget is spent, or only warns", async () => {
+    config.app.dailyBudgetPerUser = 0.01;
+    await dataService.addUsage(record({ username: "spenduser", cost: 0.02 }));
+
+    expect((await usageService.budgetStatus("spenduser")).user).toEqual({ username: "spenduser", spent: 0.02, budget: 0.01 });
+    await expect(aiService.analyzeUser("spenduser", posts)).rejects.toThrow("Daily budget of $0.01 for @spenduser is used up");
+    expect(await usageService.list({ username: "spenduser" })).toHaveLength(1);
+
+    // Other accounts still have their own budget
+    await usageService.checkBudget({ operation: "analysis", username: "otheruser", task: "analysis" });
+
+    // Models without a price would slip past the budget unnoticed
+    config.ai.models.analysis = "openai:some-new-model";
+    await expect(usageService.checkBudget({ operation: "analysis", username: "otheruser", task: "analysis" }))
+      .rejects.toThrow("openai:some-new-model has no price in MODEL_PRICES");
+    config.ai.models.analysis = "mock:mock-1";
+
+    config.app.budgetMode = "warn";
+    await aiService.analyzeUser("spenduser", posts);
+    expect(await usageService.list({ username: "spenduser" })).toHaveLength(2);
+  });
+});
@@ -1,5 +1,32 @@
+export interface PostMetrics {
+  likes: number;
+  retweets: number;
+  replies: number;
+  views?: number;
+  bookmarks?: number;
+}
+
 export interface TwitterPost {
+  // Bumped whenever the stored shape changes; older posts are migrated on load
+  schemaVersion?: number;
+  id?: string;
+  // Unix time in seconds
+  timestamp?: number;
+  createdAt?: string;
   text: string;
+  permanentUrl?: string;
+  conversationId?: string;
+  metrics?: PostMetrics;
+  isReply?: boolean;
+  isRetweet?: boolean;
+  isQuote?: boolean;
+  isPin?: boolean;
+  isSelfThread?: boolean;
+  inReplyToStatusId?: string;
+  quotedStatusId?: string;
+  urls?: string[];
+  hashtags?: string[];
+  mentions?: string[];
   photos?: { url: string }[];
   videos?: { url: string }[];
 }
@@ -10,9 +37,111 @@ export interface Community {
 }
 
 export interface PostIdea {
+  // Set once the idea is stored in the idea library
+  id?: string;
+  // For threads, all tweets joined by blank lines
   text: string;
   community: string | null;
   reasoning?: string;
+  // Thread ideas only: the tweets in posting order, already numbered
+  thread?: ThreadTweet[];
+  // Scored against the user's measured style when the idea is generated
+  styleMatch?: StyleMatch;
+  quality?: IdeaQuality;
+  // Set when the idea nearly repeats an earlier post or idea
+  duplicateOf?: DuplicateMatch;
+}
+
+export interface DuplicateMatch {
+  // The user's own post, an idea from an earlier session or another idea in the same batch
+  source: 'post' | 'idea' | 'batch';
+  text: string;
+  // Estimated share of shared character shingles, 0-1
+  similarity: number;
+  // Library id when the source is an earlier idea
+  id?: string;
+}
+
+// Automatic checks run on every generated idea; ideas come back ranked by score
+export interface IdeaQuality {
+  // 0-100
+  score: number;
+  // 0-100 each; style is null when there are too few posts to measure it
+  style: number | null;
+  novelty: number;
+  length: number;
+  // Forbidden patterns and near-copies, e.g. 'Placeholder "[link]"'
+  issues: string[];
+}
+
+export type ThreadTweetRole = 'hook' | 'body' | 'cta';
+
+export interface ThreadTweet {
+  text: string;
+  role: ThreadTweetRole;
+}
+
+export type ThreadNumberingStyle = 'fraction' | 'slash' | 'dot' | 'none';
+
+// How an account formats its own threads
+export interface ThreadStyle {
+  // "1/5", "1/" or "1." - or no numbering at all
+  numbering: ThreadNumberingStyle;
+  position: 'start' | 'end';
+  // Emoji the account ends its thread hooks with, e.g. 🧵
+  hookMarker?: string;
+  // How many of the account's threads the style was learned from; 0 means the defaults
+  sampleSize: number;
+}
+
+export type ReplyKind = 'reply' | 'quote';
+
+// The tweet replies and quotes are drafted for
+export interface ReplyTarget {
+  text: string;
+  id?: string;
+  author?: string;
+  url?: string;
+}
+
+export interface ReplyDraft {
+  kind: ReplyKind;
+  text: string;
+  // Why the draft suits the persona and the tweet
+  rationale: string;
+}
+
+export interface EngagementInsight {
+  pattern: string;
+  // Quotes or paraphrases of the top posts that show the pattern
+  evidence: string[];
+  // What the weakest posts do instead
+  contrast?: string;
+}
+
+// Statistical description of how a user writes. Rates are shares of posts, 0-1.
+export interface StyleFingerprint {
+  sampleSize: number;
+  // Characters, not counting links
+  length: { median: number; p10: number; p90: number };
+  medianWords: number;
+  emoji: { rate: number; perPost: number; favorites: string[] };
+  capitalization: { lowercaseStart: number; allCapsWords: number };
+  punctuation: { questions: number; exclamations: number; ellipses: number; endsWithPeriod: number };
+  lineBreaks: { rate: number; perPost: number };
+  hashtags: { rate: number; perPost: number };
+  mentions: { rate: number; perPost: number };
+  urlRate: number;
+  // Phrases that recur across posts, most common first
+  ngrams: { bigrams: string[]; trigrams: string[] };
+}
+
+// How closely a text follows a StyleFingerprint
+export interface StyleMatch {
+  // 0-100
+  score: number;
+  // What stands out, e.g. "Uses hashtags (4% of their posts use hashtags)"
+  deviations: string[];
 }
 
 export interface Analysis {
@@ -27,6 +156,9 @@ export interface Analysis {
   content_evolution?: string[];
   untapped_opportunities?: string[];
   voice_architecture?: string;
+  what_works?: EngagementInsight[];
+  // Measured on the analyzed posts, not written by the model
+  style?: StyleFingerprint;
   key_themes: string[];
   engagement_patterns: string[];
   unique_behaviors: string[];
@@ -34,17 +166,307 @@ export interface Analysis {
   tone: string;
 }
 
+// The slice of the archive an analysis was run against
+export interface AnalysisPostWindow {
+  count: number;
+  newestPostId?: string;
+  oldestPostId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface AnalysisSnapshot {
+  id: string;
+  createdAt: string;
+  model: string;
+  postWindow: AnalysisPostWindow;
+  analysis: Analysis;
+}
+
+// One finished period of a chunked analysis, kept until the merge succeeds so a failed run can resume
+export interface AnalysisChunk {
+  // Hash of the model and the period's posts
+  key: string;
+  postWindow: AnalysisPostWindow;
+  analysis: Analysis;
+  createdAt: string;
+}
+
 export interface UserData {
   username: string;
   posts: TwitterPost[];
   analysis?: Analysis;
   customInstructions?: string;
   availableCommunities?: Community[];
+  lastSyncedAt?: string;
   lastUpdated: string;
 }
 
+export type IdeaSource = 'batch' | 'prompt' | 'tweak';
+
+export type IdeaStatus = 'new' | 'starred' | 'used' | 'rejected';
+
+export interface StoredIdea extends PostIdea {
+  id: string;
+  source: IdeaSource;
+  // Topic for prompt ideas, feedback for tweaks
+  prompt?: string;
+  // The idea a tweak was derived from
+  parentId?: string;
+  model: string;
+  status: IdeaStatus;
+  createdAt: string;
+  updatedAt?: string;
+  // Set once the idea is on the content calendar
+  scheduledFor?: CalendarSlot;
+}
+
+// A posting slot on the content calendar, in server local time
+export interface CalendarSlot {
+  // "YYYY-MM-DD"
+  date: string;
+  // 24-hour "HH:MM"
+  time: string;
+}
+
+export interface SuggestedSlot extends CalendarSlot {
+  // Own posts published in this hour: on this weekday, or on any day when the weekday has none
+  postCount: number;
+  basis: 'weekday' | 'overall' | 'default';
+}
+
+export interface ContentCalendar {
+  username: string;
+  from: string;
+  to: string;
+  // Scheduled ideas in the range, in posting order
+  entries: StoredIdea[];
+  // Starred ideas waiting for a slot
+  unscheduled: StoredIdea[];
+  // Days in the range with nothing scheduled
+  gaps: string[];
+  // One slot per gap, at the hour the account usually posts
+  suggestions: SuggestedSlot[];
+  // The account's busiest posting hours overall, best first
+  preferredTimes: string[];
+}
+
+export interface IdeaFilter {
+  status?: IdeaStatus;
+  source?: IdeaSource;
+  search?: string;
+  limit?: number;
+}
+
+export interface UserSummary {
+  username: string;
+  postsCount: number;
+  hasAnalysis: boolean;
+  lastUpdated: string;
+  customInstructions: boolean;
+  communities: number;
+}
+
+export interface DataStats {
+  totalUsers: number;
+  totalDataSize: string;
+  lastUpdated?: string;
+}
+
+// One LLM call, recorded for per-account billing and budgets
+export interface UsageRecord {
+  id: string;
+  createdAt: string;
+  // What the call was for, e.g. "analysis" or "agent-chat"
+  operation: string;
+  // The account the call was made for; agent chats and prompts without an account have none
+  username?: string;
+  // "provider:model"
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // Estimated USD; null when the model's price is unknown
+  cost: number | null;
+  latencyMs: number;
+  // Model round trips; more than one when tools were called
+  steps: number;
+  toolCalls: number;
+  // Set when the call failed
+  error?: string;
+}
+
+export interface UsageFilter {
+  username?: string;
+  // Inclusive UTC days, YYYY-MM-DD
+  from?: string;
+  to?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  // Estimated USD of the calls with a known price
+  cost: number;
+  // Calls whose model has no known price
+  unpriced: number;
+  averageLatencyMs: number;
+}
+
+export interface UsageReport {
+  filter: UsageFilter;
+  totals: UsageTotals;
+  // Calls without an account are grouped under "-"
+  byUser: Record<string, UsageTotals>;
+  byDay: Record<string, UsageTotals>;
+  byOperation: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+}
+
+// "refuse" stops LLM calls once a budget is used up, "warn" only logs
+export type BudgetMode = 'warn' | 'refuse';
+
+// Spending today (UTC) against the configured daily budgets; a budget of 0 means none
+export interface BudgetStatus {
+  day: string;
+  mode: BudgetMode;
+  spent: number;
+  budget: number;
+  user?: {
+    username: string;
+    spent: number;
+    budget: number;
+  };
+}
+
+export type ScheduledJobType = 'sync' | 'analyze' | 'generate';
+
+export type JobFrequency = 'hourly' | 'daily' | 'weekly';
+
+export interface JobSchedule {
+  frequency: JobFrequency;
+  // Local "HH:MM"; only the minutes are used for hourly jobs
+  time: string;
+  // 0 = Sunday, weekly jobs only
+  dayOfWeek?: number;
+}
+
+export interface ScheduledJob {
+  id: string;
+  username: string;
+  type: ScheduledJobType;
+  schedule: JobSchedule;
+  // Ideas per run for generate jobs
+  count?: number;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt?: string;
+  nextRunAt: string;
+  lastRunAt?: string;
+  lastStatus?: JobRunStatus;
+}
+
+export type JobRunStatus = 'success' | 'failed';
+
+export interface JobRun {
+  id: string;
+  jobId: string;
+  type: ScheduledJobType;
+  startedAt: string;
+  finishedAt: string;
+  status: JobRunStatus;
+  message?: string;
+  error?: string;
+}
+
+export type QueuedJobType = 'scrape' | 'analyze' | 'generate' | 'thread' | 'schedule';
+
+export type QueuedJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// A long-running API request handed off to the job queue
+export interface QueuedJob<T = unknown> {
+  id: string;
+  type: QueuedJobType;
+  username: string;
+  status: QueuedJobStatus;
+  // 0-100
+  progress: number;
+  message?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: T;
+  error?: string;
+}
+
+export interface AgentMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+}
+
+// Facts the agent keeps verbatim no matter how much of the conversation is summarized
+export interface AgentPinnedFacts {
+  // The account the conversation is currently about
+  targetAccount?: string;
+  approvedIdeas: string[];
+  notes: string[];
+}
+
+export interface AgentMemory {
+  // Rolling summary of the turns that no longer fit in the agent's context
+  summary: string;
+  // How many of the oldest session messages the summary covers
+  summarizedCount: number;
+  pinned: AgentPinnedFacts;
+  updatedAt?: string;
+}
+
+// A saved conversation with the agent that can be resumed later
+export interface AgentSession {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  // The complete conversation, oldest first. The agent sees the summary plus the unsummarized tail.
+  messages: AgentMessage[];
+  memory?: AgentMemory;
+}
+
+export interface AgentSessionSummary extends Omit<AgentSession, 'messages' | 'memory'> {
+  messageCount: number;
+}
+
+// Tool activity while a model is working, forwarded to streaming clients
+export type ToolStreamEvent =
+  | { type: 'tool-call'; toolName: string; args: unknown }
+  | { type: 'tool-result'; toolName: string; result: unknown };
+
+export type AgentStreamEvent =
+  | ToolStreamEvent
+  | { type: 'text'; delta: string }
+  | { type: 'done'; text: string }
+  | { type: 'error'; message: string };
+
+export type IdeaStreamEvent =
+  | ToolStreamEvent
+  | { type: 'progress'; message: string }
+  // An idea as soon as the model has finished writing it, before validation of the whole batch
+  | { type: 'idea'; index: number; idea: PostIdea }
+  // The final, stored ideas. These replace the streamed ones.
+  | { type: 'done'; ideas: PostIdea[] }
+  | { type: 'error'; message: string };
+
+export interface SyncResult {
+  username: string;
+  posts: TwitterPost[];
+  added: number;
+  total: number;
+}
+
 // Action types
-export type ActionType = 'analyze' | 'ideas' | 'both' | 'prompt' | 'info' | 'settings' | 'data' | 'exit';
+export type ActionType = 'analyze' | 'ideas' | 'thread' | 'reply' | 'compare' | 'both' | 'prompt' | 'library' | 'calendar' | 'info' | 'settings' | 'data' | 'exit';
 
 export type SettingsActionType = 'instructions' | 'communities' | 'facts' | 'back';
 
@@ -52,14 +474,55 @@ export type CommunityActionType = 'view' | 'add' | 'remove' | 'back';
 
 export type InstructionsActionType = 'view' | 'edit' | 'clear' | 'back';
 
-export type FactsActionType = 'view' | 'regenerate' | 'back';
+export type FactsActionType = 'view' | 'history' | 'regenerate' | 'back';
+
+export type IdeaFilterActionType = 'all' | IdeaStatus | 'search' | 'back';
+
+export type IdeaActionType = 'copy' | 'star' | 'use' | 'reject' | 'reset' | 'schedule' | 'delete' | 'back';
+
+export type CalendarActionType = 'schedule' | 'unschedule' | 'export' | 'back';
 
 // Configuration types
 export interface AppConfig {
   dataDir: string;
   logLevel: string;
   maxPostsToAnalyze: number;
+  // Larger analyses run one period of this many posts at a time and are then merged
+  analysisChunkSize: number;
   maxPostsForPrompt: number;
+  maxArchivedPosts: number;
+  storageBackend: StorageBackendName;
+  sqlitePath: string;
+  schedulerEnabled: boolean;
+  schedulerIntervalMs: number;
+  queueConcurrency: number;
+  // Batch ideas scoring below this are regenerated once; 0 turns it off
+  minIdeaQuality: number;
+  // Estimated USD per UTC day for the whole workspace and for each account; 0 means no budget
+  dailyBudget: number;
+  dailyBudgetPerUser: number;
+  budgetMode: BudgetMode;
+}
+
+export type StorageBackendName = 'json' | 'sqlite';
+
+export type ModelTask = 'analysis' | 'generation' | 'agent';
+
+export type AIProviderName = 'google' | 'openai' | 'anthropic' | 'ollama' | 'llamacpp' | 'mock';
+
+export interface AIConfig {
+  provider: AIProviderName;
+  models: Record<ModelTask, string>;
+  openaiBaseUrl?: string;
+  ollamaBaseUrl: string;
+  llamacppBaseUrl: string;
+  // USD per million tokens by "provider:model"
+  prices: Record<string, ModelPrice>;
+}
+
+export interface ModelPrice {
+  input: number;
+  output: number;
 }
 
 export interface ScraperConfig {
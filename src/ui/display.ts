@@ -1,6 +1,25 @@
 import chalk from "chalk";
 import boxen from "boxen";
-import type { Analysis, PostIdea, UserData } from "../types";
+import type {
+  AgentMemory,
+  Analysis,
+  BudgetStatus,
+  ContentCalendar,
+  EngagementInsight,
+  IdeaQuality,
+  PostIdea,
+  ReplyDraft,
+  ReplyTarget,
+  StoredIdea,
+  StyleMatch,
+  UsageReport,
+  UsageTotals,
+  UserData
+} from "../types";
+import type { AnalysisDiff } from "../analytics/diff";
+import type { AccountComparison, AccountMetrics } from "../analytics/compare";
+import { TimingAnalytics, WEEKDAYS, type TimingReport } from "../analytics/timing";
+import { StyleAnalytics } from "../analytics/style";
 
 export class DisplayUI {
   static showWelcomeScreen(): void {
@@ -123,6 +142,7 @@ export class DisplayUI {
       const postNum = i + 1;
       const charCount = idea.text.length;
       const charColor = charCount > 280 ? 'red' : charCount > 240 ? 'yellow' : 'green';
+      const lengthLabel = idea.thread ? chalk.cyan(`🧵 ${idea.thread.length} tweets`) : chalk[charColor](`${charCount}c`);
 
       const communityBadge = idea.community
         ? chalk.blue(`[${idea.community}]`)
@@ -137,7 +157,7 @@ export class DisplayUI {
 
       const postContent = chalk.white.bold(`${postNum}.`) + " " +
         chalk.gray(`${preview}`) + "\n" +
-        chalk.dim(`${communityBadge} • ${chalk[charColor](`${charCount}c`)} • ${clickableLink}`);
+        chalk.dim(`${communityBadge} • ${lengthLabel}${idea.quality ? ` • 🏅 ${idea.quality.score}` : ""} • ${clickableLink}`);
 
       content += postContent + "\n\n";
     });
@@ -172,6 +192,11 @@ export class DisplayUI {
     const communities = [...new Set(postIdeas.map(p => p.community).filter(Boolean))];
     const hasHashtags = postIdeas.filter(p => p.text.includes('#')).length;
     const hasMentions = postIdeas.filter(p => p.text.includes('@')).length;
+    const scored = postIdeas.filter(p => p.quality);
+    const avgQuality = scored.length > 0
+      ? Math.round(scored.reduce((sum, p) => sum + p.quality!.score, 0) / scored.length)
+      : null;
+    const withIssues = postIdeas.filter(p => (p.quality?.issues.length ?? 0) > 0).length;
 
     return {
       total: postIdeas.length,
@@ -180,7 +205,9 @@ export class DisplayUI {
       avgLength,
       communities,
       hasHashtags,
-      hasMentions
+      hasMentions,
+      avgQuality,
+      withIssues
     };
   }
 
@@ -190,6 +217,14 @@ export class DisplayUI {
       chalk.blue(`${stats.avgLength} avg chars`),
     ];
 
+    if (stats.avgQuality !== null) {
+      items.push(chalk.green(`${stats.avgQuality} avg quality`));
+    }
+
+    if (stats.withIssues > 0) {
+      items.push(chalk.red(`${stats.withIssues} with issues`));
+    }
+
     if (stats.withCommunity > 0) {
       items.push(chalk.green(`${stats.withCommunity} with community`));
     }
@@ -227,6 +262,10 @@ export class DisplayUI {
   }
 
   private static formatPostIdea(idea: PostIdea, index: number): string {
+    if (idea.thread) {
+      return this.formatThread(idea, index);
+    }
+
     const charCount = idea.text.length;
     const charColor = charCount > 280 ? 'red' : charCount > 240 ? 'yellow' : 'green';
 
@@ -240,7 +279,9 @@ export class DisplayUI {
     const communityBadge = idea.community ? chalk.blue(idea.community) : chalk.gray("General");
     const charDisplay = chalk[charColor](`${charCount} chars`);
     const copyInstructions = chalk.cyan(`📋 Copy: Select Post ${index} in actions`);
-    const metadata = chalk.dim(`${communityBadge} • ${charDisplay} • ${copyInstructions}`);
+    const qualityBadge = idea.quality ? ` • ${this.formatQuality(idea.quality)}` : "";
+    const styleBadge = idea.styleMatch ? ` • ${this.formatStyleMatch(idea.styleMatch)}` : "";
+    const metadata = chalk.dim(`${communityBadge} • ${charDisplay}${qualityBadge}${styleBadge} • ${copyInstructions}`);
 
     // Create X.com compose URL with pre-filled text
     const encodedText = encodeURIComponent(idea.text);
@@ -249,7 +290,48 @@ export class DisplayUI {
 
     return `${postHeader}\n` +
       `${formattedText}\n\n` +
-      chalk.dim(`${metadata} • ${clickableLink}\n`);
+      chalk.dim(`${metadata} • ${clickableLink}\n`) +
+      this.formatIdeaWarnings(idea);
+  }
+
+  private static formatQuality(quality: IdeaQuality): string {
+    const color = quality.score >= 75 ? "green" : quality.score >= 50 ? "yellow" : "red";
+    return chalk[color](`🏅 ${quality.score}/100`)
+      + chalk.gray(` (novelty ${quality.novelty}, length ${quality.length}${quality.style === null ? "" : `, style ${quality.style}`})`);
+  }
+
+  // Failed checks first, then the softer style deviations
+  private static formatIdeaWarnings(idea: PostIdea): string {
+    const issues = (idea.quality?.issues ?? []).map(issue => chalk.red(`✗ ${issue}`));
+    const deviations = (idea.styleMatch?.deviations ?? []).map(deviation => chalk.yellow(`⚠ ${deviation}`));
+    return [...issues, ...deviations].map(line => line + "\n").join("");
+  }
+
+  private static formatStyleMatch(match: StyleMatch): string {
+    const color = match.score >= 75 ? "green" : match.score >= 50 ? "yellow" : "red";
+    return chalk[color](`🎯 ${match.score}% style match`);
+  }
+
+  private static formatThread(idea: PostIdea, index: number): string {
+    const tweets = idea.thread ?? [];
+    const roleBadges = { hook: chalk.magenta("hook"), body: chalk.gray("body"), cta: chalk.green("cta") };
+
+    const header = chalk.white.bold(`Thread ${index}`) + chalk.gray(` (${tweets.length} tweets)`);
+    const body = tweets.map(tweet => {
+      const charColor = tweet.text.length > 280 ? 'red' : tweet.text.length > 240 ? 'yellow' : 'green';
+      return `${this.highlightPostText(tweet.text)}\n` +
+        chalk.dim(`${roleBadges[tweet.role]} • ${chalk[charColor](`${tweet.text.length} chars`)}`);
+    }).join("\n\n");
+
+    const communityBadge = idea.community ? chalk.blue(idea.community) : chalk.gray("General");
+    const twitterUrl = `https://x.com/intent/tweet?text=${encodeURIComponent(tweets[0]?.text ?? idea.text)}`;
+    const clickableLink = this.createTerminalHyperlink(twitterUrl, chalk.cyan(`🔗 Start in X`));
+
+    const qualityBadge = idea.quality ? ` • ${this.formatQuality(idea.quality)}` : "";
+    const styleBadge = idea.styleMatch ? ` • ${this.formatStyleMatch(idea.styleMatch)}` : "";
+
+    return `${header}\n${body}\n\n` + chalk.dim(`${communityBadge}${qualityBadge}${styleBadge} • ${clickableLink}\n`)
+      + this.formatIdeaWarnings(idea);
   }
 
   private static highlightPostText(text: string): string {
@@ -352,12 +434,56 @@ export class DisplayUI {
       this.showCustomInstructions(userData.customInstructions);
     }
 
+    const timing = TimingAnalytics.report(userData.posts);
+    if (timing.postCount > 0) {
+      this.showPostingTimes(timing);
+    }
+
     // Show random facts if they exist
     if (userData.analysis) {
       this.showDetailedAnalysis(userData.analysis);
     }
   }
 
+  /**
+   * Weekday × hour heatmap of past posts, with the engagement-by-hour curve underneath
+   */
+  static showPostingTimes(report: TimingReport): void {
+    const shades = ["·", "░", "▒", "▓", "█"];
+    const shade = (value: number, max: number) =>
+      value <= 0 || max <= 0 ? shades[0]! : shades[Math.min(shades.length - 1, Math.ceil((value / max) * (shades.length - 1)))]!;
+
+    const busiest = Math.max(0, ...report.heatmap.flat());
+    const header = "Hr  " + Array.from({ length: 24 }, (_, hour) => hour % 3 === 0 ? String(hour).padEnd(6) : "").join("");
+    const rows = report.heatmap.map((hours, weekday) =>
+      chalk.gray(WEEKDAYS[weekday]!.padEnd(4)) + chalk.cyan(hours.map(count => shade(count, busiest).repeat(2)).join(""))
+    );
+
+    // Above-median hours in green, below in red
+    const topScore = Math.max(0, ...report.engagementByHour.map(score => score ?? 0));
+    const engagement = chalk.gray("Eng ") + report.engagementByHour.map(score => {
+      if (score === null) {
+        return chalk.gray("  ");
+      }
+      const cell = shade(score, topScore).repeat(2);
+      return score >= 1 ? chalk.green(cell) : chalk.red(cell);
+    }).join("");
+
+    console.log("\n" + boxen(
+      chalk.cyan.bold("🕒 Posting Times") + chalk.gray(` (${report.timezone})`) + "\n\n" +
+      chalk.gray(header) + "\n" +
+      rows.join("\n") + "\n" +
+      (topScore > 0 ? engagement + "\n" : "") + "\n" +
+      TimingAnalytics.describe(report).split("\n").map(line => chalk.white(`• ${line}`)).join("\n"),
+      {
+        padding: 1,
+        margin: 1,
+        borderStyle: "round",
+        borderColor: "magenta"
+      }
+    ));
+  }
+
   static showCommunities(communities: Array<{ name: string; description: string }>): void {
     console.log("\n" + boxen(
       chalk.cyan.bold("🏘️  Available Communities") + "\n\n" +
@@ -390,6 +516,15 @@ export class DisplayUI {
   static showDetailedAnalysis(analysis: any): void {
     const sections = [];
 
+    if (analysis.what_works?.length > 0) {
+      sections.push(chalk.cyan.bold("🏆 What Works:") + "\n" +
+        analysis.what_works.slice(0, 3).map((insight: EngagementInsight) =>
+          chalk.white(`• ${insight.pattern}`) +
+          (insight.evidence || []).slice(0, 2).map(quote => "\n" + chalk.gray(`    "${quote}"`)).join("") +
+          (insight.contrast ? "\n" + chalk.dim(`    vs. ${insight.contrast}`) : "")
+        ).join("\n"));
+    }
+
     if (analysis.content_taxonomy?.length > 0) {
       sections.push(chalk.cyan.bold("📋 Content Taxonomy:") + "\n" +
         analysis.content_taxonomy.slice(0, 3).map((item: string) => chalk.gray(`• ${item}`)).join("\n"));
@@ -404,6 +539,11 @@ export class DisplayUI {
       sections.push(chalk.cyan.bold("🎭 Voice Architecture:") + "\n" + chalk.gray(analysis.voice_architecture));
     }
 
+    if (analysis.style) {
+      sections.push(chalk.cyan.bold(`🔬 Style Fingerprint (${analysis.style.sampleSize} posts):`) + "\n" +
+        StyleAnalytics.describe(analysis.style).split("\n").map(line => chalk.gray(`• ${line}`)).join("\n"));
+    }
+
     console.log("\n" + boxen(
       chalk.cyan.bold("📊 Detailed Analysis") + "\n\n" +
       (sections.length > 0 ? sections.join("\n\n") : "Analysis data available but not detailed."),
@@ -416,6 +556,215 @@ export class DisplayUI {
     ));
   }
 
+  static showAnalysisDiff(diff: AnalysisDiff): void {
+    const describe = (snapshot: AnalysisDiff["from"]) =>
+      `${new Date(snapshot.createdAt).toLocaleDateString()} (${snapshot.postWindow.count} posts)`;
+
+    const sections = diff.fields.map(field =>
+      chalk.cyan.bold(`${field.label}:`) + "\n" +
+      [
+        ...field.added.map(item => chalk.green(`+ ${item}`)),
+        ...field.removed.map(item => chalk.red(`- ${item}`))
+      ].join("\n") +
+      (field.unchanged > 0 ? "\n" + chalk.dim(`  ${field.unchanged} unchanged`) : "")
+    );
+
+    console.log("\n" + boxen(
+      chalk.cyan.bold(`🔀 ${describe(diff.from)} → ${describe(diff.to)}`) + "\n" +
+      chalk.gray(`Tone similarity: ${Math.round(diff.toneSimilarity * 100)}%`) + "\n\n" +
+      (sections.length > 0 ? sections.join("\n\n") : chalk.gray("No themes, tones or opportunities changed.")),
+      {
+        padding: 1,
+        margin: 1,
+        borderStyle: "round",
+        borderColor: "magenta"
+      }
+    ));
+  }
+
+  static showStoredIdea(idea: StoredIdea): void {
+    const statusLabels: Record<StoredIdea["status"], string> = {
+      new: chalk.cyan("🆕 New"),
+      starred: chalk.yellow("⭐ Starred"),
+      used: chalk.green("✅ Used"),
+      rejected: chalk.red("🚫 Rejected")
+    };
+
+    const details = [
+      `${statusLabels[idea.status]} • ${chalk.gray(idea.source)} • `
+        + chalk.gray(new Date(idea.createdAt).toLocaleString()),
+      chalk.gray(`Model: ${idea.model}`),
+      idea.prompt ? chalk.gray(`${idea.source === "tweak" ? "Feedback" : "Prompt"}: ${idea.prompt}`) : "",
+      idea.community ? chalk.blue(`Community: ${idea.community}`) : "",
+      idea.scheduledFor ? chalk.magenta(`📅 Scheduled for ${idea.scheduledFor.date} at ${idea.scheduledFor.time}`) : "",
+      idea.quality ? this.formatQuality(idea.quality) : "",
+      idea.styleMatch ? this.formatStyleMatch(idea.styleMatch) : "",
+      this.formatIdeaWarnings(idea).trimEnd(),
+      idea.reasoning ? chalk.dim(`Reasoning: ${idea.reasoning}`) : ""
+    ].filter(Boolean);
+
+    console.log("\n" + boxen(
+      this.highlightPostText(idea.text) + "\n\n" + details.join("\n"),
+      {
+        padding: 1,
+        margin: 1,
+        borderStyle: "round",
+        borderColor: "cyan",
+        title: "💡 Saved Idea"
+      }
+    ));
+  }
+
+  static showCalendar(calendar: ContentCalendar): void {
+    const suggestions = new Map(calendar.suggestions.map(slot => [slot.date, slot]));
+    const weekday = (date: string) => {
+      const [year, month, day] = date.split("-").map(Number);
+      return new Date(year!, month! - 1, day!).toLocaleDateString("en-US", { weekday: "short" });
+    };
+
+    const days: string[] = [];
+    const dates = [...new Set([...calendar.gaps, ...calendar.entries.map(idea => idea.scheduledFor!.date)])].sort();
+    for (const date of dates) {
+      const entries = calendar.entries.filter(idea => idea.scheduledFor!.date === date);
+      const header = chalk.white.bold(`${weekday(date)} ${date}`);
+
+      if (entries.length === 0) {
+        const suggestion = suggestions.get(date);
+        days.push(header + chalk.gray(`  — nothing scheduled${suggestion ? `, try ${suggestion.time}` : ""}`));
+        continue;
+      }
+
+      days.push(header + "\n" + entries.map(idea =>
+        `  ${chalk.cyan(idea.scheduledFor!.time)} ${this.truncateText(idea.text.replace(/\s+/g, " "), 60)}`
+      ).join("\n"));
+    }
+
+    const summary = chalk.gray(
+      `${calendar.entries.length} scheduled • ${calendar.gaps.length} open days • `
+      + `${calendar.unscheduled.length} approved ideas waiting • usual times ${calendar.preferredTimes.join(", ")}`
+    );
+
+    console.log("\n" + boxen(
+      chalk.cyan.bold(`📅 @${calendar.username}: ${calendar.from} → ${calendar.to}`) + "\n" + summary + "\n\n" + days.join("\n"),
+      {
+        padding: 1,
+        margin: 1,
+        borderStyle: "round",
+        borderColor: "magenta"
+      }
+    ));
+  }
+
+  static showReplyDrafts(target: ReplyTarget, drafts: ReplyDraft[], persona: string): void {
+    const header = chalk.cyan.bold(`💬 Drafts as @${persona}`) + chalk.gray(` (${drafts.length} drafts)`);
+    const original = chalk.gray(`${target.author ? `@${target.author}: ` : ""}${this.truncateText(target.text, 200)}`);
+
+    const body = drafts.map((draft, index) => {
+      const charCount = draft.text.length;
+      const charColor = charCount > 280 ? 'red' : charCount > 240 ? 'yellow' : 'green';
+      const kindBadge = draft.kind === "quote" ? chalk.magenta("🔁 quote") : chalk.blue("↩️  reply");
+
+      return chalk.white.bold(`${index + 1}. `) + kindBadge + chalk.dim(` • ${chalk[charColor](`${charCount} chars`)}`) + "\n" +
+        this.highlightPostText(draft.text) + "\n" +
+        chalk.dim(`Why: ${draft.rationale}`);
+    }).join("\n\n");
+
+    console.log("\n" + boxen(`${header}\n\n${chalk.white.bold("Replying to:")}\n${original}\n\n${body}`, {
+      padding: 1,
+      margin: 1,
+      borderStyle: "round",
+      borderColor: "cyan"
+    }));
+  }
+
+  static showComparison(comparison: AccountComparison): void {
+    const { accounts, narrative } = comparison;
+    const percent = (share: number) => `${Math.round(share * 100)}%`;
+    const rows: [string, (metrics: AccountMetrics) => string][] = [
+      ["Posts", metrics => `${metrics.posts}`],
+      ["Posts / week", metrics => metrics.postsPerWeek === null ? "–" : `${metrics.postsPerWeek}`],
+      ["Hours between", metrics => metrics.medianHoursBetweenPosts === null ? "–" : `${metrics.medianHoursBetweenPosts}`],
+      ["Avg length", metrics => `${metrics.averageLength}`],
+      ["Replies", metrics => percent(metrics.formatMix.replies)],
+      ["Quotes", metrics => percent(metrics.formatMix.quotes)],
+      ["Threads", metrics => percent(metrics.formatMix.threads)],
+      ["Media", metrics => percent(metrics.formatMix.media)],
+      ["Links", metrics => percent(metrics.formatMix.links)],
+      ["Questions", metrics => percent(metrics.formatMix.questions)],
+      ["Engagement", metrics => metrics.medianEngagement === null
+        ? "–"
+        : `${metrics.medianEngagement}${metrics.engagementPerView ? "/view" : ""}`]
+    ];
+
+    const columnWidth = Math.max(12, ...accounts.map(account => account.username.length + 2));
+    const table = [
+      chalk.white.bold("".padEnd(15) + accounts.map(account => `@${account.username}`.padEnd(columnWidth)).join("")),
+      ...rows.map(([label, value]) =>
+        chalk.gray(label.padEnd(15)) + accounts.map(account => value(account.metrics).padEnd(columnWidth)).join("")
+      )
+    ].join("\n");
+
+    const profiles = accounts.map((account, index) => {
+      const written = narrative?.accounts[index];
+      return [
+        chalk.yellow.bold(`@${account.username}`) + (index === 0 ? chalk.gray(" (benchmarked)") : ""),
+        written ? chalk.white(written.positioning) : "",
+        chalk.gray(`Tone: ${account.tone}`),
+        chalk.gray(`Mechanics: ${account.engagementMechanics.slice(0, 3).join("; ") || "none"}`),
+        account.metrics.topHashtags.length > 0 ? chalk.gray(`Hashtags: ${account.metrics.topHashtags.join(" ")}`) : "",
+        ...(written?.exclusiveTopics ?? account.exclusiveThemes).map(topic => chalk.green(`+ ${topic}`)),
+        ...(written?.gaps ?? []).map(topic => chalk.red(`- ${topic}`))
+      ].filter(Boolean).join("\n");
+    });
+
+    const sections = [
+      narrative ? chalk.white(narrative.overview) : "",
+      table,
+      ...profiles,
+      chalk.cyan.bold("Shared:") + " " + chalk.gray((narrative?.sharedTopics ?? comparison.sharedThemes).join(", ") || "nothing in common"),
+      narrative && narrative.recommendations.length > 0
+        ? chalk.cyan.bold(`Recommendations for @${accounts[0]!.username}:`) + "\n"
+          + narrative.recommendations.map(item => chalk.white(`• ${item}`)).join("\n")
+        : ""
+    ].filter(Boolean);
+
+    console.log("\n" + boxen(
+      chalk.cyan.bold(`⚖️  ${accounts.map(account => `@${account.username}`).join(" vs ")}`) + "\n\n" + sections.join("\n\n"),
+      {
+        padding: 1,
+        margin: 1,
+        borderStyle: "round",
+        borderColor: "magenta"
+      }
+    ));
+  }
+
+  static showAgentMemory(memory: AgentMemory): void {
+    const { targetAccount, approvedIdeas, notes } = memory.pinned;
+    const sections = [
+      chalk.white.bold("Summary:") + "\n" + chalk.gray(memory.summary || "Nothing summarized yet.")
+        + (memory.summarizedCount > 0 ? "\n" + chalk.dim(`  covers ${memory.summarizedCount} earlier messages`) : ""),
+      chalk.white.bold("Target account: ") + chalk.yellow(targetAccount ? `@${targetAccount}` : "none")
+    ];
+
+    if (approvedIdeas.length > 0) {
+      sections.push(chalk.white.bold("Approved ideas:") + "\n" + approvedIdeas.map(idea => chalk.green(`• ${idea}`)).join("\n"));
+    }
+    if (notes.length > 0) {
+      sections.push(chalk.white.bold("Pinned notes:") + "\n" + notes.map(note => chalk.cyan(`• ${note}`)).join("\n"));
+    }
+
+    console.log("\n" + boxen(
+      chalk.cyan.bold("🧠 Agent Memory") + "\n\n" + sections.join("\n\n"),
+      {
+        padding: 1,
+        margin: 1,
+        borderStyle: "round",
+        borderColor: "blue"
+      }
+    ));
+  }
+
   static showDataStats(stats: { totalUsers: number; totalDataSize: string; lastUpdated?: string }): void {
     console.log("\n" + boxen(
       chalk.cyan.bold("📈 Data Statistics") + "\n\n" +
@@ -432,6 +781,58 @@ export class DisplayUI {
     ));
   }
 
+  static showUsageReport(report: UsageReport, budget: BudgetStatus): void {
+    const { totals } = report;
+    const cost = (amount: number) => `$${amount.toFixed(amount > 0 && amount < 0.01 ? 4 : 2)}`;
+    const tokens = (count: number) => count.toLocaleString();
+    const line = (name: string, group: UsageTotals) =>
+      chalk.gray(name.padEnd(26)) + chalk.white(`${group.calls}`.padStart(6)) + chalk.yellow(cost(group.cost).padStart(12))
+        + chalk.gray(`  ${tokens(group.promptTokens + group.completionTokens)} tokens`)
+        + (group.errors > 0 ? chalk.red(`  ${group.errors} failed`) : "");
+    const breakdown = (title: string, groups: Record<string, UsageTotals>) =>
+      chalk.white.bold(title) + "\n" + Object.entries(groups)
+        .sort(([, a], [, b]) => b.cost - a.cost || b.calls - a.calls)
+        .map(([name, group]) => line(name, group))
+        .join("\n");
+
+    const spentToday = (spent: number, limit: number) => `${cost(spent)} of ${limit > 0 ? cost(limit) : "no budget"}`;
+    const range = report.filter.from || report.filter.to
+      ? `${report.filter.from ?? "start"} to ${report.filter.to ?? "today"}`
+      : "all time";
+
+    const sections = [
+      chalk.white.bold("Overview:") + "\n" +
+      chalk.yellow(`• Calls: ${totals.calls}`) + (totals.errors > 0 ? chalk.red(` (${totals.errors} failed)`) : "") + "\n" +
+      chalk.yellow(`• Tokens: ${tokens(totals.promptTokens)} prompt, ${tokens(totals.completionTokens)} completion`) + "\n" +
+      chalk.yellow(`• Estimated cost: ${cost(totals.cost)}`)
+        + (totals.unpriced > 0 ? chalk.gray(` (${totals.unpriced} calls on models without a price in MODEL_PRICES)`) : "") + "\n" +
+      chalk.yellow(`• Average latency: ${(totals.averageLatencyMs / 1000).toFixed(1)}s`),
+      chalk.white.bold(`Today (${budget.day}, ${budget.mode} mode):`) + "\n" +
+      chalk.yellow(`• Workspace: ${spentToday(budget.spent, budget.budget)}`)
+        + (budget.user ? "\n" + chalk.yellow(`• @${budget.user.username}: ${spentToday(budget.user.spent, budget.user.budget)}`) : "")
+    ];
+
+    if (totals.calls > 0) {
+      sections.push(
+        breakdown("By account:", Object.fromEntries(
+          Object.entries(report.byUser).map(([username, group]) => [username === "-" ? "(no account)" : `@${username}`, group])
+        )),
+        breakdown("By operation:", report.byOperation),
+        breakdown("By model:", report.byModel)
+      );
+    }
+
+    console.log("\n" + boxen(
+      chalk.cyan.bold("💰 Usage & Costs") + chalk.gray(` (${range}, UTC)`) + "\n\n" + sections.join("\n\n"),
+      {
+        padding: 1,
+        margin: 1,
+        borderStyle: "round",
+        borderColor: "yellow"
+      }
+    ));
+  }
+
   static showError(message: string, error?: Error): void {
     console.log("\n" + boxen(
       chalk.red.bold("❌ Error") + "\n\n" +
@@ -1,13 +1,23 @@
 import * as clack from "@clack/prompts";
 import type {
   ActionType,
+  CalendarActionType,
+  CalendarSlot,
+  ContentCalendar,
+  SuggestedSlot,
   SettingsActionType,
   CommunityActionType,
   InstructionsActionType,
   FactsActionType,
+  IdeaFilterActionType,
+  IdeaActionType,
+  IdeaStatus,
+  StoredIdea,
   Community,
+  ReplyKind,
   UserData
 } from "../types";
+import { CalendarUtils } from "../utils/calendar";
 
 export class PromptsUI {
   static async selectAction(): Promise<ActionType> {
@@ -16,8 +26,13 @@ export class PromptsUI {
       options: [
         { value: "analyze", label: "🔍 Analyze a Twitter Profile", hint: "Get AI insights and patterns" },
         { value: "ideas", label: "💡 Generate Post Ideas", hint: "From existing analysis" },
+        { value: "thread", label: "🧵 Generate Threads", hint: "Multi-tweet threads in their style" },
+        { value: "reply", label: "💬 Draft Replies", hint: "Replies and quotes to a tweet" },
+        { value: "compare", label: "⚖️  Compare Accounts", hint: "Benchmark against competitors" },
         { value: "both", label: "🚀 Analyze & Generate", hint: "Complete workflow" },
         { value: "prompt", label: "✨ Generate from Prompt", hint: "Create posts from topic/idea" },
+        { value: "library", label: "📚 Idea Library", hint: "Browse, star and reuse saved ideas" },
+        { value: "calendar", label: "📅 Content Calendar", hint: "Plan when approved ideas go out" },
         { value: "info", label: "👤 View User Info", hint: "Show user data overview" },
         { value: "settings", label: "⚙️  Manage Settings", hint: "Custom instructions & communities" },
         { value: "data", label: "📊 Data Management", hint: "Export, import, and manage data" },
@@ -232,7 +247,9 @@ export class PromptsUI {
       message: "Data Management",
       options: [
         { value: "stats", label: "📈 View Statistics", hint: "Show data usage stats" },
+        { value: "sync", label: "🔄 Sync Posts", hint: "Fetch only new posts into the archive" },
         { value: "export", label: "📤 Export Data", hint: "Export user data" },
+        { value: "usage", label: "💰 Usage & Costs", hint: "Tokens and estimated cost per account" },
         { value: "cleanup", label: "🧹 Cleanup Data", hint: "Remove old or unused data" },
         { value: "list", label: "📋 List Users", hint: "Show all analyzed users" },
         { value: "back", label: "⬅️  Back to Main Menu", hint: "Return to main menu" }
@@ -240,6 +257,139 @@ export class PromptsUI {
     }) as string;
   }
 
+  static async selectIdeaFilter(counts: Record<IdeaStatus, number>): Promise<IdeaFilterActionType> {
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+    return await clack.select({
+      message: "Idea Library",
+      options: [
+        { value: "all", label: `📚 All Ideas (${total})`, hint: "Newest first" },
+        { value: "new", label: `🆕 New (${counts.new})`, hint: "Not reviewed yet" },
+        { value: "starred", label: `⭐ Starred (${counts.starred})`, hint: "Keepers" },
+        { value: "used", label: `✅ Used (${counts.used})`, hint: "Already posted" },
+        { value: "rejected", label: `🚫 Rejected (${counts.rejected})`, hint: "Not a fit" },
+        { value: "search", label: "🔎 Search", hint: "Find ideas by text or prompt" },
+        { value: "back", label: "⬅️  Back to Main Menu", hint: "Return to main menu" }
+      ]
+    }) as IdeaFilterActionType;
+  }
+
+  static async selectIdeaAction(idea: StoredIdea): Promise<IdeaActionType> {
+    const options: { value: IdeaActionType; label: string; hint?: string }[] = [
+      { value: "copy", label: "📋 Copy to Clipboard" }
+    ];
+
+    if (idea.status !== "starred") {
+      options.push({ value: "star", label: "⭐ Star", hint: "Keep for later" });
+    }
+    if (idea.status !== "used") {
+      options.push({ value: "use", label: "✅ Mark as Used", hint: "Already posted" });
+    }
+    if (idea.status !== "rejected") {
+      options.push({ value: "reject", label: "🚫 Reject", hint: "Not a fit" });
+    }
+    if (idea.status !== "new") {
+      options.push({ value: "reset", label: "🆕 Mark as New" });
+    }
+    if (idea.status === "new" || idea.status === "starred") {
+      options.push({
+        value: "schedule",
+        label: "📅 Schedule",
+        hint: idea.scheduledFor ? `Now ${idea.scheduledFor.date} at ${idea.scheduledFor.time}` : "Put it on the calendar"
+      });
+    }
+
+    options.push(
+      { value: "delete", label: "🗑️  Delete", hint: "Remove from the library" },
+      { value: "back", label: "⬅️  Back" }
+    );
+
+    return await clack.select({
+      message: "What would you like to do with this idea?",
+      options
+    }) as IdeaActionType;
+  }
+
+  static async selectCalendarAction(calendar: ContentCalendar): Promise<CalendarActionType> {
+    const options: { value: CalendarActionType; label: string; hint?: string }[] = [
+      { value: "schedule", label: "📅 Schedule an Idea", hint: `${calendar.unscheduled.length} approved ideas waiting` }
+    ];
+
+    if (calendar.entries.length > 0) {
+      options.push({ value: "unschedule", label: "↩️  Unschedule an Idea", hint: "Take it off the calendar" });
+    }
+
+    options.push(
+      { value: "export", label: "📤 Export .ics", hint: "Import into Google Calendar, Outlook or Apple Calendar" },
+      { value: "back", label: "⬅️  Back to Main Menu", hint: "Return to main menu" }
+    );
+
+    return await clack.select({
+      message: "What would you like to do with the calendar?",
+      options
+    }) as CalendarActionType;
+  }
+
+  /**
+   * A suggested slot, or a date and time typed in by hand
+   */
+  static async selectSlot(suggestions: SuggestedSlot[]): Promise<CalendarSlot> {
+    const basisHints: Record<SuggestedSlot["basis"], (slot: SuggestedSlot) => string> = {
+      weekday: slot => `You posted ${slot.postCount}x in this hour on ${this.weekday(slot.date)}s`,
+      overall: slot => `Your busiest hour overall (${slot.postCount} posts)`,
+      default: () => "No posting history yet"
+    };
+
+    const choice = await clack.select({
+      message: "When should it go out?",
+      options: [
+        ...suggestions.slice(0, 7).map((slot, index) => ({
+          value: index.toString(),
+          label: `${this.weekday(slot.date)} ${slot.date} at ${slot.time}`,
+          hint: basisHints[slot.basis](slot)
+        })),
+        { value: "custom", label: "✏️  Pick a date and time", hint: "YYYY-MM-DD and HH:MM" }
+      ]
+    }) as string;
+
+    if (choice !== "custom") {
+      return suggestions[parseInt(choice)]!;
+    }
+
+    const validate = (slot: Partial<CalendarSlot>) => {
+      try {
+        CalendarUtils.validateSlot(slot);
+        return;
+      } catch (error) {
+        return (error as Error).message;
+      }
+    };
+
+    const date = await clack.text({
+      message: "Date (YYYY-MM-DD):",
+      placeholder: suggestions[0]?.date ?? CalendarUtils.formatDate(new Date()),
+      validate: (value) => validate({ date: value.trim(), time: "00:00" })
+    }) as string;
+
+    const time = await clack.text({
+      message: "Time (24-hour HH:MM):",
+      placeholder: suggestions[0]?.time ?? "09:00",
+      validate: (value) => validate({ date: date.trim(), time: value.trim() })
+    }) as string;
+
+    return CalendarUtils.validateSlot({ date: date.trim(), time: time.trim() });
+  }
+
+  static async getSearchInput(): Promise<string> {
+    return await clack.text({
+      message: "Search ideas:",
+      placeholder: "e.g., pricing",
+      validate: (value) => {
+        if (!value || value.trim().length === 0) return "Search text is required";
+      }
+    }) as string;
+  }
+
   static async selectExportFormat(): Promise<'json' | 'csv'> {
     return await clack.select({
       message: "Select export format:",
@@ -280,6 +430,70 @@ export class PromptsUI {
     return parseInt(count);
   }
 
+  static async selectThreadCount(): Promise<number> {
+    const count = await clack.select({
+      message: "How many threads would you like?",
+      options: [
+        { value: "1", label: "1 thread" },
+        { value: "3", label: "3 threads", hint: "Recommended" },
+        { value: "5", label: "5 threads" }
+      ]
+    }) as string;
+
+    return parseInt(count);
+  }
+
+  static async getThreadTopicInput(): Promise<string | undefined> {
+    const topic = await clack.text({
+      message: "Thread topic (leave empty to pick from the analysis):",
+      placeholder: "e.g., 'lessons from our first 100 customers'"
+    }) as string;
+
+    return topic?.trim() || undefined;
+  }
+
+  static async getTweetInput(): Promise<string> {
+    return await clack.text({
+      message: "Paste the tweet's URL or text:",
+      placeholder: "e.g., https://x.com/user/status/1234567890",
+      validate: (value) => {
+        if (!value || value.trim().length === 0) {
+          return "Please enter a tweet URL or text";
+        }
+        return undefined;
+      }
+    }) as string;
+  }
+
+  static async selectReplyMode(): Promise<ReplyKind | 'both'> {
+    return await clack.select({
+      message: "What should be drafted?",
+      options: [
+        { value: "both", label: "💬 Replies and quotes", hint: "A mix of both" },
+        { value: "reply", label: "↩️  Replies only" },
+        { value: "quote", label: "🔁 Quote tweets only" }
+      ]
+    }) as ReplyKind | 'both';
+  }
+
+  /**
+   * The account to benchmark first, then the accounts to compare it with
+   */
+  static async selectAccountsToCompare(users: string[], max: number): Promise<string[]> {
+    const primary = await clack.select({
+      message: "Which account should be benchmarked?",
+      options: users.map(user => ({ value: user, label: `@${user}` }))
+    }) as string;
+
+    const competitors = await clack.multiselect({
+      message: `Compare @${primary} with (up to ${max - 1}):`,
+      options: users.filter(user => user !== primary).map(user => ({ value: user, label: `@${user}` })),
+      required: true
+    }) as string[];
+
+    return [primary, ...competitors.slice(0, max - 1)];
+  }
+
   static async shouldContinue(): Promise<boolean> {
     const result = await clack.confirm({
       message: "Would you like to perform another action?"
@@ -386,9 +600,15 @@ export class PromptsUI {
       message: "Analysis Details Management",
       options: [
         { value: "view", label: "👀 View Analysis Details", hint: hasDetailedData ? "Detailed analysis available" : "Basic analysis available" },
+        { value: "history", label: "🔀 Compare Past Analyses", hint: "See how themes and tone have drifted" },
         { value: "regenerate", label: "🔄 Regenerate Analysis", hint: "Re-analyze to generate fresh insights" },
         { value: "back", label: "⬅️  Back to Settings", hint: "Return to settings menu" }
       ]
     }) as FactsActionType;
   }
+
+  private static weekday(date: string): string {
+    const [year, month, day] = date.split("-").map(Number);
+    return new Date(year!, month! - 1, day!).toLocaleDateString("en-US", { weekday: "short" });
+  }
 }
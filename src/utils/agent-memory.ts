@@ -0,0 +1,86 @@
+import type { AgentMemory, AgentMessage } from "../types";
+
+// Pinned lists are capped so the memory block can't crowd out the conversation; oldest entries go first
+const MAX_PINNED_ITEMS = 20;
+
+export class AgentMemoryUtils {
+  static empty(): AgentMemory {
+    return { summary: "", summarizedCount: 0, pinned: { approvedIdeas: [], notes: [] } };
+  }
+
+  /**
+   * The memory as a section of the agent's system prompt, or an empty string when there is nothing to remember
+   */
+  static toPrompt(memory: AgentMemory): string {
+    const { targetAccount, approvedIdeas, notes } = memory.pinned;
+    const sections: string[] = [];
+
+    if (memory.summary) {
+      sections.push(`Summary of the earlier conversation:\n${memory.summary}`);
+    }
+    if (targetAccount) {
+      sections.push(`Current target account: @${targetAccount}`);
+    }
+    if (approvedIdeas.length > 0) {
+      sections.push(`Ideas the user approved:\n${approvedIdeas.map(idea => `- ${idea}`).join("\n")}`);
+    }
+    if (notes.length > 0) {
+      sections.push(`Pinned notes:\n${notes.map(note => `- ${note}`).join("\n")}`);
+    }
+
+    return sections.length > 0 ? `\n\nCONVERSATION MEMORY:\n${sections.join("\n\n")}` : "";
+  }
+
+  static setTargetAccount(memory: AgentMemory, username: string): void {
+    memory.pinned.targetAccount = username.replace(/^@/, "");
+  }
+
+  /**
+   * Returns false when the idea was already pinned
+   */
+  static addApprovedIdea(memory: AgentMemory, text: string): boolean {
+    return this.addPinned(memory.pinned.approvedIdeas, text);
+  }
+
+  /**
+   * Returns false when the note was already pinned
+   */
+  static addNote(memory: AgentMemory, note: string): boolean {
+    return this.addPinned(memory.pinned.notes, note);
+  }
+
+  /**
+   * Prompt that folds older messages into the running summary
+   */
+  static summaryPrompt(memory: AgentMemory, messages: Pick<AgentMessage, "role" | "content">[]): string {
+    const transcript = messages
+      .map(message => `${message.role === "user" ? "User" : "Postgeist"}: ${message.content}`)
+      .join("\n\n");
+
+    return `You maintain the memory of a conversation between a user and Postgeist,
+an agent for Twitter analysis and content generation.
+
+Update the summary below with the new messages. Keep which accounts were discussed, what the analyses found,
+which ideas were generated and how the user reacted to them, and any preferences or decisions the user stated.
+Drop small talk and tool output details. Write at most 200 words of plain text, no preamble.
+
+CURRENT SUMMARY:
+${memory.summary || "(empty)"}
+
+NEW MESSAGES:
+${transcript}`;
+  }
+
+  private static addPinned(items: string[], value: string): boolean {
+    const trimmed = value.trim();
+    if (!trimmed || items.includes(trimmed)) {
+      return false;
+    }
+
+    items.push(trimmed);
+    if (items.length > MAX_PINNED_ITEMS) {
+      items.splice(0, items.length - MAX_PINNED_ITEMS);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,184 @@
+import type { CalendarSlot, StoredIdea, SuggestedSlot, TwitterPost } from "../types";
+import { TimingAnalytics } from "../analytics/timing";
+
+// Used when an account has no dated posts to learn from
+export const DEFAULT_SLOT_TIME = "09:00";
+
+export const MAX_CALENDAR_DAYS = 62;
+
+// Calendar apps show these as short reminders rather than all-day blocks
+const EVENT_DURATION = "PT15M";
+
+// RFC 5545 folds lines longer than 75 octets; continuation lines spend one of them on the leading space
+const ICS_LINE_OCTETS = 74;
+
+export class CalendarUtils {
+  /**
+   * Local "YYYY-MM-DD" for a date
+   */
+  static formatDate(date: Date): string {
+    return `${date.getFullYear()}-${this.pad(date.getMonth() + 1)}-${this.pad(date.getDate())}`;
+  }
+
+  /**
+   * `days` consecutive local dates starting at `from`
+   */
+  static dateRange(from: string, days: number): string[] {
+    const [year, month, day] = from.split("-").map(Number);
+    return Array.from({ length: days }, (_, offset) => this.formatDate(new Date(year!, month! - 1, day! + offset)));
+  }
+
+  /**
+   * Throws a friendly error unless the slot is a real date and a 24-hour time
+   */
+  static validateSlot(slot: Partial<CalendarSlot>): CalendarSlot {
+    const date = /^(\d{4})-(\d{2})-(\d{2})$/.exec(slot.date ?? "");
+    if (!date || this.formatDate(new Date(+date[1]!, +date[2]! - 1, +date[3]!)) !== slot.date) {
+      throw new Error(`Invalid date "${slot.date ?? ""}". Use YYYY-MM-DD, e.g. 2024-03-18`);
+    }
+
+    const time = /^(\d{1,2}):(\d{2})$/.exec(slot.time ?? "");
+    if (!time || +time[1]! > 23 || +time[2]! > 59) {
+      throw new Error(`Invalid time "${slot.time ?? ""}". Use 24-hour HH:MM, e.g. 09:30`);
+    }
+
+    return { date: slot.date!, time: `${this.pad(+time[1]!)}:${time[2]}` };
+  }
+
+  static compareSlots(a: CalendarSlot, b: CalendarSlot): number {
+    return a.date.localeCompare(b.date) || a.time.localeCompare(b.time);
+  }
+
+  /**
+   * The hours the account posts in most, best first
+   */
+  static preferredTimes(posts: TwitterPost[], limit: number = 3): string[] {
+    const { byHour } = this.histogram(posts);
+    const hours = Array.from(byHour.entries())
+      .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+      .slice(0, limit)
+      .map(([hour]) => `${this.pad(hour)}:00`);
+
+    return hours.length > 0 ? hours : [DEFAULT_SLOT_TIME];
+  }
+
+  /**
+   * One slot per date, at the hour the account posts most on that weekday. Weekdays without
+   * posts fall back to the busiest hour overall, and accounts without dated posts to 09:00.
+   */
+  static suggestSlots(posts: TwitterPost[], dates: string[]): SuggestedSlot[] {
+    const { byHour, byWeekdayHour } = this.histogram(posts);
+
+    // Ties go to the hour that is busier overall, then to the earlier one
+    const busiest = (counts: Map<number, number>) => Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || (byHour.get(b[0]) ?? 0) - (byHour.get(a[0]) ?? 0) || a[0] - b[0])[0];
+
+    const overall = busiest(byHour);
+
+    return dates.map(date => {
+      const [year, month, day] = date.split("-").map(Number);
+      const weekday = new Date(year!, month! - 1, day!).getDay();
+      const best = busiest(byWeekdayHour.get(weekday) ?? new Map());
+
+      if (best) {
+        return { date, time: `${this.pad(best[0])}:00`, postCount: best[1], basis: "weekday" as const };
+      }
+      if (overall) {
+        return { date, time: `${this.pad(overall[0])}:00`, postCount: overall[1], basis: "overall" as const };
+      }
+      return { date, time: DEFAULT_SLOT_TIME, postCount: 0, basis: "default" as const };
+    });
+  }
+
+  /**
+   * iCalendar feed of the scheduled ideas. Times are floating, so calendar apps show them
+   * at the same wall-clock time the calendar was planned in.
+   */
+  static toICS(username: string, ideas: StoredIdea[], now: Date = new Date()): string {
+    const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+    const events = ideas
+      .filter(idea => idea.scheduledFor)
+      .sort((a, b) => this.compareSlots(a.scheduledFor!, b.scheduledFor!))
+      .flatMap(idea => {
+        const { date, time } = idea.scheduledFor!;
+        const summary = idea.text.replace(/\s+/g, " ").trim();
+        return [
+          "BEGIN:VEVENT",
+          `UID:${idea.id}@postgeist`,
+          `DTSTAMP:${stamp}`,
+          `DTSTART:${date.replace(/-/g, "")}T${time.replace(":", "")}00`,
+          `DURATION:${EVENT_DURATION}`,
+          `SUMMARY:${this.escape(summary.length > 60 ? `${summary.slice(0, 59).trimEnd()}…` : summary)}`,
+          `DESCRIPTION:${this.escape(idea.text)}`,
+          ...(idea.community ? [`CATEGORIES:${this.escape(idea.community)}`] : []),
+          "END:VEVENT"
+        ];
+      });
+
+    return [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//Postgeist//Content Calendar//EN",
+      "CALSCALE:GREGORIAN",
+      `X-WR-CALNAME:Postgeist @${username}`,
+      ...events,
+      "END:VCALENDAR"
+    ].map(line => this.fold(line)).join("\r\n") + "\r\n";
+  }
+
+  /**
+   * Own posts per local hour, overall and per weekday
+   */
+  private static histogram(posts: TwitterPost[]) {
+    const byHour = new Map<number, number>();
+    const byWeekdayHour = new Map<number, Map<number, number>>();
+
+    for (const post of posts) {
+      const published = TimingAnalytics.publishedAt(post);
+      if (post.isRetweet || !published) {
+        continue;
+      }
+
+      const hour = published.getHours();
+      const weekday = published.getDay();
+      const hours = byWeekdayHour.get(weekday) ?? new Map<number, number>();
+
+      byHour.set(hour, (byHour.get(hour) ?? 0) + 1);
+      hours.set(hour, (hours.get(hour) ?? 0) + 1);
+      byWeekdayHour.set(weekday, hours);
+    }
+
+    return { byHour, byWeekdayHour };
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+  }
+
+  /**
+   * Split long lines without cutting through a multi-byte character
+   */
+  private static fold(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = "";
+    let octets = 0;
+
+    for (const char of line) {
+      const size = encoder.encode(char).length;
+      if (octets + size > ICS_LINE_OCTETS) {
+        parts.push(current);
+        current = "";
+        octets = 0;
+      }
+      current += char;
+      octets += size;
+    }
+
+    return [...parts, current].join("\r\n ");
+  }
+
+  private static pad(value: number): string {
+    return String(value).padStart(2, "0");
+  }
+}
@@ -161,17 +161,25 @@ export class Utils {
     withoutCommunity: number;
     averageLength: number;
     communities: string[];
+    // Mean quality score of the scored ideas
+    averageQuality: number | null;
+    withIssues: number;
   } {
     const withCommunity = postIdeas.filter(idea => idea.community).length;
     const totalLength = postIdeas.reduce((sum, idea) => sum + idea.text.length, 0);
     const communities = [...new Set(postIdeas.filter(idea => idea.community).map(idea => idea.community!))];
+    const scored = postIdeas.filter(idea => idea.quality);
 
     return {
       total: postIdeas.length,
       withCommunity,
       withoutCommunity: postIdeas.length - withCommunity,
       averageLength: Math.round(totalLength / postIdeas.length),
-      communities: communities.sort()
+      communities: communities.sort(),
+      averageQuality: scored.length > 0
+        ? Math.round(scored.reduce((sum, idea) => sum + idea.quality!.score, 0) / scored.length)
+        : null,
+      withIssues: postIdeas.filter(idea => (idea.quality?.issues.length ?? 0) > 0).length
     };
   }
 
@@ -206,7 +214,7 @@ export class Utils {
    * Show progress for long operations
    */
   static async withProgress<T>(
-    promise: Promise<T>,
+    promise: Promise<T> | ((update: (message: string) => void) => Promise<T>),
     startMessage: string,
     successMessage?: string,
     errorMessage?: string
@@ -215,7 +223,8 @@ export class Utils {
     spinner.start(startMessage);
 
     try {
-      const result = await promise;
+      // Long tasks get a callback that updates the spinner text as they go
+      const result = await (typeof promise === "function" ? promise(message => spinner.message(message)) : promise);
       spinner.stop(successMessage || "✅ Completed!");
       return result;
     } catch (error) {
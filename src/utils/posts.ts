@@ -0,0 +1,136 @@
+import type { Mention, Tweet } from "@the-convocation/twitter-scraper";
+import type { TwitterPost } from "../types";
+import { Utils } from "./index";
+
+/**
+ * Current shape of stored posts.
+ * 1 - text and media only
+ * 2 - ids, timestamps, engagement metrics, reply/retweet/quote flags, urls, hashtags and mentions
+ */
+export const POST_SCHEMA_VERSION = 2;
+
+// Version 1 posts were whole scraper tweets: counts at the top level and mentions as objects
+type LegacyPost = Omit<TwitterPost, "mentions">
+  & Partial<Pick<Tweet, "likes" | "retweets" | "replies" | "views" | "bookmarkCount" | "isQuoted">>
+  & { mentions?: (string | Mention)[] };
+
+export class PostUtils {
+  /**
+   * Normalize a scraped tweet into the stored post shape
+   */
+  static fromTweet(tweet: Tweet): TwitterPost {
+    const text = tweet.text || "";
+
+    return {
+      schemaVersion: POST_SCHEMA_VERSION,
+      id: tweet.id,
+      timestamp: tweet.timestamp,
+      createdAt: tweet.timestamp ? new Date(tweet.timestamp * 1000).toISOString() : undefined,
+      text,
+      permanentUrl: tweet.permanentUrl,
+      conversationId: tweet.conversationId,
+      metrics: {
+        likes: tweet.likes ?? 0,
+        retweets: tweet.retweets ?? 0,
+        replies: tweet.replies ?? 0,
+        views: tweet.views,
+        bookmarks: tweet.bookmarkCount
+      },
+      isReply: !!tweet.isReply,
+      isRetweet: !!tweet.isRetweet,
+      isQuote: !!tweet.isQuoted,
+      isPin: !!tweet.isPin,
+      isSelfThread: !!tweet.isSelfThread,
+      inReplyToStatusId: tweet.inReplyToStatusId,
+      quotedStatusId: tweet.quotedStatusId,
+      urls: tweet.urls ?? [],
+      hashtags: (tweet.hashtags ?? []).map(tag => tag.replace(/^#/, "")),
+      mentions: (tweet.mentions ?? []).map(mention => mention.username).filter((name): name is string => !!name),
+      photos: (tweet.photos ?? []).map(photo => ({ url: photo.url })),
+      videos: (tweet.videos ?? []).filter(video => !!video.url).map(video => ({ url: video.url! }))
+    };
+  }
+
+  /**
+   * Upgrade a stored post to the current schema. Legacy posts kept the scraper's top-level
+   * counts, which become metrics; flags, hashtags, mentions and urls the tweet didn't carry
+   * are recovered from the text where possible.
+   */
+  static migrate(post: TwitterPost): TwitterPost {
+    if ((post.schemaVersion ?? 1) >= POST_SCHEMA_VERSION) {
+      return post;
+    }
+
+    const { likes, retweets, replies, views, bookmarkCount, isQuoted, mentions, ...rest } = post as LegacyPost;
+    const text = rest.text || "";
+    const hasCounts = [likes, retweets, replies, views].some(count => typeof count === "number");
+
+    return {
+      ...rest,
+      schemaVersion: POST_SCHEMA_VERSION,
+      text,
+      createdAt: rest.createdAt ?? (rest.timestamp ? new Date(rest.timestamp * 1000).toISOString() : undefined),
+      metrics: rest.metrics ?? (hasCounts
+        ? { likes: likes ?? 0, retweets: retweets ?? 0, replies: replies ?? 0, views, bookmarks: bookmarkCount }
+        : undefined),
+      isReply: rest.isReply ?? text.startsWith("@"),
+      isRetweet: rest.isRetweet ?? text.startsWith("RT @"),
+      isQuote: rest.isQuote ?? !!isQuoted,
+      urls: rest.urls ?? (text.match(/https?:\/\/\S+/g) || []),
+      hashtags: (rest.hashtags ?? Utils.extractHashtags(text)).map(tag => tag.replace(/^#/, "")),
+      mentions: mentions
+        ? mentions
+          .map(mention => (typeof mention === "string" ? mention : mention.username))
+          .filter((name): name is string => !!name)
+        : Utils.extractMentions(text).map(mention => mention.slice(1))
+    };
+  }
+
+  /**
+   * The tweet id (and author, for URLs) in a twitter.com / x.com status URL or a bare tweet id
+   */
+  static parseTweetReference(input: string): { id: string; username?: string } | null {
+    const trimmed = input.trim();
+    const url = trimmed.match(
+      /^(?:https?:\/\/)?(?:www\.|mobile\.)?(?:twitter|x)\.com\/([A-Za-z0-9_]{1,15})\/status(?:es)?\/(\d+)\/?(?:[?#]\S*)?$/i
+    );
+    if (url) {
+      return { id: url[2]!, username: url[1] };
+    }
+
+    return /^\d{10,20}$/.test(trimmed) ? { id: trimmed } : null;
+  }
+
+  static needsMigration(posts: TwitterPost[]): boolean {
+    return posts.some(post => (post.schemaVersion ?? 1) < POST_SCHEMA_VERSION);
+  }
+
+  /**
+   * One line per post for LLM prompts, prefixed with publish time and metrics when known
+   */
+  static formatForPrompt(post: TwitterPost, index: number): string {
+    const details: string[] = [];
+
+    if (post.timestamp) {
+      const date = new Date(post.timestamp * 1000);
+      const weekday = date.toLocaleDateString("en-US", { weekday: "short", timeZone: "UTC" });
+      details.push(`${weekday} ${date.toISOString().slice(0, 16).replace("T", " ")} UTC`);
+    }
+
+    if (post.metrics) {
+      const { likes, retweets, replies, views } = post.metrics;
+      details.push(`${likes} likes, ${retweets} reposts, ${replies} replies${views !== undefined ? `, ${views} views` : ""}`);
+    }
+
+    if (post.isRetweet) {
+      details.push("repost");
+    } else if (post.isReply) {
+      details.push("reply");
+    } else if (post.isQuote) {
+      details.push("quote");
+    }
+
+    const prefix = details.length > 0 ? `[${details.join(" | ")}] ` : "";
+    return `${index + 1}. ${prefix}${post.text}`;
+  }
+}
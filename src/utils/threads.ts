@@ -0,0 +1,123 @@
+import type { ThreadNumberingStyle, ThreadStyle, ThreadTweet, TwitterPost } from "../types";
+
+export const MAX_TWEET_LENGTH = 280;
+
+// Threads are capped so the numbering never needs more than two digits
+export const MIN_THREAD_TWEETS = 3;
+export const MAX_THREAD_TWEETS = 12;
+
+// Accounts without threads of their own get "1/5"-style numbering at the end of each tweet
+const DEFAULT_STYLE: ThreadStyle = { numbering: "fraction", position: "end", sampleSize: 0 };
+
+const HOOK_MARKERS = ["🧵", "👇", "⬇️"];
+
+const NUMBERING_PATTERNS: { numbering: ThreadNumberingStyle; position: ThreadStyle["position"]; pattern: RegExp }[] = [
+  { numbering: "fraction", position: "start", pattern: /^\(?\d{1,2}\s?\/\s?\d{1,2}\)?[\s.:]+/ },
+  { numbering: "fraction", position: "end", pattern: /\s+\(?\d{1,2}\s?\/\s?\d{1,2}\)?$/ },
+  { numbering: "slash", position: "start", pattern: /^\d{1,2}\/\s+/ },
+  { numbering: "slash", position: "end", pattern: /\s+\d{1,2}\/$/ },
+  { numbering: "dot", position: "start", pattern: /^\d{1,2}[.)]\s+/ }
+];
+
+export class ThreadUtils {
+  /**
+   * The account's own threads: posts sharing a conversation, at least one flagged as a self-thread,
+   * oldest tweet first
+   */
+  static findThreads(posts: TwitterPost[]): TwitterPost[][] {
+    const conversations = new Map<string, TwitterPost[]>();
+    for (const post of posts) {
+      if (post.conversationId && !post.isRetweet) {
+        conversations.set(post.conversationId, [...(conversations.get(post.conversationId) ?? []), post]);
+      }
+    }
+
+    return Array.from(conversations.values())
+      .filter(thread => thread.length >= 2 && thread.some(post => post.isSelfThread))
+      .map(thread => [...thread].sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0)));
+  }
+
+  /**
+   * Learn numbering and hook markers from the account's own threads, by majority vote over their tweets
+   */
+  static learnStyle(posts: TwitterPost[]): ThreadStyle {
+    const threads = this.findThreads(posts);
+    if (threads.length === 0) {
+      return { ...DEFAULT_STYLE };
+    }
+
+    const votes = new Map<string, number>();
+    for (const post of threads.flat()) {
+      const match = NUMBERING_PATTERNS.find(({ pattern }) => pattern.test(post.text.trim()));
+      const key = match ? `${match.numbering}:${match.position}` : "none:end";
+      votes.set(key, (votes.get(key) ?? 0) + 1);
+    }
+
+    const [winner] = Array.from(votes.entries()).sort((a, b) => b[1] - a[1])[0]!;
+    const [numbering, position] = winner.split(":") as [ThreadNumberingStyle, ThreadStyle["position"]];
+    const hookMarker = HOOK_MARKERS.find(marker =>
+      threads.filter(thread => thread[0]!.text.includes(marker)).length * 2 >= threads.length
+    );
+
+    return { numbering, position, hookMarker, sampleSize: threads.length };
+  }
+
+  /**
+   * Characters each tweet may use before numbering and the hook marker are added
+   */
+  static maxTweetLength(style: ThreadStyle): number {
+    const numbering = style.numbering === "none" ? "" : ` ${this.label(MAX_THREAD_TWEETS, MAX_THREAD_TWEETS, style.numbering)}`;
+    const marker = style.hookMarker ? ` ${style.hookMarker}` : "";
+    return MAX_TWEET_LENGTH - numbering.length - marker.length;
+  }
+
+  /**
+   * Number the tweets in the account's style, replacing any numbering the model added itself
+   */
+  static format(tweets: ThreadTweet[], style: ThreadStyle): ThreadTweet[] {
+    return tweets.map((tweet, index) => {
+      let text = this.stripNumbering(tweet.text);
+      if (index === 0 && style.hookMarker && !text.includes(style.hookMarker)) {
+        text = `${text} ${style.hookMarker}`;
+      }
+
+      if (style.numbering !== "none") {
+        const label = this.label(index + 1, tweets.length, style.numbering);
+        text = style.position === "start" ? `${label} ${text}` : `${text} ${label}`;
+      }
+
+      return { ...tweet, text };
+    });
+  }
+
+  static stripNumbering(text: string): string {
+    return NUMBERING_PATTERNS.reduce((stripped, { pattern }) => stripped.replace(pattern, ""), text.trim()).trim();
+  }
+
+  static toText(tweets: ThreadTweet[]): string {
+    return tweets.map(tweet => tweet.text).join("\n\n");
+  }
+
+  /**
+   * Human-readable description for prompts and the CLI, e.g. `"1/5" at the end of each tweet`
+   */
+  static describeStyle(style: ThreadStyle): string {
+    const numbering = style.numbering === "none"
+      ? "no numbering"
+      : `"${this.label(1, 5, style.numbering)}" at the ${style.position} of each tweet`;
+    const marker = style.hookMarker ? `, hook ends with ${style.hookMarker}` : "";
+    const source = style.sampleSize > 0 ? `learned from ${style.sampleSize} of their threads` : "default, no threads of their own yet";
+    return `${numbering}${marker} (${source})`;
+  }
+
+  private static label(index: number, total: number, numbering: Exclude<ThreadNumberingStyle, "none">): string {
+    switch (numbering) {
+      case "fraction":
+        return `${index}/${total}`;
+      case "slash":
+        return `${index}/`;
+      case "dot":
+        return `${index}.`;
+    }
+  }
+}